@@ -11,10 +11,11 @@ export {
     PluginDoc,
     PluginReturn,
     PluginData,
+    InstallCollectionOptions,
 } from './services/CollectionsService';
 
-export { CommandService, getCommandService } from './services/CommandService';
-export type { CommandOptions, ExecResult } from './services/CommandService';
+export { CommandService, getCommandService, SpawnedProcess } from './services/CommandService';
+export type { CommandOptions, ExecResult, SpawnOptions, SpawnResult } from './services/CommandService';
 
 export { CreatorService } from './services/CreatorService';
 export type { ParameterSchema, SchemaNode } from './services/CreatorService';
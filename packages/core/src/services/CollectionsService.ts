@@ -29,6 +29,7 @@ interface CollectionsCache {
 }
 
 import { PythonEnvironmentApi } from '../types/pythonEnvApi';
+import type { ExecutionEnvironment } from './ExecutionEnvService';
 
 /**
  * Information about an Ansible collection
@@ -58,6 +59,19 @@ export interface CollectionData {
     pluginTypes: Map<string, PluginInfo[]>;
 }
 
+/**
+ * Deprecation notice of a plugin or of one of its options
+ */
+export interface PluginDeprecation {
+    why?: string;
+    alternative?: string;
+    alternatives?: string;
+    removed_in?: string;
+    removed_at_date?: string;
+    version?: string;
+    date?: string;
+}
+
 /**
  * Plugin documentation option
  */
@@ -71,6 +85,9 @@ export interface PluginOption {
     aliases?: string[];
     suboptions?: { [key: string]: PluginOption };
     version_added?: string;
+    deprecated?: PluginDeprecation;
+    /** Variables setting the option, documented for non-module plugins */
+    vars?: Array<{ name: string; version_added?: string }>;
 }
 
 /**
@@ -83,12 +100,17 @@ export interface PluginDoc {
     short_description?: string;
     module?: string;
     plugin_name?: string;
+    filename?: string;
     version_added?: string;
     notes?: string | string[];
     options?: { [key: string]: PluginOption };
     seealso?: Array<{ module?: string; description?: string; link?: string; name?: string }>;
     requirements?: string | string[];
     attributes?: { [key: string]: unknown };
+    mutually_exclusive?: string[][];
+    required_together?: string[][];
+    required_one_of?: string[][];
+    deprecated?: PluginDeprecation;
 }
 
 /**
@@ -114,6 +136,16 @@ export interface PluginData {
     metadata?: unknown;
 }
 
+/**
+ * Options for installing a collection
+ */
+export interface InstallCollectionOptions {
+    /** Cancels the installation when aborted */
+    signal?: AbortSignal;
+    /** Receives each line of output of the installer while it runs */
+    onOutput?: (line: string) => void;
+}
+
 // Internal types for parsing
 interface MetadataDoc {
     plugin_name?: string;
@@ -123,6 +155,9 @@ interface MetadataDoc {
 
 interface MetadataEntry {
     doc?: MetadataDoc;
+    examples?: string;
+    return?: PluginReturn;
+    metadata?: unknown;
 }
 
 interface MetadataPluginTypes {
@@ -286,21 +321,48 @@ function cacheToCollectionsMap(cache: CollectionsCache): Map<string, CollectionD
     return collections;
 }
 
+/**
+ * Parse the output of `ansible-doc --metadata-dump`, skipping warnings printed before the JSON
+ */
+function parseMetadataDump(output: string): MetadataDump | null {
+    const jsonStart = output.indexOf('{');
+    if (jsonStart === -1) {
+        console.error('CollectionsService: No JSON found in ansible-doc output');
+        console.error('Output starts with:', output.substring(0, 100));
+        return null;
+    }
+    
+    const jsonStr = output.substring(jsonStart);
+    try {
+        return JSON.parse(jsonStr) as MetadataDump;
+    } catch (parseError) {
+        console.error('CollectionsService: Failed to parse ansible-doc JSON');
+        console.error('JSON starts with:', jsonStr.substring(0, 200));
+        throw parseError;
+    }
+}
+
 /**
  * Service for managing Ansible collections and plugin documentation.
  * This service works both in VS Code and standalone (for MCP server).
  */
 export class CollectionsService {
     private static _instance: CollectionsService | undefined;
+    private static _executionEnvInstances: Map<string, CollectionsService> = new Map();
+    private _executionEnvironment: ExecutionEnvironment | undefined;
+    private _executionEnvDocs: Map<string, PluginData> = new Map();
+    private _executionEnvLoad: Promise<void> | undefined;
     private _pythonEnvApi: PythonEnvironmentApi | undefined;
     private _collections: Map<string, CollectionData> = new Map();
+    private _pluginDocs: Map<string, Promise<PluginData | null>> = new Map();
     private _loading: boolean = false;
     private _loaded: boolean = false;
     private _backgroundRefreshing: boolean = false;
     private _onDidChange: SimpleEventEmitter<void> | { fire: () => void; event: unknown };
     public readonly onDidChange: unknown;
 
-    private constructor() {
+    private constructor(executionEnvironment?: ExecutionEnvironment) {
+        this._executionEnvironment = executionEnvironment;
         // Use VS Code EventEmitter if available, otherwise use simple implementation
         if (vscode) {
             const emitter = new vscode.EventEmitter<void>();
@@ -320,6 +382,53 @@ export class CollectionsService {
         return CollectionsService._instance;
     }
 
+    /**
+     * Get the service for the collections inside an execution environment image.
+     * Instances are cached per image id, so a retagged image is loaded again.
+     */
+    public static forExecutionEnvironment(executionEnvironment: ExecutionEnvironment): CollectionsService {
+        let instance = CollectionsService._executionEnvInstances.get(executionEnvironment.image_id);
+        if (!instance) {
+            instance = new CollectionsService(executionEnvironment);
+            CollectionsService._executionEnvInstances.set(executionEnvironment.image_id, instance);
+        }
+        return instance;
+    }
+
+    /**
+     * Get the execution environment this service reads collections from, if any
+     */
+    public getExecutionEnvironment(): ExecutionEnvironment | undefined {
+        return this._executionEnvironment;
+    }
+
+    /**
+     * Load the collections and plugin documentation of the execution environment.
+     * The container is only run once; a failed load is retried on the next call.
+     */
+    public loadExecutionEnvironment(): Promise<void> {
+        if (!this._executionEnvironment) {
+            return Promise.resolve();
+        }
+        if (!this._executionEnvLoad) {
+            this._loading = true;
+            this._executionEnvLoad = this._doFullLoad()
+                .then(() => {
+                    this._loaded = true;
+                    this._log(`Loaded ${this._collections.size} collections from ${this._executionEnvironment?.full_name}`);
+                })
+                .catch((error) => {
+                    this._executionEnvLoad = undefined;
+                    this._log(`Failed to load execution environment collections: ${error}`);
+                })
+                .finally(() => {
+                    this._loading = false;
+                    (this._onDidChange as { fire: () => void }).fire();
+                });
+        }
+        return this._executionEnvLoad;
+    }
+
     /**
      * Check if running in VS Code
      */
@@ -440,6 +549,10 @@ export class CollectionsService {
      * - Never blanks the view - keeps existing data visible during refresh
      */
     public async refresh(): Promise<void> {
+        if (this._executionEnvironment) {
+            // Image contents never change for an image id, the cache is never stale
+            return this.loadExecutionEnvironment();
+        }
         if (this._loading) {
             this._log('Refresh skipped - already loading');
             return;
@@ -486,6 +599,10 @@ export class CollectionsService {
      * Use this when you need the absolute latest collection data
      */
     public async forceRefresh(): Promise<void> {
+        if (this._executionEnvironment) {
+            this._executionEnvLoad = undefined;
+            return this.loadExecutionEnvironment();
+        }
         this._log('Force refresh requested - doing full load');
         this._loading = true;
         (this._onDidChange as { fire: () => void }).fire();
@@ -511,6 +628,12 @@ export class CollectionsService {
     private async _doFullLoad(): Promise<void> {
         // Clear and load fresh
         this._collections.clear();
+        this._pluginDocs.clear();
+        
+        if (this._executionEnvironment) {
+            await this._loadCollectionsFromExecutionEnvironment(this._executionEnvironment);
+            return;
+        }
         
         if (vscode) {
             await this.initialize();
@@ -561,6 +684,7 @@ export class CollectionsService {
             // Now swap atomically after load is complete
             const newCount = tempCollections.size;
             this._collections = tempCollections;
+            this._pluginDocs.clear();
             
             this._log(`Background refresh complete: ${oldCount} -> ${newCount} collections`);
             
@@ -594,8 +718,37 @@ export class CollectionsService {
 
     /**
      * Get detailed documentation for a specific plugin
+     * Results are cached until the collections are reloaded; lookups that
+     * find nothing or fail are retried on the next request
      */
-    public async getPluginDocumentation(pluginFullName: string, pluginType: string): Promise<PluginData | null> {
+    public getPluginDocumentation(pluginFullName: string, pluginType: string): Promise<PluginData | null> {
+        const key = `${pluginType}:${pluginFullName}`;
+        let pluginDoc = this._pluginDocs.get(key);
+        if (!pluginDoc) {
+            const loading = this._loadPluginDocumentation(pluginFullName, pluginType);
+            this._pluginDocs.set(key, loading);
+            const evict = () => {
+                if (this._pluginDocs.get(key) === loading) {
+                    this._pluginDocs.delete(key);
+                }
+            };
+            loading.then((doc) => {
+                if (!doc) {
+                    evict();
+                }
+            }, evict);
+            pluginDoc = loading;
+        }
+        return pluginDoc;
+    }
+
+    private async _loadPluginDocumentation(pluginFullName: string, pluginType: string): Promise<PluginData | null> {
+        if (this._executionEnvironment) {
+            // The metadata dump of the image already holds the full documentation
+            await this.loadExecutionEnvironment();
+            return this._executionEnvDocs.get(`${pluginType}:${pluginFullName}`) || null;
+        }
+
         const typeFlag = this._getTypeFlag(pluginType);
         
         const { getCommandService } = await import('./CommandService');
@@ -634,8 +787,14 @@ export class CollectionsService {
      * @param collectionName - FQCN of the collection (e.g., "community.docker")
      * @param version - Optional version to install (e.g., "1.0.0")
      * @param force - If true, force reinstall/upgrade
+     * @param options - Cancellation and progress reporting
      */
-    public async installCollection(collectionName: string, version?: string, force?: boolean): Promise<string> {
+    public async installCollection(
+        collectionName: string,
+        version?: string,
+        force?: boolean,
+        options: InstallCollectionOptions = {}
+    ): Promise<string> {
         const { getCommandService } = await import('./CommandService');
         const commandService = getCommandService();
         
@@ -648,8 +807,16 @@ export class CollectionsService {
             args.push('--force');
         }
         
-        const result = await commandService.runTool('ade', args);
+        const install = commandService.spawnTool('ade', args, { signal: options.signal });
+        if (options.onOutput) {
+            install.onStdoutLine(options.onOutput);
+            install.onStderrLine(options.onOutput);
+        }
+        const result = await install.result;
         
+        if (result.aborted) {
+            throw new Error(`Installation of ${collectionName} was cancelled`);
+        }
         if (result.exitCode === 0) {
             // Trigger a refresh to pick up the newly installed collection
             // This will fire onDidChange event to notify consumers (e.g., PluginSearchIndex)
@@ -817,7 +984,7 @@ export class CollectionsService {
             // Set ANSIBLE_COLLECTIONS_PATH=. to isolate to workspace
             // ansible-doc still finds venv site-packages collections via Python's sys.path
             // This prevents picking up stray collections from ~/.ansible/collections
-            const ansibleDocPromise = commandService.runTool(
+            const ansibleDocPromise = commandService.spawnTool(
                 'ansible-doc', 
                 ['--metadata-dump', '--no-fail-on-errors'],
                 { 
@@ -825,10 +992,9 @@ export class CollectionsService {
                         ANSIBLE_COLLECTIONS_PATH: '.', 
                         ANSIBLE_WARNINGS: 'false', 
                         ANSIBLE_NOCOLOR: '1' 
-                    },
-                    maxBuffer: 50 * 1024 * 1024 
+                    }
                 }
-            );
+            ).result;
 
             // Wait for both to complete
             const [adeData, ansibleDocResult] = await Promise.all([adePromise, ansibleDocPromise]);
@@ -850,87 +1016,128 @@ export class CollectionsService {
                 }
             }
 
-            // Find the start of JSON (ansible-doc might output warnings before the JSON)
-            const jsonStart = result.indexOf('{');
-            if (jsonStart === -1) {
-                console.error('CollectionsService: No JSON found in ansible-doc output');
-                console.error('Output starts with:', result.substring(0, 100));
+            const metadata = parseMetadataDump(result);
+            if (!metadata) {
                 return;
             }
-            
-            const jsonStr = result.substring(jsonStart);
-
-            // Parse the JSON output
-            let metadata: MetadataDump;
-            try {
-                metadata = JSON.parse(jsonStr);
-            } catch (parseError) {
-                console.error('CollectionsService: Failed to parse ansible-doc JSON');
-                console.error('JSON starts with:', jsonStr.substring(0, 200));
-                throw parseError;
-            }
+            this._addMetadataPlugins(metadata, collections, collectionInfoMap);
+        } catch (error) {
+            console.error('CollectionsService: Failed to load collections:', error);
+            throw error;
+        }
+    }
 
-            if (!metadata.all) {
-                return;
-            }
+    /**
+     * Load collections from inside an execution environment image.
+     * Collection versions come from the image details, plugins and their full
+     * documentation from `ansible-doc --metadata-dump` run in the container.
+     * @param executionEnvironment - Image to inspect
+     */
+    private async _loadCollectionsFromExecutionEnvironment(executionEnvironment: ExecutionEnvironment): Promise<void> {
+        const { getCommandService } = await import('./CommandService');
+        const { ExecutionEnvService } = await import('./ExecutionEnvService');
+        const commandService = getCommandService();
+        const image = executionEnvironment.full_name;
+
+        const [details, result] = await Promise.all([
+            ExecutionEnvService.getInstance().loadDetails(image).catch(() => null),
+            commandService.spawnTool(
+                'ansible-navigator',
+                [
+                    'exec', '--mode', 'stdout', '--pull-policy', 'never',
+                    '--execution-environment', 'true', '--execution-environment-image', image,
+                    '--', 'ansible-doc', '--metadata-dump', '--no-fail-on-errors'
+                ],
+                { env: { ANSIBLE_NOCOLOR: '1' } }
+            ).result
+        ]);
+
+        const metadata = parseMetadataDump(result.stdout);
+        if (!metadata) {
+            throw new Error(`ansible-doc failed in ${image}: ${result.stderr}`);
+        }
 
-            // Use a Set to track unique plugins globally
-            const seenPlugins = new Set<string>();
+        const collectionInfoMap = new Map<string, CollectionInfo>();
+        for (const [name, version] of Object.entries(details?.ansible_collections?.details ?? {})) {
+            collectionInfoMap.set(name, { name, version, authors: [], description: '' });
+        }
 
-            // Process each plugin type
-            for (const [pluginType, plugins] of Object.entries(metadata.all)) {
-                for (const [fullName, pluginData] of Object.entries(plugins)) {
-                    const doc = pluginData.doc;
-                    if (!doc) { continue; }
+        this._executionEnvDocs.clear();
+        this._addMetadataPlugins(metadata, this._collections, collectionInfoMap);
+        for (const [pluginType, plugins] of Object.entries(metadata.all ?? {})) {
+            for (const [fullName, entry] of Object.entries(plugins)) {
+                if (entry.doc) {
+                    this._executionEnvDocs.set(`${pluginType}:${fullName}`, entry as PluginData);
+                }
+            }
+        }
+    }
 
-                    const collectionName = doc.collection || 'unknown';
-                    const pluginName = doc.plugin_name?.split('.').pop() || fullName.split('.').pop() || fullName;
-                    const shortDescription = doc.short_description || '';
+    /**
+     * Add the plugins of an `ansible-doc --metadata-dump` output to a collections map
+     */
+    private _addMetadataPlugins(
+        metadata: MetadataDump,
+        collections: Map<string, CollectionData>,
+        collectionInfoMap: Map<string, CollectionInfo>
+    ): void {
+        if (!metadata.all) {
+            return;
+        }
 
-                    // Create unique key to prevent duplicates
-                    const uniqueKey = `${collectionName}:${pluginType}:${fullName}`;
-                    if (seenPlugins.has(uniqueKey)) {
-                        continue;
-                    }
-                    seenPlugins.add(uniqueKey);
-
-                    // Get or create collection
-                    if (!collections.has(collectionName)) {
-                        const info = collectionInfoMap.get(collectionName) || {
-                            name: collectionName,
-                            version: '',
-                            authors: [],
-                            description: ''
-                        };
-                        collections.set(collectionName, {
-                            info,
-                            pluginTypes: new Map()
-                        });
-                    }
-                    const collection = collections.get(collectionName)!;
+        // Use a Set to track unique plugins globally
+        const seenPlugins = new Set<string>();
 
-                    // Get or create plugin type
-                    if (!collection.pluginTypes.has(pluginType)) {
-                        collection.pluginTypes.set(pluginType, []);
-                    }
+        // Process each plugin type
+        for (const [pluginType, plugins] of Object.entries(metadata.all)) {
+            for (const [fullName, pluginData] of Object.entries(plugins)) {
+                const doc = pluginData.doc;
+                if (!doc) { continue; }
+
+                const collectionName = doc.collection || 'unknown';
+                const pluginName = doc.plugin_name?.split('.').pop() || fullName.split('.').pop() || fullName;
+                const shortDescription = doc.short_description || '';
 
-                    collection.pluginTypes.get(pluginType)!.push({
-                        name: pluginName,
-                        fullName: fullName,
-                        shortDescription: shortDescription
+                // Create unique key to prevent duplicates
+                const uniqueKey = `${collectionName}:${pluginType}:${fullName}`;
+                if (seenPlugins.has(uniqueKey)) {
+                    continue;
+                }
+                seenPlugins.add(uniqueKey);
+
+                // Get or create collection
+                if (!collections.has(collectionName)) {
+                    const info = collectionInfoMap.get(collectionName) || {
+                        name: collectionName,
+                        version: '',
+                        authors: [],
+                        description: ''
+                    };
+                    collections.set(collectionName, {
+                        info,
+                        pluginTypes: new Map()
                     });
                 }
-            }
+                const collection = collections.get(collectionName)!;
 
-            // Sort plugins within each type
-            for (const collection of collections.values()) {
-                for (const plugins of collection.pluginTypes.values()) {
-                    plugins.sort((a, b) => a.name.localeCompare(b.name));
+                // Get or create plugin type
+                if (!collection.pluginTypes.has(pluginType)) {
+                    collection.pluginTypes.set(pluginType, []);
                 }
+
+                collection.pluginTypes.get(pluginType)!.push({
+                    name: pluginName,
+                    fullName: fullName,
+                    shortDescription: shortDescription
+                });
+            }
+        }
+
+        // Sort plugins within each type
+        for (const collection of collections.values()) {
+            for (const plugins of collection.pluginTypes.values()) {
+                plugins.sort((a, b) => a.name.localeCompare(b.name));
             }
-        } catch (error) {
-            console.error('CollectionsService: Failed to load collections:', error);
-            throw error;
         }
     }
 }
@@ -19,6 +19,7 @@ try {
 }
 
 import { getCachedBinDir, getCachedToolPath, findExecutableWithCache } from './EnvironmentCache';
+import { SimpleEventEmitter } from '../utils/SimpleEventEmitter';
 
 const execAsync = promisify(cp.exec);
 
@@ -39,6 +40,138 @@ export interface ExecResult {
     exitCode: number;
 }
 
+export interface SpawnOptions {
+    /** Working directory for the command */
+    cwd?: string;
+    /** Additional environment variables */
+    env?: Record<string, string>;
+    /** Timeout in milliseconds, after which the process is terminated */
+    timeout?: number;
+    /** Terminates the process when aborted */
+    signal?: AbortSignal;
+}
+
+export interface SpawnResult extends ExecResult {
+    /** Signal that terminated the process, or null if it exited by itself */
+    signal: NodeJS.Signals | null;
+    /** Whether the process was terminated through the abort signal */
+    aborted: boolean;
+    /** Run time in milliseconds */
+    duration: number;
+}
+
+/** Resolved executable and arguments of a process to spawn */
+interface SpawnSpec {
+    command: string;
+    args: string[];
+    options: cp.SpawnOptions;
+}
+
+/**
+ * A process started with an argv array, without a shell.
+ * Output is streamed line by line while the process runs, and buffered
+ * in full for the result.
+ */
+export class SpawnedProcess {
+    private _onStdoutLine = new SimpleEventEmitter<string>();
+    private _onStderrLine = new SimpleEventEmitter<string>();
+
+    /** Fired for each line written to stdout */
+    public readonly onStdoutLine = this._onStdoutLine.event;
+    /** Fired for each line written to stderr */
+    public readonly onStderrLine = this._onStderrLine.event;
+    /** Settles when the process exits; never rejects */
+    public readonly result: Promise<SpawnResult>;
+
+    constructor(
+        start: Promise<SpawnSpec | ExecResult>,
+        signal?: AbortSignal
+    ) {
+        this.result = start
+            .then((spec) => ('exitCode' in spec ? { ...spec, signal: null, aborted: false, duration: 0 } : this._run(spec, signal)))
+            .catch((error: unknown) => ({
+                stdout: '',
+                stderr: error instanceof Error ? error.message : String(error),
+                exitCode: 1,
+                signal: null,
+                aborted: false,
+                duration: 0
+            }));
+    }
+
+    private _run(
+        spec: SpawnSpec,
+        abortSignal?: AbortSignal
+    ): Promise<SpawnResult> {
+        const started = Date.now();
+        if (abortSignal?.aborted) {
+            return Promise.resolve({
+                stdout: '', stderr: 'Cancelled', exitCode: 1, signal: null, aborted: true, duration: 0
+            });
+        }
+
+        return new Promise((resolve) => {
+            const stdout = new LineCollector((line) => this._onStdoutLine.fire(line));
+            const stderr = new LineCollector((line) => this._onStderrLine.fire(line));
+            let aborted = false;
+            let spawnError: Error | undefined;
+
+            const child = cp.spawn(spec.command, spec.args, { ...spec.options, stdio: ['ignore', 'pipe', 'pipe'] });
+            const onAbort = () => {
+                aborted = true;
+                child.kill('SIGTERM');
+            };
+            abortSignal?.addEventListener('abort', onAbort, { once: true });
+
+            // Decode as text so multi-byte characters split across chunks stay intact
+            child.stdout?.setEncoding('utf8');
+            child.stderr?.setEncoding('utf8');
+            child.stdout?.on('data', (chunk: string) => stdout.push(chunk));
+            child.stderr?.on('data', (chunk: string) => stderr.push(chunk));
+            child.on('error', (error) => {
+                spawnError = error;
+            });
+            child.on('close', (code, exitSignal) => {
+                abortSignal?.removeEventListener('abort', onAbort);
+                stdout.end();
+                stderr.end();
+                resolve({
+                    stdout: stdout.text.trim(),
+                    stderr: stderr.text.trim() || spawnError?.message || '',
+                    exitCode: spawnError ? 1 : code ?? 1,
+                    signal: exitSignal,
+                    aborted,
+                    duration: Date.now() - started
+                });
+            });
+        });
+    }
+}
+
+/**
+ * Accumulates the output of a stream and splits it into lines
+ */
+class LineCollector {
+    public text = '';
+    private _partial = '';
+
+    constructor(private _onLine: (line: string) => void) {}
+
+    public push(chunk: string): void {
+        this.text += chunk;
+        const lines = (this._partial + chunk).split(/\r?\n/);
+        this._partial = lines.pop() ?? '';
+        lines.forEach((line) => this._onLine(line));
+    }
+
+    public end(): void {
+        if (this._partial) {
+            this._onLine(this._partial);
+            this._partial = '';
+        }
+    }
+}
+
 /**
  * CommandService - singleton for running commands with venv awareness
  */
@@ -165,6 +298,38 @@ export class CommandService {
         return this.runCommand(command, options);
     }
 
+    /**
+     * Spawn a tool from the venv with an argv array, without a shell.
+     * Unlike runTool, output is streamed while the process runs, is not
+     * limited in size, and the process can be cancelled with an AbortSignal.
+     */
+    public spawnTool(
+        toolName: string,
+        args: string[],
+        options: SpawnOptions = {}
+    ): SpawnedProcess {
+        const start = (async (): Promise<SpawnSpec | ExecResult> => {
+            const toolPath = await this.getToolPath(toolName);
+            if (!toolPath) {
+                return {
+                    stdout: '',
+                    stderr: `Tool '${toolName}' not found. Install ansible-dev-tools first.`,
+                    exitCode: 1
+                };
+            }
+            return {
+                command: toolPath,
+                args,
+                options: {
+                    cwd: options.cwd || this.getWorkspaceRoot() || process.cwd(),
+                    timeout: options.timeout,
+                    env: await this._getEnv(options.env)
+                }
+            };
+        })();
+        return new SpawnedProcess(start, options.signal);
+    }
+
     /**
      * Run a raw command string
      */
@@ -174,26 +339,14 @@ export class CommandService {
     ): Promise<ExecResult> {
         const cwd = options.cwd || this.getWorkspaceRoot() || process.cwd();
         const maxBuffer = options.maxBuffer || 10 * 1024 * 1024; // 10MB default
-        
-        // Merge environment with venv's bin in PATH
-        const binDir = await this.getBinDir();
-        const processPath = process.env.PATH;
-        const envPath = binDir 
-            ? `${binDir}${path.delimiter}${processPath}`
-            : processPath;
-
-        const env: Record<string, string | undefined> = {
-            ...process.env,
-            PATH: envPath,
-            ...options.env
-        };
+        const env = await this._getEnv(options.env);
 
         try {
             const { stdout, stderr } = await execAsync(command, {
                 cwd,
                 maxBuffer,
                 timeout: options.timeout,
-                env: env as NodeJS.ProcessEnv
+                env
             });
             return {
                 stdout: stdout.trim(),
@@ -210,11 +363,28 @@ export class CommandService {
         }
     }
 
+    /**
+     * Merge the process environment with the venv's bin in PATH
+     */
+    private async _getEnv(extraEnv?: Record<string, string>): Promise<NodeJS.ProcessEnv> {
+        const binDir = await this.getBinDir();
+        const processPath = process.env.PATH;
+        const envPath = binDir 
+            ? `${binDir}${path.delimiter}${processPath}`
+            : processPath;
+
+        return {
+            ...process.env,
+            PATH: envPath,
+            ...extraEnv
+        };
+    }
+
     /**
      * Run ade install for a collection
      */
-    public async installCollection(collectionName: string): Promise<ExecResult> {
-        return this.runTool('ade', ['install', collectionName]);
+    public async installCollection(collectionName: string, options: SpawnOptions = {}): Promise<SpawnResult> {
+        return this.spawnTool('ade', ['install', collectionName], options).result;
     }
 
     /**
@@ -191,10 +191,10 @@ export class ExecutionEnvService {
             const commandService = getCommandService();
             
             // Run ansible-navigator images command using CommandService
-            const result = await commandService.runTool(
+            const result = await commandService.spawnTool(
                 'ansible-navigator',
                 ['images', '--mode', 'stdout', '--pull-policy', 'never', '--format', 'json']
-            );
+            ).result;
             
             const output = result.stdout || null;
 
@@ -235,10 +235,10 @@ export class ExecutionEnvService {
             const commandService = getCommandService();
             
             // Run ansible-navigator images with --details using CommandService
-            const result = await commandService.runTool(
+            const result = await commandService.spawnTool(
                 'ansible-navigator',
                 ['images', fullName, '--mode', 'stdout', '--pull-policy', 'never', '--details', '--format', 'json']
-            );
+            ).result;
 
             if (!result.stdout) {
                 return null;
@@ -5,10 +5,16 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 
 const runToolMock = vi.hoisted(() => vi.fn());
 const getBinDirMock = vi.hoisted(() => vi.fn());
+const onStdoutLineMock = vi.hoisted(() => vi.fn());
 
 vi.mock("../../src/services/CommandService", () => ({
   getCommandService: vi.fn(() => ({
     runTool: runToolMock,
+    spawnTool: (...args: unknown[]) => ({
+      result: Promise.resolve(runToolMock(...args)),
+      onStdoutLine: onStdoutLineMock,
+      onStderrLine: vi.fn(),
+    }),
     getBinDir: getBinDirMock,
   })),
 }));
@@ -18,6 +24,8 @@ import { CollectionsService } from "../../src/services/CollectionsService";
 function resetCollectionsSingleton(): void {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   (CollectionsService as any)._instance = undefined;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  (CollectionsService as any)._executionEnvInstances.clear();
 }
 
 describe("CollectionsService", () => {
@@ -181,9 +189,28 @@ describe("CollectionsService", () => {
     expect(runToolMock).toHaveBeenCalledWith(
       "ade",
       expect.arrayContaining(["install", "community.docker:3.0.0", "--force"]),
+      expect.any(Object),
     );
   });
 
+  it("installCollection streams output and reports cancellation", async () => {
+    const svc = CollectionsService.getInstance();
+    const controller = new AbortController();
+    const onOutput = vi.fn();
+    runToolMock.mockImplementation(async () => ({
+      exitCode: 1,
+      stdout: "",
+      stderr: "",
+      signal: "SIGTERM",
+      aborted: true,
+    }));
+    await expect(
+      svc.installCollection("community.docker", undefined, false, { signal: controller.signal, onOutput }),
+    ).rejects.toThrow("Installation of community.docker was cancelled");
+    expect(runToolMock).toHaveBeenCalledWith("ade", ["install", "community.docker"], { signal: controller.signal });
+    expect(onStdoutLineMock).toHaveBeenCalledWith(onOutput);
+  });
+
   it("installCollection throws when ade fails", async () => {
     const svc = CollectionsService.getInstance();
     runToolMock.mockImplementation(async (toolName: string) => {
@@ -307,6 +334,38 @@ describe("CollectionsService", () => {
     expect(doc).toBeNull();
   });
 
+  it("getPluginDocumentation retries lookups that found nothing or failed", async () => {
+    let docOutput = "no json here";
+    runToolMock.mockImplementation(async (toolName: string, args: string[]) => {
+      if (toolName === "ansible-doc" && args.join(" ").includes("--metadata-dump")) {
+        return { exitCode: 0, stdout: ansibleDocMetadata, stderr: "" };
+      }
+      if (toolName === "ansible-doc") {
+        return { exitCode: 0, stdout: docOutput, stderr: "" };
+      }
+      if (toolName === "ade") {
+        return { exitCode: 0, stdout: adeInspectStdout, stderr: "" };
+      }
+      return { exitCode: 1, stdout: "", stderr: "" };
+    });
+    const svc = CollectionsService.getInstance();
+    await svc.forceRefresh();
+    const docCalls = () =>
+      runToolMock.mock.calls.filter(([tool, args]) => tool === "ansible-doc" && !args.includes("--metadata-dump")).length;
+
+    expect(await svc.getPluginDocumentation("ansible.builtin.copy", "module")).toBeNull();
+    vi.spyOn(
+      svc as never as { _loadPluginDocumentation: () => Promise<unknown> },
+      "_loadPluginDocumentation",
+    ).mockRejectedValueOnce(new Error("ansible-doc crashed"));
+    await expect(svc.getPluginDocumentation("ansible.builtin.copy", "module")).rejects.toThrow("ansible-doc crashed");
+    docOutput = JSON.stringify({ "ansible.builtin.copy": { doc: { short_description: "Copy files" } } });
+    const doc = await svc.getPluginDocumentation("ansible.builtin.copy", "module");
+    expect(doc?.doc?.short_description).toBe("Copy files");
+    expect(await svc.getPluginDocumentation("ansible.builtin.copy", "module")).toBe(doc);
+    expect(docCalls()).toBe(2);
+  });
+
   it("isInVSCode is false in test (standalone) environment", () => {
     expect(CollectionsService.getInstance().isInVSCode()).toBe(false);
   });
@@ -344,4 +403,71 @@ describe("CollectionsService", () => {
     expect(doc!.doc?.short_description).toBe("Test module");
     expect(doc!.examples).toBe("- name: ex");
   });
+
+  describe("execution environments", () => {
+    const ee = {
+      created: "2 weeks ago",
+      execution_environment: true,
+      full_name: "quay.io/org/ee:1.0",
+      image_id: "abc123",
+    };
+
+    beforeEach(() => {
+      runToolMock.mockImplementation(async (toolName: string, args: string[]) => {
+        if (toolName === "ansible-navigator" && args.includes("--details")) {
+          return {
+            exitCode: 0,
+            stdout: JSON.stringify({ ansible_collections: { details: { "ansible.builtin": "2.16.0" } } }),
+            stderr: "",
+          };
+        }
+        if (toolName === "ansible-navigator" && args[0] === "exec") {
+          const metadata = JSON.parse(ansibleDocMetadata);
+          metadata.all.module["ansible.builtin.copy"].examples = "- name: ee example";
+          return { exitCode: 0, stdout: `warning\n${JSON.stringify(metadata)}`, stderr: "" };
+        }
+        return { exitCode: 1, stdout: "", stderr: "unknown tool" };
+      });
+    });
+
+    it("caches one instance per image id", () => {
+      const a = CollectionsService.forExecutionEnvironment(ee);
+      expect(CollectionsService.forExecutionEnvironment({ ...ee, full_name: "ee:latest" })).toBe(a);
+      expect(CollectionsService.forExecutionEnvironment({ ...ee, image_id: "def456" })).not.toBe(a);
+      expect(a).not.toBe(CollectionsService.getInstance());
+      expect(a.getExecutionEnvironment()).toBe(ee);
+    });
+
+    it("loads collections and plugin docs from the metadata dump of the image", async () => {
+      const svc = CollectionsService.forExecutionEnvironment(ee);
+      await Promise.all([svc.loadExecutionEnvironment(), svc.refresh()]);
+
+      const execCalls = runToolMock.mock.calls.filter(([tool, args]) => tool === "ansible-navigator" && args[0] === "exec");
+      expect(execCalls).toHaveLength(1);
+      expect(execCalls[0][1]).toEqual(
+        expect.arrayContaining(["--execution-environment-image", "quay.io/org/ee:1.0", "ansible-doc", "--metadata-dump"]),
+      );
+      expect(svc.isLoaded()).toBe(true);
+      expect(svc.getCollection("ansible.builtin")?.info.version).toBe("2.16.0");
+      expect(svc.getPlugins("ansible.builtin", "module").map((p) => p.fullName)).toEqual(["ansible.builtin.copy"]);
+
+      const doc = await svc.getPluginDocumentation("ansible.builtin.copy", "module");
+      expect(doc?.examples).toBe("- name: ee example");
+      expect(await svc.getPluginDocumentation("ansible.builtin.missing", "module")).toBeNull();
+      expect(runToolMock.mock.calls.some(([tool]) => tool === "ansible-doc")).toBe(false);
+      expect(fs.existsSync(path.join(tmpDir, ".cache"))).toBe(false);
+    });
+
+    it("retries a failed load", async () => {
+      const svc = CollectionsService.forExecutionEnvironment(ee);
+      const working = runToolMock.getMockImplementation()!;
+      runToolMock.mockImplementation(async () => ({ exitCode: 1, stdout: "", stderr: "no such image" }));
+      await svc.loadExecutionEnvironment();
+      expect(svc.isLoaded()).toBe(false);
+
+      runToolMock.mockImplementation(working);
+      await svc.loadExecutionEnvironment();
+      expect(svc.listCollectionNames()).toEqual(["ansible.builtin"]);
+    });
+  });
 });
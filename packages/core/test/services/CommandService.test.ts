@@ -1,3 +1,4 @@
+import { EventEmitter } from "events";
 import * as fs from "fs";
 import * as os from "os";
 import * as path from "path";
@@ -41,10 +42,41 @@ const execExport = vi.hoisted(() => {
   });
 });
 
+const spawnImpl = vi.hoisted(() => vi.fn());
+
 vi.mock("child_process", () => ({
   exec: execExport,
+  spawn: spawnImpl,
 }));
 
+/** A child process writing the given chunks, then exiting unless code is null. */
+function fakeChild(stdout: string[], stderr: string[] = [], code: number | null = 0) {
+  const child = Object.assign(new EventEmitter(), {
+    stdout: Object.assign(new EventEmitter(), { setEncoding: vi.fn() }),
+    stderr: Object.assign(new EventEmitter(), { setEncoding: vi.fn() }),
+    kill: vi.fn((signal: string) => {
+      setImmediate(() => child.emit("close", null, signal));
+      return true;
+    }),
+  });
+  setImmediate(() => {
+    stdout.forEach((chunk) => child.stdout.emit("data", chunk));
+    stderr.forEach((chunk) => child.stderr.emit("data", chunk));
+    if (code !== null) {
+      child.emit("close", code, null);
+    }
+  });
+  return child;
+}
+
+function useTool(dir: string, name: string): string {
+  const binDir = path.join(dir, "bin");
+  fs.mkdirSync(binDir, { recursive: true });
+  const tool = path.join(binDir, name);
+  fs.writeFileSync(tool, "");
+  return tool;
+}
+
 describe("CommandService", () => {
   let tmpDir: string;
   let previousWorkspace: string | undefined;
@@ -54,6 +86,7 @@ describe("CommandService", () => {
     previousWorkspace = process.env.ANSIBLE_ENV_WORKSPACE;
     process.env.ANSIBLE_ENV_WORKSPACE = tmpDir;
     execImpl.mockReset();
+    spawnImpl.mockReset();
     execImpl.mockImplementation((cmd: string, arg2: unknown, arg3?: unknown) => {
       asExecCallback(arg2, arg3)(null, "out\n", "");
     });
@@ -200,16 +233,102 @@ describe("CommandService", () => {
     const { cacheSelectedEnvironment } = await import("../../src/services/EnvironmentCache");
     cacheSelectedEnvironment(path.join(binDir, "python"));
 
-    execImpl.mockImplementation((cmd: string, arg2: unknown, arg3?: unknown) => {
-      expect(cmd).toMatch(/ade.*install.*ns\.coll/);
-      asExecCallback(arg2, arg3)(null, "installed\n", "");
-    });
+    spawnImpl.mockImplementation(() => fakeChild(["installed\n"]));
 
     const { CommandService } = await import("../../src/services/CommandService");
     const svc = CommandService.getInstance();
     const result = await svc.installCollection("ns.coll");
     expect(result.exitCode).toBe(0);
     expect(result.stdout).toBe("installed");
+    expect(spawnImpl).toHaveBeenCalledWith(
+      path.join(binDir, "ade"),
+      ["install", "ns.coll"],
+      expect.objectContaining({ cwd: tmpDir }),
+    );
+  });
+
+  it("spawnTool streams output line by line and reports the exit", async () => {
+    const tool = useTool(path.join(tmpDir, "venv7"), "ansible-doc");
+    const { cacheSelectedEnvironment } = await import("../../src/services/EnvironmentCache");
+    cacheSelectedEnvironment(path.join(path.dirname(tool), "python"));
+    spawnImpl.mockImplementation(() => fakeChild(["one\ntw", "o\r\nthree"], ["warning\n"], 2));
+
+    const { CommandService } = await import("../../src/services/CommandService");
+    const proc = CommandService.getInstance().spawnTool("ansible-doc", ["-t", "module", "a b"], {
+      env: { ANSIBLE_NOCOLOR: "1" },
+    });
+    const stdoutLines: string[] = [];
+    const stderrLines: string[] = [];
+    proc.onStdoutLine((line) => stdoutLines.push(line));
+    proc.onStderrLine((line) => stderrLines.push(line));
+    const result = await proc.result;
+
+    expect(stdoutLines).toEqual(["one", "two", "three"]);
+    expect(stderrLines).toEqual(["warning"]);
+    expect(result).toMatchObject({
+      stdout: "one\ntwo\r\nthree",
+      stderr: "warning",
+      exitCode: 2,
+      signal: null,
+      aborted: false,
+    });
+    expect(result.duration).toBeGreaterThanOrEqual(0);
+    const [command, args, options] = spawnImpl.mock.calls[0];
+    expect(command).toBe(tool);
+    expect(args).toEqual(["-t", "module", "a b"]);
+    expect(options.env.ANSIBLE_NOCOLOR).toBe("1");
+  });
+
+  it("spawnTool terminates the process when aborted", async () => {
+    const tool = useTool(path.join(tmpDir, "venv8"), "ade");
+    const { cacheSelectedEnvironment } = await import("../../src/services/EnvironmentCache");
+    cacheSelectedEnvironment(path.join(path.dirname(tool), "python"));
+    let child: ReturnType<typeof fakeChild> | undefined;
+    spawnImpl.mockImplementation(() => (child = fakeChild(["Collecting ns.coll\n"], [], null)));
+
+    const { CommandService } = await import("../../src/services/CommandService");
+    const controller = new AbortController();
+    const proc = CommandService.getInstance().spawnTool("ade", ["install", "ns.coll"], {
+      signal: controller.signal,
+    });
+    proc.onStdoutLine(() => controller.abort());
+    const result = await proc.result;
+
+    expect(child?.kill).toHaveBeenCalledWith("SIGTERM");
+    expect(result).toMatchObject({ aborted: true, signal: "SIGTERM", exitCode: 1 });
+  });
+
+  it("spawnTool returns structured failure when the tool cannot be resolved", async () => {
+    execImpl.mockImplementation((_cmd: string, arg2: unknown, arg3?: unknown) => {
+      asExecCallback(arg2, arg3)(new Error("not in path"), "", "");
+    });
+
+    const { CommandService } = await import("../../src/services/CommandService");
+    const result = await CommandService.getInstance().spawnTool("tool-that-does-not-exist-zz", []).result;
+    expect(result.exitCode).toBe(1);
+    expect(result.stderr).toContain("not found");
+    expect(spawnImpl).not.toHaveBeenCalled();
+  });
+
+  it("spawnTool resolves with a failure when the process cannot be started", async () => {
+    const tool = useTool(path.join(tmpDir, "venv8"), "ansible-doc");
+    const { cacheSelectedEnvironment } = await import("../../src/services/EnvironmentCache");
+    cacheSelectedEnvironment(path.join(path.dirname(tool), "python"));
+
+    const { CommandService } = await import("../../src/services/CommandService");
+    const service = CommandService.getInstance();
+    vi.spyOn(service as never as { _getEnv: () => Promise<NodeJS.ProcessEnv> }, "_getEnv").mockRejectedValueOnce(
+      new Error("cannot read environment"),
+    );
+    const result = await service.spawnTool("ansible-doc", []).result;
+    expect(result).toMatchObject({ stdout: "", stderr: "cannot read environment", exitCode: 1, aborted: false });
+    expect(spawnImpl).not.toHaveBeenCalled();
+
+    spawnImpl.mockImplementation(() => {
+      throw new Error("spawn EINVAL");
+    });
+    const spawnFailure = await service.spawnTool("ansible-doc", []).result;
+    expect(spawnFailure).toMatchObject({ stderr: "spawn EINVAL", exitCode: 1 });
   });
 
   it("isToolAvailable reflects getToolPath resolution", async () => {
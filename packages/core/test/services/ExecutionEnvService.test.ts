@@ -45,11 +45,11 @@ const EE_DETAILS = {
 };
 
 const mocks = vi.hoisted(() => {
-  const mockRunTool = vi.fn();
+  const mockSpawnTool = vi.fn();
   return {
-    mockRunTool,
+    mockSpawnTool,
     getCommandService: vi.fn(() => ({
-      runTool: mockRunTool,
+      spawnTool: (...args: unknown[]) => ({ result: mockSpawnTool(...args) }),
     })),
   };
 });
@@ -68,10 +68,12 @@ function resetExecutionEnvSingleton(): void {
 describe("ExecutionEnvService", () => {
   beforeEach(() => {
     resetExecutionEnvSingleton();
-    mocks.mockRunTool.mockReset();
+    mocks.mockSpawnTool.mockReset();
     mocks.getCommandService.mockClear();
     mocks.getCommandService.mockImplementation(() => ({
-      runTool: mocks.mockRunTool,
+      spawnTool: (...args: unknown[]) => ({
+        result: mocks.mockSpawnTool(...args),
+      }),
     }));
   });
 
@@ -82,14 +84,14 @@ describe("ExecutionEnvService", () => {
   });
 
   it("loadExecutionEnvironments parses navigator JSON and filters EEs", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_LIST),
       stderr: "",
     });
     const svc = ExecutionEnvService.getInstance();
     const list = await svc.loadExecutionEnvironments();
-    expect(mocks.mockRunTool).toHaveBeenCalledWith("ansible-navigator", [
+    expect(mocks.mockSpawnTool).toHaveBeenCalledWith("ansible-navigator", [
       "images",
       "--mode",
       "stdout",
@@ -106,7 +108,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("loadExecutionEnvironments handles empty output", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: "",
       stderr: "",
@@ -127,7 +129,7 @@ describe("ExecutionEnvService", () => {
     const enteredRunTool = new Promise<void>((r) => {
       notifyEntered = r;
     });
-    mocks.mockRunTool.mockImplementation(async () => {
+    mocks.mockSpawnTool.mockImplementation(async () => {
       notifyEntered();
       await gate;
       return { exitCode: 0, stdout: JSON.stringify(EE_LIST), stderr: "" };
@@ -137,15 +139,15 @@ describe("ExecutionEnvService", () => {
     await enteredRunTool;
     const p2 = svc.loadExecutionEnvironments();
     await p2;
-    expect(mocks.mockRunTool).toHaveBeenCalledTimes(1);
+    expect(mocks.mockSpawnTool).toHaveBeenCalledTimes(1);
     release();
     await p1;
     expect(svc.getExecutionEnvironments()).toHaveLength(2);
-    expect(mocks.mockRunTool).toHaveBeenCalledTimes(1);
+    expect(mocks.mockSpawnTool).toHaveBeenCalledTimes(1);
   });
 
   it("loadDetails fetches and caches details", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -154,7 +156,7 @@ describe("ExecutionEnvService", () => {
     const name = "quay.io/ansible/ee-supported:latest";
     const d = await svc.loadDetails(name);
     expect(d).toEqual(EE_DETAILS);
-    expect(mocks.mockRunTool).toHaveBeenCalledWith("ansible-navigator", [
+    expect(mocks.mockSpawnTool).toHaveBeenCalledWith("ansible-navigator", [
       "images",
       name,
       "--mode",
@@ -169,7 +171,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("loadDetails returns cached details on second call", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -177,14 +179,14 @@ describe("ExecutionEnvService", () => {
     const svc = ExecutionEnvService.getInstance();
     const name = "quay.io/ansible/ee-supported:latest";
     await svc.loadDetails(name);
-    mocks.mockRunTool.mockClear();
+    mocks.mockSpawnTool.mockClear();
     const again = await svc.loadDetails(name);
     expect(again).toEqual(EE_DETAILS);
-    expect(mocks.mockRunTool).not.toHaveBeenCalled();
+    expect(mocks.mockSpawnTool).not.toHaveBeenCalled();
   });
 
   it("getCollections extracts and sorts collections from details", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -198,7 +200,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("getPythonPackages extracts and sorts packages from details", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -212,7 +214,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("getInfo extracts ansible version, OS, and image name", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -230,7 +232,7 @@ describe("ExecutionEnvService", () => {
 
   it("setLogFunction receives load errors", async () => {
     const log = vi.fn();
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: "not-json-array",
       stderr: "",
@@ -242,21 +244,21 @@ describe("ExecutionEnvService", () => {
   });
 
   it("loadExecutionEnvironments returns cached list when already loaded with data", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_LIST),
       stderr: "",
     });
     const svc = ExecutionEnvService.getInstance();
     const first = await svc.loadExecutionEnvironments();
-    mocks.mockRunTool.mockClear();
+    mocks.mockSpawnTool.mockClear();
     const second = await svc.loadExecutionEnvironments();
     expect(second).toEqual(first);
-    expect(mocks.mockRunTool).not.toHaveBeenCalled();
+    expect(mocks.mockSpawnTool).not.toHaveBeenCalled();
   });
 
   it("getExecutionEnvironment finds by full_name", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_LIST),
       stderr: "",
@@ -268,7 +270,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("loadDetails returns null when stdout is empty", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: "",
       stderr: "",
@@ -278,7 +280,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("getCollections returns empty when details lack ansible_collections", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify({ image_name: "x" }),
       stderr: "",
@@ -289,7 +291,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("getPythonPackages returns empty when details lack python_packages", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify({ image_name: "x" }),
       stderr: "",
@@ -300,7 +302,7 @@ describe("ExecutionEnvService", () => {
   });
 
   it("getInfo returns empty object when details are missing", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify({}),
       stderr: "",
@@ -315,7 +317,7 @@ describe("ExecutionEnvService", () => {
       os_release: { details: [{ name: "Linux", version: "1" }] },
       image_name: "img",
     };
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(details),
       stderr: "",
@@ -326,14 +328,14 @@ describe("ExecutionEnvService", () => {
   });
 
   it("refresh clears environments and details cache", async () => {
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_LIST),
       stderr: "",
     });
     const svc = ExecutionEnvService.getInstance();
     await svc.loadExecutionEnvironments();
-    mocks.mockRunTool.mockResolvedValue({
+    mocks.mockSpawnTool.mockResolvedValue({
       exitCode: 0,
       stdout: JSON.stringify(EE_DETAILS),
       stderr: "",
@@ -1,25 +1,71 @@
 import {
+  CodeActionKind,
   Connection,
+  Diagnostic,
   DidChangeConfigurationNotification,
   DidChangeWatchedFilesNotification,
   InitializeParams,
   InitializeResult,
+  SymbolInformation,
   TextDocuments,
   TextDocumentSyncKind,
 } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  appendToHover,
+  doLintConfigCompletion,
+  getLintConfigHover,
+  getLintDiagnosticHover,
+  getLintRuleItems,
+  getToggleRuleEdit,
+  isAnsibleLintConfig,
+  LintRuleItem,
+  listLintRulesRequest,
+  toggleLintRuleRequest,
+} from "./providers/ansibleLintConfigProvider";
+import {
+  doCodeActionResolve,
+  doCodeActions,
+} from "./providers/codeActionProvider";
+import { doCodeLens } from "./providers/codeLensProvider";
 import { doCompletion, doCompletionResolve } from "./providers/completionProvider";
+import { doDefinition } from "./providers/definitionProvider";
+import { doDocumentLinks } from "./providers/documentLinkProvider";
+import { doFoldingRanges } from "./providers/foldingRangeProvider";
+import { doFormat } from "./providers/formattingProvider";
 import { doHover } from "./providers/hoverProvider";
+import { doInlayHints } from "./providers/inlayHintProvider";
+import { doSignatureHelp } from "./providers/jinjaProvider";
+import { doReferences } from "./providers/referencesProvider";
+import { doPrepareRename, doRename } from "./providers/renameProvider";
+import { doSelectionRanges } from "./providers/selectionRangeProvider";
+import {
+  doDocumentSymbols,
+  doWorkspaceSymbols,
+} from "./providers/symbolProvider";
 import {
   doSemanticTokens,
   tokenModifiers,
   tokenTypes,
 } from "./providers/semanticTokenProvider";
+import {
+  getPlaybookTags,
+  listTagsRequest,
+  PlaybookTag,
+} from "./providers/tagProvider";
 import { doValidate } from "./providers/validationProvider";
+import { documentAnalysisCache } from "./services/documentAnalysis";
 import { ValidationManager } from "./services/validationManager";
 import { WorkspaceManager } from "./services/workspaceManager";
+import {
+  lintSummaryRequest,
+  LintSummary,
+  summarizeLintResults,
+} from "./services/workspaceValidation";
 import { getAnsibleMetaData } from "./utils/getAnsibleMetaData";
-import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import type { RuleList } from "./utils/lintRules";
+import { loadTextDocument } from "./utils/misc";
+import { isIniInventory } from "./utils/yaml";
 
 export class AnsibleLanguageService {
   private connection: Connection;
@@ -60,6 +106,34 @@ export class AnsibleLanguageService {
           completionProvider: {
             resolveProvider: true,
           },
+          definitionProvider: true,
+          referencesProvider: true,
+          renameProvider: {
+            prepareProvider: true,
+          },
+          signatureHelpProvider: {
+            triggerCharacters: ["(", ","],
+          },
+          documentSymbolProvider: true,
+          workspaceSymbolProvider: true,
+          documentLinkProvider: {
+            resolveProvider: false,
+          },
+          codeLensProvider: {
+            resolveProvider: false,
+          },
+          documentFormattingProvider: true,
+          documentRangeFormattingProvider: true,
+          foldingRangeProvider: true,
+          selectionRangeProvider: true,
+          inlayHintProvider: true,
+          codeActionProvider: {
+            codeActionKinds: [
+              CodeActionKind.QuickFix,
+              CodeActionKind.SourceFixAll,
+            ],
+            resolveProvider: true,
+          },
           workspace: {},
         },
       };
@@ -89,19 +163,58 @@ export class AnsibleLanguageService {
       ) {
         this.connection.workspace.onDidChangeWorkspaceFolders((e) => {
           this.workspaceManager.handleWorkspaceChanged(e);
+          for (const folder of e.added) {
+            const context = this.workspaceManager.getContext(folder.uri);
+            void context?.getCollectionsService();
+            void context?.workspaceValidation.start(this.validationManager);
+          }
         });
       }
+      for (const context of this.workspaceManager.getFolderContexts()) {
+        // load the plugin docs of a selected execution environment early
+        void context.getCollectionsService();
+        void context.workspaceValidation.start(this.validationManager);
+      }
       this.connection.client.register(DidChangeWatchedFilesNotification.type, {
         watchers: [
           { globPattern: "**/ansible.cfg" },
           { globPattern: "**/.ansible-lint" },
           { globPattern: "**/meta/main.{yml,yaml}" },
+          { globPattern: "**/*.{yml,yaml}" },
+          { globPattern: "**/{hosts,inventory}" },
+          { globPattern: "**/{inventory,inventories}/**" },
+          { globPattern: "**/*.ini" },
         ],
       });
     });
   }
 
   private registerLifecycleEventHandlers(): void {
+    this.workspaceManager.onCollectionsServiceChanged(async (context) => {
+      try {
+        // plugin docs of the execution environment replace the local ones
+        for (const document of this.documents.all()) {
+          if (this.workspaceManager.getContext(document.uri) === context) {
+            await doValidate(
+              document,
+              this.validationManager,
+              false,
+              context,
+              this.connection,
+            );
+          }
+        }
+        if (
+          this.workspaceManager.clientCapabilities.workspace?.semanticTokens
+            ?.refreshSupport
+        ) {
+          await this.connection.languages.semanticTokens.refresh();
+        }
+      } catch (error) {
+        this.handleError(error, "onCollectionsServiceChanged");
+      }
+    });
+
     this.connection.onDidChangeConfiguration(async (params) => {
       try {
         await this.workspaceManager.forEachContext((context) =>
@@ -132,9 +245,16 @@ export class AnsibleLanguageService {
     this.documents.onDidClose((e) => {
       try {
         this.validationManager.handleDocumentClosed(e.document.uri);
+        documentAnalysisCache.invalidate(e.document);
         const context = this.workspaceManager.getContext(e.document.uri);
         if (context) {
           context.documentSettings.handleDocumentClosed(e.document.uri);
+          void context.workspaceSymbolIndex.handleDocumentClosed(
+            e.document.uri,
+          );
+          void context.variableIndex.handleDocumentClosed(e.document.uri);
+          void context.notificationIndex.handleDocumentClosed(e.document.uri);
+          void context.tagIndex.handleDocumentClosed(e.document.uri);
         }
       } catch (error) {
         this.handleError(error, "onDidClose");
@@ -170,6 +290,10 @@ export class AnsibleLanguageService {
 
     this.connection.onDidChangeTextDocument((e) => {
       try {
+        const document = this.documents.get(e.textDocument.uri);
+        if (document) {
+          documentAnalysisCache.invalidate(document);
+        }
         this.validationManager.reconcileCacheItems(
           e.textDocument.uri,
           e.contentChanges,
@@ -181,11 +305,18 @@ export class AnsibleLanguageService {
 
     this.documents.onDidChangeContent(async (e) => {
       try {
+        const context = this.workspaceManager.getContext(e.document.uri);
+        if (!isIniInventory(e.document)) {
+          context?.workspaceSymbolIndex.updateDocument(e.document);
+          context?.notificationIndex.updateDocument(e.document);
+          context?.tagIndex.updateDocument(e.document);
+          await context?.variableIndex.updateDocument(e.document);
+        }
         await doValidate(
           e.document,
           this.validationManager,
           true,
-          this.workspaceManager.getContext(e.document.uri),
+          context,
           this.connection,
         );
       } catch (error) {
@@ -195,14 +326,18 @@ export class AnsibleLanguageService {
 
     this.connection.languages.semanticTokens.on(async (params) => {
       try {
-        const document = this.documents.get(params.textDocument.uri);
+        const document = this.getYamlDocument(params.textDocument.uri);
         if (document) {
           const context = this.workspaceManager.getContext(
             params.textDocument.uri,
           );
           if (context) {
-            const collectionsService = CollectionsService.getInstance();
-            return await doSemanticTokens(document, collectionsService);
+            const collectionsService = await context.getCollectionsService();
+            return await doSemanticTokens(
+              document,
+              collectionsService,
+              context,
+            );
           }
         }
       } catch (error) {
@@ -213,18 +348,34 @@ export class AnsibleLanguageService {
 
     this.connection.onHover(async (params) => {
       try {
-        const document = this.documents.get(params.textDocument.uri);
+        const document = this.getYamlDocument(params.textDocument.uri);
         if (document) {
           const context = this.workspaceManager.getContext(
             params.textDocument.uri,
           );
           if (context) {
-            const collectionsService = CollectionsService.getInstance();
-            return await doHover(
+            if (isAnsibleLintConfig(document.uri)) {
+              return getLintConfigHover(
+                document,
+                params.position,
+                await context.ansibleLintRules.getRules(),
+              );
+            }
+            const collectionsService = await context.getCollectionsService();
+            const hover = await doHover(
               document,
               params.position,
               collectionsService,
+              context,
+            );
+            const ruleDocs = await getLintDiagnosticHover(
+              this.validationManager
+                .getValidationFromCache(document.uri)
+                ?.get(document.uri) ?? [],
+              params.position,
+              context,
             );
+            return ruleDocs ? appendToHover(hover, ruleDocs) : hover;
           }
         }
       } catch (error) {
@@ -241,6 +392,13 @@ export class AnsibleLanguageService {
             params.textDocument.uri,
           );
           if (context) {
+            if (isAnsibleLintConfig(document.uri)) {
+              return doLintConfigCompletion(
+                document,
+                params.position,
+                await context.ansibleLintRules.getRules(),
+              );
+            }
             return await doCompletion(
               document,
               params.position,
@@ -270,6 +428,368 @@ export class AnsibleLanguageService {
       return completionItem;
     });
 
+    this.connection.onDefinition(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          const context = this.workspaceManager.getContext(
+            params.textDocument.uri,
+          );
+          if (context) {
+            const collectionsService = await context.getCollectionsService();
+            return await doDefinition(
+              document,
+              params.position,
+              this.documents,
+              context,
+              collectionsService,
+            );
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onDefinition");
+      }
+      return null;
+    });
+
+    this.connection.onReferences(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          const context = this.workspaceManager.getContext(
+            params.textDocument.uri,
+          );
+          if (context) {
+            return await doReferences(
+              document,
+              params.position,
+              params.context.includeDeclaration,
+              this.documents,
+              context,
+            );
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onReferences");
+      }
+      return null;
+    });
+
+    this.connection.onPrepareRename(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          const context = this.workspaceManager.getContext(
+            params.textDocument.uri,
+          );
+          if (context) {
+            return await doPrepareRename(document, params.position, context);
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onPrepareRename");
+      }
+      return null;
+    });
+
+    this.connection.onRenameRequest(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          const context = this.workspaceManager.getContext(
+            params.textDocument.uri,
+          );
+          if (context) {
+            return await doRename(
+              document,
+              params.position,
+              params.newName,
+              this.documents,
+              context,
+            );
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onRenameRequest");
+      }
+      return null;
+    });
+
+    this.connection.onDocumentLinks(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          return await doDocumentLinks(document);
+        }
+      } catch (error) {
+        this.handleError(error, "onDocumentLinks");
+      }
+      return null;
+    });
+
+    this.connection.onCodeLens((params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          return doCodeLens(document);
+        }
+      } catch (error) {
+        this.handleError(error, "onCodeLens");
+      }
+      return null;
+    });
+
+    this.connection.onDocumentFormatting(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        const context = this.workspaceManager.getContext(
+          params.textDocument.uri,
+        );
+        if (document && context) {
+          const settings = await context.documentSettings.get(document.uri);
+          return doFormat(document, params.options, settings.format);
+        }
+      } catch (error) {
+        this.handleError(error, "onDocumentFormatting");
+      }
+      return null;
+    });
+
+    this.connection.onDocumentRangeFormatting(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        const context = this.workspaceManager.getContext(
+          params.textDocument.uri,
+        );
+        if (document && context) {
+          const settings = await context.documentSettings.get(document.uri);
+          return doFormat(
+            document,
+            params.options,
+            settings.format,
+            params.range,
+          );
+        }
+      } catch (error) {
+        this.handleError(error, "onDocumentRangeFormatting");
+      }
+      return null;
+    });
+
+    this.connection.onFoldingRanges((params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          return doFoldingRanges(document);
+        }
+      } catch (error) {
+        this.handleError(error, "onFoldingRanges");
+      }
+      return null;
+    });
+
+    this.connection.onSelectionRanges((params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          return doSelectionRanges(document, params.positions);
+        }
+      } catch (error) {
+        this.handleError(error, "onSelectionRanges");
+      }
+      return null;
+    });
+
+    this.connection.languages.inlayHint.on(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        const context = this.workspaceManager.getContext(
+          params.textDocument.uri,
+        );
+        if (document && context) {
+          const settings = await context.documentSettings.get(document.uri);
+          return await doInlayHints(
+            document,
+            params.range,
+            settings.inlayHints,
+            await context.getCollectionsService(),
+          );
+        }
+      } catch (error) {
+        this.handleError(error, "onInlayHint");
+      }
+      return null;
+    });
+
+    this.connection.onSignatureHelp(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        const context = this.workspaceManager.getContext(
+          params.textDocument.uri,
+        );
+        if (document && context) {
+          return await doSignatureHelp(
+            document,
+            params.position,
+            await context.getCollectionsService(),
+          );
+        }
+      } catch (error) {
+        this.handleError(error, "onSignatureHelp");
+      }
+      return null;
+    });
+
+    this.connection.onDocumentSymbol((params) => {
+      try {
+        const document = this.documents.get(params.textDocument.uri);
+        if (document) {
+          return doDocumentSymbols(document);
+        }
+      } catch (error) {
+        this.handleError(error, "onDocumentSymbol");
+      }
+      return null;
+    });
+
+    this.connection.onWorkspaceSymbol(async (params) => {
+      try {
+        const symbols: SymbolInformation[] = [];
+        await this.workspaceManager.forEachContext(async (context) => {
+          symbols.push(...(await doWorkspaceSymbols(params.query, context)));
+        });
+        return symbols;
+      } catch (error) {
+        this.handleError(error, "onWorkspaceSymbol");
+      }
+      return null;
+    });
+
+    this.connection.onCodeAction(async (params) => {
+      try {
+        const document = this.getYamlDocument(params.textDocument.uri);
+        if (document) {
+          const context = this.workspaceManager.getContext(
+            params.textDocument.uri,
+          );
+          if (context) {
+            return await doCodeActions(
+              document,
+              params,
+              context,
+              await context.getCollectionsService(),
+            );
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onCodeAction");
+      }
+      return null;
+    });
+
+    this.connection.onCodeActionResolve(async (action) => {
+      try {
+        const uri = (action.data as { uri?: string } | undefined)?.uri;
+        const document = uri ? this.getYamlDocument(uri) : undefined;
+        if (uri && document) {
+          const context = this.workspaceManager.getContext(uri);
+          if (context) {
+            return await doCodeActionResolve(action, document, context);
+          }
+        }
+      } catch (error) {
+        this.handleError(error, "onCodeActionResolve");
+      }
+      return action;
+    });
+
+    this.connection.onRequest(
+      listTagsRequest,
+      async (params: { uri: string }): Promise<PlaybookTag[]> => {
+        try {
+          const context = this.workspaceManager.getContext(params.uri);
+          const document = await loadTextDocument(params.uri, this.documents);
+          if (context && document) {
+            return await getPlaybookTags(
+              document,
+              context,
+              await context.getCollectionsService(),
+              this.documents,
+            );
+          }
+        } catch (error) {
+          this.handleError(error, listTagsRequest);
+        }
+        return [];
+      },
+    );
+
+    this.connection.onRequest(lintSummaryRequest, (): LintSummary => {
+      const summary: LintSummary = {
+        enabled: false,
+        running: false,
+        fileCount: 0,
+        rules: [],
+        files: [],
+      };
+      try {
+        const results = new Map<string, Diagnostic[]>();
+        for (const context of this.workspaceManager.getFolderContexts()) {
+          const validation = context.workspaceValidation;
+          summary.enabled ||= validation.enabled;
+          summary.running ||= validation.running;
+          for (const [uri, diagnostics] of validation.getResults()) {
+            results.set(uri, diagnostics);
+          }
+        }
+        summary.fileCount = results.size;
+        Object.assign(summary, summarizeLintResults(results));
+      } catch (error) {
+        this.handleError(error, lintSummaryRequest);
+      }
+      return summary;
+    });
+
+    this.connection.onRequest(
+      listLintRulesRequest,
+      async (params: { uri: string }): Promise<LintRuleItem[]> => {
+        try {
+          const context = this.workspaceManager.getContext(params.uri);
+          if (context) {
+            return await getLintRuleItems(params.uri, context);
+          }
+        } catch (error) {
+          this.handleError(error, listLintRulesRequest);
+        }
+        return [];
+      },
+    );
+
+    this.connection.onRequest(
+      toggleLintRuleRequest,
+      async (params: {
+        uri: string;
+        rule: string;
+        list: RuleList;
+      }): Promise<boolean> => {
+        try {
+          const context = this.workspaceManager.getContext(params.uri);
+          if (context) {
+            const edit = await getToggleRuleEdit(
+              params.uri,
+              params.rule,
+              params.list,
+              context,
+            );
+            return (await this.connection.workspace.applyEdit(edit)).applied;
+          }
+        } catch (error) {
+          this.handleError(error, toggleLintRuleRequest);
+        }
+        return false;
+      },
+    );
+
     this.connection.onNotification("resync/ansible-inventory", async () => {
       this.workspaceManager.forEachContext((e) => {
         e.clearAnsibleInventory();
@@ -301,6 +821,15 @@ export class AnsibleLanguageService {
     );
   }
 
+  /**
+   * Returns the open document unless it is an INI inventory, which only gets
+   * validation, completion and document symbols.
+   */
+  private getYamlDocument(uri: string): TextDocument | undefined {
+    const document = this.documents.get(uri);
+    return document && !isIniInventory(document) ? document : undefined;
+  }
+
   private handleError(error: unknown, contextName: string): void {
     const lead = `An error occurred in '${contextName}' handler: `;
     if (error instanceof Error) {
@@ -0,0 +1,231 @@
+import process from "node:process";
+import { parseArgs } from "node:util";
+import * as path from "path";
+import { promises as fs } from "fs";
+import {
+  Connection,
+  Diagnostic,
+  DiagnosticSeverity,
+  TextDocuments,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { doValidate } from "./providers/validationProvider";
+import { ValidationManager } from "./services/validationManager";
+import { WorkspaceManager } from "./services/workspaceManager";
+import {
+  countDiagnostics,
+  FileDiagnostics,
+  formatDiagnosticsReport,
+  ReportFormat,
+  reportFormats,
+} from "./utils/diagnosticsReport";
+import { findYamlFiles, loadTextDocument } from "./utils/misc";
+
+export const checkUsage = `Usage: ansible-language-server check [options] [path...]
+
+Validates the YAML files under the given paths (the current directory by
+default) like the editor does, and prints the diagnostics.
+
+Options:
+  --format <format>    Output format: text, json or sarif (default: text)
+  --fail-on <level>    Lowest severity that fails the check: error, warning,
+                       info or hint (default: error)
+  --no-lint            Use ansible-playbook --syntax-check instead of
+                       ansible-lint
+  --verbose            Print the log of the validation to stderr
+  --help               Show this help`;
+
+const failLevels: Record<string, DiagnosticSeverity> = {
+  error: DiagnosticSeverity.Error,
+  warning: DiagnosticSeverity.Warning,
+  info: DiagnosticSeverity.Information,
+  hint: DiagnosticSeverity.Hint,
+};
+
+export interface CheckOptions {
+  paths: string[];
+  format: ReportFormat;
+  failOn: DiagnosticSeverity;
+  lint: boolean;
+  verbose: boolean;
+  help: boolean;
+}
+
+/**
+ * Parses the arguments following `check`. Throws an error describing the
+ * problem when they are not valid.
+ */
+export function parseCheckArgs(args: string[]): CheckOptions {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      format: { type: "string", default: "text" },
+      "fail-on": { type: "string", default: "error" },
+      "no-lint": { type: "boolean", default: false },
+      verbose: { type: "boolean", default: false },
+      help: { type: "boolean", default: false },
+    },
+  });
+  const format = values.format as ReportFormat;
+  if (!reportFormats.includes(format)) {
+    throw new Error(`Unknown format '${values.format}'.`);
+  }
+  const failOn = failLevels[values["fail-on"] as string];
+  if (!failOn) {
+    throw new Error(`Unknown severity '${values["fail-on"]}'.`);
+  }
+  return {
+    paths: positionals.length ? positionals : ["."],
+    format,
+    failOn,
+    lint: !values["no-lint"],
+    verbose: !!values.verbose,
+    help: !!values.help,
+  };
+}
+
+/**
+ * Runs the `check` subcommand and returns the exit code: 0 when no
+ * diagnostic reaches the failing severity, 1 when one does and 2 when the
+ * arguments are not valid.
+ */
+export async function runCheck(args: string[]): Promise<number> {
+  let options: CheckOptions;
+  try {
+    options = parseCheckArgs(args);
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${checkUsage}`);
+    return 2;
+  }
+  if (options.help) {
+    console.log(checkUsage);
+    return 0;
+  }
+
+  const rootPath = process.cwd();
+  const folders: string[] = [rootPath];
+  const filePaths = new Set<string>();
+  for (const inputPath of options.paths) {
+    const absolutePath = path.resolve(rootPath, inputPath);
+    const stats = await fs.stat(absolutePath).catch(() => undefined);
+    if (!stats) {
+      console.error(`Path '${inputPath}' does not exist.`);
+      return 2;
+    }
+    if (stats.isDirectory()) {
+      folders.push(absolutePath);
+      (await findYamlFiles(absolutePath)).forEach((f) => filePaths.add(f));
+    } else {
+      filePaths.add(absolutePath);
+    }
+  }
+
+  const files = await checkFiles([...filePaths].sort(), folders, options);
+  console.log(formatDiagnosticsReport(files, options.format, rootPath));
+  return countDiagnostics(files, options.failOn) ? 1 : 0;
+}
+
+/**
+ * Validates the files the way `doValidate` does for an open document, with
+ * each directory given on the command line as a workspace folder.
+ */
+async function checkFiles(
+  filePaths: string[],
+  folders: string[],
+  options: CheckOptions,
+): Promise<FileDiagnostics[]> {
+  const connection = createHeadlessConnection(options.verbose);
+  const workspaceManager = new WorkspaceManager(connection);
+  workspaceManager.setWorkspaceFolders(
+    folders.map((folder) => ({
+      uri: URI.file(folder).toString(),
+      name: path.basename(folder),
+    })),
+  );
+  const validationManager = new ValidationManager(
+    connection,
+    new TextDocuments(TextDocument),
+  );
+
+  const diagnosticsByFile = new Map<string, Diagnostic[]>();
+  for (const filePath of filePaths) {
+    const uri = URI.file(filePath).toString();
+    const document = await loadTextDocument(uri);
+    const context = workspaceManager.getContext(uri);
+    if (!document || !context) {
+      continue;
+    }
+    context.documentSettings.globalSettings.validation.lint.enabled =
+      options.lint;
+
+    const result = await doValidate(
+      document,
+      validationManager,
+      false,
+      context,
+      connection,
+    );
+    for (const [fileUri, fileDiagnostics] of result) {
+      const diagnostics = diagnosticsByFile.get(fileUri) ?? [];
+      diagnosticsByFile.set(fileUri, diagnostics);
+      for (const diagnostic of fileDiagnostics) {
+        if (!diagnostics.some((d) => isSameDiagnostic(d, diagnostic))) {
+          diagnostics.push(diagnostic);
+        }
+      }
+    }
+  }
+
+  return [...diagnosticsByFile]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([uri, diagnostics]) => ({
+      uri,
+      diagnostics: diagnostics.sort(
+        (a, b) =>
+          a.range.start.line - b.range.start.line ||
+          a.range.start.character - b.range.start.character,
+      ),
+    }));
+}
+
+function isSameDiagnostic(a: Diagnostic, b: Diagnostic): boolean {
+  return (
+    a.message === b.message &&
+    a.source === b.source &&
+    a.range.start.line === b.range.start.line &&
+    a.range.start.character === b.range.start.character
+  );
+}
+
+/**
+ * Provides the parts of a connection used during validation when there is
+ * no client: the log goes to stderr when verbose and messages meant for the
+ * user always do, once each, while diagnostics are collected instead of
+ * sent.
+ */
+function createHeadlessConnection(verbose: boolean): Connection {
+  const log = (message: string) => {
+    if (verbose) {
+      console.error(message);
+    }
+  };
+  const shownMessages = new Set<string>();
+  const show = (message: string) => {
+    if (!shownMessages.has(message)) {
+      shownMessages.add(message);
+      console.error(message);
+    }
+    return Promise.resolve(undefined);
+  };
+  return {
+    console: { log, info: log, warn: log, error: log },
+    window: {
+      showErrorMessage: show,
+      showWarningMessage: show,
+      showInformationMessage: log,
+    },
+    sendDiagnostics: () => Promise.resolve(),
+  } as unknown as Connection;
+}
@@ -2,7 +2,13 @@
 import process from "node:process";
 
 async function main(): Promise<void> {
-  const args = new Set(process.argv.slice(2));
+  const argv = process.argv.slice(2);
+  const args = new Set(argv);
+
+  if (argv[0] === "check") {
+    const { runCheck } = await import("./check");
+    process.exit(await runCheck(argv.slice(1)));
+  }
 
   if (args.has("--version")) {
     console.log("0.0.1");
@@ -1,8 +1,8 @@
 /**
  * Language server extension settings types.
  *
- * EE (Execution Environment) settings are intentionally omitted --
- * container-based execution is deferred to a later phase.
+ * Execution environments are only used to resolve plugin documentation;
+ * linting and syntax checks still run in the local Python environment.
  */
 
 interface ExtensionSettingsType {
@@ -25,11 +25,28 @@ export interface ExtensionSettings extends ExtensionSettingsType {
       arguments: string;
       autoFixOnSave: boolean;
     };
+    workspace: {
+      enabled: boolean;
+    };
+  };
+  format: {
+    enabled: boolean;
+    indentSequences: boolean;
+    sortTaskKeys: boolean;
+    normalizeBooleans: boolean;
+  };
+  inlayHints: {
+    moduleFqcn: boolean;
+    optionDefaults: boolean;
   };
   python: {
     interpreterPath: string;
     activationScript: string;
   };
+  executionEnvironment: {
+    enabled: boolean;
+    image: string;
+  };
 }
 
 export interface SettingsEntry {
@@ -56,10 +73,27 @@ export interface ExtensionSettingsWithDescription {
       arguments: { default: string; description: string };
       autoFixOnSave: { default: boolean; description: string };
     };
+    workspace: {
+      enabled: { default: boolean; description: string };
+    };
+  };
+  format: {
+    enabled: { default: boolean; description: string };
+    indentSequences: { default: boolean; description: string };
+    sortTaskKeys: { default: boolean; description: string };
+    normalizeBooleans: { default: boolean; description: string };
+  };
+  inlayHints: {
+    moduleFqcn: { default: boolean; description: string };
+    optionDefaults: { default: boolean; description: string };
   };
   python: {
     interpreterPath: { default: string; description: string };
     activationScript: { default: string; description: string };
   };
+  executionEnvironment: {
+    enabled: { default: boolean; description: string };
+    image: { default: string; description: string };
+  };
   [key: string]: SettingsEntry | string | boolean;
 }
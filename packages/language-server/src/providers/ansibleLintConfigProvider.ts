@@ -0,0 +1,723 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  CodeAction,
+  CodeActionKind,
+  CompletionItem,
+  CompletionItemKind,
+  CreateFile,
+  Diagnostic,
+  DiagnosticSeverity,
+  Hover,
+  MarkupKind,
+  Range,
+  TextDocumentEdit,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { isMap, isScalar, isSeq, Node } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import {
+  findLintRule,
+  formatLintRule,
+  isRuleListed,
+  LintRule,
+  lintProfileNames,
+  lintRuleTags,
+  RuleList,
+  toggleRuleInList,
+} from "../utils/lintRules";
+import { toLspRange } from "../utils/misc";
+import { getOrigRange } from "../utils/yaml";
+
+type ConfigValueType = "list" | "map" | "string" | "boolean" | "integer";
+
+/**
+ * Options of the ansible-lint configuration file, after the schema shipped
+ * with ansible-lint.
+ */
+const configOptions = new Map<
+  string,
+  { type: ConfigValueType; description: string }
+>([
+  [
+    "profile",
+    {
+      type: "string",
+      description:
+        "Profile selecting the rules to check, from `min` to `production`.",
+    },
+  ],
+  [
+    "exclude_paths",
+    { type: "list", description: "Files and directories not to lint." },
+  ],
+  [
+    "skip_list",
+    { type: "list", description: "Rules and tags not to report at all." },
+  ],
+  [
+    "warn_list",
+    {
+      type: "list",
+      description: "Rules and tags reported as warnings, not failing the run.",
+    },
+  ],
+  [
+    "enable_list",
+    { type: "list", description: "Opt-in rules and tags to check." },
+  ],
+  [
+    "write_list",
+    {
+      type: "list",
+      description: "Rules whose fixes `--fix` applies, `all` by default.",
+    },
+  ],
+  [
+    "tags",
+    { type: "list", description: "Only check the rules with these tags." },
+  ],
+  [
+    "use_default_rules",
+    {
+      type: "boolean",
+      description: "Whether to load the built-in rules along with `rulesdir`.",
+    },
+  ],
+  [
+    "rulesdir",
+    { type: "list", description: "Directories with custom rules to load." },
+  ],
+  [
+    "kinds",
+    {
+      type: "list",
+      description: "Glob patterns telling the kind of files, e.g. `playbook`.",
+    },
+  ],
+  [
+    "mock_modules",
+    { type: "list", description: "Modules to treat as installed." },
+  ],
+  ["mock_roles", { type: "list", description: "Roles to treat as installed." }],
+  [
+    "mock_filters",
+    { type: "list", description: "Jinja filters to treat as installed." },
+  ],
+  [
+    "extra_vars",
+    {
+      type: "map",
+      description: "Variables passed to Ansible for the syntax check.",
+    },
+  ],
+  [
+    "offline",
+    {
+      type: "boolean",
+      description:
+        "Whether to skip installing the requirements of the project.",
+    },
+  ],
+  [
+    "strict",
+    {
+      type: "boolean",
+      description: "Whether warnings also make the run fail.",
+    },
+  ],
+  [
+    "skip_action_validation",
+    {
+      type: "boolean",
+      description: "Whether to skip validating the arguments of modules.",
+    },
+  ],
+  [
+    "loop_var_prefix",
+    {
+      type: "string",
+      description:
+        "Pattern loop variables of roles must match, e.g. `^(__|{role}_)`.",
+    },
+  ],
+  [
+    "var_naming_pattern",
+    { type: "string", description: "Pattern variable names must match." },
+  ],
+  [
+    "task_name_prefix",
+    {
+      type: "string",
+      description: "Prefix of the names of tasks in included files.",
+    },
+  ],
+  [
+    "max_block_depth",
+    { type: "integer", description: "Maximum nesting of blocks." },
+  ],
+  [
+    "only_builtins_allow_collections",
+    {
+      type: "list",
+      description: "Collections the `only-builtins` rule allows.",
+    },
+  ],
+  [
+    "only_builtins_allow_modules",
+    { type: "list", description: "Modules the `only-builtins` rule allows." },
+  ],
+  [
+    "supported_ansible_also",
+    {
+      type: "list",
+      description: "Extra ansible-core versions the content must support.",
+    },
+  ],
+  ["quiet", { type: "boolean", description: "Whether to output less." }],
+  [
+    "verbosity",
+    { type: "integer", description: "Verbosity of the output, from 0." },
+  ],
+  [
+    "parseable",
+    {
+      type: "boolean",
+      description: "Whether to use the parseable output format.",
+    },
+  ],
+  [
+    "sarif_file",
+    { type: "string", description: "File to write a SARIF report to." },
+  ],
+  [
+    "display_relative_path",
+    {
+      type: "boolean",
+      description: "Whether to report paths relative to the project.",
+    },
+  ],
+]);
+
+/** Options whose items are rule ids or tags. */
+const ruleListOptions = new Set([
+  "skip_list",
+  "warn_list",
+  "enable_list",
+  "write_list",
+]);
+
+/** Values `write_list` accepts besides rules. */
+const writeListKeywords = ["all", "none"];
+
+/**
+ * Tells whether the document is an ansible-lint configuration file.
+ */
+export function isAnsibleLintConfig(uri: string): boolean {
+  const uriPath = URI.parse(uri).path;
+  return (
+    path.posix.basename(uriPath) === ".ansible-lint" ||
+    /\/\.config\/ansible-lint\.ya?ml$/.test(uriPath)
+  );
+}
+
+/**
+ * Completes the options of an ansible-lint configuration file, the rules
+ * and tags in its rule lists and the names of profiles.
+ */
+export function doLintConfigCompletion(
+  document: TextDocument,
+  position: Position,
+  rules: Map<string, LintRule>,
+): CompletionItem[] {
+  const prefix = document.getText(
+    Range.create(position.line, 0, position.line, position.character),
+  );
+  const word = /[^\s:"'-][^\s:"']*$/.exec(prefix)?.[0] ?? "";
+  const range = Range.create(
+    position.line,
+    position.character - word.length,
+    position.line,
+    position.character,
+  );
+
+  if (/^[\w]*$/.test(prefix)) {
+    const [yamlDoc] = getDocumentAnalysis(document).yamlDocs;
+    const present = new Set(
+      isMap(yamlDoc?.contents)
+        ? yamlDoc.contents.items.map((pair) => String(pair.key))
+        : [],
+    );
+    return [...configOptions]
+      .filter(([name]) => !present.has(name))
+      .map(([name, option]) => ({
+        label: name,
+        kind: CompletionItemKind.Property,
+        detail: option.type,
+        documentation: option.description,
+        textEdit: {
+          range,
+          newText: option.type === "list" ? `${name}:\n  - ` : `${name}: `,
+        },
+      }));
+  }
+
+  if (/^profile:\s*\S*$/.test(prefix)) {
+    return lintProfileNames.map((name, index) => ({
+      label: name,
+      kind: CompletionItemKind.EnumMember,
+      sortText: String(index),
+      textEdit: { range, newText: name },
+    }));
+  }
+
+  const listName = /^\s*-\s*\S*$/.test(prefix)
+    ? findParentOption(document, position.line)
+    : undefined;
+  if (!listName || !ruleListOptions.has(listName)) {
+    return [];
+  }
+  const items: CompletionItem[] = [...rules.values()].map((rule) => ({
+    label: rule.id,
+    kind: CompletionItemKind.Value,
+    detail: rule.shortdesc,
+    documentation: {
+      kind: MarkupKind.Markdown,
+      value: formatLintRule(rule),
+    },
+    textEdit: { range, newText: rule.id },
+  }));
+  for (const tag of listName === "write_list"
+    ? writeListKeywords
+    : lintRuleTags) {
+    items.push({
+      label: tag,
+      kind: CompletionItemKind.Keyword,
+      detail: listName === "write_list" ? undefined : "tag",
+      textEdit: { range, newText: tag },
+    });
+  }
+  return items;
+}
+
+/**
+ * Checks an ansible-lint configuration file against the options it accepts,
+ * their types, the known profiles and, once the rules of ansible-lint are
+ * known, the rules and tags of its lists.
+ */
+export function getLintConfigValidation(
+  document: TextDocument,
+  rules: Map<string, LintRule>,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const report = (
+    node: Node,
+    message: string,
+    severity: DiagnosticSeverity,
+  ) => {
+    const range = getOrigRange(node);
+    if (range) {
+      diagnostics.push({
+        message,
+        range: toLspRange(range, document),
+        severity,
+        source: "Ansible [lint config]",
+      });
+    }
+  };
+
+  const [yamlDoc] = getDocumentAnalysis(document).yamlDocs;
+  if (!yamlDoc?.contents) {
+    return diagnostics;
+  }
+  if (!isMap(yamlDoc.contents)) {
+    report(
+      yamlDoc.contents,
+      "The ansible-lint configuration should be a mapping of options.",
+      DiagnosticSeverity.Error,
+    );
+    return diagnostics;
+  }
+
+  for (const { key, value } of yamlDoc.contents.items) {
+    if (!isScalar(key)) {
+      continue;
+    }
+    const name = String(key.value);
+    const option = configOptions.get(name);
+    if (!option) {
+      report(
+        key,
+        `Unknown ansible-lint option '${name}'.`,
+        DiagnosticSeverity.Warning,
+      );
+      continue;
+    }
+    if (!value || (isScalar(value) && value.value === null)) {
+      continue;
+    }
+    if (!hasType(value as Node, option.type)) {
+      report(
+        value as Node,
+        `'${name}' should be ${describeType(option.type)}.`,
+        DiagnosticSeverity.Error,
+      );
+      continue;
+    }
+    if (name === "profile" && isScalar(value)) {
+      if (!lintProfileNames.includes(String(value.value))) {
+        report(
+          value,
+          `Unknown profile '${value.value}', expected one of ${lintProfileNames.join(", ")}.`,
+          DiagnosticSeverity.Error,
+        );
+      }
+    }
+    if (ruleListOptions.has(name) && isSeq(value) && rules.size) {
+      for (const item of value.items) {
+        if (!isScalar(item) || typeof item.value !== "string") {
+          continue;
+        }
+        const known =
+          findLintRule(rules, item.value) ||
+          lintRuleTags.includes(item.value) ||
+          (name === "write_list" && writeListKeywords.includes(item.value));
+        if (!known) {
+          report(
+            item,
+            `Unknown ansible-lint rule or tag '${item.value}'.`,
+            DiagnosticSeverity.Warning,
+          );
+        }
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Describes the option or the rule under the cursor in an ansible-lint
+ * configuration file.
+ */
+export function getLintConfigHover(
+  document: TextDocument,
+  position: Position,
+  rules: Map<string, LintRule>,
+): Hover | null {
+  const offset = document.offsetAt(position);
+  const [yamlDoc] = getDocumentAnalysis(document).yamlDocs;
+  if (!isMap(yamlDoc?.contents)) {
+    return null;
+  }
+  for (const { key, value } of yamlDoc.contents.items) {
+    if (!isScalar(key)) {
+      continue;
+    }
+    const keyRange = getOrigRange(key);
+    const option = configOptions.get(String(key.value));
+    if (option && keyRange && keyRange[0] <= offset && offset <= keyRange[1]) {
+      return {
+        contents: {
+          kind: MarkupKind.Markdown,
+          value: `**${key.value}** (${option.type})\n\n${option.description}`,
+        },
+        range: toLspRange(keyRange, document),
+      };
+    }
+    if (!ruleListOptions.has(String(key.value)) || !isSeq(value)) {
+      continue;
+    }
+    for (const item of value.items) {
+      const itemRange = getOrigRange(item as Node);
+      if (
+        !isScalar(item) ||
+        !itemRange ||
+        offset < itemRange[0] ||
+        offset > itemRange[1]
+      ) {
+        continue;
+      }
+      const rule = findLintRule(rules, String(item.value));
+      return rule
+        ? {
+            contents: {
+              kind: MarkupKind.Markdown,
+              value: formatLintRule(rule, String(item.value)),
+            },
+            range: toLspRange(itemRange, document),
+          }
+        : null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Documents the rules of the ansible-lint diagnostics at the position, to be
+ * shown along with the other hover content.
+ */
+export async function getLintDiagnosticHover(
+  diagnostics: Diagnostic[],
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<string | undefined> {
+  const codes = new Set<string>();
+  for (const diagnostic of diagnostics) {
+    const { start, end } = diagnostic.range;
+    if (
+      diagnostic.source === "ansible-lint" &&
+      typeof diagnostic.code === "string" &&
+      position.line >= start.line &&
+      position.line <= end.line &&
+      (position.line > start.line || position.character >= start.character)
+    ) {
+      codes.add(diagnostic.code);
+    }
+  }
+  if (!codes.size) {
+    return undefined;
+  }
+  const rules = await context.ansibleLintRules.getRules();
+  const sections = [...codes].flatMap((code) => {
+    const rule = findLintRule(rules, code);
+    return rule ? [formatLintRule(rule, code)] : [];
+  });
+  return sections.length ? sections.join("\n\n---\n\n") : undefined;
+}
+
+/**
+ * Appends Markdown to the content of a hover, or makes a hover of it.
+ */
+export function appendToHover(hover: Hover | null, markdown: string): Hover {
+  if (!hover) {
+    return { contents: { kind: MarkupKind.Markdown, value: markdown } };
+  }
+  const contents = hover.contents;
+  const value =
+    typeof contents === "string"
+      ? contents
+      : Array.isArray(contents)
+        ? contents
+            .map((item) => (typeof item === "string" ? item : item.value))
+            .join("\n\n")
+        : contents.value;
+  return {
+    ...hover,
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: `${value}\n\n---\n\n${markdown}`,
+    },
+  };
+}
+
+export const listLintRulesRequest = "list/ansible-lint-rules";
+export const toggleLintRuleRequest = "toggle/ansible-lint-rule";
+
+/**
+ * A rule known to ansible-lint, with the list of the configuration file it
+ * is in, for the command toggling rules.
+ */
+export interface LintRuleItem {
+  id: string;
+  shortdesc: string;
+  list?: RuleList;
+}
+
+interface LintConfigFile {
+  uri: string;
+  /** Content of the file, undefined when it does not exist yet. */
+  text: string | undefined;
+  document: TextDocument;
+}
+
+/**
+ * Offers to add the rule of each ansible-lint diagnostic to the `skip_list`
+ * or `warn_list` of the configuration file of the project, or to remove it
+ * if already there. The file is created at the root of the workspace folder
+ * when none is found.
+ */
+export async function getRuleListActions(
+  document: TextDocument,
+  diagnostics: Diagnostic[],
+  context: WorkspaceFolderContext,
+): Promise<CodeAction[]> {
+  const lintDiagnostics = diagnostics.filter(
+    (diagnostic) =>
+      diagnostic.source === "ansible-lint" &&
+      typeof diagnostic.code === "string",
+  );
+  if (!lintDiagnostics.length) {
+    return [];
+  }
+
+  const config = await readLintConfigFile(document.uri, context);
+  const actions: CodeAction[] = [];
+  const seen = new Set<string>();
+  for (const diagnostic of lintDiagnostics) {
+    const rule = diagnostic.code as string;
+    if (seen.has(rule)) {
+      continue;
+    }
+    seen.add(rule);
+    for (const list of ["skip_list", "warn_list"] as RuleList[]) {
+      actions.push({
+        title:
+          getRuleList(config, rule) === list
+            ? `Remove "${rule}" from ${list} in .ansible-lint`
+            : `Add "${rule}" to ${list} in .ansible-lint`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: getRuleListEdit(config, rule, list),
+      });
+    }
+  }
+  return actions;
+}
+
+/**
+ * Lists the rules of ansible-lint along with the list of the configuration
+ * file of the project each one is in.
+ */
+export async function getLintRuleItems(
+  uri: string,
+  context: WorkspaceFolderContext,
+): Promise<LintRuleItem[]> {
+  const config = await readLintConfigFile(uri, context);
+  return [...(await context.ansibleLintRules.getRules()).values()]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((rule) => ({
+      id: rule.id,
+      shortdesc: rule.shortdesc,
+      list: getRuleList(config, rule.id),
+    }));
+}
+
+/**
+ * Returns the edit adding a rule to a list of the configuration file of the
+ * project, or removing it from the list if already there.
+ */
+export async function getToggleRuleEdit(
+  uri: string,
+  rule: string,
+  list: RuleList,
+  context: WorkspaceFolderContext,
+): Promise<WorkspaceEdit> {
+  return getRuleListEdit(await readLintConfigFile(uri, context), rule, list);
+}
+
+/**
+ * Reads the configuration file found for a document or folder, which is
+ * `.ansible-lint` at the root of the workspace folder when there is none.
+ */
+async function readLintConfigFile(
+  uri: string,
+  context: WorkspaceFolderContext,
+): Promise<LintConfigFile> {
+  const filePath = URI.parse(uri).path;
+  const configPath =
+    (await context.ansibleLint.findAnsibleLintConfigFile(
+      uri === context.workspaceFolder.uri ? filePath : path.dirname(filePath),
+    )) ??
+    path.join(URI.parse(context.workspaceFolder.uri).path, ".ansible-lint");
+  const configUri = URI.file(configPath).toString();
+  let text: string | undefined;
+  try {
+    text = await fs.readFile(configPath, "utf8");
+  } catch {
+    text = undefined;
+  }
+  return {
+    uri: configUri,
+    text,
+    document: TextDocument.create(configUri, "yaml", 0, text ?? ""),
+  };
+}
+
+function getRuleList(
+  config: LintConfigFile,
+  rule: string,
+): RuleList | undefined {
+  const [yamlDoc] = getDocumentAnalysis(config.document).yamlDocs;
+  if (!isMap(yamlDoc?.contents)) {
+    return undefined;
+  }
+  const lists: RuleList[] = ["skip_list", "warn_list", "enable_list"];
+  return lists.find((list) => isRuleListed(yamlDoc.get(list), rule));
+}
+
+function getRuleListEdit(
+  config: LintConfigFile,
+  rule: string,
+  list: RuleList,
+): WorkspaceEdit {
+  const { uri, text, document } = config;
+  const newText = toggleRuleInList(text ?? "", rule, list);
+  return text === undefined
+    ? {
+        documentChanges: [
+          CreateFile.create(uri, { ignoreIfExists: true }),
+          TextDocumentEdit.create({ uri, version: null }, [
+            TextEdit.insert({ line: 0, character: 0 }, newText),
+          ]),
+        ],
+      }
+    : {
+        changes: {
+          [uri]: [
+            TextEdit.replace(
+              Range.create(
+                document.positionAt(0),
+                document.positionAt(text.length),
+              ),
+              newText,
+            ),
+          ],
+        },
+      };
+}
+
+function findParentOption(
+  document: TextDocument,
+  line: number,
+): string | undefined {
+  for (let i = line - 1; i >= 0; i--) {
+    const text = document.getText(Range.create(i, 0, i + 1, 0));
+    const option = /^([\w]+):/.exec(text);
+    if (option) {
+      return option[1];
+    }
+    if (/^\S/.test(text) && !text.startsWith("#")) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function hasType(node: Node, type: ConfigValueType): boolean {
+  switch (type) {
+    case "list":
+      return isSeq(node);
+    case "map":
+      return isMap(node);
+    case "string":
+      return isScalar(node) && typeof node.value === "string";
+    case "boolean":
+      return isScalar(node) && typeof node.value === "boolean";
+    case "integer":
+      return isScalar(node) && Number.isInteger(node.value);
+  }
+}
+
+function describeType(type: ConfigValueType): string {
+  return {
+    list: "a list",
+    map: "a mapping",
+    string: "a string",
+    boolean: "true or false",
+    integer: "an integer",
+  }[type];
+}
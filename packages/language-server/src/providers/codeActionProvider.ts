@@ -0,0 +1,358 @@
+import {
+  CodeAction,
+  CodeActionKind,
+  CodeActionParams,
+  Diagnostic,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, isPair, isScalar, Scalar, visit, YAMLMap } from "yaml";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { getTaskKeyRank, isTaskKeyword } from "../utils/ansible";
+import { toLspRange } from "../utils/misc";
+import { getShortActionName } from "../utils/references";
+import {
+  getDeclaredCollections,
+  getOrigRange,
+  getPathAt,
+  getTaskMaps,
+  getYamlMapKeys,
+  parseAllDocuments,
+} from "../utils/yaml";
+import { getRuleListActions } from "./ansibleLintConfigProvider";
+import { resolveFqcn } from "./hoverProvider";
+import { DeprecationData, deprecationSource } from "./validationProvider";
+import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+
+export const lintFixAllTitle = "Fix all with ansible-lint --fix";
+
+const truthyPattern =
+  /^(yes|Yes|YES|no|No|NO|on|On|ON|off|Off|OFF|True|TRUE|False|FALSE)$/;
+const truthyValues = new Set(["yes", "on", "true"]);
+
+interface LintFixAllData {
+  uri: string;
+}
+
+export async function doCodeActions(
+  document: TextDocument,
+  params: CodeActionParams,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<CodeAction[]> {
+  const only = params.context.only;
+  const actions = new CodeActions(document, params.context.diagnostics);
+
+  if (!only || only.some((kind) => kind.startsWith(CodeActionKind.QuickFix))) {
+    const yamlDocs = parseAllDocuments(document.getText());
+    for (const taskNode of getTaskMaps(yamlDocs, true)) {
+      const taskRange = getOrigRange(taskNode);
+      if (
+        !taskRange ||
+        !intersects(toLspRange(taskRange, document), params.range)
+      ) {
+        continue;
+      }
+      actions.addFqcnFix(taskNode, yamlDocs, collectionsService);
+      actions.addNameFix(taskNode);
+      actions.addKeyOrderFix(taskNode);
+    }
+    for (const yamlDoc of yamlDocs) {
+      visit(yamlDoc, {
+        Scalar(key, node) {
+          if (key !== "key") {
+            actions.addTruthyFix(node, params.range);
+          }
+        },
+      });
+    }
+    actions.addNoqaFixes();
+    actions.addDeprecationFixes();
+    actions.items.push(
+      ...(await getRuleListActions(
+        document,
+        params.context.diagnostics,
+        context,
+      )),
+    );
+  }
+
+  if (
+    !only ||
+    only.some((kind) => CodeActionKind.SourceFixAll.startsWith(kind))
+  ) {
+    const settings = await context.documentSettings.get(document.uri);
+    if (settings.validation.enabled && settings.validation.lint.enabled) {
+      const data: LintFixAllData = { uri: document.uri };
+      actions.items.push({
+        title: lintFixAllTitle,
+        kind: CodeActionKind.SourceFixAll,
+        data,
+      });
+    }
+  }
+
+  return actions.items;
+}
+
+/**
+ * Computes the edit of the "Fix all with ansible-lint --fix" source action,
+ * so that the client can preview it before applying.
+ */
+export async function doCodeActionResolve(
+  action: CodeAction,
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+): Promise<CodeAction> {
+  if (action.title !== lintFixAllTitle) {
+    return action;
+  }
+  const fixed = await context.ansibleLint.fix(document);
+  if (fixed !== undefined && fixed !== document.getText()) {
+    const fullRange = Range.create(
+      document.positionAt(0),
+      document.positionAt(document.getText().length),
+    );
+    action.edit = {
+      changes: { [document.uri]: [TextEdit.replace(fullRange, fixed)] },
+    };
+  }
+  return action;
+}
+
+class CodeActions {
+  public items: CodeAction[] = [];
+
+  constructor(
+    private document: TextDocument,
+    private diagnostics: Diagnostic[],
+  ) {}
+
+  /**
+   * Offers the `ansible.builtin` FQCN for a known builtin module, unless a
+   * collection declared with the `collections` keyword may provide the same
+   * short name.
+   */
+  public addFqcnFix(
+    taskNode: YAMLMap,
+    yamlDocs: Document[],
+    collectionsService: CollectionsService,
+  ): void {
+    const moduleKey = getModuleKey(taskNode);
+    if (!moduleKey || taskNode.has("block")) {
+      return;
+    }
+    const name = moduleKey.value as string;
+    const fqcn = resolveFqcn(name);
+    if (
+      fqcn === name ||
+      !collectionsService
+        .getPlugins("ansible.builtin", "module")
+        .some((plugin) => plugin.name === name)
+    ) {
+      return;
+    }
+    const path = getPathAt(
+      this.document,
+      this.rangeOf(moduleKey).start,
+      yamlDocs,
+    );
+    const ambiguous = getDeclaredCollections(path)
+      .filter((collection) => !/^ansible\.(builtin|legacy)$/.test(collection))
+      .some(
+        (collection) =>
+          !collectionsService.getCollection(collection) ||
+          collectionsService
+            .getPlugins(collection, "module")
+            .some((plugin) => plugin.name === name),
+      );
+    if (ambiguous) {
+      return;
+    }
+    this.addQuickFix(`Use FQCN "${fqcn}"`, "fqcn", [
+      TextEdit.replace(this.rangeOf(moduleKey), fqcn),
+    ]);
+  }
+
+  public addNameFix(taskNode: YAMLMap): void {
+    const firstKey = taskNode.items[0]?.key;
+    const moduleKey = getModuleKey(taskNode);
+    if (
+      taskNode.flow ||
+      !isScalar(firstKey) ||
+      !moduleKey ||
+      taskNode.has("name") ||
+      taskNode.has("block")
+    ) {
+      return;
+    }
+    const description = `Run ${getShortActionName(moduleKey.value as string)}`;
+    const start = this.rangeOf(firstKey).start;
+    this.addQuickFix("Add a name to this task", "name[missing]", [
+      TextEdit.insert(
+        start,
+        `name: ${description}\n${" ".repeat(start.character)}`,
+      ),
+    ]);
+  }
+
+  public addKeyOrderFix(taskNode: YAMLMap): void {
+    if (taskNode.flow) {
+      return;
+    }
+    const keys = getYamlMapKeys(taskNode);
+    const orderedKeys = [...keys].sort(
+      (a, b) => getTaskKeyRank(a) - getTaskKeyRank(b),
+    );
+    if (orderedKeys.every((key, index) => key === keys[index])) {
+      return;
+    }
+
+    const text = this.document.getText();
+    const segments = new Map<string, string>();
+    let start: number | undefined;
+    let end = 0;
+    for (const [index, pair] of taskNode.items.entries()) {
+      const keyRange = getOrigRange(pair.key as Scalar);
+      const nextKeyRange = getOrigRange(
+        taskNode.items[index + 1]?.key as Scalar,
+      );
+      const pairEnd =
+        nextKeyRange?.[0] ??
+        getOrigRange(pair.value as Scalar)?.[1] ??
+        keyRange?.[1];
+      if (!keyRange || pairEnd === undefined) {
+        return;
+      }
+      start ??= keyRange[0];
+      end = pairEnd;
+      segments.set(keys[index], text.slice(keyRange[0], pairEnd).trimEnd());
+    }
+    if (start === undefined) {
+      return;
+    }
+
+    const indent = " ".repeat(this.document.positionAt(start).character);
+    const newText = orderedKeys
+      .map((key) => segments.get(key))
+      .join(`\n${indent}`);
+    const replacedLength = text.slice(start, end).trimEnd().length;
+    this.addQuickFix("Fix task key order", "key-order", [
+      TextEdit.replace(
+        toLspRange([start, start + replacedLength], this.document),
+        newText,
+      ),
+    ]);
+  }
+
+  public addTruthyFix(node: Scalar, range: Range): void {
+    const nodeRange = getOrigRange(node);
+    if (!nodeRange || node.type !== Scalar.PLAIN) {
+      return;
+    }
+    const source = this.document.getText().slice(nodeRange[0], nodeRange[1]);
+    const lspRange = toLspRange(nodeRange, this.document);
+    if (!truthyPattern.test(source) || !intersects(lspRange, range)) {
+      return;
+    }
+    const replacement = truthyValues.has(source.toLowerCase())
+      ? "true"
+      : "false";
+    this.addQuickFix(
+      `Replace "${source}" with ${replacement}`,
+      "yaml[truthy]",
+      [TextEdit.replace(lspRange, replacement)],
+    );
+  }
+
+  public addNoqaFixes(): void {
+    for (const diagnostic of this.diagnostics) {
+      if (
+        diagnostic.source !== "ansible-lint" ||
+        typeof diagnostic.code !== "string"
+      ) {
+        continue;
+      }
+      const line = diagnostic.range.start.line;
+      const lineText = this.document
+        .getText(Range.create(line, 0, line + 1, 0))
+        .replace(/\r?\n$/, "");
+      const edit = /#\s*noqa:?/.test(lineText)
+        ? TextEdit.insert(
+            { line, character: lineText.length },
+            ` ${diagnostic.code}`,
+          )
+        : TextEdit.insert(
+            { line, character: lineText.length },
+            `  # noqa: ${diagnostic.code}`,
+          );
+      this.items.push({
+        title: `Ignore "${diagnostic.code}" for this line`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        edit: { changes: { [this.document.uri]: [edit] } },
+      });
+    }
+  }
+
+  public addDeprecationFixes(): void {
+    for (const diagnostic of this.diagnostics) {
+      const data = diagnostic.data as DeprecationData | undefined;
+      if (diagnostic.source !== deprecationSource || !data?.replacement) {
+        continue;
+      }
+      this.items.push({
+        title: `Replace with "${data.replacement}"`,
+        kind: CodeActionKind.QuickFix,
+        diagnostics: [diagnostic],
+        isPreferred: true,
+        edit: {
+          changes: {
+            [this.document.uri]: [
+              TextEdit.replace(diagnostic.range, data.replacement),
+            ],
+          },
+        },
+      });
+    }
+  }
+
+  private addQuickFix(title: string, rule: string, edits: TextEdit[]): void {
+    const diagnostics = this.diagnostics.filter(
+      (diagnostic) =>
+        typeof diagnostic.code === "string" &&
+        diagnostic.code.startsWith(rule) &&
+        edits.some(
+          (edit) => edit.range.start.line === diagnostic.range.start.line,
+        ),
+    );
+    this.items.push({
+      title,
+      kind: CodeActionKind.QuickFix,
+      diagnostics: diagnostics.length ? diagnostics : undefined,
+      isPreferred: diagnostics.length > 0,
+      edit: { changes: { [this.document.uri]: edits } },
+    });
+  }
+
+  private rangeOf(node: Scalar): Range {
+    const range = getOrigRange(node) ?? [0, 0];
+    return toLspRange(range, this.document);
+  }
+}
+
+function getModuleKey(taskNode: YAMLMap): Scalar | undefined {
+  const pair = taskNode.items.find(
+    (item) =>
+      isPair(item) &&
+      isScalar(item.key) &&
+      typeof item.key.value === "string" &&
+      !isTaskKeyword(item.key.value),
+  );
+  return pair?.key as Scalar | undefined;
+}
+
+function intersects(a: Range, b: Range): boolean {
+  return a.start.line <= b.end.line && b.start.line <= a.end.line;
+}
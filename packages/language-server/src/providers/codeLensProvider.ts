@@ -0,0 +1,103 @@
+import { CodeLens, Command } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, isMap, isScalar, isSeq, YAMLMap } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import { getOrigRange, getTaskMaps, isPlayMap } from "../utils/yaml";
+
+/** Command of the extension that runs a playbook in a terminal. */
+export const runPlaybookCommand = "ansiblePlaybooks.run";
+
+/**
+ * Arguments passed to the run command by the play code lenses.
+ */
+export interface PlaybookRunRequest {
+  uri: string;
+  limit?: string;
+  startAtTask?: string;
+  check?: boolean;
+}
+
+/**
+ * Adds "Run from this play" and "Check from this play" lenses above each
+ * play. ansible-playbook cannot run a single play, so the run goes on with
+ * the plays that follow: it is limited to the hosts of the play and, for
+ * plays after the first one, starts at the first task of the play when it is
+ * known.
+ */
+export function doCodeLens(document: TextDocument): CodeLens[] {
+  const lenses: CodeLens[] = [];
+  let isFirstPlay = true;
+  for (const yamlDoc of getDocumentAnalysis(document).yamlDocs) {
+    const items = isSeq(yamlDoc.contents) ? yamlDoc.contents.items : [];
+    for (const play of items) {
+      if (!isMap(play) || !isPlayMap(play)) {
+        continue;
+      }
+      const range = getOrigRange(play);
+      if (!range) {
+        continue;
+      }
+      const request: PlaybookRunRequest = {
+        uri: document.uri,
+        limit: getPlayLimit(play),
+        startAtTask: isFirstPlay ? undefined : getFirstTaskName(play),
+      };
+      isFirstPlay = false;
+
+      const start = document.positionAt(range[0]);
+      const lensRange = { start, end: start };
+      lenses.push(
+        {
+          range: lensRange,
+          command: Command.create(
+            "Run from this play",
+            runPlaybookCommand,
+            request,
+          ),
+        },
+        {
+          range: lensRange,
+          command: Command.create("Check from this play", runPlaybookCommand, {
+            ...request,
+            check: true,
+          }),
+        },
+      );
+    }
+  }
+  return lenses;
+}
+
+function getPlayLimit(play: YAMLMap): string | undefined {
+  const hosts = play.get("hosts", true);
+  const patterns = (isSeq(hosts) ? hosts.items : [hosts])
+    .map((node) => (isScalar(node) ? String(node.value) : ""))
+    .filter((pattern) => pattern);
+  const limit = patterns.join(",");
+  return !limit || limit === "all" || limit.includes("{{") ? undefined : limit;
+}
+
+/**
+ * Returns the name of the task the play starts with. Roles run after
+ * `pre_tasks` and their task names are not known here, so nothing is
+ * returned for plays that start with roles.
+ */
+function getFirstTaskName(play: YAMLMap): string | undefined {
+  const sections = play.has("roles")
+    ? ["pre_tasks"]
+    : ["pre_tasks", "tasks", "post_tasks"];
+  for (const section of sections) {
+    const taskList = play.get(section, true);
+    if (!isSeq(taskList)) {
+      continue;
+    }
+    const tasks = getTaskMaps([new Document(taskList)]);
+    if (tasks.length) {
+      const name = tasks[0].get("name");
+      return typeof name === "string" && !name.includes("{{")
+        ? name
+        : undefined;
+    }
+  }
+  return undefined;
+}
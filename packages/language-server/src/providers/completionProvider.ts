@@ -8,7 +8,9 @@ import {
   TextEdit,
 } from "vscode-languageserver";
 import { Position, TextDocument } from "vscode-languageserver-textdocument";
-import { isNode, isScalar, Node, YAMLMap } from "yaml";
+import { URI } from "vscode-uri";
+import { isMap, isNode, isPair, isScalar, isSeq, Node, YAMLMap } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
 import type { WorkspaceFolderContext } from "../services/workspaceManager";
 import {
   blockKeywords,
@@ -18,7 +20,9 @@ import {
   taskKeywords,
 } from "../utils/ansible";
 import { formatModule, formatOption, getDetails } from "../utils/docsFormatter";
+import { getHandlersInScope } from "../utils/handlers";
 import { insert, toLspRange } from "../utils/misc";
+import { getRoleArgumentsForPath } from "../utils/roleArguments";
 import {
   AncestryBuilder,
   findProvidedModule,
@@ -31,12 +35,22 @@ import {
   isTaskParam,
   parseAllDocuments,
   getPossibleOptionsForPath,
-  isCursorInsideJinjaBrackets,
+  getInventoryFormat,
   isPlaybook,
 } from "../utils/yaml";
 import { getVarsCompletion } from "./completionProviderUtils";
+import {
+  getHostTermRange,
+  getInventoryVariableCompletion,
+} from "./inventoryProvider";
+import { formatJinjaPlugin, getJinjaCompletion } from "./jinjaProvider";
+import { getTagCompletion } from "./tagProvider";
+import { getVariableCompletion } from "./variableProvider";
 import type { HostType } from "../services/ansibleInventory";
-import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import {
+  CollectionsService,
+  PluginOption,
+} from "@ansible/core/out/services/CollectionsService";
 
 const priorityMap = {
   nameKeyword: 1,
@@ -57,6 +71,13 @@ export async function doCompletion(
   position: Position,
   context: WorkspaceFolderContext,
 ): Promise<CompletionItem[]> {
+  if (getInventoryFormat(document)) {
+    return await getInventoryVariableCompletion(
+      document,
+      position,
+      await context.getCollectionsService(),
+    );
+  }
   isAnsiblePlaybook = isPlaybook(document);
 
   let preparedText = document.getText();
@@ -83,7 +104,33 @@ export async function doCompletion(
   const node = path[path.length - 1];
   if (!node) return [];
 
-  const collectionsService = CollectionsService.getInstance();
+  const collectionsService = await context.getCollectionsService();
+
+  const jinjaCompletion = getJinjaCompletion(
+    document,
+    position,
+    collectionsService,
+  );
+  if (jinjaCompletion) {
+    return jinjaCompletion;
+  }
+
+  const variableCompletion = await getVariableCompletion(
+    document,
+    position,
+    context,
+    () => (isAnsiblePlaybook ? getVarsCompletion(document.uri, path) : []),
+  );
+  if (variableCompletion) {
+    return variableCompletion;
+  }
+
+  if (isValueOf(path, "notify")) {
+    return getNotifyCompletion(document, node, context, collectionsService);
+  }
+  if (isValueOf(path, "tags")) {
+    return getTagCompletion(context, getNodeRange(node, document));
+  }
 
   const isPlay = isPlayParam(path);
   if (isPlay) {
@@ -93,7 +140,24 @@ export async function doCompletion(
     return getKeywordCompletion(document, position, path, blockKeywords);
   }
   if (isRoleParam(path)) {
-    return getKeywordCompletion(document, position, path, roleKeywords);
+    const completionItems = getKeywordCompletion(
+      document,
+      position,
+      path,
+      roleKeywords,
+    );
+    const roleArguments = await getRoleArgumentsForPath(
+      path,
+      document,
+      context,
+      collectionsService,
+    );
+    if (roleArguments) {
+      completionItems.push(
+        ...getOptionCompletion(roleArguments, document, position, path),
+      );
+    }
+    return completionItems;
   }
 
   if (isTaskParam(path)) {
@@ -148,59 +212,16 @@ export async function doCompletion(
     return completionItems;
   }
 
-  if (
-    isAnsiblePlaybook &&
-    isCursorInsideJinjaBrackets(document, position, path)
-  ) {
-    return getVarsCompletion(document.uri, path);
-  }
-
-  const options = await getPossibleOptionsForPath(
-    path,
-    document,
-    collectionsService,
-  );
+  const options =
+    (await getRoleArgumentsForPath(
+      path,
+      document,
+      context,
+      collectionsService,
+    )) ?? (await getPossibleOptionsForPath(path, document, collectionsService));
 
   if (options) {
-    const optionMap = new AncestryBuilder(path)
-      .parentOfKey()
-      .get() as YAMLMap;
-    const providedOptions = new Set(getYamlMapKeys(optionMap));
-    const nodeRange = getNodeRange(node, document);
-    const cursorAtFirst = firstElementOfList(document, nodeRange);
-    const cursorAtEnd = atEndOfLine(document, position);
-
-    return Object.entries(options)
-      .filter(([name]) => !providedOptions.has(name))
-      .map(([name, specs], index) => {
-        const details = getDetails(specs);
-        const priority = specs.required
-          ? priorityMap.requiredOption
-          : priorityMap.option;
-
-        const completionItem: CompletionItem = {
-          label: name,
-          detail: details,
-          sortText: priority.toString() + index.toString().padStart(3),
-          kind: CompletionItemKind.Property,
-          documentation: formatOption(specs, name),
-          data: {
-            documentUri: document.uri,
-            type: specs.type,
-            range: nodeRange,
-            atEndOfLine: cursorAtEnd,
-            firstElementOfList: cursorAtFirst,
-          },
-        };
-
-        const insertText = cursorAtEnd ? `${name}:` : name;
-        if (nodeRange) {
-          completionItem.textEdit = { range: nodeRange, newText: insertText };
-        } else {
-          completionItem.insertText = insertText;
-        }
-        return completionItem;
-      });
+    return getOptionCompletion(options, document, position, path);
   }
 
   let keyPath: Node[] | null;
@@ -215,11 +236,14 @@ export async function doCompletion(
 
   if (keyPath) {
     const keyNode = keyPath[keyPath.length - 1];
-    const keyOptions = await getPossibleOptionsForPath(
-      keyPath,
-      document,
-      collectionsService,
-    );
+    const keyOptions =
+      (await getRoleArgumentsForPath(
+        keyPath,
+        document,
+        context,
+        collectionsService,
+      )) ??
+      (await getPossibleOptionsForPath(keyPath, document, collectionsService));
     if (
       keyOptions &&
       isScalar(keyNode) &&
@@ -294,7 +318,11 @@ export async function doCompletion(
         .parent(YAMLMap)
         .getStringKey() === "vars";
 
-    if (isHostsKeyword || isAnsibleHostKeyword) {
+    if (isHostsKeyword) {
+      const hostsList = (await context.ansibleInventory).hostList;
+      return getHostCompletion(hostsList, getHostTermRange(document, position));
+    }
+    if (isAnsibleHostKeyword) {
       const hostsList = (await context.ansibleInventory).hostList;
       return getHostCompletion(hostsList);
     }
@@ -364,7 +392,7 @@ export async function doCompletionResolve(
   context: WorkspaceFolderContext,
 ): Promise<CompletionItem> {
   if (completionItem.data?.moduleFqcn && completionItem.data?.documentUri) {
-    const collectionsService = CollectionsService.getInstance();
+    const collectionsService = await context.getCollectionsService();
     const pluginData = await collectionsService.getPluginDocumentation(
       completionItem.data.moduleFqcn,
       "module",
@@ -398,6 +426,20 @@ export async function doCompletionResolve(
     }
   }
 
+  if (completionItem.data?.pluginFqcn && completionItem.data?.pluginType) {
+    const collectionsService = await context.getCollectionsService();
+    const pluginData = await collectionsService.getPluginDocumentation(
+      completionItem.data.pluginFqcn,
+      completionItem.data.pluginType,
+    );
+    if (pluginData?.doc) {
+      completionItem.documentation = formatJinjaPlugin(
+        pluginData.doc,
+        completionItem.data.pluginType,
+      );
+    }
+  }
+
   if (completionItem.data?.type) {
     const insertText = completionItem.data.atEndOfLine
       ? `${completionItem.label}:${resolveSuffix(
@@ -453,13 +495,86 @@ function getKeywordCompletion(
   });
 }
 
-function getHostCompletion(hostObjectList: HostType[]): CompletionItem[] {
+/**
+ * Tells whether the path leads to a value of the given key, either the value
+ * itself or one of its list items.
+ */
+function isValueOf(path: Node[], key: string): boolean {
+  let index = path.length - 1;
+  const itemMap = path[index - 2];
+  if (
+    isMap(itemMap) &&
+    itemMap.items.length === 1 &&
+    isSeq(path[index - 3]) &&
+    isPair(path[index - 1])
+  ) {
+    // a list item being typed is parsed as a map, due to the dummy mapping
+    index -= 3;
+  } else if (isSeq(path[index - 1])) {
+    index -= 1;
+  }
+  const pair = path[index - 1];
+  return (
+    isPair(pair) &&
+    isScalar(pair.key) &&
+    pair.key.value === key &&
+    pair.value === path[index]
+  );
+}
+
+async function getNotifyCompletion(
+  document: TextDocument,
+  node: Node,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<CompletionItem[]> {
+  const handlers = await getHandlersInScope(
+    document,
+    getDocumentAnalysis(document).yamlDocs,
+    URI.parse(context.workspaceFolder.uri).path,
+    collectionsService,
+  );
+  const nodeRange = getNodeRange(node, document);
+  const items = new Map<string, CompletionItem>();
+  for (const handler of handlers) {
+    const names = handler.topics.map((topic) => ({
+      name: topic.value,
+      detail: "listen",
+    }));
+    if (handler.name) {
+      names.unshift({
+        name: handler.name.value,
+        detail: handler.role ? `handler of role ${handler.role}` : "handler",
+      });
+    }
+    for (const { name, detail } of names) {
+      if (items.has(name)) {
+        continue;
+      }
+      items.set(name, {
+        label: name,
+        detail,
+        kind: CompletionItemKind.Event,
+        ...(nodeRange
+          ? { textEdit: { range: nodeRange, newText: name } }
+          : { insertText: name }),
+      });
+    }
+  }
+  return [...items.values()];
+}
+
+function getHostCompletion(
+  hostObjectList: HostType[],
+  range?: Range,
+): CompletionItem[] {
   return hostObjectList.map(({ host, priority }) => ({
     label: host,
     sortText: `${priority}_${host}`,
     kind: [1, 2].includes(priority)
       ? CompletionItemKind.Variable
       : CompletionItemKind.Value,
+    textEdit: range ? { range, newText: host } : undefined,
   }));
 }
 
@@ -520,3 +635,53 @@ export function resolveSuffix(
       return " ";
   }
 }
+
+/**
+ * Builds completion items for the options, module or role arguments, not yet
+ * provided in the map containing the key at the end of `path`.
+ */
+function getOptionCompletion(
+  options: Record<string, PluginOption>,
+  document: TextDocument,
+  position: Position,
+  path: Node[],
+): CompletionItem[] {
+  const node = path[path.length - 1];
+  const optionMap = new AncestryBuilder(path).parentOfKey().get() as YAMLMap;
+  const providedOptions = new Set(getYamlMapKeys(optionMap));
+  const nodeRange = getNodeRange(node, document);
+  const cursorAtFirst = firstElementOfList(document, nodeRange);
+  const cursorAtEnd = atEndOfLine(document, position);
+
+  return Object.entries(options)
+    .filter(([name]) => !providedOptions.has(name))
+    .map(([name, specs], index) => {
+      const details = getDetails(specs);
+      const priority = specs.required
+        ? priorityMap.requiredOption
+        : priorityMap.option;
+
+      const completionItem: CompletionItem = {
+        label: name,
+        detail: details,
+        sortText: priority.toString() + index.toString().padStart(3),
+        kind: CompletionItemKind.Property,
+        documentation: formatOption(specs, name),
+        data: {
+          documentUri: document.uri,
+          type: specs.type,
+          range: nodeRange,
+          atEndOfLine: cursorAtEnd,
+          firstElementOfList: cursorAtFirst,
+        },
+      };
+
+      const insertText = cursorAtEnd ? `${name}:` : name;
+      if (nodeRange) {
+        completionItem.textEdit = { range: nodeRange, newText: insertText };
+      } else {
+        completionItem.insertText = insertText;
+      }
+      return completionItem;
+    });
+}
@@ -0,0 +1,237 @@
+import * as path from "path";
+import {
+  DefinitionLink,
+  Location,
+  Range,
+  TextDocuments,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { Document, isScalar } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { getHandlerFiles } from "../utils/handlers";
+import { fileExists, loadTextDocument, toLspRange } from "../utils/misc";
+import {
+  getRoleEntryPoint,
+  resolveFilePath,
+  resolveRolePath,
+} from "../utils/pathResolution";
+import {
+  AnsibleReference,
+  collectReferences,
+  fileReferenceSubdirectories,
+} from "../utils/references";
+import { getOrigRange, getPathAt, parseAllDocuments } from "../utils/yaml";
+import { resolveFqcn } from "./hoverProvider";
+import { getVariableDefinition } from "./variableProvider";
+import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+
+export async function doDefinition(
+  document: TextDocument,
+  position: Position,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<DefinitionLink[] | null> {
+  const variableDefinition = await getVariableDefinition(
+    document,
+    position,
+    context,
+  );
+  if (variableDefinition) {
+    return variableDefinition;
+  }
+
+  const yamlDocs = getDocumentAnalysis(document).yamlDocs;
+  const reference = getReferenceAt(document, position, yamlDocs);
+  if (!reference) {
+    return null;
+  }
+
+  const range = getOrigRange(reference.node);
+  const originSelectionRange = range
+    ? toLspRange(range, document)
+    : undefined;
+  const filePath = URI.parse(document.uri).path;
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+
+  switch (reference.kind) {
+    case "module": {
+      const source = await findModuleSource(
+        reference.name,
+        context,
+        collectionsService,
+      );
+      return source ? [fileLink(source, originSelectionRange)] : null;
+    }
+    case "role": {
+      const roleDir = await resolveRolePath(
+        reference.name,
+        filePath,
+        workspacePath,
+        collectionsService,
+      );
+      const entryPoint = roleDir && (await getRoleEntryPoint(roleDir));
+      return entryPoint ? [fileLink(entryPoint, originSelectionRange)] : null;
+    }
+    case "include": {
+      const target = await resolveFilePath(
+        reference.name,
+        filePath,
+        fileReferenceSubdirectories[reference.keyword],
+      );
+      return target ? [fileLink(target, originSelectionRange)] : null;
+    }
+    case "handler":
+    case "notify": {
+      const handlers = await findHandlers(
+        reference.name,
+        document,
+        yamlDocs,
+        documents,
+        workspacePath,
+        collectionsService,
+      );
+      return handlers.map(({ uri, range }) => ({
+        originSelectionRange,
+        targetUri: uri,
+        targetRange: range,
+        targetSelectionRange: range,
+      }));
+    }
+  }
+}
+
+/**
+ * Returns the module, role, include, handler or notify reference under the
+ * cursor.
+ */
+export function getReferenceAt(
+  document: TextDocument,
+  position: Position,
+  yamlDocs: Document[],
+): AnsibleReference | undefined {
+  const path = getPathAt(document, position, yamlDocs);
+  const node = path?.[path.length - 1];
+  if (!isScalar(node)) {
+    return undefined;
+  }
+  return collectReferences(document.uri, yamlDocs).find(
+    (reference) => reference.node === node,
+  );
+}
+
+/**
+ * Locates the source file of a module, preferring the filename reported by
+ * ansible-doc and falling back to the collection layout on disk.
+ */
+async function findModuleSource(
+  moduleName: string,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<string | undefined> {
+  const fqcn = resolveFqcn(moduleName);
+  const pluginData = await collectionsService.getPluginDocumentation(
+    fqcn,
+    "module",
+  );
+  const candidates: string[] = [];
+  if (pluginData?.doc?.filename) {
+    candidates.push(pluginData.doc.filename);
+  }
+
+  const parts = fqcn.split(".");
+  const collectionName = parts.slice(0, 2).join(".");
+  const shortName = parts[parts.length - 1];
+  if (collectionName === "ansible.builtin") {
+    const ansibleConfig = await context.ansibleConfig;
+    for (const location of ansibleConfig.moduleLocations) {
+      candidates.push(path.join(location, `${shortName}.py`));
+    }
+  } else {
+    const collectionPath =
+      collectionsService.getCollection(collectionName)?.info.path;
+    if (collectionPath) {
+      candidates.push(
+        path.join(collectionPath, "plugins", "modules", `${shortName}.py`),
+      );
+    }
+  }
+
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Finds handlers named or listening as `name` in the document, in the
+ * handlers of the role containing the document, in the roles it uses and in
+ * handler files it imports.
+ */
+export async function findHandlers(
+  name: string,
+  document: TextDocument,
+  yamlDocs: Document[],
+  documents: TextDocuments<TextDocument>,
+  workspacePath: string,
+  collectionsService: CollectionsService,
+): Promise<Location[]> {
+  const filePath = URI.parse(document.uri).path;
+  const references = collectReferences(document.uri, yamlDocs);
+  const handlerFiles = await getHandlerFiles(
+    filePath,
+    references,
+    workspacePath,
+    collectionsService,
+  );
+
+  const locations = getHandlerLocations(name, document, references);
+  for (const handlerFile of handlerFiles.keys()) {
+    const handlerDocument = await loadTextDocument(
+      URI.file(handlerFile).toString(),
+      documents,
+    );
+    if (handlerDocument) {
+      const handlerReferences = collectReferences(
+        handlerDocument.uri,
+        parseAllDocuments(handlerDocument.getText()),
+      );
+      locations.push(
+        ...getHandlerLocations(name, handlerDocument, handlerReferences),
+      );
+    }
+  }
+  return locations;
+}
+
+function getHandlerLocations(
+  name: string,
+  document: TextDocument,
+  references: AnsibleReference[],
+): Location[] {
+  const locations: Location[] = [];
+  for (const reference of references) {
+    const range = getOrigRange(reference.node);
+    if (reference.kind === "handler" && reference.name === name && range) {
+      locations.push(Location.create(document.uri, toLspRange(range, document)));
+    }
+  }
+  return locations;
+}
+
+function fileLink(
+  filePath: string,
+  originSelectionRange: Range | undefined,
+): DefinitionLink {
+  const targetRange = Range.create(0, 0, 0, 0);
+  return {
+    originSelectionRange,
+    targetUri: URI.file(filePath).toString(),
+    targetRange,
+    targetSelectionRange: targetRange,
+  };
+}
@@ -0,0 +1,64 @@
+import { DocumentLink } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import { toLspRange } from "../utils/misc";
+import { resolveFilePath } from "../utils/pathResolution";
+import {
+  collectFileReferences,
+  FileReference,
+  fileReferenceSubdirectories,
+} from "../utils/references";
+
+/**
+ * Links the paths of included files, `vars_files` and `template`/`copy`
+ * sources to the files they resolve to.
+ */
+export async function doDocumentLinks(
+  document: TextDocument,
+): Promise<DocumentLink[]> {
+  const filePath = URI.parse(document.uri).path;
+  const links: DocumentLink[] = [];
+  for (const reference of getCheckableFileReferences(document)) {
+    const target = await resolveFileReference(reference, filePath);
+    if (target) {
+      links.push({
+        range: toLspRange(reference.range, document),
+        target: URI.file(target).toString(),
+      });
+    }
+  }
+  return links;
+}
+
+/**
+ * Collects the file references of the document whose target can be found
+ * statically, leaving out templated paths and collection playbooks.
+ */
+export function getCheckableFileReferences(
+  document: TextDocument,
+): FileReference[] {
+  return collectFileReferences(
+    document.uri,
+    getDocumentAnalysis(document).yamlDocs,
+  ).filter(
+    (reference) =>
+      !reference.path.includes("{{") &&
+      !(
+        reference.keyword === "import_playbook" &&
+        /^\w+\.\w+\.\w+$/.test(reference.path) &&
+        !/\.ya?ml$/.test(reference.path)
+      ),
+  );
+}
+
+export function resolveFileReference(
+  reference: FileReference,
+  filePath: string,
+): Promise<string | undefined> {
+  return resolveFilePath(
+    reference.path,
+    filePath,
+    fileReferenceSubdirectories[reference.keyword],
+  );
+}
@@ -0,0 +1,72 @@
+import { FoldingRange, FoldingRangeKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { isMap, isSeq, Node, visit } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+
+/**
+ * Folds keys whose value spans several lines, the items of sequences (for
+ * tasks from their `-` line) and runs of comment lines. When several ranges
+ * start on the same line, the largest one is kept.
+ */
+export function doFoldingRanges(document: TextDocument): FoldingRange[] {
+  const rangesByLine = new Map<number, FoldingRange>();
+  const addRange = (startLine: number, endLine: number, kind?: string) => {
+    const existing = rangesByLine.get(startLine);
+    if (endLine > startLine && (!existing || existing.endLine < endLine)) {
+      rangesByLine.set(startLine, { startLine, endLine, kind });
+    }
+  };
+  const lines = document.getText().split("\n");
+  // Values end after the blank lines and comments that follow them.
+  const getLastLine = (range: [number, number, number]) => {
+    const firstLine = document.positionAt(range[0]).line;
+    let line = document.positionAt(Math.max(range[1] - 1, range[0])).line;
+    while (line > firstLine && isBlankOrComment(lines[line])) {
+      line--;
+    }
+    return line;
+  };
+
+  for (const yamlDoc of getDocumentAnalysis(document).yamlDocs) {
+    visit(yamlDoc, {
+      Pair(_, pair) {
+        const keyNode = pair.key as Node | null;
+        const valueNode = pair.value as Node | null;
+        if (keyNode?.range && valueNode?.range) {
+          addRange(
+            document.positionAt(keyNode.range[0]).line,
+            getLastLine(valueNode.range),
+          );
+        }
+      },
+      Seq(_, seq) {
+        for (const item of seq.items) {
+          if ((isMap(item) || isSeq(item)) && item.range) {
+            addRange(
+              document.positionAt(item.range[0]).line,
+              getLastLine(item.range),
+            );
+          }
+        }
+      },
+    });
+  }
+
+  let commentStart: number | undefined;
+  for (let line = 0; line <= lines.length; line++) {
+    const isComment = lines[line]?.trimStart().startsWith("#");
+    if (isComment && commentStart === undefined) {
+      commentStart = line;
+    } else if (!isComment && commentStart !== undefined) {
+      addRange(commentStart, line - 1, FoldingRangeKind.Comment);
+      commentStart = undefined;
+    }
+  }
+
+  return [...rangesByLine.values()].sort((a, b) => a.startLine - b.startLine);
+}
+
+function isBlankOrComment(line: string): boolean {
+  const content = line.trim();
+  return !content || content.startsWith("#");
+}
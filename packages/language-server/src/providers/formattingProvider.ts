@@ -0,0 +1,492 @@
+import { FormattingOptions, Range, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  Document,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  Node,
+  parseAllDocuments,
+  Scalar,
+  visit,
+  YAMLMap,
+  YAMLSeq,
+} from "yaml";
+import type { ExtensionSettings } from "../interfaces/extensionSettings";
+import { getTaskKeyRank } from "../utils/ansible";
+import { getTaskMaps } from "../utils/yaml";
+
+export type FormatSettings = ExtensionSettings["format"];
+
+/** YAML 1.1 booleans that Ansible accepts, normalized to `true`/`false`. */
+const booleanPattern = /^(?:yes|no|true|false|on|off)$/i;
+const truePattern = /^(?:yes|true|on)$/i;
+
+/**
+ * Formats the document, or only the top-level entries (plays, tasks or
+ * variables) that overlap the range. Nothing is changed when the document
+ * has YAML errors.
+ */
+export function doFormat(
+  document: TextDocument,
+  options: FormattingOptions,
+  settings: FormatSettings,
+  range?: Range,
+): TextEdit[] {
+  if (!settings.enabled) {
+    return [];
+  }
+  const text = document.getText();
+  const formatted = formatYaml(text, options.tabSize, settings);
+  if (formatted === undefined || formatted === text) {
+    return [];
+  }
+  if (!range) {
+    return [
+      TextEdit.replace(
+        Range.create(document.positionAt(0), document.positionAt(text.length)),
+        formatted,
+      ),
+    ];
+  }
+
+  const original = new LineIndex(text);
+  const originalEntries = getEntryLines(text, original);
+  const formattedLines = new LineIndex(formatted);
+  const formattedEntries = getEntryLines(formatted, formattedLines);
+  if (!originalEntries || originalEntries.length !== formattedEntries?.length) {
+    return [];
+  }
+  const selected = originalEntries
+    .map((entry, index) => ({ entry, index }))
+    .filter(
+      ({ entry }) => entry[0] <= range.end.line && entry[1] >= range.start.line,
+    );
+  if (!selected.length) {
+    return [];
+  }
+  const first = selected[0].index;
+  const last = selected[selected.length - 1].index;
+  const newText = formattedLines.getLines(
+    formattedEntries[first][0],
+    formattedEntries[last][1],
+  );
+  const oldRange = Range.create(
+    originalEntries[first][0],
+    0,
+    originalEntries[last][1],
+    original.getLines(originalEntries[last][1], originalEntries[last][1])
+      .length,
+  );
+  return document.getText(oldRange) === newText
+    ? []
+    : [TextEdit.replace(oldRange, newText)];
+}
+
+/**
+ * Formats Ansible YAML without re-serializing it, so that quoting, Jinja
+ * expressions, block scalars and comments are kept as written: task keys
+ * are put in the canonical order, booleans are normalized and block
+ * collections are re-indented. Returns undefined when the text is not
+ * valid YAML.
+ */
+export function formatYaml(
+  text: string,
+  indent: number,
+  settings: Omit<FormatSettings, "enabled">,
+): string | undefined {
+  if (!parseYaml(text)) {
+    return undefined;
+  }
+  let formatted = text;
+  if (settings.sortTaskKeys) {
+    formatted = sortTaskKeys(formatted);
+  }
+  formatted = normalizeScalars(formatted, settings.normalizeBooleans);
+  formatted = reindent(formatted, indent, settings.indentSequences);
+  return parseYaml(formatted) ? formatted : undefined;
+}
+
+function parseYaml(text: string): Document[] | undefined {
+  const yamlDocs = [...parseAllDocuments(text)];
+  return yamlDocs.some((yamlDoc) => yamlDoc.errors.length)
+    ? undefined
+    : yamlDocs;
+}
+
+/**
+ * Moves the keys of tasks and blocks into the order of `getTaskKeyRank`,
+ * keeping the comments above each key with it. Nested tasks are sorted
+ * first, one level per pass.
+ */
+function sortTaskKeys(text: string): string {
+  for (;;) {
+    const yamlDocs = parseYaml(text);
+    if (!yamlDocs) {
+      return text;
+    }
+    const lines = new LineIndex(text);
+    const candidates = getTaskMaps(yamlDocs, true)
+      .filter((map) => !map.flow)
+      .map((map) => ({ map, edit: getKeyOrderEdit(map, text, lines) }))
+      .filter(
+        (candidate): candidate is { map: YAMLMap; edit: TextChange } =>
+          !!candidate.edit,
+      );
+    const innermost = candidates.filter(
+      (candidate) =>
+        !candidates.some(
+          (other) => other !== candidate && contains(candidate.map, other.map),
+        ),
+    );
+    if (!innermost.length) {
+      return text;
+    }
+    const sortedText = applyChanges(
+      text,
+      innermost.map((candidate) => candidate.edit),
+    );
+    if (sortedText === text) {
+      return text;
+    }
+    text = sortedText;
+  }
+}
+
+function getKeyRank(pair: { key: unknown }): number {
+  return getTaskKeyRank(
+    isScalar(pair.key) ? String(pair.key.value) : undefined,
+  );
+}
+
+function getKeyOrderEdit(
+  map: YAMLMap,
+  text: string,
+  lines: LineIndex,
+): TextChange | undefined {
+  const pairs = map.items;
+  const sorted = pairs
+    .map((pair, index) => ({ pair, index, rank: getKeyRank(pair) }))
+    .sort((a, b) => a.rank - b.rank || a.index - b.index);
+  if (sorted.every((item, index) => item.index === index)) {
+    return undefined;
+  }
+
+  // Each key owns the lines from the end of the previous value to the end of
+  // its own value, so comments above a key move along with it.
+  const chunks: { leading: string[]; text: string }[] = [];
+  let startLine = 0;
+  let column = 0;
+  let prefix = "";
+  let start = 0;
+  for (const [index, pair] of pairs.entries()) {
+    const keyNode = pair.key as Node | null;
+    if (!keyNode?.range) {
+      return undefined;
+    }
+    const valueNode = pair.value as Node | null;
+    const end = valueNode?.range ? valueNode.range[1] : keyNode.range[1];
+    const keyLine = lines.lineAt(keyNode.range[0]);
+    const lastLine = Math.max(keyLine, lines.lineAt(Math.max(end - 1, 0)));
+    if (index === 0) {
+      column = keyNode.range[0] - lines.lineStart(keyLine);
+      prefix = text.slice(lines.lineStart(keyLine), keyNode.range[0]);
+      start = lines.lineStart(keyLine);
+      chunks.push({
+        leading: [],
+        text:
+          " ".repeat(column) + lines.getLines(keyLine, lastLine).slice(column),
+      });
+    } else {
+      chunks.push({
+        leading: lines.lines.slice(startLine, keyLine),
+        text: lines.getLines(keyLine, lastLine),
+      });
+    }
+    startLine = lastLine + 1;
+  }
+
+  // A map that starts on the line of its sequence indicator (`- name:`)
+  // keeps that prefix, and the comments above the new first key go above it.
+  const [first, ...rest] = sorted.map((item) => chunks[item.index]);
+  const body = [
+    first.text.slice(column),
+    ...rest.flatMap((chunk) => [...chunk.leading, chunk.text]),
+  ].join("\n");
+  const indentation = " ".repeat(getIndent(prefix));
+  const replacement = [
+    ...first.leading.map((line) =>
+      line.trim() ? indentation + line.trimStart() : line,
+    ),
+    prefix + body,
+  ].join("\n");
+  return {
+    start,
+    end: start + lines.getLines(lines.lineAt(start), startLine - 1).length,
+    text: replacement,
+  };
+}
+
+/**
+ * Rewrites boolean values and sequence items as `true`/`false` and collapses
+ * the spaces after `:`.
+ */
+function normalizeScalars(text: string, normalizeBooleans: boolean): string {
+  const yamlDocs = parseYaml(text);
+  if (!yamlDocs) {
+    return text;
+  }
+  const changes: TextChange[] = [];
+  for (const yamlDoc of yamlDocs) {
+    visit(yamlDoc, {
+      Pair(_, pair) {
+        const keyNode = pair.key as Node | null;
+        const valueNode = pair.value as Node | null;
+        if (!keyNode?.range || !valueNode?.range) {
+          return;
+        }
+        const separator = text.slice(keyNode.range[1], valueNode.range[0]);
+        if (/^: {2,}$/.test(separator)) {
+          changes.push({
+            start: keyNode.range[1],
+            end: valueNode.range[0],
+            text: ": ",
+          });
+        }
+      },
+      Scalar(key, node) {
+        if (
+          !normalizeBooleans ||
+          key === "key" ||
+          !node.range ||
+          node.type !== Scalar.PLAIN ||
+          node.tag
+        ) {
+          return;
+        }
+        const source = text.slice(node.range[0], node.range[1]);
+        const value = truePattern.test(source) ? "true" : "false";
+        if (booleanPattern.test(source) && source !== value) {
+          changes.push({
+            start: node.range[0],
+            end: node.range[1],
+            text: value,
+          });
+        }
+      },
+    });
+  }
+  return applyChanges(text, changes);
+}
+
+/**
+ * Indents every block collection by `indent` spaces relative to its parent,
+ * sequences under a key only when `indentSequences` is set, with one space
+ * after `-`. Lines that do not start an item, like block scalar content,
+ * move along with the collection they are part of, and comments with the
+ * line they precede.
+ */
+function reindent(
+  text: string,
+  indent: number,
+  indentSequences: boolean,
+): string {
+  const yamlDocs = parseYaml(text);
+  if (!yamlDocs) {
+    return text;
+  }
+  const lines = new LineIndex(text);
+  const deltas: (number | undefined)[] = [];
+  const itemLines = new Set<number>();
+
+  const visitCollection = (node: YAMLMap | YAMLSeq, column: number) => {
+    if (node.flow || !node.range) {
+      return;
+    }
+    const firstLine = lines.lineAt(node.range[0]);
+    const oldColumn = node.range[0] - lines.lineStart(firstLine);
+    const lastLine = lines.lineAt(Math.max(node.range[2] - 1, node.range[0]));
+    for (let line = firstLine; line <= lastLine; line++) {
+      const content = lines.lines[line];
+      const lineIndent = getIndent(content);
+      if (
+        lines.lineStart(line) + lineIndent >= node.range[0] &&
+        (!isComment(content) || lineIndent >= oldColumn)
+      ) {
+        deltas[line] = column - oldColumn;
+      }
+    }
+
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        const value = pair.value;
+        if ((isMap(value) || isSeq(value)) && !value.flow) {
+          const childIndent = isSeq(value) && !indentSequences ? 0 : indent;
+          visitCollection(value, column + childIndent);
+        }
+      }
+      return;
+    }
+    for (const item of node.items) {
+      const itemNode = item as Node | null;
+      if (!itemNode?.range) {
+        continue;
+      }
+      const itemLine = lines.lineAt(itemNode.range[0]);
+      const itemColumn = itemNode.range[0] - lines.lineStart(itemLine);
+      const before = lines.lines[itemLine].slice(0, itemColumn);
+      const startsAfterIndicator = /^ *- +$/.test(before);
+      if (startsAfterIndicator) {
+        itemLines.add(itemLine);
+      }
+      if ((isMap(item) || isSeq(item)) && !item.flow) {
+        let childColumn = column + indent;
+        if (startsAfterIndicator) {
+          childColumn = column + 2;
+        } else if (before.trim()) {
+          childColumn = column + itemColumn - oldColumn;
+        }
+        visitCollection(item, childColumn);
+      }
+    }
+  };
+
+  for (const yamlDoc of yamlDocs) {
+    const contents = yamlDoc.contents;
+    if (isMap(contents) || isSeq(contents)) {
+      visitCollection(contents, 0);
+    }
+  }
+
+  // Comments move with the line below them when they are aligned with it.
+  for (let line = lines.lines.length - 1; line >= 0; line--) {
+    const content = lines.lines[line];
+    const next = lines.lines[line + 1];
+    if (
+      isComment(content) &&
+      next?.trim() &&
+      getIndent(next) === getIndent(content) &&
+      deltas[line + 1] !== undefined
+    ) {
+      deltas[line] = deltas[line + 1];
+    }
+  }
+
+  return lines.lines
+    .map((line, index) => {
+      const delta = deltas[index] ?? 0;
+      if (!line.trim()) {
+        return line;
+      }
+      let content = line.trimStart();
+      if (itemLines.has(index)) {
+        content = content.replace(/^- +/, "- ");
+      }
+      return " ".repeat(Math.max(getIndent(line) + delta, 0)) + content;
+    })
+    .join("\n");
+}
+
+function getIndent(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isComment(line: string): boolean {
+  return line.trimStart().startsWith("#");
+}
+
+/**
+ * Returns the first and last line of each top-level entry of the documents.
+ */
+function getEntryLines(
+  text: string,
+  lines: LineIndex,
+): [number, number][] | undefined {
+  const yamlDocs = parseYaml(text);
+  if (!yamlDocs) {
+    return undefined;
+  }
+  const entries: [number, number][] = [];
+  for (const yamlDoc of yamlDocs) {
+    const contents = yamlDoc.contents;
+    if (!isMap(contents) && !isSeq(contents)) {
+      continue;
+    }
+    for (const item of contents.items as unknown[]) {
+      const startNode = (isPair(item) ? item.key : item) as Node | null;
+      const endNode = (
+        isPair(item) ? (item.value ?? item.key) : item
+      ) as Node | null;
+      if (startNode?.range && endNode?.range) {
+        entries.push([
+          lines.lineAt(startNode.range[0]),
+          lines.lineAt(Math.max(endNode.range[1] - 1, startNode.range[0])),
+        ]);
+      }
+    }
+  }
+  return entries;
+}
+
+function contains(outer: Node, inner: Node): boolean {
+  return (
+    !!outer.range &&
+    !!inner.range &&
+    outer.range[0] <= inner.range[0] &&
+    inner.range[1] <= outer.range[1]
+  );
+}
+
+interface TextChange {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function applyChanges(text: string, changes: TextChange[]): string {
+  let result = text;
+  for (const change of [...changes].sort((a, b) => b.start - a.start)) {
+    result =
+      result.slice(0, change.start) + change.text + result.slice(change.end);
+  }
+  return result;
+}
+
+/** Splits a text into lines and maps offsets to line numbers. */
+class LineIndex {
+  public readonly lines: string[];
+  private readonly starts: number[] = [];
+
+  constructor(text: string) {
+    this.lines = text.split("\n");
+    let offset = 0;
+    for (const line of this.lines) {
+      this.starts.push(offset);
+      offset += line.length + 1;
+    }
+  }
+
+  public lineAt(offset: number): number {
+    let low = 0;
+    let high = this.starts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (this.starts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  }
+
+  public lineStart(line: number): number {
+    return this.starts[line];
+  }
+
+  /** Returns the text of the lines, without the final line break. */
+  public getLines(first: number, last: number): string {
+    return this.lines.slice(first, last + 1).join("\n");
+  }
+}
@@ -1,6 +1,8 @@
 import { Hover, MarkupContent, MarkupKind } from "vscode-languageserver";
 import { Position, TextDocument } from "vscode-languageserver-textdocument";
 import { isScalar, Scalar } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
 import {
   blockKeywords,
   isTaskKeyword,
@@ -10,6 +12,11 @@ import {
 } from "../utils/ansible";
 import { formatModule, formatOption } from "../utils/docsFormatter";
 import { toLspRange } from "../utils/misc";
+import { getRoleArgumentsForPath } from "../utils/roleArguments";
+import { getHostPatternHover } from "./inventoryProvider";
+import { getJinjaHover } from "./jinjaProvider";
+import { getTagHover } from "./tagProvider";
+import { getVariableHover } from "./variableProvider";
 import {
   AncestryBuilder,
   getOrigRange,
@@ -19,17 +26,43 @@ import {
   isPlayParam,
   isRoleParam,
   isTaskParam,
-  parseAllDocuments,
 } from "../utils/yaml";
-import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import {
+  CollectionsService,
+  PluginOption,
+} from "@ansible/core/out/services/CollectionsService";
 
 export async function doHover(
   document: TextDocument,
   position: Position,
   collectionsService: CollectionsService,
+  context?: WorkspaceFolderContext,
 ): Promise<Hover | null> {
-  const yamlDocs = parseAllDocuments(document.getText());
-  const path = getPathAt(document, position, yamlDocs);
+  const jinjaHover = await getJinjaHover(
+    document,
+    position,
+    collectionsService,
+  );
+  if (jinjaHover) {
+    return jinjaHover;
+  }
+  if (context) {
+    const variableHover = await getVariableHover(document, position, context);
+    if (variableHover) {
+      return variableHover;
+    }
+    const hostHover = await getHostPatternHover(document, position, context);
+    if (hostHover) {
+      return hostHover;
+    }
+    const tagHover = await getTagHover(document, position, context);
+    if (tagHover) {
+      return tagHover;
+    }
+  }
+
+  const analysis = getDocumentAnalysis(document);
+  const path = getPathAt(document, position, analysis.yamlDocs);
   if (!path) return null;
 
   const node = path[path.length - 1];
@@ -46,8 +79,14 @@ export async function doHover(
   if (isBlockParam(path)) {
     return getKeywordHover(document, node, blockKeywords);
   }
+  const roleArguments = context
+    ? await getRoleArgumentsForPath(path, document, context, collectionsService)
+    : null;
   if (isRoleParam(path)) {
-    return getKeywordHover(document, node, roleKeywords);
+    return (
+      getKeywordHover(document, node, roleKeywords) ??
+      getOptionHover(node, roleArguments)
+    );
   }
 
   if (isTaskParam(path)) {
@@ -57,10 +96,7 @@ export async function doHover(
 
     const moduleName = node.value as string;
     const fqcn = resolveFqcn(moduleName);
-    const pluginData = await collectionsService.getPluginDocumentation(
-      fqcn,
-      "module",
-    );
+    const pluginData = await analysis.getModule(fqcn, collectionsService);
     if (pluginData?.doc) {
       const range = getOrigRange(node);
       return {
@@ -70,26 +106,27 @@ export async function doHover(
     }
   }
 
-  const options = await getPossibleOptionsForPath(
-    path,
-    document,
-    collectionsService,
-  );
+  const options =
+    roleArguments ??
+    (await getPossibleOptionsForPath(path, document, collectionsService));
+  return getOptionHover(node, options);
+}
 
-  if (options) {
-    const optionName = node.value as string;
-    const option = options[optionName];
-    if (option) {
-      return {
-        contents: formatOption(option, optionName, true),
-      };
-    }
+function getOptionHover(
+  node: Scalar,
+  options: Record<string, PluginOption> | null,
+): Hover | null {
+  const optionName = node.value as string;
+  const option = options?.[optionName];
+  if (option) {
+    return {
+      contents: formatOption(option, optionName, true),
+    };
   }
-
   return null;
 }
 
-function resolveFqcn(name: string): string {
+export function resolveFqcn(name: string): string {
   const dotCount = (name.match(/\./g) || []).length;
   if (dotCount >= 2) {
     return name;
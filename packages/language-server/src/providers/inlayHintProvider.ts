@@ -0,0 +1,184 @@
+import {
+  InlayHint,
+  InlayHintKind,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { isMap, isScalar, Pair, Scalar, YAMLMap } from "yaml";
+import type { ExtensionSettings } from "../interfaces/extensionSettings";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import { isTaskKeyword } from "../utils/ansible";
+import {
+  getDeclaredCollections,
+  getPathAt,
+  getTaskMaps,
+  getYamlMapKeys,
+} from "../utils/yaml";
+import { resolveFqcn } from "./hoverProvider";
+import {
+  CollectionsService,
+  PluginOption,
+} from "@ansible/core/out/services/CollectionsService";
+
+export type InlayHintSettings = ExtensionSettings["inlayHints"];
+
+/**
+ * Shows the collection of modules called by their short name and, when
+ * enabled, the documented defaults of the options a task leaves out that
+ * select a behavior (those with choices, like `state`).
+ */
+export async function doInlayHints(
+  document: TextDocument,
+  range: Range,
+  settings: InlayHintSettings,
+  collectionsService: CollectionsService,
+): Promise<InlayHint[]> {
+  if (!settings.moduleFqcn && !settings.optionDefaults) {
+    return [];
+  }
+  const yamlDocs = getDocumentAnalysis(document).yamlDocs;
+  const start = document.offsetAt(range.start);
+  const end = document.offsetAt(range.end);
+  const hints: InlayHint[] = [];
+  for (const task of getTaskMaps(yamlDocs)) {
+    const modulePair = task.items.find(
+      (pair): pair is Pair<Scalar<string>> =>
+        isScalar(pair.key) &&
+        typeof pair.key.value === "string" &&
+        !isTaskKeyword(pair.key.value),
+    );
+    const keyNode = modulePair?.key;
+    if (!modulePair || !keyNode?.range) {
+      continue;
+    }
+    if (keyNode.range[0] < start || keyNode.range[0] > end) {
+      continue;
+    }
+
+    const name = keyNode.value;
+    const position = document.positionAt(keyNode.range[0]);
+    const path = getPathAt(document, position, yamlDocs);
+    const fqcn = resolveModuleFqcn(
+      name,
+      getDeclaredCollections(path),
+      collectionsService,
+    );
+    if (!fqcn) {
+      continue;
+    }
+    if (settings.moduleFqcn && fqcn !== name) {
+      const prefix = fqcn.slice(0, fqcn.length - name.length);
+      hints.push({
+        position,
+        label: prefix,
+        kind: InlayHintKind.Type,
+        tooltip: `Runs ${fqcn}`,
+        textEdits: [TextEdit.insert(position, prefix)],
+      });
+    }
+    if (settings.optionDefaults) {
+      const defaults = await getOmittedDefaults(
+        task,
+        modulePair,
+        fqcn,
+        collectionsService,
+      );
+      if (defaults.length) {
+        const line = document.getText(
+          Range.create(position.line, 0, position.line + 1, 0),
+        );
+        hints.push({
+          position: {
+            line: position.line,
+            character: line.replace(/\r?\n$/, "").length,
+          },
+          label: defaults.join(", "),
+          kind: InlayHintKind.Parameter,
+          paddingLeft: true,
+          tooltip: "Defaults of the options that are not set",
+        });
+      }
+    }
+  }
+  return hints;
+}
+
+/**
+ * Resolves a module name to its FQCN, looking it up in the collections
+ * declared with the `collections` keyword first. Returns undefined when the
+ * loaded collections show that the name cannot be resolved.
+ */
+function resolveModuleFqcn(
+  name: string,
+  declaredCollections: string[],
+  collectionsService: CollectionsService,
+): string | undefined {
+  if (name.split(".").length >= 3) {
+    return name;
+  }
+  for (const collection of declaredCollections) {
+    const modules = collectionsService.getPlugins(collection, "module");
+    if (modules.some((plugin) => plugin.name === name)) {
+      return `${collection}.${name}`;
+    }
+  }
+  if (
+    declaredCollections.some(
+      (collection) => !collectionsService.getCollection(collection),
+    )
+  ) {
+    return undefined;
+  }
+  if (
+    collectionsService.getCollection("ansible.builtin") &&
+    !collectionsService
+      .getPlugins("ansible.builtin", "module")
+      .some((plugin) => plugin.name === name)
+  ) {
+    return undefined;
+  }
+  return resolveFqcn(name);
+}
+
+async function getOmittedDefaults(
+  task: YAMLMap,
+  modulePair: Pair,
+  fqcn: string,
+  collectionsService: CollectionsService,
+): Promise<string[]> {
+  const pluginData = await collectionsService.getPluginDocumentation(
+    fqcn,
+    "module",
+  );
+  const options = pluginData?.doc?.options;
+  if (!options) {
+    return [];
+  }
+  const provided = new Set<string>();
+  for (const value of [modulePair.value, task.get("args", true)]) {
+    if (isMap(value)) {
+      getYamlMapKeys(value).forEach((key) => provided.add(key));
+    } else if (isScalar(value) && typeof value.value === "string") {
+      for (const match of value.value.matchAll(/(?:^|\s)(\w+)=/g)) {
+        provided.add(match[1]);
+      }
+    }
+  }
+  return Object.entries(options)
+    .filter(
+      ([optionName, option]) =>
+        isBehaviorOption(option) &&
+        ![optionName, ...(option.aliases ?? [])].some((n) => provided.has(n)),
+    )
+    .map(([optionName, option]) => `${optionName}: ${String(option.default)}`);
+}
+
+function isBehaviorOption(option: PluginOption): boolean {
+  return (
+    !option.required &&
+    !!option.choices?.length &&
+    option.default !== undefined &&
+    option.default !== null
+  );
+}
@@ -0,0 +1,386 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Hover,
+  MarkupKind,
+  Range,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { isPair, isScalar, Node, Pair, stringify, YAMLMap } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { formatOption } from "../utils/docsFormatter";
+import {
+  HostPatternTerm,
+  InventoryTree,
+  splitHostPattern,
+} from "../utils/hostPatterns";
+import { toLspRange } from "../utils/misc";
+import {
+  AncestryBuilder,
+  getInventoryFormat,
+  getPathAt,
+  getScalarTextRange,
+  isPlayParam,
+} from "../utils/yaml";
+import type { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+
+const maxListedNames = 20;
+const maxListedVariables = 20;
+
+/** Characters that end a term of a host pattern. */
+const termDelimiters = /[\s:,&!'"]/;
+
+/**
+ * Behavioral inventory variables that no connection or become plugin
+ * documents.
+ */
+const behavioralVariables = new Map([
+  [
+    "ansible_connection",
+    "Connection plugin used to reach the host, e.g. `ssh`, `local` or `winrm`.",
+  ],
+  [
+    "ansible_python_interpreter",
+    "Path of the Python interpreter Ansible runs modules with on the host.",
+  ],
+  [
+    "ansible_shell_type",
+    "Shell plugin used on the host, e.g. `sh` or `powershell`.",
+  ],
+  [
+    "ansible_shell_executable",
+    "Shell that runs commands on the host, `/bin/sh` by default.",
+  ],
+]);
+
+/**
+ * Describes the group or host under the cursor in the `hosts:` of a play:
+ * for groups their parents, children, members and variables, for hosts
+ * their groups and resolved variables.
+ */
+export async function getHostPatternHover(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<Hover | null> {
+  const term = getHostPatternTermAt(document, position);
+  if (!term) {
+    return null;
+  }
+  const inventory = await context.ansibleInventory;
+  const value = describeInventoryName(term.text, inventory);
+  return value
+    ? {
+        contents: { kind: MarkupKind.Markdown, value },
+        range: term.range,
+      }
+    : null;
+}
+
+/**
+ * Finds the pattern term under the cursor when it is in the `hosts:` value
+ * of a play, given either as a string or as a list of patterns.
+ */
+export function getHostPatternTermAt(
+  document: TextDocument,
+  position: Position,
+): (HostPatternTerm & { range: Range }) | undefined {
+  const path = getPathAt(
+    document,
+    position,
+    getDocumentAnalysis(document).yamlDocs,
+  );
+  const node = path?.[path.length - 1];
+  if (!path || !isScalar(node) || typeof node.value !== "string") {
+    return undefined;
+  }
+  if (!isHostsValue(path) || node.value.includes("{{")) {
+    return undefined;
+  }
+  const textRange = getScalarTextRange(node);
+  if (!textRange) {
+    return undefined;
+  }
+  const offset = document.offsetAt(position) - textRange[0];
+  const term = splitHostPattern(node.value).find(
+    (t) => t.start <= offset && offset <= t.end,
+  );
+  return term
+    ? {
+        ...term,
+        range: toLspRange(
+          [textRange[0] + term.start, textRange[0] + term.end],
+          document,
+        ),
+      }
+    : undefined;
+}
+
+/**
+ * Returns the range of the host pattern term being typed at the cursor, so
+ * that completing a name keeps the rest of the pattern.
+ */
+export function getHostTermRange(
+  document: TextDocument,
+  position: Position,
+): Range {
+  const line = document.getText(
+    Range.create(position.line, 0, position.line + 1, 0),
+  );
+  let start = position.character;
+  while (start > 0 && !termDelimiters.test(line[start - 1])) {
+    start--;
+  }
+  let end = position.character;
+  while (end < line.length && !termDelimiters.test(line[end])) {
+    end++;
+  }
+  return Range.create(position.line, start, position.line, end);
+}
+
+/**
+ * Tells whether the scalar at the end of the path is the `hosts:` value of
+ * a play or an item of it.
+ */
+export function isHostsValue(path: Node[]): boolean {
+  let keyPath = new AncestryBuilder(path).parent(YAMLMap).getKeyPath();
+  if (!keyPath) {
+    keyPath = new AncestryBuilder(path).parent().parent(YAMLMap).getKeyPath();
+  }
+  const keyNode = keyPath?.[keyPath.length - 1];
+  return (
+    !!keyPath &&
+    keyNode !== path[path.length - 1] &&
+    isScalar(keyNode) &&
+    keyNode.value === "hosts" &&
+    !!isPlayParam(keyPath)
+  );
+}
+
+function describeInventoryName(
+  name: string,
+  inventory: InventoryTree,
+): string | undefined {
+  const group = inventory.groups.get(name);
+  if (group) {
+    const hosts = inventory.getGroupHosts(name);
+    const sections = [`**${name}** *(group)*`];
+    if (group.parents.length) {
+      sections.push(`Parents: ${formatNames(group.parents)}`);
+    }
+    if (group.children.length) {
+      sections.push(`Children: ${formatNames(group.children)}`);
+    }
+    sections.push(
+      hosts.length
+        ? `Hosts (${hosts.length}): ${formatNames(hosts)}`
+        : "No hosts",
+    );
+    if (Object.keys(group.vars).length) {
+      sections.push(formatVariables(group.vars));
+    }
+    return sections.join("\n\n");
+  }
+
+  const host = inventory.hosts.get(name);
+  if (host) {
+    const sections = [`**${name}** *(host)*`];
+    if (host.groups.length) {
+      sections.push(`Groups: ${formatNames(host.groups)}`);
+    }
+    if (Object.keys(host.vars).length) {
+      sections.push(formatVariables(host.vars));
+    }
+    return sections.join("\n\n");
+  }
+  return undefined;
+}
+
+function formatNames(names: string[]): string {
+  const listed = names
+    .slice(0, maxListedNames)
+    .map((name) => `\`${name}\``)
+    .join(", ");
+  return names.length > maxListedNames
+    ? `${listed} and ${names.length - maxListedNames} more`
+    : listed;
+}
+
+function formatVariables(vars: Record<string, unknown>): string {
+  const entries = Object.entries(vars);
+  const listed = Object.fromEntries(entries.slice(0, maxListedVariables));
+  const more =
+    entries.length > maxListedVariables
+      ? `\n*and ${entries.length - maxListedVariables} more variables*`
+      : "";
+  return `\`\`\`yaml\n${stringify(listed).trimEnd()}\n\`\`\`${more}`;
+}
+
+/**
+ * Completes `ansible_*` connection variables in inventory files: after a
+ * host or in a `[group:vars]` section of INI inventories, and under hosts
+ * and `vars` of YAML inventories. The variables and their documentation come
+ * from the connection plugins named by `ansible_connection` values (`ssh`
+ * when there are none) and the become plugins named by
+ * `ansible_become_method` values (`sudo` when there are none).
+ */
+export async function getInventoryVariableCompletion(
+  document: TextDocument,
+  position: Position,
+  collectionsService: CollectionsService,
+): Promise<CompletionItem[]> {
+  const format = getInventoryFormat(document);
+  const prefix = document.getText(
+    Range.create(position.line, 0, position.line, position.character),
+  );
+  const word = /[\w]*$/.exec(prefix)?.[0] ?? "";
+  const isVariablePosition =
+    format === "ini"
+      ? isIniVariablePosition(document, position.line, prefix)
+      : format === "yaml" &&
+        /^\s*[\w]*$/.test(prefix) &&
+        isYamlVariablePosition(document, position);
+  if (!isVariablePosition) {
+    return [];
+  }
+
+  const range = Range.create(
+    position.line,
+    position.character - word.length,
+    position.line,
+    position.character,
+  );
+  const separator = format === "ini" ? "=" : ": ";
+  const text = document.getText();
+  const plugins = [
+    ...findPluginNames(text, "ansible_connection", "ssh").map(
+      (name) => [name, "connection"] as const,
+    ),
+    ...findPluginNames(text, "ansible_become_method", "sudo").map(
+      (name) => [name, "become"] as const,
+    ),
+  ];
+
+  const items = new Map<string, CompletionItem>();
+  for (const [name, description] of behavioralVariables) {
+    items.set(name, {
+      label: name,
+      kind: CompletionItemKind.Variable,
+      documentation: { kind: MarkupKind.Markdown, value: description },
+    });
+  }
+  for (const [name, pluginType] of plugins) {
+    const pluginData = await collectionsService.getPluginDocumentation(
+      name,
+      pluginType,
+    );
+    for (const [optionName, option] of Object.entries(
+      pluginData?.doc?.options ?? {},
+    )) {
+      for (const variable of option.vars ?? []) {
+        if (variable.name.startsWith("ansible_") && !items.has(variable.name)) {
+          items.set(variable.name, {
+            label: variable.name,
+            kind: CompletionItemKind.Variable,
+            detail: `${name} ${pluginType} option '${optionName}'`,
+            documentation: formatOption(option, optionName),
+          });
+        }
+      }
+    }
+  }
+  return [...items.values()].map((item) => ({
+    ...item,
+    textEdit: { range, newText: `${item.label}${separator}` },
+  }));
+}
+
+/**
+ * Returns the fully qualified names of the plugins an inventory selects with
+ * the given variable, or the builtin default plugin when it does not.
+ */
+function findPluginNames(
+  text: string,
+  variable: string,
+  defaultPlugin: string,
+): string[] {
+  const names = new Set<string>();
+  const pattern = new RegExp(`\\b${variable}\\s*[=:]\\s*["']?([\\w.]+)`, "g");
+  for (const match of text.matchAll(pattern)) {
+    names.add(match[1]);
+  }
+  if (!names.size) {
+    names.add(defaultPlugin);
+  }
+  return [...names].map((name) =>
+    name.includes(".") ? name : `ansible.builtin.${name}`,
+  );
+}
+
+/**
+ * Tells whether the cursor of an INI inventory is where a variable name
+ * goes: after the host of a host line, or at the start of a line in a
+ * `[group:vars]` section.
+ */
+function isIniVariablePosition(
+  document: TextDocument,
+  line: number,
+  prefix: string,
+): boolean {
+  let section: string | undefined;
+  for (let i = line - 1; i >= 0 && section === undefined; i--) {
+    const header = /^\s*\[[^\]:]*(?::([^\]]*))?\]\s*$/.exec(
+      document.getText(Range.create(i, 0, i + 1, 0)),
+    );
+    if (header) {
+      section = header[1]?.trim() ?? "";
+    }
+  }
+  if (section === "vars") {
+    return /^\s*\w*$/.test(prefix);
+  }
+  return (
+    section !== "children" && /^\s*[^\s#;[]\S*\s+(\S+\s+)*\w*$/.test(prefix)
+  );
+}
+
+/**
+ * Tells whether the cursor of a YAML inventory is on a key of a host or of
+ * the `vars` of a group, e.g. `all > children > web > hosts > web1 > key`.
+ */
+function isYamlVariablePosition(
+  document: TextDocument,
+  position: Position,
+): boolean {
+  const path = getPathAt(
+    document,
+    position,
+    getDocumentAnalysis(document).yamlDocs,
+    true,
+  );
+  if (!path) {
+    return false;
+  }
+  const pairs: Pair[] = [];
+  for (const ancestor of path as unknown[]) {
+    if (isPair(ancestor)) {
+      pairs.push(ancestor);
+    }
+  }
+  const node = path[path.length - 1];
+  if (pairs.length && pairs[pairs.length - 1].key === node) {
+    pairs.pop();
+  }
+  const keys = pairs.map((pair) =>
+    isScalar(pair.key) ? String(pair.key.value) : "",
+  );
+  let i = 1;
+  while (keys[i] === "children" && i + 1 < keys.length) {
+    i += 2;
+  }
+  return (
+    (keys[i] === "vars" && keys.length === i + 1) ||
+    (keys[i] === "hosts" && keys.length === i + 2)
+  );
+}
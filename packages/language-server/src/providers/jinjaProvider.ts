@@ -0,0 +1,377 @@
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Hover,
+  MarkupContent,
+  MarkupKind,
+  Range,
+  SignatureHelp,
+  SignatureInformation,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import {
+  Document,
+  isPair,
+  isScalar,
+  isSeq,
+  Node,
+  Scalar,
+  visit,
+} from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import { formatModule } from "../utils/docsFormatter";
+import {
+  bareExpressionKeywords,
+  findJinjaRegions,
+  getJinjaCallContext,
+  getJinjaCursorContext,
+  getJinjaWordAt,
+  JinjaPluginKind,
+  jinjaFilters,
+  jinjaTests,
+} from "../utils/jinja";
+import { getOrigRange, getPathAt } from "../utils/yaml";
+import type {
+  CollectionsService,
+  PluginDoc,
+} from "@ansible/core/out/services/CollectionsService";
+
+export interface JinjaPlugin {
+  /** Name as written in templates: short for builtins, FQCN otherwise. */
+  name: string;
+  /** FQCN of the plugin, undefined for Jinja built-ins. */
+  fqcn?: string;
+  description: string;
+}
+
+/**
+ * The Jinja source of a scalar, with the offset of its first character in
+ * the document. Quotes and block scalar headers are excluded.
+ */
+export interface ScalarSource {
+  text: string;
+  offset: number;
+  bare: boolean;
+}
+
+export interface JinjaExpressionAt {
+  /** Whole expression content. */
+  content: string;
+  /** Expression content from its start up to the cursor. */
+  prefix: string;
+  /** Document offset of the first character of the prefix. */
+  offset: number;
+}
+
+/**
+ * Lists the filter, test or lookup plugins available in templates: Jinja
+ * built-ins followed by the plugins of every installed collection.
+ */
+export function getJinjaPlugins(
+  kind: JinjaPluginKind,
+  collectionsService: CollectionsService,
+): JinjaPlugin[] {
+  const plugins = new Map<string, JinjaPlugin>();
+  const builtins =
+    kind === "filter" ? jinjaFilters : kind === "test" ? jinjaTests : undefined;
+  for (const [name, description] of builtins ?? []) {
+    plugins.set(name, { name, description });
+  }
+  for (const [
+    collectionName,
+    collection,
+  ] of collectionsService.getCollections()) {
+    for (const plugin of collection.pluginTypes.get(kind) ?? []) {
+      const name =
+        collectionName === "ansible.builtin" ? plugin.name : plugin.fullName;
+      plugins.set(name, {
+        name,
+        fqcn: plugin.fullName,
+        description: plugin.shortDescription,
+      });
+    }
+  }
+  return [...plugins.values()];
+}
+
+export function getJinjaCompletion(
+  document: TextDocument,
+  position: Position,
+  collectionsService: CollectionsService,
+): CompletionItem[] | undefined {
+  const expression = getJinjaExpressionAt(document, position);
+  if (!expression) {
+    return undefined;
+  }
+  const cursorContext = getJinjaCursorContext(expression.prefix);
+  if (cursorContext.kind === "variable") {
+    return undefined;
+  }
+
+  const range = Range.create(
+    document.positionAt(expression.offset + cursorContext.wordStart),
+    position,
+  );
+  return getJinjaPlugins(cursorContext.kind, collectionsService).map(
+    (plugin) => ({
+      label: plugin.name,
+      kind: CompletionItemKind.Function,
+      detail: plugin.fqcn ?? `Jinja ${cursorContext.kind}`,
+      documentation: plugin.description,
+      textEdit: { range, newText: plugin.name },
+      data: plugin.fqcn
+        ? { pluginFqcn: plugin.fqcn, pluginType: cursorContext.kind }
+        : undefined,
+    }),
+  );
+}
+
+export async function getJinjaHover(
+  document: TextDocument,
+  position: Position,
+  collectionsService: CollectionsService,
+): Promise<Hover | null> {
+  const expression = getJinjaExpressionAt(document, position);
+  const word =
+    expression && getJinjaWordAt(expression.content, expression.prefix.length);
+  if (!expression || !word || word.kind === "variable") {
+    return null;
+  }
+
+  const plugin = getJinjaPlugins(word.kind, collectionsService).find(
+    (p) => p.name === word.word || p.fqcn === word.word,
+  );
+  if (!plugin) {
+    return null;
+  }
+  const start = expression.offset + word.wordStart;
+  const range = Range.create(
+    document.positionAt(start),
+    document.positionAt(start + word.word.length),
+  );
+
+  const pluginData = plugin.fqcn
+    ? await collectionsService.getPluginDocumentation(plugin.fqcn, word.kind)
+    : null;
+  return {
+    contents: pluginData?.doc
+      ? formatJinjaPlugin(pluginData.doc, word.kind)
+      : {
+          kind: MarkupKind.Markdown,
+          value: `*Jinja ${word.kind}* \`${plugin.name}\`\n\n${plugin.description}`,
+        },
+    range,
+  };
+}
+
+export async function doSignatureHelp(
+  document: TextDocument,
+  position: Position,
+  collectionsService: CollectionsService,
+): Promise<SignatureHelp | null> {
+  const expression = getJinjaExpressionAt(document, position);
+  const call = expression && getJinjaCallContext(expression.prefix);
+  if (!call) {
+    return null;
+  }
+  const plugin = getJinjaPlugins(call.kind, collectionsService).find(
+    (p) => p.name === call.name || p.fqcn === call.name,
+  );
+  if (!plugin?.fqcn) {
+    return null;
+  }
+  const pluginData = await collectionsService.getPluginDocumentation(
+    plugin.fqcn,
+    call.kind,
+  );
+  const options = pluginData?.doc?.options ?? {};
+
+  let parameters: string[];
+  let label: string;
+  if (call.kind === "lookup") {
+    parameters = Object.keys(options).map((name) =>
+      name === "_terms" ? name : `${name}=`,
+    );
+    label = `lookup('${call.name}', ${parameters.join(", ")})`;
+  } else {
+    parameters = Object.keys(options).filter((name) => name !== "_input");
+    label = `${call.name}(${parameters.join(", ")})`;
+  }
+
+  const signature = SignatureInformation.create(
+    label,
+    plugin.description,
+    ...parameters.map((parameter) => {
+      const option = options[parameter.replace(/=$/, "")];
+      return {
+        label: parameter,
+        documentation: option?.description
+          ? formatDescriptionText(option.description)
+          : undefined,
+      };
+    }),
+  );
+  return {
+    signatures: [signature],
+    activeSignature: 0,
+    activeParameter: Math.min(
+      call.activeParameter,
+      Math.max(parameters.length - 1, 0),
+    ),
+  };
+}
+
+export function formatJinjaPlugin(
+  doc: PluginDoc,
+  kind: JinjaPluginKind,
+): MarkupContent {
+  const sections = [formatModule(doc).value];
+  const options = Object.entries(doc.options ?? {}).filter(
+    ([name]) => name !== "_input" && (kind === "lookup" || name !== "_terms"),
+  );
+  if (options.length) {
+    sections.push("**Parameters**");
+    sections.push(
+      options
+        .map(([name, option]) => {
+          const type = option.type ? ` (${option.type})` : "";
+          const description = option.description
+            ? `: ${formatDescriptionText(option.description)}`
+            : "";
+          return `- \`${name}\`${type}${description}`;
+        })
+        .join("\n"),
+    );
+  }
+  return { kind: MarkupKind.Markdown, value: sections.join("\n\n") };
+}
+
+function formatDescriptionText(description: string | string[]): string {
+  return Array.isArray(description) ? description.join(" ") : description;
+}
+
+/**
+ * Returns the source of a scalar node, telling whether it holds a bare
+ * expression (e.g. the value of `when:`) rather than a template.
+ */
+export function getScalarSource(
+  node: Scalar,
+  path: (Node | unknown)[],
+  documentText: string,
+): ScalarSource | undefined {
+  const range = getOrigRange(node);
+  if (!range || typeof node.value !== "string") {
+    return undefined;
+  }
+  let [start, end] = range;
+  if (node.type === Scalar.QUOTE_DOUBLE || node.type === Scalar.QUOTE_SINGLE) {
+    start++;
+    end = Math.max(start, end - 1);
+  } else if (
+    node.type === Scalar.BLOCK_LITERAL ||
+    node.type === Scalar.BLOCK_FOLDED
+  ) {
+    start = documentText.indexOf("\n", start) + 1 || end;
+  }
+  return {
+    text: documentText.slice(start, end),
+    offset: start,
+    bare: isBareExpression(path),
+  };
+}
+
+/**
+ * Calls `callback` with the source of every scalar value in the documents.
+ */
+export function forEachScalarSource(
+  yamlDocs: Document[],
+  text: string,
+  callback: (source: ScalarSource) => void,
+): void {
+  for (const yamlDoc of yamlDocs) {
+    visit(yamlDoc, {
+      Scalar(key, node, path) {
+        if (key === "key") {
+          return;
+        }
+        const source = getScalarSource(node, [...path], text);
+        if (source) {
+          callback(source);
+        }
+      },
+    });
+  }
+}
+
+function isBareExpression(path: (Node | unknown)[]): boolean {
+  for (const ancestor of path.slice(-3).reverse()) {
+    if (isPair(ancestor)) {
+      return (
+        isScalar(ancestor.key) &&
+        bareExpressionKeywords.has(String(ancestor.key.value))
+      );
+    }
+    if (!isSeq(ancestor) && !isScalar(ancestor)) {
+      return false;
+    }
+  }
+  return false;
+}
+
+function getScalarSourceAt(
+  document: TextDocument,
+  position: Position,
+  yamlDocs: Document[],
+): ScalarSource | undefined {
+  let offset = document.offsetAt(position);
+  const text = document.getText();
+  // trailing whitespace is not part of a plain scalar, e.g. in `when: x | `
+  while (
+    offset > 0 &&
+    (text[offset - 1] === " " || text[offset - 1] === "\t")
+  ) {
+    offset--;
+  }
+  const path = getPathAt(document, document.positionAt(offset), yamlDocs, true);
+  const node = path?.[path.length - 1];
+  if (!path || !isScalar(node)) {
+    return undefined;
+  }
+  const isKey = path.some(
+    (ancestor) => isPair(ancestor) && ancestor.key === node,
+  );
+  return isKey ? undefined : getScalarSource(node, path, text);
+}
+
+/**
+ * Finds the Jinja expression or statement containing the position.
+ */
+export function getJinjaExpressionAt(
+  document: TextDocument,
+  position: Position,
+): JinjaExpressionAt | undefined {
+  const source = getScalarSourceAt(
+    document,
+    position,
+    getDocumentAnalysis(document).yamlDocs,
+  );
+  if (!source) {
+    return undefined;
+  }
+  const cursor = document.offsetAt(position) - source.offset;
+  const region = findJinjaRegions(source.text, source.bare).find(
+    (r) =>
+      r.kind !== "comment" &&
+      r.contentStart <= cursor &&
+      (cursor <= r.contentEnd || r.end === source.text.length),
+  );
+  if (!region) {
+    return undefined;
+  }
+  const offset = source.offset + region.contentStart;
+  return {
+    content: source.text.slice(region.contentStart, region.contentEnd),
+    prefix: document.getText().slice(offset, document.offsetAt(position)),
+    offset,
+  };
+}
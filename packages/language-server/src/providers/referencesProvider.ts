@@ -0,0 +1,73 @@
+import { Location, TextDocuments } from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { findYamlFiles, loadTextDocument, toLspRange } from "../utils/misc";
+import { AnsibleReference, collectReferences } from "../utils/references";
+import { getOrigRange, parseAllDocuments } from "../utils/yaml";
+import { getReferenceAt } from "./definitionProvider";
+import { resolveFqcn } from "./hoverProvider";
+
+export async function doReferences(
+  document: TextDocument,
+  position: Position,
+  includeDeclaration: boolean,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+): Promise<Location[] | null> {
+  const target = getReferenceAt(
+    document,
+    position,
+    parseAllDocuments(document.getText()),
+  );
+  if (!target || target.kind === "include") {
+    return null;
+  }
+
+  const matches = getMatcher(target, includeDeclaration);
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const fileUris = new Set(
+    (await findYamlFiles(workspacePath)).map((f) => URI.file(f).toString()),
+  );
+  fileUris.add(document.uri);
+
+  const locations: Location[] = [];
+  for (const fileUri of fileUris) {
+    const fileDocument = await loadTextDocument(fileUri, documents);
+    if (!fileDocument) {
+      continue;
+    }
+
+    const references = collectReferences(
+      fileUri,
+      parseAllDocuments(fileDocument.getText()),
+    );
+    for (const reference of references) {
+      const range = getOrigRange(reference.node);
+      if (range && matches(reference)) {
+        locations.push(
+          Location.create(fileUri, toLspRange(range, fileDocument)),
+        );
+      }
+    }
+  }
+  return locations;
+}
+
+function getMatcher(
+  target: AnsibleReference,
+  includeDeclaration: boolean,
+): (reference: AnsibleReference) => boolean {
+  switch (target.kind) {
+    case "module": {
+      const fqcn = resolveFqcn(target.name);
+      return (r) => r.kind === "module" && resolveFqcn(r.name) === fqcn;
+    }
+    case "role":
+      return (r) => r.kind === "role" && r.name === target.name;
+    default:
+      return (r) =>
+        r.name === target.name &&
+        (r.kind === "notify" || (includeDeclaration && r.kind === "handler"));
+  }
+}
@@ -0,0 +1,402 @@
+import * as path from "path";
+import {
+  Range,
+  RenameFile,
+  TextDocumentEdit,
+  TextDocuments,
+  TextEdit,
+  WorkspaceEdit,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { isScalar, Scalar } from "yaml";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { getHandlersInScope, getNotificationNames } from "../utils/handlers";
+import { findJinjaRegions, findVariableReferences } from "../utils/jinja";
+import {
+  fileExists,
+  findTemplateFiles,
+  findYamlFiles,
+  loadTextDocument,
+  toLspRange,
+} from "../utils/misc";
+import { getRoleRoot, resolveRolePath } from "../utils/pathResolution";
+import { collectReferences } from "../utils/references";
+import { collectTagNodes, isTagValue, specialTags } from "../utils/tags";
+import { collectVariableDefinitions } from "../utils/variables";
+import {
+  getPathAt,
+  getScalarTextRange,
+  parseAllDocuments,
+} from "../utils/yaml";
+import { forEachScalarSource } from "./jinjaProvider";
+import { getVariableAt } from "./variableProvider";
+
+export type RenameTargetKind = "handler" | "variable" | "tag" | "role";
+
+/**
+ * An Ansible name that can be renamed across the workspace, with the range
+ * of its occurrence under the cursor.
+ */
+export interface RenameTarget {
+  kind: RenameTargetKind;
+  name: string;
+  range: Range;
+  /** Directory of the role, for roles. */
+  roleDir?: string;
+}
+
+const variableNamePattern = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const roleNamePattern = /^[A-Za-z0-9_][A-Za-z0-9_-]*$/;
+
+export async function doPrepareRename(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<{ range: Range; placeholder: string } | null> {
+  const target = await getRenameTarget(document, position, context);
+  return target ? { range: target.range, placeholder: target.name } : null;
+}
+
+/**
+ * Renames a handler (with its `listen` topics and `notify` references), a
+ * variable (definitions and uses in YAML and templates), a tag or a role of
+ * the workspace (its directory and the references to it). Variables and
+ * handlers of a role are renamed in that role and outside of roles only,
+ * leaving alone other roles that happen to use the same name.
+ */
+export async function doRename(
+  document: TextDocument,
+  position: Position,
+  newName: string,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+): Promise<WorkspaceEdit | null> {
+  const target = await getRenameTarget(document, position, context);
+  if (!target || !newName || newName === target.name) {
+    return null;
+  }
+  if (target.kind === "variable" && !variableNamePattern.test(newName)) {
+    return null;
+  }
+  if (target.kind === "role") {
+    return renameRole(target, newName, documents, context);
+  }
+
+  const changes: { [uri: string]: TextEdit[] } = {};
+  for (const uri of await getRenameScope(
+    target,
+    document,
+    documents,
+    context,
+  )) {
+    const fileDocument = await loadTextDocument(uri, documents);
+    if (!fileDocument) {
+      continue;
+    }
+    const ranges = /\.j2$/.test(uri)
+      ? findTemplateOccurrences(target.name, fileDocument)
+      : findOccurrences(target, fileDocument, context);
+    if (ranges.length) {
+      changes[uri] = ranges.map((range) => TextEdit.replace(range, newName));
+    }
+  }
+  return { changes };
+}
+
+/**
+ * Finds the handler, variable, tag or role under the cursor. Only the roles
+ * found in the workspace can be renamed.
+ */
+export async function getRenameTarget(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<RenameTarget | undefined> {
+  const variable = getVariableAt(document, position);
+  if (variable) {
+    return { kind: "variable", ...variable };
+  }
+
+  const yamlDocs = parseAllDocuments(document.getText());
+  const path = getPathAt(document, position, yamlDocs);
+  const node = path?.[path.length - 1];
+  if (!path || !isScalar(node) || typeof node.value !== "string") {
+    return undefined;
+  }
+  const textRange = getScalarTextRange(node);
+  const range = textRange && toLspRange(textRange, document);
+  if (!range || node.value.includes("{{")) {
+    return undefined;
+  }
+
+  const reference = collectReferences(document.uri, yamlDocs).find(
+    (reference) => reference.node === node,
+  );
+  if (reference?.kind === "handler" || reference?.kind === "notify") {
+    return { kind: "handler", name: node.value, range };
+  }
+  if (reference?.kind === "role") {
+    const roleDir = await getWorkspaceRoleDir(node.value, document, context);
+    return roleDir
+      ? { kind: "role", name: node.value, range, roleDir }
+      : undefined;
+  }
+
+  if (isTagValue(path)) {
+    return specialTags.has(node.value)
+      ? undefined
+      : { kind: "tag", name: node.value, range };
+  }
+
+  await context.variableIndex.initialize();
+  const offset = document.offsetAt(position);
+  const definition = collectVariableDefinitions(
+    document,
+    yamlDocs,
+    context.variableIndex.getFileSource(document.uri),
+  ).find(
+    (d) =>
+      document.offsetAt(d.range.start) <= offset &&
+      offset <= document.offsetAt(d.range.end),
+  );
+  if (definition) {
+    return { kind: "variable", name: definition.name, range: definition.range };
+  }
+  return undefined;
+}
+
+/**
+ * Returns the directory of a role named after it in the workspace.
+ */
+async function getWorkspaceRoleDir(
+  name: string,
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+): Promise<string | undefined> {
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const roleDir = await resolveRolePath(
+    name,
+    URI.parse(document.uri).path,
+    workspacePath,
+    await context.getCollectionsService(),
+  );
+  return roleDir?.startsWith(`${workspacePath}/`) &&
+    path.basename(roleDir) === name
+    ? roleDir
+    : undefined;
+}
+
+/**
+ * Renames the directory of a role along with the `roles` entries and the
+ * `include_role`/`import_role` tasks that resolve to it.
+ */
+async function renameRole(
+  target: RenameTarget,
+  newName: string,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+): Promise<WorkspaceEdit | null> {
+  const roleDir = target.roleDir;
+  const newRoleDir = roleDir && path.join(path.dirname(roleDir), newName);
+  if (
+    !roleDir ||
+    !newRoleDir ||
+    !roleNamePattern.test(newName) ||
+    (await fileExists(newRoleDir))
+  ) {
+    return null;
+  }
+
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const collectionsService = await context.getCollectionsService();
+  const documentChanges: WorkspaceEdit["documentChanges"] = [];
+  for (const file of await findYamlFiles(workspacePath)) {
+    const uri = URI.file(file).toString();
+    const fileDocument = await loadTextDocument(uri, documents);
+    if (!fileDocument) {
+      continue;
+    }
+    const nodes = collectReferences(
+      uri,
+      parseAllDocuments(fileDocument.getText()),
+    )
+      .filter(
+        (reference) =>
+          reference.kind === "role" && reference.name === target.name,
+      )
+      .map((reference) => reference.node);
+    if (
+      !nodes.length ||
+      (await resolveRolePath(
+        target.name,
+        file,
+        workspacePath,
+        collectionsService,
+      )) !== roleDir
+    ) {
+      continue;
+    }
+    documentChanges.push(
+      TextDocumentEdit.create(
+        { uri, version: documents.get(uri)?.version ?? null },
+        scalarRanges(nodes, fileDocument).map((range) =>
+          TextEdit.replace(range, newName),
+        ),
+      ),
+    );
+  }
+  documentChanges.push(
+    RenameFile.create(
+      URI.file(roleDir).toString(),
+      URI.file(newRoleDir).toString(),
+    ),
+  );
+  return { documentChanges };
+}
+
+/**
+ * Lists the files in which the target may occur.
+ */
+async function getRenameScope(
+  target: RenameTarget,
+  document: TextDocument,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+): Promise<string[]> {
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const files = await findYamlFiles(workspacePath);
+  if (target.kind === "handler") {
+    const roles = await getHandlerRoles(
+      target.name,
+      document,
+      documents,
+      context,
+    );
+    return files
+      .filter((file) => {
+        const fileRoleRoot = getRoleRoot(file);
+        return (
+          !roles || !fileRoleRoot || roles.has(path.basename(fileRoleRoot))
+        );
+      })
+      .map((file) => URI.file(file).toString());
+  }
+  if (target.kind !== "variable") {
+    return files.map((file) => URI.file(file).toString());
+  }
+
+  await context.variableIndex.initialize();
+  files.push(...(await findTemplateFiles(workspacePath)));
+  const roleRoot = getRoleRoot(URI.parse(document.uri).path);
+  const definedInRole =
+    roleRoot &&
+    (await context.variableIndex.getDefinitions(target.name)).some(
+      (definition) => URI.parse(definition.uri).path.startsWith(`${roleRoot}/`),
+    );
+  return files
+    .filter((file) => {
+      if (!definedInRole) {
+        return true;
+      }
+      const fileRoleRoot = getRoleRoot(file);
+      return !fileRoleRoot || fileRoleRoot === roleRoot;
+    })
+    .map((file) => URI.file(file).toString());
+}
+
+/**
+ * Returns the roles providing the handlers notified as `name` from the
+ * document, or nothing when one of them belongs to no role, in which case
+ * every role may notify it.
+ */
+async function getHandlerRoles(
+  name: string,
+  document: TextDocument,
+  documents: TextDocuments<TextDocument>,
+  context: WorkspaceFolderContext,
+): Promise<Set<string> | undefined> {
+  const handlers = (
+    await getHandlersInScope(
+      document,
+      parseAllDocuments(document.getText()),
+      URI.parse(context.workspaceFolder.uri).path,
+      await context.getCollectionsService(),
+      documents,
+    )
+  ).filter((handler) => getNotificationNames(handler).includes(name));
+  if (!handlers.length || handlers.some((handler) => !handler.role)) {
+    return undefined;
+  }
+  return new Set(handlers.map((handler) => path.basename(handler.role ?? "")));
+}
+
+function findOccurrences(
+  target: RenameTarget,
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+): Range[] {
+  const yamlDocs = parseAllDocuments(document.getText());
+  switch (target.kind) {
+    case "handler":
+      return collectReferences(document.uri, yamlDocs)
+        .filter(
+          (reference) =>
+            (reference.kind === "handler" || reference.kind === "notify") &&
+            reference.name === target.name,
+        )
+        .flatMap((reference) => scalarRanges([reference.node], document));
+    case "role":
+      // roles are renamed by renameRole
+      return [];
+    case "tag":
+      return scalarRanges(
+        collectTagNodes(yamlDocs).filter((node) => node.value === target.name),
+        document,
+      );
+    case "variable": {
+      const ranges = collectVariableDefinitions(
+        document,
+        yamlDocs,
+        context.variableIndex.getFileSource(document.uri),
+      )
+        .filter((definition) => definition.name === target.name)
+        .map((definition) => definition.range);
+      const text = document.getText();
+      forEachScalarSource(yamlDocs, text, (source) => {
+        const regions = findJinjaRegions(source.text, source.bare);
+        for (const reference of findVariableReferences(source.text, regions)) {
+          if (reference.name === target.name) {
+            ranges.push(
+              toLspRange(
+                [
+                  source.offset + reference.start,
+                  source.offset + reference.end,
+                ],
+                document,
+              ),
+            );
+          }
+        }
+      });
+      return ranges;
+    }
+  }
+}
+
+function findTemplateOccurrences(
+  name: string,
+  document: TextDocument,
+): Range[] {
+  const text = document.getText();
+  return findVariableReferences(text, findJinjaRegions(text))
+    .filter((reference) => reference.name === name)
+    .map((reference) => toLspRange([reference.start, reference.end], document));
+}
+
+function scalarRanges(nodes: Scalar[], document: TextDocument): Range[] {
+  return nodes.flatMap((node) => {
+    const range = getScalarTextRange(node);
+    return range ? [toLspRange(range, document)] : [];
+  });
+}
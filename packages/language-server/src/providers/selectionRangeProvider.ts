@@ -0,0 +1,81 @@
+import { Position, Range, SelectionRange } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { isPair, isScalar, Node } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import { toLspRange } from "../utils/misc";
+import {
+  getOrigRange,
+  getPathAt,
+  getScalarTextRange,
+} from "../utils/yaml";
+
+/**
+ * Expands the selection from a value to the text inside its quotes, the
+ * value, its key and value, the enclosing task or map, and so on up to the
+ * play and the document.
+ */
+export function doSelectionRanges(
+  document: TextDocument,
+  positions: Position[],
+): SelectionRange[] {
+  const yamlDocs = getDocumentAnalysis(document).yamlDocs;
+  return positions.map((position) => {
+    let selection: SelectionRange | undefined;
+    let outer: [number, number] | undefined;
+    const path = getPathAt(document, position, yamlDocs, true) ?? [];
+    for (const range of getNestedRanges(path, document.getText())) {
+      const isInside =
+        !outer ||
+        (outer[0] <= range[0] &&
+          range[1] <= outer[1] &&
+          (outer[0] !== range[0] || outer[1] !== range[1]));
+      if (isInside) {
+        selection = { range: toLspRange(range, document), parent: selection };
+        outer = range;
+      }
+    }
+    return selection ?? { range: Range.create(position, position) };
+  });
+}
+
+/**
+ * Lists the ranges of the nodes of the path from the outermost one, without
+ * the line breaks and comments that end collections and block scalars.
+ */
+function getNestedRanges(path: Node[], text: string): [number, number][] {
+  const trimEnd = ([start, end]: [number, number]): [number, number] => {
+    for (;;) {
+      while (end > start && /\s/.test(text[end - 1])) {
+        end--;
+      }
+      const lineStart = text.lastIndexOf("\n", end - 1) + 1;
+      if (
+        lineStart <= start ||
+        !text.slice(lineStart, end).trim().startsWith("#")
+      ) {
+        return [start, end];
+      }
+      end = lineStart;
+    }
+  };
+  const ranges: [number, number][] = [];
+  for (const node of path) {
+    if (isPair(node)) {
+      const keyRange = getOrigRange(node.key as Node);
+      const valueRange = getOrigRange(node.value as Node);
+      if (keyRange) {
+        ranges.push(trimEnd([keyRange[0], valueRange?.[1] ?? keyRange[1]]));
+      }
+      continue;
+    }
+    const range = getOrigRange(node);
+    if (range) {
+      ranges.push(trimEnd(range));
+    }
+    const textRange = isScalar(node) ? getScalarTextRange(node) : undefined;
+    if (textRange) {
+      ranges.push(textRange);
+    }
+  }
+  return ranges;
+}
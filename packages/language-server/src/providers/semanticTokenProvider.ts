@@ -6,6 +6,7 @@ import {
 } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import {
+  Document,
   isMap,
   isNode,
   isPair,
@@ -17,12 +18,24 @@ import {
 } from "yaml";
 import type { PluginOption } from "@ansible/core/out/services/CollectionsService";
 import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
 import {
   blockKeywords,
   isTaskKeyword,
   playKeywords,
   roleKeywords,
 } from "../utils/ansible";
+import {
+  classifyJinjaSymbols,
+  findJinjaRegions,
+  findVariableReferences,
+  jinjaFilters,
+  JinjaSymbol,
+  JinjaSymbolKind,
+  jinjaTests,
+} from "../utils/jinja";
+import { isSpecialVariable } from "../utils/variables";
 import {
   findProvidedModule,
   getOrigRange,
@@ -30,14 +43,27 @@ import {
   isPlayParam,
   isRoleParam,
   isTaskParam,
-  parseAllDocuments,
 } from "../utils/yaml";
+import { forEachScalarSource } from "./jinjaProvider";
+
+/**
+ * Modifier of Jinja variables that are not defined anywhere in the
+ * workspace.
+ */
+export const undefinedModifier = "undefined";
 
 export const tokenTypes = [
   SemanticTokenTypes.method,
   SemanticTokenTypes.class,
   SemanticTokenTypes.keyword,
   SemanticTokenTypes.property,
+  SemanticTokenTypes.variable,
+  SemanticTokenTypes.function,
+  SemanticTokenTypes.parameter,
+  SemanticTokenTypes.operator,
+  SemanticTokenTypes.string,
+  SemanticTokenTypes.number,
+  SemanticTokenTypes.comment,
 ] as const;
 
 const tokenTypesLegend = new Map(
@@ -46,34 +72,92 @@ const tokenTypesLegend = new Map(
 
 export const tokenModifiers = [
   SemanticTokenModifiers.definition,
+  SemanticTokenModifiers.declaration,
+  SemanticTokenModifiers.defaultLibrary,
+  undefinedModifier,
 ] as const;
 
+type TokenModifier = (typeof tokenModifiers)[number];
+
 const tokenModifiersLegend = new Map(
   tokenModifiers.map((value, index) => [value, index]),
 );
 
+const jinjaTokenTypes: Record<JinjaSymbolKind, SemanticTokenTypes> = {
+  variable: SemanticTokenTypes.variable,
+  attribute: SemanticTokenTypes.property,
+  filter: SemanticTokenTypes.function,
+  test: SemanticTokenTypes.function,
+  function: SemanticTokenTypes.function,
+  parameter: SemanticTokenTypes.parameter,
+  keyword: SemanticTokenTypes.keyword,
+  operator: SemanticTokenTypes.operator,
+  string: SemanticTokenTypes.string,
+  number: SemanticTokenTypes.number,
+  comment: SemanticTokenTypes.comment,
+};
+
+interface SemanticToken {
+  line: number;
+  character: number;
+  length: number;
+  tokenType: number;
+  tokenModifiers: number;
+}
+
+/**
+ * Computes the semantic tokens of a document: keywords, modules and module
+ * parameters, plus the content of Jinja expressions and statements found in
+ * scalar values.
+ *
+ * @param context - when given, Jinja variables that are not defined in the
+ * workspace are marked with the `undefined` modifier
+ */
 export async function doSemanticTokens(
   document: TextDocument,
   collectionsService: CollectionsService,
+  context?: WorkspaceFolderContext,
 ): Promise<SemanticTokens> {
-  const builder = new SemanticTokensBuilder();
-  const yDocuments = parseAllDocuments(document.getText());
-  for (const yDoc of yDocuments) {
+  const tokens: SemanticToken[] = [];
+  const analysis = getDocumentAnalysis(document);
+  for (const yDoc of analysis.yamlDocs) {
     if (yDoc.contents) {
       await markSemanticTokens(
         [yDoc.contents],
-        builder,
+        tokens,
         document,
         collectionsService,
       );
     }
   }
+  const definedNames = context
+    ? new Set(
+        [
+          ...(await context.variableIndex.getDefinitions()),
+          ...analysis.getVariableDefinitions(),
+        ].map((definition) => definition.name),
+      )
+    : undefined;
+  markJinjaSymbols(analysis.yamlDocs, tokens, document, definedNames);
+
+  // the builder encodes positions relative to the previous token
+  tokens.sort((a, b) => a.line - b.line || a.character - b.character);
+  const builder = new SemanticTokensBuilder();
+  for (const token of tokens) {
+    builder.push(
+      token.line,
+      token.character,
+      token.length,
+      token.tokenType,
+      token.tokenModifiers,
+    );
+  }
   return builder.build();
 }
 
 async function markSemanticTokens(
   path: Node[],
-  builder: SemanticTokensBuilder,
+  tokens: SemanticToken[],
   document: TextDocument,
   collectionsService: CollectionsService,
 ): Promise<void> {
@@ -86,25 +170,25 @@ async function markSemanticTokens(
 
         if (isPlayParam(keyPath)) {
           if (playKeywords.has(String(pair.key.value))) {
-            markKeyword(pair.key, builder, document);
+            markKeyword(pair.key, tokens, document);
           } else {
-            markOrdinaryKey(pair.key, builder, document);
+            markOrdinaryKey(pair.key, tokens, document);
           }
         } else if (isBlockParam(keyPath)) {
           if (blockKeywords.has(String(pair.key.value))) {
-            markKeyword(pair.key, builder, document);
+            markKeyword(pair.key, tokens, document);
           } else {
-            markOrdinaryKey(pair.key, builder, document);
+            markOrdinaryKey(pair.key, tokens, document);
           }
         } else if (isRoleParam(keyPath)) {
           if (roleKeywords.has(String(pair.key.value))) {
-            markKeyword(pair.key, builder, document);
+            markKeyword(pair.key, tokens, document);
           } else {
-            markOrdinaryKey(pair.key, builder, document);
+            markOrdinaryKey(pair.key, tokens, document);
           }
         } else if (isTaskParam(keyPath)) {
           if (isTaskKeyword(String(pair.key.value))) {
-            markKeyword(pair.key, builder, document);
+            markKeyword(pair.key, tokens, document);
 
             if (pair.key.value === "args") {
               const module = await findProvidedModule(
@@ -116,36 +200,38 @@ async function markSemanticTokens(
                 markModuleParameters(
                   pair.value,
                   module.doc.options,
-                  builder,
+                  tokens,
                   document,
                 );
               }
             }
           } else {
             const fqcn = resolveFqcn(String(pair.key.value));
-            const pluginData =
-              await collectionsService.getPluginDocumentation(fqcn, "module");
+            const pluginData = await getDocumentAnalysis(document).getModule(
+              fqcn,
+              collectionsService,
+            );
 
             if (pluginData) {
               markNode(
                 pair.key,
                 SemanticTokenTypes.class,
                 [],
-                builder,
+                tokens,
                 document,
               );
               if (pluginData.doc?.options && isMap(pair.value)) {
                 markModuleParameters(
                   pair.value,
                   pluginData.doc.options,
-                  builder,
+                  tokens,
                   document,
                 );
               }
             } else {
               markAllNestedKeysAsOrdinary(
                 pair as unknown as Scalar,
-                builder,
+                tokens,
                 document,
               );
             }
@@ -154,7 +240,7 @@ async function markSemanticTokens(
         } else {
           markAllNestedKeysAsOrdinary(
             pair as unknown as Scalar,
-            builder,
+            tokens,
             document,
           );
           continue;
@@ -164,7 +250,7 @@ async function markSemanticTokens(
       if (isNode(pair.value)) {
         await markSemanticTokens(
           path.concat(pair as unknown as Scalar, pair.value),
-          builder,
+          tokens,
           document,
           collectionsService,
         );
@@ -175,7 +261,7 @@ async function markSemanticTokens(
       if (isNode(item)) {
         await markSemanticTokens(
           path.concat(item),
-          builder,
+          tokens,
           document,
           collectionsService,
         );
@@ -192,7 +278,7 @@ function resolveFqcn(name: string): string {
 function markModuleParameters(
   moduleParamMap: YAMLMap,
   options: Record<string, PluginOption>,
-  builder: SemanticTokensBuilder,
+  tokens: SemanticToken[],
   document: TextDocument,
 ): void {
   for (const moduleParamPair of moduleParamMap.items) {
@@ -203,14 +289,14 @@ function markModuleParameters(
           moduleParamPair.key,
           SemanticTokenTypes.method,
           [],
-          builder,
+          tokens,
           document,
         );
         if (option.type === "dict" && option.suboptions && isMap(moduleParamPair.value)) {
           markModuleParameters(
             moduleParamPair.value,
             option.suboptions,
-            builder,
+            tokens,
             document,
           );
         } else if (
@@ -220,51 +306,51 @@ function markModuleParameters(
         ) {
           for (const item of moduleParamPair.value.items) {
             if (isMap(item)) {
-              markModuleParameters(item, option.suboptions, builder, document);
+              markModuleParameters(item, option.suboptions, tokens, document);
             } else {
-              markAllNestedKeysAsOrdinary(item as Node, builder, document);
+              markAllNestedKeysAsOrdinary(item as Node, tokens, document);
             }
           }
         } else {
           markAllNestedKeysAsOrdinary(
             moduleParamPair.value as Node,
-            builder,
+            tokens,
             document,
           );
         }
       } else {
         markAllNestedKeysAsOrdinary(
           moduleParamPair.value as Node,
-          builder,
+          tokens,
           document,
         );
       }
     } else if (isNode(moduleParamPair.value)) {
-      markAllNestedKeysAsOrdinary(moduleParamPair.value, builder, document);
+      markAllNestedKeysAsOrdinary(moduleParamPair.value, tokens, document);
     }
   }
 }
 
 function markAllNestedKeysAsOrdinary(
   node: Node,
-  builder: SemanticTokensBuilder,
+  tokens: SemanticToken[],
   document: TextDocument,
 ): void {
   if (isPair(node)) {
     if (isScalar(node.key)) {
-      markOrdinaryKey(node.key, builder, document);
+      markOrdinaryKey(node.key, tokens, document);
     }
     if (isNode(node.value)) {
-      markAllNestedKeysAsOrdinary(node.value, builder, document);
+      markAllNestedKeysAsOrdinary(node.value, tokens, document);
     }
   } else if (isMap(node)) {
     for (const pair of node.items) {
-      markAllNestedKeysAsOrdinary(pair as unknown as Scalar, builder, document);
+      markAllNestedKeysAsOrdinary(pair as unknown as Scalar, tokens, document);
     }
   } else if (isSeq(node)) {
     for (const item of node.items) {
       if (isNode(item)) {
-        markAllNestedKeysAsOrdinary(item, builder, document);
+        markAllNestedKeysAsOrdinary(item, tokens, document);
       }
     }
   }
@@ -272,22 +358,22 @@ function markAllNestedKeysAsOrdinary(
 
 function markKeyword(
   node: Scalar,
-  builder: SemanticTokensBuilder,
+  tokens: SemanticToken[],
   document: TextDocument,
 ): void {
-  markNode(node, SemanticTokenTypes.keyword, [], builder, document);
+  markNode(node, SemanticTokenTypes.keyword, [], tokens, document);
 }
 
 function markOrdinaryKey(
   node: Scalar,
-  builder: SemanticTokensBuilder,
+  tokens: SemanticToken[],
   document: TextDocument,
 ): void {
   markNode(
     node,
     SemanticTokenTypes.property,
     [SemanticTokenModifiers.definition],
-    builder,
+    tokens,
     document,
   );
 }
@@ -295,21 +381,107 @@ function markOrdinaryKey(
 function markNode(
   node: Scalar,
   tokenType: SemanticTokenTypes,
-  modifiers: SemanticTokenModifiers[],
-  builder: SemanticTokensBuilder,
+  modifiers: TokenModifier[],
+  tokens: SemanticToken[],
   document: TextDocument,
 ): void {
   const range = getOrigRange(node);
   if (range) {
-    const startPosition = document.positionAt(range[0]);
-    const length = range[1] - range[0];
-    builder.push(
-      startPosition.line,
-      startPosition.character,
-      length,
-      encodeTokenType(tokenType),
-      encodeTokenModifiers(modifiers),
+    markRange(range[0], range[1], tokenType, modifiers, tokens, document);
+  }
+}
+
+/**
+ * Marks the Jinja symbols of every scalar value. Variables that are neither
+ * guarded, defined in `definedNames` nor provided by Ansible get the
+ * `undefined` modifier.
+ */
+function markJinjaSymbols(
+  yamlDocs: Document[],
+  tokens: SemanticToken[],
+  document: TextDocument,
+  definedNames: Set<string> | undefined,
+): void {
+  forEachScalarSource(yamlDocs, document.getText(), (source) => {
+    const regions = findJinjaRegions(source.text, source.bare);
+    if (!regions.length) {
+      return;
+    }
+    const undefinedStarts = new Set(
+      definedNames
+        ? findVariableReferences(source.text, regions)
+            .filter(
+              (reference) =>
+                !reference.guarded &&
+                !definedNames.has(reference.name) &&
+                !isSpecialVariable(reference.name),
+            )
+            .map((reference) => reference.start)
+        : [],
     );
+    for (const symbol of classifyJinjaSymbols(source.text, regions)) {
+      const modifiers: TokenModifier[] = [];
+      if (symbol.declaration) {
+        modifiers.push(SemanticTokenModifiers.declaration);
+      }
+      if (isDefaultLibrary(symbol, source.text)) {
+        modifiers.push(SemanticTokenModifiers.defaultLibrary);
+      }
+      if (undefinedStarts.has(symbol.start)) {
+        modifiers.push(undefinedModifier);
+      }
+      markRange(
+        source.offset + symbol.start,
+        source.offset + symbol.end,
+        jinjaTokenTypes[symbol.kind],
+        modifiers,
+        tokens,
+        document,
+      );
+    }
+  });
+}
+
+function isDefaultLibrary(symbol: JinjaSymbol, text: string): boolean {
+  const name = text.slice(symbol.start, symbol.end);
+  switch (symbol.kind) {
+    case "variable":
+      return !!symbol.builtin || isSpecialVariable(name);
+    case "filter":
+      return jinjaFilters.has(name);
+    case "test":
+      return jinjaTests.has(name);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Marks a range of the document, splitting it at line breaks since tokens
+ * may not span several lines.
+ */
+function markRange(
+  start: number,
+  end: number,
+  tokenType: SemanticTokenTypes,
+  modifiers: TokenModifier[],
+  tokens: SemanticToken[],
+  document: TextDocument,
+): void {
+  let offset = start;
+  for (const line of document.getText().slice(start, end).split("\n")) {
+    const length = line.replace(/\r$/, "").length;
+    if (length) {
+      const position = document.positionAt(offset);
+      tokens.push({
+        line: position.line,
+        character: position.character,
+        length,
+        tokenType: encodeTokenType(tokenType),
+        tokenModifiers: encodeTokenModifiers(modifiers),
+      });
+    }
+    offset += line.length + 1;
   }
 }
 
@@ -321,12 +493,10 @@ function encodeTokenType(tokenType: SemanticTokenTypes): number {
   return index;
 }
 
-function encodeTokenModifiers(modifiers: SemanticTokenModifiers[]): number {
+function encodeTokenModifiers(modifiers: TokenModifier[]): number {
   let encoded = 0;
   for (const modifier of modifiers) {
-    const index = tokenModifiersLegend.get(
-      modifier as typeof tokenModifiers[number],
-    );
+    const index = tokenModifiersLegend.get(modifier);
     if (index === undefined) {
       throw new Error(`The '${modifier}' token modifier is not in legend`);
     }
@@ -0,0 +1,26 @@
+import { DocumentSymbol, SymbolInformation } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { parseInventoryFile } from "../utils/inventoryFile";
+import { collectInventorySymbols, collectSymbols } from "../utils/symbols";
+
+export function doDocumentSymbols(document: TextDocument): DocumentSymbol[] {
+  const inventory = parseInventoryFile(document);
+  if (inventory) {
+    return collectInventorySymbols(inventory);
+  }
+  return collectSymbols(document, getDocumentAnalysis(document).yamlDocs)
+    .documentSymbols;
+}
+
+export async function doWorkspaceSymbols(
+  query: string,
+  context: WorkspaceFolderContext,
+): Promise<SymbolInformation[]> {
+  const normalizedQuery = query.toLowerCase();
+  const symbols = await context.workspaceSymbolIndex.getSymbols();
+  return symbols.filter((symbol) =>
+    symbol.name.toLowerCase().includes(normalizedQuery),
+  );
+}
@@ -0,0 +1,207 @@
+import * as path from "path";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  Hover,
+  MarkupKind,
+  Range,
+  TextDocuments,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { isScalar } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { loadTextDocument, toLspRange } from "../utils/misc";
+import {
+  getRoleEntryPoint,
+  resolveFilePath,
+  resolveRolePath,
+} from "../utils/pathResolution";
+import { fileReferenceSubdirectories } from "../utils/references";
+import {
+  collectTaggedTasks,
+  isTagValue,
+  specialTags,
+  TaggedTask,
+  TaskFileReference,
+} from "../utils/tags";
+import {
+  getPathAt,
+  getScalarTextRange,
+  parseAllDocuments,
+} from "../utils/yaml";
+import type { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+
+/** Request sent by the extension to list the tags of a playbook. */
+export const listTagsRequest = "list/ansible-tags";
+
+/**
+ * A tag of a playbook with the tasks it selects, as returned for
+ * `list/ansible-tags`.
+ */
+export interface PlaybookTag {
+  name: string;
+  tasks: { name: string; uri: string; line: number }[];
+}
+
+const maxHoverTasks = 20;
+
+/**
+ * Lists the tasks of the workspace that the tag under the cursor selects.
+ */
+export async function getTagHover(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<Hover | undefined> {
+  const yamlDocs = getDocumentAnalysis(document).yamlDocs;
+  const nodePath = getPathAt(document, position, yamlDocs);
+  const node = nodePath?.[nodePath.length - 1];
+  if (!nodePath || !isScalar(node) || typeof node.value !== "string") {
+    return undefined;
+  }
+  const textRange = getScalarTextRange(node);
+  if (!textRange || !isTagValue(nodePath)) {
+    return undefined;
+  }
+
+  const tag = node.value;
+  const tasks = await context.tagIndex.getTaggedTasks(tag);
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const lines = [
+    `**Tag \`${tag}\`** selects ${tasks.length} task(s) in the workspace`,
+    "",
+    ...tasks.slice(0, maxHoverTasks).map((task) => {
+      const line = task.range.start.line + 1;
+      const file = path.relative(workspacePath, URI.parse(task.uri).path);
+      return `- ${task.name} — [${file}:${line}](${task.uri}#L${line})`;
+    }),
+  ];
+  if (tasks.length > maxHoverTasks) {
+    lines.push(`- … and ${tasks.length - maxHoverTasks} more`);
+  }
+  return {
+    contents: { kind: MarkupKind.Markdown, value: lines.join("\n") },
+    range: toLspRange(textRange, document),
+  };
+}
+
+/**
+ * Completes the values of `tags:` with the tags used in the workspace and
+ * those with a special meaning to Ansible.
+ */
+export async function getTagCompletion(
+  context: WorkspaceFolderContext,
+  range: Range | undefined,
+): Promise<CompletionItem[]> {
+  const counts = new Map<string, number>();
+  for (const task of await context.tagIndex.getTaggedTasks()) {
+    for (const tag of task.tags) {
+      counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+  }
+  const items: CompletionItem[] = [...counts].map(([tag, count]) => ({
+    label: tag,
+    detail: `${count} task(s)`,
+    kind: CompletionItemKind.Value,
+  }));
+  for (const tag of ["always", "never"]) {
+    if (!counts.has(tag)) {
+      items.push({ label: tag, kind: CompletionItemKind.Keyword });
+    }
+  }
+  return items.map((item) =>
+    range
+      ? { ...item, textEdit: { range, newText: item.label } }
+      : { ...item, insertText: item.label },
+  );
+}
+
+/**
+ * Lists the tags of a playbook with the tasks each selects, following roles
+ * and included files with the tags they inherit.
+ */
+export async function getPlaybookTags(
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+  documents?: TextDocuments<TextDocument>,
+): Promise<PlaybookTag[]> {
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const tasks: TaggedTask[] = [];
+  const visited = new Set<string>();
+
+  const visit = async (fileDocument: TextDocument, inheritedTags: string[]) => {
+    const filePath = URI.parse(fileDocument.uri).path;
+    const key = `${filePath}\0${inheritedTags.join(",")}`;
+    if (visited.has(key)) {
+      return;
+    }
+    visited.add(key);
+    const collected = collectTaggedTasks(
+      fileDocument,
+      parseAllDocuments(fileDocument.getText()),
+      inheritedTags,
+    );
+    tasks.push(...collected.tasks);
+    for (const reference of collected.references) {
+      const target = await resolveTaskFile(
+        reference,
+        filePath,
+        workspacePath,
+        collectionsService,
+      );
+      const targetDocument =
+        target &&
+        (await loadTextDocument(URI.file(target).toString(), documents));
+      if (targetDocument) {
+        await visit(targetDocument, reference.tags);
+      }
+    }
+  };
+  await visit(document, []);
+
+  const tags = new Map<string, PlaybookTag>();
+  for (const task of tasks) {
+    for (const tag of task.tags) {
+      const entry = tags.get(tag) ?? { name: tag, tasks: [] };
+      tags.set(tag, entry);
+      entry.tasks.push({
+        name: task.name,
+        uri: task.uri,
+        line: task.range.start.line,
+      });
+    }
+  }
+  return [...tags.values()].sort(
+    (a, b) =>
+      Number(specialTags.has(a.name)) - Number(specialTags.has(b.name)) ||
+      a.name.localeCompare(b.name),
+  );
+}
+
+async function resolveTaskFile(
+  reference: TaskFileReference,
+  filePath: string,
+  workspacePath: string,
+  collectionsService: CollectionsService,
+): Promise<string | undefined> {
+  if (reference.keyword === "roles" || reference.keyword.endsWith("_role")) {
+    const roleDir = await resolveRolePath(
+      reference.name,
+      filePath,
+      workspacePath,
+      collectionsService,
+    );
+    const entryPoint = roleDir && (await getRoleEntryPoint(roleDir));
+    return entryPoint && /\/tasks\/main\.ya?ml$/.test(entryPoint)
+      ? entryPoint
+      : undefined;
+  }
+  return resolveFilePath(
+    reference.name,
+    filePath,
+    fileReferenceSubdirectories[reference.keyword],
+  );
+}
@@ -1,15 +1,89 @@
+import { promises as fs } from "fs";
+import * as path from "path";
 import { IntervalTree, IntervalBase } from "@flatten-js/interval-tree";
 import {
   Connection,
   Diagnostic,
   DiagnosticSeverity,
+  DiagnosticTag,
   Range,
 } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { isMap, isScalar, isSeq, Node, Scalar, YAMLMap } from "yaml";
+import { getDocumentAnalysis } from "../services/documentAnalysis";
 import { ValidationManager } from "../services/validationManager";
 import type { WorkspaceFolderContext } from "../services/workspaceManager";
-import { isPlaybook, parseAllDocuments } from "../utils/yaml";
+import {
+  matchHostPattern,
+  matchHostPatternTerm,
+  splitHostPattern,
+} from "../utils/hostPatterns";
+import {
+  collectHandlers,
+  getHandlersInScope,
+  getNotificationNames,
+} from "../utils/handlers";
+import { parseInventoryFile } from "../utils/inventoryFile";
+import { loadTextDocument, toLspRange } from "../utils/misc";
+import { getRoleRoot } from "../utils/pathResolution";
+import {
+  acceptsArbitraryOptions,
+  validateOptions,
+} from "../utils/optionValidation";
+import {
+  findModuleRoute,
+  getRoutedBuiltinPlugins,
+  RoutingNotice,
+} from "../utils/pluginRouting";
+import { collectReferences } from "../utils/references";
+import {
+  collectRoleInvocations,
+  getRoleArgumentSpec,
+} from "../utils/roleArguments";
+import {
+  getDeclaredCollections,
+  getOrigRange,
+  getPathAt,
+  getScalarTextRange,
+  getTaskMaps,
+  getInventoryFormat,
+  isPlaybook,
+  isPlayMap,
+} from "../utils/yaml";
+import { isTaskKeyword } from "../utils/ansible";
+import {
+  findFilterNames,
+  findJinjaRegions,
+  findJinjaSyntaxProblems,
+  findVariableReferences,
+  tokenizeJinja,
+} from "../utils/jinja";
+import { isSpecialVariable } from "../utils/variables";
+import {
+  getCheckableFileReferences,
+  resolveFileReference,
+} from "./documentLinkProvider";
+import {
+  getLintConfigValidation,
+  isAnsibleLintConfig,
+} from "./ansibleLintConfigProvider";
+import { resolveFqcn } from "./hoverProvider";
+import { forEachScalarSource, getJinjaPlugins } from "./jinjaProvider";
 import { getCommandService } from "@ansible/core/out/services/CommandService";
+import {
+  CollectionsService,
+  PluginDeprecation,
+} from "@ansible/core/out/services/CollectionsService";
+
+export const deprecationSource = "Ansible [deprecations]";
+
+/**
+ * Data of a deprecation diagnostic that has a quick fix.
+ */
+export interface DeprecationData {
+  replacement: string;
+}
 
 export async function doValidate(
   textDocument: TextDocument,
@@ -20,6 +94,39 @@ export async function doValidate(
 ): Promise<Map<string, Diagnostic[]>> {
   let diagnosticsByFile = new Map<string, Diagnostic[]>();
 
+  if (isAnsibleLintConfig(textDocument.uri)) {
+    const settings = await context?.documentSettings.get(textDocument.uri);
+    diagnosticsByFile.set(
+      textDocument.uri,
+      settings?.validation.enabled
+        ? getLintConfigValidation(
+            textDocument,
+            (await context?.ansibleLintRules.getRules()) ?? new Map(),
+          )
+        : [],
+    );
+    validationManager.processDiagnostics(textDocument.uri, diagnosticsByFile);
+    return diagnosticsByFile;
+  }
+
+  const inventoryFormat = getInventoryFormat(textDocument);
+  if (inventoryFormat) {
+    const settings = await context?.documentSettings.get(textDocument.uri);
+    diagnosticsByFile.set(
+      textDocument.uri,
+      settings?.validation.enabled
+        ? [
+            ...(inventoryFormat === "yaml"
+              ? getYamlValidation(textDocument)
+              : []),
+            ...(await getInventoryValidation(textDocument)),
+          ]
+        : [],
+    );
+    validationManager.processDiagnostics(textDocument.uri, diagnosticsByFile);
+    return diagnosticsByFile;
+  }
+
   if (quick || !context) {
     diagnosticsByFile =
       validationManager.getValidationFromCache(textDocument.uri) ||
@@ -64,14 +171,48 @@ export async function doValidate(
     if (!diagnosticsByFile.has(textDocument.uri)) {
       diagnosticsByFile.set(textDocument.uri, []);
     }
+    diagnosticsByFile
+      .get(textDocument.uri)
+      ?.push(...(await getFileSystemValidation(textDocument, context)));
     validationManager.cacheDiagnostics(textDocument.uri, diagnosticsByFile);
   }
 
   const settings = await context?.documentSettings.get(textDocument.uri);
   if (settings?.validation.enabled) {
+    const collectionsService = context
+      ? await context.getCollectionsService()
+      : CollectionsService.getInstance();
     for (const [fileUri, fileDiagnostics] of diagnosticsByFile) {
       if (textDocument.uri === fileUri) {
         fileDiagnostics.push(...getYamlValidation(textDocument));
+        fileDiagnostics.push(
+          ...(await getModuleOptionValidation(
+            textDocument,
+            collectionsService,
+          )),
+        );
+        fileDiagnostics.push(
+          ...getJinjaValidation(
+            textDocument,
+            collectionsService,
+            context
+              ? await getRoutedBuiltinPlugins(
+                  "filter",
+                  context,
+                  collectionsService,
+                )
+              : [],
+          ),
+        );
+        if (context) {
+          fileDiagnostics.push(
+            ...(await getDeprecationValidation(
+              textDocument,
+              context,
+              collectionsService,
+            )),
+          );
+        }
       }
     }
   }
@@ -80,9 +221,32 @@ export async function doValidate(
   return diagnosticsByFile;
 }
 
+/**
+ * Runs the checks that look at other files or at the inventory. They run when
+ * a document is opened or saved; while typing, their results are taken from
+ * the validation cache along with the ansible-lint ones.
+ */
+async function getFileSystemValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+): Promise<Diagnostic[]> {
+  const collectionsService = await context.getCollectionsService();
+  return [
+    ...(await getUnresolvedPathValidation(textDocument)),
+    ...(await getUndefinedVariableValidation(textDocument, context)),
+    ...(await getRoleArgumentValidation(
+      textDocument,
+      context,
+      collectionsService,
+    )),
+    ...(await getHostPatternValidation(textDocument, context)),
+    ...(await getHandlerValidation(textDocument, context, collectionsService)),
+  ];
+}
+
 export function getYamlValidation(textDocument: TextDocument): Diagnostic[] {
   const diagnostics: Diagnostic[] = [];
-  const yDocuments = parseAllDocuments(textDocument.getText());
+  const yDocuments = getDocumentAnalysis(textDocument).yamlDocs;
   const rangeTree = new IntervalTree<Diagnostic>();
 
   for (const yDoc of yDocuments) {
@@ -131,3 +295,690 @@ export function getYamlValidation(textDocument: TextDocument): Diagnostic[] {
 
   return diagnostics;
 }
+
+/**
+ * Checks the options of every task against the documentation of its module,
+ * without running any external linter.
+ */
+export async function getModuleOptionValidation(
+  textDocument: TextDocument,
+  collectionsService: CollectionsService,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const analysis = getDocumentAnalysis(textDocument);
+
+  for (const taskNode of getTaskMaps(analysis.yamlDocs)) {
+    const moduleName = analysis.getTaskModuleName(taskNode);
+    if (!moduleName) {
+      continue;
+    }
+    const moduleValue = taskNode.get(moduleName, true);
+    const argsValue = taskNode.get("args", true);
+    if (
+      (moduleValue && !isMap(moduleValue)) ||
+      (argsValue && !isMap(argsValue))
+    ) {
+      // free-form or templated arguments cannot be checked statically
+      continue;
+    }
+
+    const fqcn = resolveFqcn(moduleName);
+    if (acceptsArbitraryOptions(fqcn)) {
+      continue;
+    }
+    const pluginData = await analysis.getModule(fqcn, collectionsService);
+    if (!pluginData?.doc?.options) {
+      continue;
+    }
+
+    const options = new YAMLMap<unknown, unknown>();
+    options.items.push(
+      ...(argsValue?.items ?? []),
+      ...(moduleValue?.items ?? []),
+    );
+    const moduleKey = taskNode.items.find(
+      (pair) => isScalar(pair.key) && pair.key.value === moduleName,
+    )?.key as Node;
+
+    diagnostics.push(
+      ...validateOptions(
+        options.items.length ? options : null,
+        pluginData.doc,
+        moduleKey,
+        textDocument,
+        "Ansible [options]",
+      ),
+    );
+  }
+  return diagnostics;
+}
+
+/**
+ * Reports modules that are deprecated, removed or redirected to another name
+ * in the plugin routing of their collection, along with modules and options
+ * documented as deprecated. Diagnostics that name a replacement carry it as
+ * `DeprecationData`.
+ */
+export async function getDeprecationValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const yamlDocs = getDocumentAnalysis(textDocument).yamlDocs;
+  const report = (
+    node: Scalar,
+    message: string,
+    severity: DiagnosticSeverity,
+    replacement?: string,
+  ) => {
+    const range = getOrigRange(node);
+    if (range) {
+      const data: DeprecationData | undefined = replacement
+        ? { replacement }
+        : undefined;
+      diagnostics.push({
+        message,
+        range: toLspRange(range, textDocument),
+        severity,
+        source: deprecationSource,
+        tags: [DiagnosticTag.Deprecated],
+        data,
+      });
+    }
+  };
+
+  for (const taskNode of getTaskMaps(yamlDocs)) {
+    const moduleKey = taskNode.items.find(
+      (pair) =>
+        isScalar(pair.key) &&
+        typeof pair.key.value === "string" &&
+        !isTaskKeyword(pair.key.value),
+    )?.key as Scalar<string> | undefined;
+    const name = moduleKey?.value;
+    if (!moduleKey?.range || !name || name.includes("{{")) {
+      continue;
+    }
+
+    const modulePath = getPathAt(
+      textDocument,
+      textDocument.positionAt(moduleKey.range[0]),
+      yamlDocs,
+    );
+    const routed = await findModuleRoute(
+      name,
+      getDeclaredCollections(modulePath),
+      context,
+      collectionsService,
+    );
+    const redirect = routed?.route.redirect;
+    if (routed?.route.tombstone) {
+      const notice = routed.route.tombstone;
+      report(
+        moduleKey,
+        `Module '${routed.fqcn}' has been removed${describeRemoval(notice)}.${describeText(notice.warning_text)}`,
+        DiagnosticSeverity.Error,
+        redirect,
+      );
+      continue;
+    }
+    if (routed?.route.deprecation) {
+      const notice = routed.route.deprecation;
+      report(
+        moduleKey,
+        `Module '${routed.fqcn}' is deprecated and will be removed${describeRemoval(notice)}.${describeText(notice.warning_text)}`,
+        DiagnosticSeverity.Warning,
+        redirect,
+      );
+    } else if (redirect) {
+      report(
+        moduleKey,
+        `Module '${routed.fqcn}' is redirected to '${redirect}'.`,
+        DiagnosticSeverity.Information,
+        redirect,
+      );
+    }
+
+    const pluginData = await getDocumentAnalysis(textDocument).getModule(
+      redirect ?? resolveFqcn(name),
+      collectionsService,
+    );
+    const doc = pluginData?.doc;
+    if (doc?.deprecated && !routed?.route.deprecation) {
+      const alternative = getAlternative(doc.deprecated);
+      report(
+        moduleKey,
+        `Module '${name}' is deprecated${describeDeprecation(doc.deprecated)}`,
+        DiagnosticSeverity.Warning,
+        alternative?.match(/\b[a-z_]\w*\.[a-z_]\w*\.[a-z_]\w*\b/)?.[0],
+      );
+    }
+
+    const options = doc?.options ?? {};
+    for (const value of [
+      taskNode.get(name, true),
+      taskNode.get("args", true),
+    ]) {
+      if (!isMap(value)) {
+        continue;
+      }
+      for (const pair of value.items) {
+        if (!isScalar(pair.key) || typeof pair.key.value !== "string") {
+          continue;
+        }
+        const optionName = pair.key.value;
+        const option =
+          options[optionName] ??
+          Object.values(options).find((o) => o.aliases?.includes(optionName));
+        if (!option?.deprecated) {
+          continue;
+        }
+        const alternative = getAlternative(option.deprecated);
+        report(
+          pair.key,
+          `Option '${optionName}' is deprecated${describeDeprecation(option.deprecated)}`,
+          DiagnosticSeverity.Warning,
+          alternative && alternative in options ? alternative : undefined,
+        );
+      }
+    }
+  }
+  return diagnostics;
+}
+
+function describeRemoval(notice: RoutingNotice): string {
+  if (notice.removal_version) {
+    return ` in version ${notice.removal_version}`;
+  }
+  return notice.removal_date ? ` after ${notice.removal_date}` : "";
+}
+
+function describeText(text: string | undefined): string {
+  return text ? ` ${text.trim()}` : "";
+}
+
+function describeDeprecation(deprecation: PluginDeprecation): string {
+  const version = deprecation.removed_in ?? deprecation.version;
+  const date = deprecation.removed_at_date ?? deprecation.date;
+  let message = version
+    ? ` and will be removed in version ${version}.`
+    : date
+      ? ` and will be removed after ${date}.`
+      : ".";
+  message += describeText(deprecation.why);
+  const alternative = getAlternative(deprecation);
+  if (alternative) {
+    message += ` Alternative: ${alternative}`;
+  }
+  return message;
+}
+
+function getAlternative(deprecation: PluginDeprecation): string | undefined {
+  return (deprecation.alternatives ?? deprecation.alternative)?.trim();
+}
+
+/**
+ * Reports notifications that no handler in scope answers to, and handlers of
+ * the document that nothing in the workspace notifies. Notifications are
+ * only checked in playbooks and roles, since the play that runs a loose
+ * tasks file is not known. In roles they are only reported as information,
+ * as the play running the role may provide the handler.
+ */
+export async function getHandlerValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const yamlDocs = getDocumentAnalysis(textDocument).yamlDocs;
+  const filePath = URI.parse(textDocument.uri).path;
+  const roleRoot = getRoleRoot(filePath);
+  const notifications = collectReferences(textDocument.uri, yamlDocs).filter(
+    (reference) =>
+      reference.kind === "notify" && !reference.name.includes("{{"),
+  );
+  const handlers = collectHandlers(
+    textDocument.uri,
+    yamlDocs,
+    roleRoot && path.basename(roleRoot),
+  );
+
+  const hasPlays = yamlDocs.some(
+    (yamlDoc) =>
+      isSeq(yamlDoc.contents) &&
+      yamlDoc.contents.items.some((item) => isMap(item) && isPlayMap(item)),
+  );
+  if (notifications.length && (hasPlays || roleRoot)) {
+    const knownNames = new Set(
+      (
+        await getHandlersInScope(
+          textDocument,
+          yamlDocs,
+          URI.parse(context.workspaceFolder.uri).path,
+          collectionsService,
+        )
+      ).flatMap(getNotificationNames),
+    );
+    for (const notification of notifications) {
+      const range = getOrigRange(notification.node);
+      if (range && !knownNames.has(notification.name)) {
+        diagnostics.push({
+          message: `No handler named or listening to '${notification.name}' can be notified from here.`,
+          range: toLspRange(range, textDocument),
+          severity: hasPlays
+            ? DiagnosticSeverity.Error
+            : DiagnosticSeverity.Information,
+          source: "Ansible [handlers]",
+        });
+      }
+    }
+  }
+
+  if (handlers.length) {
+    const notified = await context.notificationIndex.getNotifications(
+      textDocument.uri,
+    );
+    notifications.forEach((notification) => notified.add(notification.name));
+    for (const handler of handlers) {
+      const node = handler.name ?? handler.topics[0];
+      const range = getOrigRange(node);
+      if (
+        range &&
+        !getNotificationNames(handler).some((name) => notified.has(name))
+      ) {
+        diagnostics.push({
+          message: `Handler '${node.value}' is never notified.`,
+          range: toLspRange(range, textDocument),
+          severity: DiagnosticSeverity.Hint,
+          source: "Ansible [handlers]",
+          tags: [DiagnosticTag.Unnecessary],
+        });
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Validates the arguments passed to roles that declare an argument spec,
+ * either as `roles:` entry keys or through `vars:`. Other variables are
+ * allowed, and required arguments set by the play or the inventory are not
+ * reported as missing.
+ */
+export async function getRoleArgumentValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const yamlDocs = getDocumentAnalysis(textDocument).yamlDocs;
+  const invocations = collectRoleInvocations(yamlDocs);
+  if (!invocations.length) {
+    return diagnostics;
+  }
+  const inventoryVariables = new Set(
+    (await context.variableIndex.getDefinitions())
+      .filter((d) => d.source === "group_vars" || d.source === "host_vars")
+      .map((d) => d.name),
+  );
+
+  for (const invocation of invocations) {
+    const spec = await getRoleArgumentSpec(
+      invocation,
+      textDocument,
+      context,
+      collectionsService,
+    );
+    if (!spec) {
+      continue;
+    }
+    const argumentNames = new Set(
+      Object.entries(spec.options).flatMap(([name, option]) => [
+        name,
+        ...(option.aliases ?? []),
+      ]),
+    );
+    const args = new YAMLMap<unknown, unknown>();
+    args.items.push(
+      ...[...invocation.params, ...invocation.vars].filter(
+        (pair) =>
+          isScalar(pair.key) && argumentNames.has(String(pair.key.value)),
+      ),
+    );
+    const options = Object.fromEntries(
+      Object.entries(spec.options).map(([name, option]) => [
+        name,
+        invocation.playVars.has(name) || inventoryVariables.has(name)
+          ? { ...option, required: false }
+          : option,
+      ]),
+    );
+
+    diagnostics.push(
+      ...validateOptions(
+        args.items.length ? args : null,
+        { ...spec, options },
+        invocation.roleNode,
+        textDocument,
+        "Ansible [role arguments]",
+      ),
+    );
+  }
+  return diagnostics;
+}
+
+/**
+ * Warns about terms of play host patterns that match no group or host of the
+ * inventory, and about patterns whose combination selects no host. Nothing
+ * is reported when the inventory could not be loaded or is empty.
+ */
+export async function getHostPatternValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const patternNodes: Scalar<string>[] = [];
+  for (const yamlDoc of getDocumentAnalysis(textDocument).yamlDocs) {
+    const plays = isSeq(yamlDoc.contents) ? yamlDoc.contents.items : [];
+    for (const play of plays) {
+      if (!isMap(play) || !isPlayMap(play)) {
+        continue;
+      }
+      const hosts = play.get("hosts", true);
+      for (const node of isSeq(hosts) ? hosts.items : [hosts]) {
+        if (
+          isScalar(node) &&
+          typeof node.value === "string" &&
+          !node.value.includes("{{")
+        ) {
+          patternNodes.push(node as Scalar<string>);
+        }
+      }
+    }
+  }
+  if (!patternNodes.length) {
+    return diagnostics;
+  }
+  const inventory = await context.ansibleInventory;
+  if (!inventory.hosts.size) {
+    return diagnostics;
+  }
+
+  for (const node of patternNodes) {
+    const textRange = getScalarTextRange(node);
+    if (!textRange) {
+      continue;
+    }
+    const terms = splitHostPattern(node.value);
+    let allTermsKnown = true;
+    for (const term of terms) {
+      if (!matchHostPatternTerm(term.text, inventory)) {
+        allTermsKnown = false;
+        diagnostics.push({
+          message: `Host pattern '${term.text}' does not match any group or host in the inventory.`,
+          range: toLspRange(
+            [textRange[0] + term.start, textRange[0] + term.end],
+            textDocument,
+          ),
+          severity: DiagnosticSeverity.Warning,
+          source: "Ansible [inventory]",
+        });
+      }
+    }
+    if (
+      allTermsKnown &&
+      terms.length > 1 &&
+      !matchHostPattern(node.value, inventory).length
+    ) {
+      diagnostics.push({
+        message: `Host pattern '${node.value}' does not match any host.`,
+        range: toLspRange(textRange, textDocument),
+        severity: DiagnosticSeverity.Warning,
+        source: "Ansible [inventory]",
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Checks an inventory file: reports host ranges that cannot be expanded and
+ * malformed entries, and warns about hosts listed twice in a group and about
+ * child groups that neither this file nor the other inventory files of its
+ * directory define.
+ */
+export async function getInventoryValidation(
+  textDocument: TextDocument,
+): Promise<Diagnostic[]> {
+  const inventory = parseInventoryFile(textDocument);
+  if (!inventory) {
+    return [];
+  }
+  const diagnostics: Diagnostic[] = inventory.problems.map((problem) => ({
+    ...problem,
+    severity: DiagnosticSeverity.Error,
+    source: "Ansible [inventory]",
+  }));
+
+  const groupHosts = new Map<string, Set<string>>();
+  for (const group of inventory.groups) {
+    const seen = groupHosts.get(group.name) ?? new Set<string>();
+    groupHosts.set(group.name, seen);
+    for (const entry of group.hosts) {
+      if (entry.rangeError) {
+        diagnostics.push({
+          message: entry.rangeError,
+          range: entry.range,
+          severity: DiagnosticSeverity.Error,
+          source: "Ansible [inventory]",
+        });
+      }
+      const duplicates = entry.hosts.filter((host) => seen.has(host));
+      if (duplicates.length) {
+        diagnostics.push({
+          message: `Host '${duplicates[0]}' is already listed in group '${group.name}'.`,
+          range: entry.range,
+          severity: DiagnosticSeverity.Warning,
+          source: "Ansible [inventory]",
+        });
+      }
+      entry.hosts.forEach((host) => seen.add(host));
+    }
+  }
+
+  const definedGroups = new Set([
+    "all",
+    "ungrouped",
+    ...inventory.groups.map((group) => group.name),
+    ...(await getSiblingInventoryGroups(textDocument)),
+  ]);
+  for (const group of inventory.groups) {
+    for (const child of group.children) {
+      if (!definedGroups.has(child.name)) {
+        diagnostics.push({
+          message: `Child group '${child.name}' of '${group.name}' is not defined in the inventory.`,
+          range: child.range,
+          severity: DiagnosticSeverity.Warning,
+          source: "Ansible [inventory]",
+        });
+      }
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Returns the groups defined by the other inventory files in the directory
+ * of the document, which Ansible loads together when given the directory.
+ */
+async function getSiblingInventoryGroups(
+  textDocument: TextDocument,
+): Promise<string[]> {
+  const filePath = URI.parse(textDocument.uri).fsPath;
+  const directory = path.dirname(filePath);
+  const entries = await fs
+    .readdir(directory, { withFileTypes: true })
+    .catch(() => []);
+  const groups: string[] = [];
+  for (const entry of entries) {
+    const siblingPath = path.join(directory, entry.name);
+    if (!entry.isFile() || siblingPath === filePath) {
+      continue;
+    }
+    const sibling = await loadTextDocument(URI.file(siblingPath).toString());
+    const inventory = sibling && parseInventoryFile(sibling);
+    groups.push(...(inventory?.groups.map((group) => group.name) ?? []));
+  }
+  return groups;
+}
+
+/**
+ * Warns about included files, `vars_files` and `template`/`copy` sources
+ * that cannot be found on the role and playbook search paths.
+ */
+export async function getUnresolvedPathValidation(
+  textDocument: TextDocument,
+): Promise<Diagnostic[]> {
+  const diagnostics: Diagnostic[] = [];
+  const filePath = URI.parse(textDocument.uri).path;
+  for (const reference of getCheckableFileReferences(textDocument)) {
+    if (!(await resolveFileReference(reference, filePath))) {
+      diagnostics.push({
+        message: `Unable to find '${reference.path}'.`,
+        range: toLspRange(reference.range, textDocument),
+        severity: DiagnosticSeverity.Warning,
+        source: "Ansible [paths]",
+      });
+    }
+  }
+  return diagnostics;
+}
+
+/**
+ * Reports Jinja syntax errors and unknown filters in templated values and
+ * in bare expressions such as `when:`. Filters that `ansible.builtin` routes
+ * to a collection are passed in as `routedFilters` and count as known.
+ */
+export function getJinjaValidation(
+  textDocument: TextDocument,
+  collectionsService: CollectionsService,
+  routedFilters: string[] = [],
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+  const text = textDocument.getText();
+  const knownFilters = new Set<string>();
+  if (collectionsService.getCollection("ansible.builtin")) {
+    for (const plugin of getJinjaPlugins("filter", collectionsService)) {
+      knownFilters.add(plugin.name);
+      if (plugin.fqcn) {
+        knownFilters.add(plugin.fqcn);
+      }
+    }
+    routedFilters.forEach((name) => knownFilters.add(name));
+  }
+
+  const toRange = (start: number, end: number) =>
+    Range.create(textDocument.positionAt(start), textDocument.positionAt(end));
+
+  const yamlDocs = getDocumentAnalysis(textDocument).yamlDocs;
+  forEachScalarSource(yamlDocs, text, (source) => {
+    if (!source.bare && !/{{|{%|}}|%}/.test(source.text)) {
+      return;
+    }
+
+    for (const problem of findJinjaSyntaxProblems(source.text, source.bare)) {
+      diagnostics.push({
+        message: problem.message,
+        range: toRange(
+          source.offset + problem.start,
+          source.offset + problem.end,
+        ),
+        severity: DiagnosticSeverity.Error,
+        source: "Ansible [Jinja]",
+      });
+    }
+
+    if (!knownFilters.size) {
+      return;
+    }
+    for (const region of findJinjaRegions(source.text, source.bare)) {
+      if (region.kind === "comment") {
+        continue;
+      }
+      const tokens = tokenizeJinja(
+        source.text,
+        region.contentStart,
+        region.contentEnd,
+      );
+      for (const filter of findFilterNames(tokens)) {
+        if (!knownFilters.has(filter.name)) {
+          diagnostics.push({
+            message: `Unknown filter '${filter.name}'.`,
+            range: toRange(
+              source.offset + filter.start,
+              source.offset + filter.end,
+            ),
+            severity: DiagnosticSeverity.Warning,
+            source: "Ansible [Jinja]",
+          });
+        }
+      }
+    }
+  });
+  return diagnostics;
+}
+
+/**
+ * Warns about variables read by templates and bare expressions that are not
+ * defined anywhere in the workspace. Variables guarded with `default` or
+ * `is defined` are not reported.
+ */
+export async function getUndefinedVariableValidation(
+  textDocument: TextDocument,
+  context: WorkspaceFolderContext,
+): Promise<Diagnostic[]> {
+  const text = textDocument.getText();
+  const analysis = getDocumentAnalysis(textDocument);
+  const definedNames = new Set(
+    [
+      ...(await context.variableIndex.getDefinitions()),
+      ...analysis.getVariableDefinitions(),
+    ].map((definition) => definition.name),
+  );
+
+  const undefinedReferences: { name: string; start: number; end: number }[] =
+    [];
+  forEachScalarSource(analysis.yamlDocs, text, (source) => {
+    const regions = findJinjaRegions(source.text, source.bare);
+    for (const reference of findVariableReferences(source.text, regions)) {
+      if (
+        !reference.guarded &&
+        !definedNames.has(reference.name) &&
+        !isSpecialVariable(reference.name)
+      ) {
+        undefinedReferences.push({
+          name: reference.name,
+          start: source.offset + reference.start,
+          end: source.offset + reference.end,
+        });
+      }
+    }
+  });
+  if (!undefinedReferences.length) {
+    return [];
+  }
+
+  // variables set in inventory files are only known to ansible-inventory
+  const inventoryNames = (await context.ansibleInventory).getVariableNames();
+  return undefinedReferences
+    .filter((reference) => !inventoryNames.has(reference.name))
+    .map((reference) => ({
+      message: `Variable '${reference.name}' is not defined in the workspace.`,
+      range: Range.create(
+        textDocument.positionAt(reference.start),
+        textDocument.positionAt(reference.end),
+      ),
+      severity: DiagnosticSeverity.Warning,
+      source: "Ansible [variables]",
+    }));
+}
@@ -0,0 +1,205 @@
+import * as path from "path";
+import {
+  CompletionItem,
+  CompletionItemKind,
+  DefinitionLink,
+  Hover,
+  MarkupKind,
+  Range,
+} from "vscode-languageserver";
+import { Position, TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import {
+  findVariableReferences,
+  getJinjaCursorContext,
+  getJinjaWordAt,
+  tokenizeJinja,
+} from "../utils/jinja";
+import {
+  sortByPrecedence,
+  specialVariables,
+  VariableDefinition,
+} from "../utils/variables";
+import { getJinjaExpressionAt } from "./jinjaProvider";
+
+const maxHoverDefinitions = 5;
+
+/**
+ * Completes variable names in Jinja expressions from the workspace variable
+ * index. Returns undefined when the cursor is not on a variable name, so
+ * that other completion sources get a chance.
+ *
+ * @param getLocalItems - provides completion items for variables in scope
+ * of the cursor, which take precedence over workspace variables of the same
+ * name
+ */
+export async function getVariableCompletion(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+  getLocalItems: () => CompletionItem[] = () => [],
+): Promise<CompletionItem[] | undefined> {
+  const expression = getJinjaExpressionAt(document, position);
+  const cursorContext = expression && getJinjaCursorContext(expression.prefix);
+  if (
+    !expression ||
+    cursorContext?.kind !== "variable" ||
+    tokenizeJinja(expression.prefix).pop()?.unterminated
+  ) {
+    return undefined;
+  }
+  if (cursorContext.word.includes(".")) {
+    return [];
+  }
+
+  const range = Range.create(
+    document.positionAt(expression.offset + cursorContext.wordStart),
+    position,
+  );
+  const items = new Map<string, CompletionItem>();
+  for (const item of getLocalItems()) {
+    items.set(item.label, {
+      ...item,
+      textEdit: { range, newText: item.label },
+    });
+  }
+
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const definitions = sortByPrecedence(
+    await context.variableIndex.getDefinitions(),
+  );
+  for (const definition of definitions) {
+    if (!items.has(definition.name)) {
+      items.set(definition.name, {
+        label: definition.name,
+        kind: CompletionItemKind.Variable,
+        detail: describeSource(definition, workspacePath),
+        documentation: definition.value && {
+          kind: MarkupKind.Markdown,
+          value: formatValue(definition.value),
+        },
+        sortText: `8_${definition.name}`,
+        textEdit: { range, newText: definition.name },
+      });
+    }
+  }
+  for (const name of specialVariables) {
+    if (!items.has(name)) {
+      items.set(name, {
+        label: name,
+        kind: CompletionItemKind.Variable,
+        detail: "special variable",
+        sortText: `9_${name}`,
+        textEdit: { range, newText: name },
+      });
+    }
+  }
+  return [...items.values()];
+}
+
+export async function getVariableHover(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<Hover | null> {
+  const variable = getVariableAt(document, position);
+  if (!variable) {
+    return null;
+  }
+  const definitions = sortByPrecedence(
+    await context.variableIndex.getDefinitions(variable.name),
+  );
+  if (!definitions.length) {
+    return null;
+  }
+
+  const workspacePath = URI.parse(context.workspaceFolder.uri).path;
+  const sections = [`**${variable.name}**`];
+  for (const definition of definitions.slice(0, maxHoverDefinitions)) {
+    sections.push(
+      `*${describeSource(definition, workspacePath)}*` +
+        (definition.value ? `\n${formatValue(definition.value)}` : ""),
+    );
+  }
+  if (definitions.length > maxHoverDefinitions) {
+    sections.push(
+      `*and ${definitions.length - maxHoverDefinitions} more definitions*`,
+    );
+  }
+  return {
+    contents: { kind: MarkupKind.Markdown, value: sections.join("\n\n") },
+    range: variable.range,
+  };
+}
+
+export async function getVariableDefinition(
+  document: TextDocument,
+  position: Position,
+  context: WorkspaceFolderContext,
+): Promise<DefinitionLink[] | null> {
+  const variable = getVariableAt(document, position);
+  if (!variable) {
+    return null;
+  }
+  const definitions = sortByPrecedence(
+    await context.variableIndex.getDefinitions(variable.name),
+  );
+  return definitions.map((definition) => ({
+    originSelectionRange: variable.range,
+    targetUri: definition.uri,
+    targetRange: definition.range,
+    targetSelectionRange: definition.range,
+  }));
+}
+
+/**
+ * Returns the variable name under the cursor in a Jinja expression. For
+ * attribute access such as `user.name`, this is the root variable.
+ */
+export function getVariableAt(
+  document: TextDocument,
+  position: Position,
+): { name: string; range: Range } | undefined {
+  const expression = getJinjaExpressionAt(document, position);
+  const word =
+    expression && getJinjaWordAt(expression.content, expression.prefix.length);
+  if (!expression || word?.kind !== "variable") {
+    return undefined;
+  }
+  const { content } = expression;
+  const isVariable = findVariableReferences(content, [
+    {
+      kind: "expression",
+      start: 0,
+      end: content.length,
+      contentStart: 0,
+      contentEnd: content.length,
+      closed: true,
+    },
+  ]).some((reference) => reference.start === word.wordStart);
+  if (!isVariable) {
+    return undefined;
+  }
+  const name = word.word.split(".")[0];
+  const start = expression.offset + word.wordStart;
+  return {
+    name,
+    range: Range.create(
+      document.positionAt(start),
+      document.positionAt(start + name.length),
+    ),
+  };
+}
+
+function describeSource(
+  definition: VariableDefinition,
+  workspacePath: string,
+): string {
+  const filePath = path.relative(workspacePath, URI.parse(definition.uri).path);
+  return `${definition.source} in ${filePath}`;
+}
+
+function formatValue(value: string): string {
+  return `\`\`\`yaml\n${value}\n\`\`\``;
+}
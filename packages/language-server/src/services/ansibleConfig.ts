@@ -10,6 +10,14 @@ export interface AnsibleMetaData {
   [key: string]: string | undefined;
 }
 
+/**
+ * Tells whether a file is read by `ansible-config dump` and
+ * `ansible --version`, so that changing it invalidates the configuration.
+ */
+export function isAnsibleConfigFile(filePath: string): boolean {
+  return /\/\.?ansible\.cfg$/.test(filePath);
+}
+
 export class AnsibleConfig {
   private connection: Connection;
   private context: WorkspaceFolderContext;
@@ -5,19 +5,43 @@ import type { WorkspaceFolderContext } from "./workspaceManager";
 
 export type HostType = { host: string; priority: number };
 
+export interface InventoryGroup {
+  name: string;
+  /** Hosts listed directly in the group. */
+  hosts: string[];
+  children: string[];
+  parents: string[];
+  vars: Record<string, unknown>;
+}
+
+export interface InventoryHost {
+  name: string;
+  /** Groups listing the host directly. */
+  groups: string[];
+  /** Variables resolved for the host, including inherited group variables. */
+  vars: Record<string, unknown>;
+}
+
 interface InventoryHostEntry {
   children?: string[];
   hosts?: string[];
+  vars?: Record<string, unknown>;
 }
 
 type InventoryData = {
   [name: string]: InventoryHostEntry;
 };
 
+interface InventoryMeta {
+  hostvars?: Record<string, Record<string, unknown>>;
+}
+
 export class AnsibleInventory {
   private connection: Connection;
   private context: WorkspaceFolderContext;
   private _hostList: HostType[] = [];
+  private _groups: Map<string, InventoryGroup> = new Map();
+  private _hosts: Map<string, InventoryHost> = new Map();
 
   constructor(connection: Connection, context: WorkspaceFolderContext) {
     this.connection = connection;
@@ -45,6 +69,7 @@ export class AnsibleInventory {
       }
 
       this._hostList = parseInventoryHosts(inventoryData);
+      [this._groups, this._hosts] = parseInventoryTree(inventoryData);
     } catch (error) {
       this.connection.console.error(
         `Exception in AnsibleInventory service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
@@ -55,6 +80,110 @@ export class AnsibleInventory {
   get hostList(): HostType[] {
     return this._hostList;
   }
+
+  get groups(): ReadonlyMap<string, InventoryGroup> {
+    return this._groups;
+  }
+
+  get hosts(): ReadonlyMap<string, InventoryHost> {
+    return this._hosts;
+  }
+
+  /**
+   * Returns the names of the variables set on the groups and hosts of the
+   * inventory, including connection variables like `ansible_user`.
+   */
+  public getVariableNames(): Set<string> {
+    const names = new Set<string>();
+    for (const entry of [...this._groups.values(), ...this._hosts.values()]) {
+      Object.keys(entry.vars).forEach((name) => names.add(name));
+    }
+    return names;
+  }
+
+  /**
+   * Returns the hosts of a group, including those of its descendants.
+   */
+  public getGroupHosts(name: string): string[] {
+    if (name === "all") {
+      return [...this._hosts.keys()];
+    }
+    const hosts = new Set<string>();
+    const visited = new Set<string>();
+    const visit = (groupName: string) => {
+      const group = this._groups.get(groupName);
+      if (!group || visited.has(groupName)) {
+        return;
+      }
+      visited.add(groupName);
+      group.hosts.forEach((host) => hosts.add(host));
+      group.children.forEach(visit);
+    };
+    visit(name);
+    return [...hosts];
+  }
+}
+
+/**
+ * Tells whether a change to the file may change the output of
+ * `ansible-inventory`: the Ansible configuration, inventory files and
+ * directories, and variables of groups and hosts.
+ */
+export function isInventoryFile(filePath: string): boolean {
+  return (
+    /\/(ansible\.cfg|hosts|inventory)(\.[^/]*)?$/.test(filePath) ||
+    /\/(inventory|inventories|group_vars|host_vars)\//.test(filePath) ||
+    /\.ini$/.test(filePath)
+  );
+}
+
+/**
+ * Builds the group tree and the host list from the output of
+ * `ansible-inventory --list`.
+ */
+function parseInventoryTree(
+  data: InventoryData,
+): [Map<string, InventoryGroup>, Map<string, InventoryHost>] {
+  const groups = new Map<string, InventoryGroup>();
+  const hosts = new Map<string, InventoryHost>();
+  const hostvars = (data._meta as InventoryMeta | undefined)?.hostvars ?? {};
+
+  const getGroup = (name: string) => {
+    let group = groups.get(name);
+    if (!group) {
+      group = { name, hosts: [], children: [], parents: [], vars: {} };
+      groups.set(name, group);
+    }
+    return group;
+  };
+  const getHost = (name: string) => {
+    let host = hosts.get(name);
+    if (!host) {
+      host = { name, groups: [], vars: hostvars[name] ?? {} };
+      hosts.set(name, host);
+    }
+    return host;
+  };
+
+  for (const [name, entry] of Object.entries(data)) {
+    if (name === "_meta" || typeof entry !== "object" || entry === null) {
+      continue;
+    }
+    const group = getGroup(name);
+    group.vars = entry.vars ?? {};
+    for (const child of entry.children ?? []) {
+      group.children.push(child);
+      getGroup(child).parents.push(name);
+    }
+    for (const hostName of entry.hosts ?? []) {
+      group.hosts.push(hostName);
+      getHost(hostName).groups.push(name);
+    }
+  }
+  for (const hostName of Object.keys(hostvars)) {
+    getHost(hostName);
+  }
+  return [groups, hosts];
 }
 
 function parseInventoryHosts(hostObj: InventoryData): HostType[] {
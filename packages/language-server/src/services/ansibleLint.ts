@@ -1,3 +1,5 @@
+import { promises as fs } from "fs";
+import * as os from "os";
 import * as path from "path";
 import { URI } from "vscode-uri";
 import {
@@ -37,21 +39,10 @@ export class AnsibleLint {
       return diagnostics;
     }
 
-    let linterArguments = settings.validation.lint.arguments ?? "";
-
-    let ansibleLintConfigPath = linterArguments.match(
-      /(?:^|\s)-c\s*(?<sep>[\s'"])(?<conf>.+?)(?:\k<sep>|$)/,
-    )?.groups?.conf;
-
-    if (!ansibleLintConfigPath) {
-      const configFile = await this.findAnsibleLintConfigFile(textDocument.uri);
-      if (configFile) {
-        ansibleLintConfigPath = URI.parse(configFile).path;
-        linterArguments = `${linterArguments} -c "${ansibleLintConfigPath}"`;
-      }
-    }
-
-    this._ansibleLintConfigFilePath = ansibleLintConfigPath;
+    let linterArguments = await this.getLinterArguments(
+      path.dirname(URI.parse(textDocument.uri).path),
+      settings.validation.lint.arguments,
+    );
     linterArguments = `${linterArguments} --offline --nocolor -f codeclimate`;
 
     if (settings.validation.lint.autoFixOnSave) {
@@ -92,6 +83,144 @@ export class AnsibleLint {
     return diagnostics;
   }
 
+  /**
+   * Runs `ansible-lint --fix` on a copy of the document and returns the
+   * fixed content, leaving the document itself untouched. The copy is made
+   * in a temporary directory, at the same path relative to the workspace
+   * folder so that ansible-lint still recognizes the kind of file.
+   */
+  public async fix(textDocument: TextDocument): Promise<string | undefined> {
+    const workingDirectory = URI.parse(this.context.workspaceFolder.uri).path;
+    const settings = await this.context.documentSettings.get(textDocument.uri);
+    const linterArguments = await this.getLinterArguments(
+      path.dirname(URI.parse(textDocument.uri).path),
+      settings.validation.lint.arguments,
+    );
+
+    const docPath = URI.parse(textDocument.uri).path;
+    const relativePath = path.relative(workingDirectory, docPath);
+    let tempDirectory: string | undefined;
+
+    const commandService = getCommandService();
+    try {
+      tempDirectory = await fs.mkdtemp(path.join(os.tmpdir(), "ansible-fix-"));
+      const copyPath = path.join(
+        tempDirectory,
+        relativePath.startsWith("..") || path.isAbsolute(relativePath)
+          ? path.basename(docPath)
+          : relativePath,
+      );
+      await fs.mkdir(path.dirname(copyPath), { recursive: true });
+      await fs.writeFile(copyPath, textDocument.getText(), "utf8");
+      const result = await commandService.spawnTool(
+        "ansible-lint",
+        [
+          ...parseArgv(linterArguments),
+          "--offline",
+          "--nocolor",
+          "-q",
+          "--fix=all",
+          copyPath,
+        ],
+        { cwd: workingDirectory },
+      ).result;
+      if (result.stderr) {
+        this.connection.console.info(`[ansible-lint] ${result.stderr}`);
+      }
+      return await fs.readFile(copyPath, "utf8");
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in AnsibleLint service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+      return undefined;
+    } finally {
+      if (tempDirectory) {
+        await fs.rm(tempDirectory, { recursive: true, force: true });
+      }
+    }
+  }
+
+  /**
+   * Runs ansible-lint on several files at once and returns the diagnostics
+   * of each, with an empty list for the files without problems, or
+   * `undefined` when ansible-lint could not be run or was stopped through
+   * the signal. Problems in other files are left out.
+   */
+  public async lintFiles(
+    uris: string[],
+    signal?: AbortSignal,
+  ): Promise<Map<string, Diagnostic[]> | undefined> {
+    const workingDirectory = URI.parse(this.context.workspaceFolder.uri).path;
+    const settings = await this.context.documentSettings.get(
+      this.context.workspaceFolder.uri,
+    );
+    const linterArguments = await this.getLinterArguments(
+      workingDirectory,
+      settings.validation.lint.arguments,
+    );
+
+    const diagnostics = new Map<string, Diagnostic[]>(
+      uris.map((uri) => [uri, []]),
+    );
+    const commandService = getCommandService();
+    try {
+      const result = await commandService.spawnTool(
+        "ansible-lint",
+        [
+          ...parseArgv(linterArguments),
+          "--offline",
+          "--nocolor",
+          "-f",
+          "codeclimate",
+          ...uris.map((uri) => URI.parse(uri).path),
+        ],
+        { cwd: workingDirectory, signal },
+      ).result;
+      if (result.aborted) {
+        return undefined;
+      }
+      for (const [uri, fileDiagnostics] of this.processReport(
+        result.stdout,
+        workingDirectory,
+      )) {
+        if (diagnostics.has(uri)) {
+          diagnostics.set(uri, fileDiagnostics);
+        }
+      }
+      if (result.stderr) {
+        this.connection.console.info(`[ansible-lint] ${result.stderr}`);
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in AnsibleLint service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+      return undefined;
+    }
+    return diagnostics;
+  }
+
+  private async getLinterArguments(
+    directory: string,
+    configuredArguments: string | undefined,
+  ): Promise<string> {
+    let linterArguments = configuredArguments ?? "";
+
+    let ansibleLintConfigPath = linterArguments.match(
+      /(?:^|\s)-c\s*(?<sep>[\s'"])(?<conf>.+?)(?:\k<sep>|$)/,
+    )?.groups?.conf;
+
+    if (!ansibleLintConfigPath) {
+      const configFile = await this.findAnsibleLintConfigFile(directory);
+      if (configFile) {
+        ansibleLintConfigPath = URI.parse(configFile).path;
+        linterArguments = `${linterArguments} -c "${ansibleLintConfigPath}"`;
+      }
+    }
+
+    this._ansibleLintConfigFilePath = ansibleLintConfigPath;
+    return linterArguments;
+  }
+
   private processReport(
     result: string,
     workingDirectory: string,
@@ -145,9 +274,6 @@ export class AnsibleLint {
         const locationUri = URI.file(filePath).toString();
 
         const helpUri: string | undefined = item.url || undefined;
-        const helpUrlName: string | undefined = helpUri
-          ? item.check_name
-          : undefined;
 
         let fileDiagnostics = diagnostics.get(locationUri);
         if (!fileDiagnostics) {
@@ -160,7 +286,7 @@ export class AnsibleLint {
           range,
           severity,
           source: "ansible-lint",
-          code: helpUrlName,
+          code: item.check_name,
           codeDescription: helpUri ? { href: helpUri } : undefined,
         });
       }
@@ -176,11 +302,15 @@ export class AnsibleLint {
     return diagnostics;
   }
 
-  private async findAnsibleLintConfigFile(
-    uri: string,
+  /**
+   * Returns the path of the `.ansible-lint` file closest to the directory
+   * within the workspace folder.
+   */
+  public async findAnsibleLintConfigFile(
+    directory: string,
   ): Promise<string | undefined> {
     const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
-    let dir = path.dirname(URI.parse(uri).path);
+    let dir = directory;
 
     while (dir.startsWith(workspacePath)) {
       const candidate = path.join(dir, ".ansible-lint");
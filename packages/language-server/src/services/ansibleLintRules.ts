@@ -0,0 +1,135 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import { glob } from "glob";
+import { Connection } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import {
+  findRuleProfile,
+  LintProfile,
+  LintRule,
+  parseLintProfiles,
+  parseRuleListMarkdown,
+} from "../utils/lintRules";
+import { getCommandService } from "@ansible/core/out/services/CommandService";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+/** Rules documented by each version of ansible-lint, shared by all folders. */
+const rulesByVersion = new Map<string, Promise<Map<string, LintRule>>>();
+
+/**
+ * Provides the documentation of the rules of the ansible-lint installed for
+ * a workspace folder, from `ansible-lint --list-rules` and, when the package
+ * can be found next to the executable, from the rule documents and profiles
+ * it ships. Rules are loaded once per ansible-lint version.
+ */
+export class AnsibleLintRules {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private _version: Promise<string | undefined> | undefined;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+  }
+
+  public async getRules(): Promise<Map<string, LintRule>> {
+    const version = await this.getVersion();
+    if (!version) {
+      return new Map();
+    }
+    let rules = rulesByVersion.get(version);
+    if (!rules) {
+      rules = this.loadRules();
+      rulesByVersion.set(version, rules);
+      // try again next time if ansible-lint could not list its rules
+      void rules.then((loaded) => {
+        if (!loaded.size) {
+          rulesByVersion.delete(version);
+        }
+      });
+    }
+    return rules;
+  }
+
+  private getVersion(): Promise<string | undefined> {
+    if (!this._version) {
+      this._version = getCommandService()
+        .runTool("ansible-lint", ["--version"], {
+          cwd: URI.parse(this.context.workspaceFolder.uri).path,
+        })
+        .then(
+          (result) => result.stdout.match(/ansible-lint\s+(\S+)/)?.[1],
+          () => undefined,
+        );
+    }
+    return this._version;
+  }
+
+  private async loadRules(): Promise<Map<string, LintRule>> {
+    const commandService = getCommandService();
+    const result = await commandService.runTool(
+      "ansible-lint",
+      ["--list-rules", "--format", "md", "--nocolor"],
+      { cwd: URI.parse(this.context.workspaceFolder.uri).path },
+    );
+    const rules = parseRuleListMarkdown(result.stdout);
+    if (!rules.size) {
+      this.connection.console.warn(
+        `Could not list the rules of ansible-lint: ${result.stderr}`,
+      );
+      return rules;
+    }
+
+    const packageDir = await this.findPackageDir();
+    if (packageDir) {
+      let profiles: LintProfile[] = [];
+      try {
+        profiles = parseLintProfiles(
+          await fs.readFile(
+            path.join(packageDir, "data", "profiles.yml"),
+            "utf8",
+          ),
+        );
+      } catch (error) {
+        this.connection.console.info(
+          `Could not read the ansible-lint profiles: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+        );
+      }
+      for (const rule of rules.values()) {
+        rule.profile = findRuleProfile(profiles, rule.id);
+        try {
+          rule.help = await fs.readFile(
+            path.join(packageDir, "rules", `${rule.id}.md`),
+            "utf8",
+          );
+        } catch {
+          // rules from plugins may have no document
+        }
+      }
+    }
+    return rules;
+  }
+
+  /**
+   * Finds the `ansiblelint` package in the Python environment that provides
+   * the ansible-lint executable.
+   */
+  private async findPackageDir(): Promise<string | undefined> {
+    const toolPath = await getCommandService().getToolPath("ansible-lint");
+    if (!toolPath) {
+      return undefined;
+    }
+    try {
+      const environment = path.dirname(
+        path.dirname(await fs.realpath(toolPath)),
+      );
+      const [packageDir] = await glob(
+        "{lib/python3*,Lib}/site-packages/ansiblelint",
+        { cwd: environment, absolute: true },
+      );
+      return packageDir;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,108 @@
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, YAMLMap } from "yaml";
+import { isTaskKeyword } from "../utils/ansible";
+import {
+  collectVariableDefinitions,
+  VariableDefinition,
+} from "../utils/variables";
+import { getYamlMapKeys, parseAllDocuments } from "../utils/yaml";
+import type {
+  CollectionsService,
+  PluginData,
+} from "@ansible/core/out/services/CollectionsService";
+
+/**
+ * The parsed content of one version of a document, with what the providers
+ * derive from it: the module run by each task and the variables the document
+ * defines. Derived data is computed on first use and then shared by every
+ * request made against that version.
+ */
+export class DocumentAnalysis {
+  public readonly version: number;
+  public readonly yamlDocs: Document[];
+  private document: TextDocument;
+  private taskModuleNames = new Map<YAMLMap, string | undefined>();
+  private modules = new Map<string, Promise<PluginData | null>>();
+  private variableDefinitions: VariableDefinition[] | undefined;
+
+  constructor(document: TextDocument) {
+    this.document = document;
+    this.version = document.version;
+    this.yamlDocs = parseAllDocuments(document.getText());
+  }
+
+  /**
+   * Returns the module key of a task: its first key that is not a task
+   * keyword.
+   */
+  public getTaskModuleName(task: YAMLMap): string | undefined {
+    if (!this.taskModuleNames.has(task)) {
+      this.taskModuleNames.set(
+        task,
+        getYamlMapKeys(task).find((key) => !isTaskKeyword(key)),
+      );
+    }
+    return this.taskModuleNames.get(task);
+  }
+
+  /**
+   * Looks up the documentation of a module once per document version.
+   */
+  public getModule(
+    fqcn: string,
+    collectionsService: CollectionsService,
+  ): Promise<PluginData | null> {
+    let module = this.modules.get(fqcn);
+    if (!module) {
+      module = collectionsService.getPluginDocumentation(fqcn, "module");
+      this.modules.set(fqcn, module);
+    }
+    return module;
+  }
+
+  /**
+   * Returns the variables defined by the plays and tasks of the document.
+   */
+  public getVariableDefinitions(): VariableDefinition[] {
+    if (!this.variableDefinitions) {
+      this.variableDefinitions = collectVariableDefinitions(
+        this.document,
+        this.yamlDocs,
+      );
+    }
+    return this.variableDefinitions;
+  }
+}
+
+/**
+ * Keeps the analysis of the latest version of each document. Entries are
+ * held weakly by document, so that files loaded from disk for a single
+ * request are released with them, and are dropped as soon as an open
+ * document changes.
+ */
+export class DocumentAnalysisCache {
+  private analyses = new WeakMap<TextDocument, DocumentAnalysis>();
+
+  public get(document: TextDocument): DocumentAnalysis {
+    let analysis = this.analyses.get(document);
+    if (!analysis || analysis.version !== document.version) {
+      analysis = new DocumentAnalysis(document);
+      this.analyses.set(document, analysis);
+    }
+    return analysis;
+  }
+
+  public invalidate(document: TextDocument): void {
+    this.analyses.delete(document);
+  }
+}
+
+/** Cache shared by the handlers of the language server. */
+export const documentAnalysisCache = new DocumentAnalysisCache();
+
+/**
+ * Returns the cached analysis of the current version of a document.
+ */
+export function getDocumentAnalysis(document: TextDocument): DocumentAnalysis {
+  return documentAnalysisCache.get(document);
+}
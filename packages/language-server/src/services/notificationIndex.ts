@@ -0,0 +1,119 @@
+import {
+  Connection,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { findYamlFiles, loadTextDocument } from "../utils/misc";
+import { collectReferences } from "../utils/references";
+import { getDocumentAnalysis } from "./documentAnalysis";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+/**
+ * Keeps the handler names notified by every YAML file in a workspace folder,
+ * to tell which handlers are never notified. The index is built on first use
+ * and then kept up to date from document edits and file system events.
+ */
+export class NotificationIndex {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private notificationsByUri: Map<string, string[]> = new Map();
+  private _initialization: Promise<void> | undefined;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this._initialization) {
+      this._initialization = this.indexWorkspace();
+    }
+    return this._initialization;
+  }
+
+  /**
+   * Returns the notified names, leaving out those of the given document,
+   * which may be newer than the index.
+   */
+  public async getNotifications(excludedUri?: string): Promise<Set<string>> {
+    await this.initialize();
+    const notifications = new Set<string>();
+    for (const [uri, names] of this.notificationsByUri) {
+      if (uri !== excludedUri) {
+        names.forEach((name) => notifications.add(name));
+      }
+    }
+    return notifications;
+  }
+
+  public updateDocument(document: TextDocument): void {
+    if (this._initialization) {
+      this.indexDocument(document);
+    }
+  }
+
+  public async handleDocumentClosed(uri: string): Promise<void> {
+    if (this._initialization) {
+      await this.indexFile(uri);
+    }
+  }
+
+  public async handleWatchedDocumentChange(
+    params: DidChangeWatchedFilesParams,
+  ): Promise<void> {
+    if (!this._initialization) {
+      return;
+    }
+    for (const fileEvent of params.changes) {
+      if (
+        !fileEvent.uri.startsWith(this.context.workspaceFolder.uri) ||
+        !/\.ya?ml$/.test(fileEvent.uri)
+      ) {
+        continue;
+      }
+      if (fileEvent.type === FileChangeType.Deleted) {
+        this.notificationsByUri.delete(fileEvent.uri);
+      } else {
+        await this.indexFile(fileEvent.uri);
+      }
+    }
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
+    try {
+      for (const file of await findYamlFiles(workspacePath)) {
+        await this.indexFile(URI.file(file).toString());
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in NotificationIndex service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    }
+  }
+
+  private async indexFile(uri: string): Promise<void> {
+    const document = await loadTextDocument(uri);
+    if (document) {
+      this.indexDocument(document);
+    } else {
+      this.notificationsByUri.delete(uri);
+    }
+  }
+
+  private indexDocument(document: TextDocument): void {
+    const notifications = collectReferences(
+      document.uri,
+      getDocumentAnalysis(document).yamlDocs,
+    )
+      .filter((reference) => reference.kind === "notify")
+      .map((reference) => reference.name);
+    if (notifications.length) {
+      this.notificationsByUri.set(document.uri, notifications);
+    } else {
+      this.notificationsByUri.delete(document.uri);
+    }
+  }
+}
@@ -70,6 +70,58 @@ export class SettingsManager {
             "Whether `ansible-lint --fix` should run automatically on save",
         },
       },
+      workspace: {
+        enabled: {
+          default: false,
+          description:
+            "Lint every Ansible file of the workspace in the background and report problems in closed files",
+        },
+      },
+    },
+    format: {
+      enabled: {
+        default: true,
+        description: "Toggle the document formatting provider",
+      },
+      indentSequences: {
+        default: true,
+        description:
+          "Whether block sequences are indented under their parent key",
+      },
+      sortTaskKeys: {
+        default: true,
+        description:
+          "Whether task keys are put in the order name, module, args and then the other keywords",
+      },
+      normalizeBooleans: {
+        default: true,
+        description:
+          "Whether boolean values such as `yes` or `True` are rewritten as `true` and `false`",
+      },
+    },
+    inlayHints: {
+      moduleFqcn: {
+        default: true,
+        description:
+          "Show the collection of modules that are called by their short name",
+      },
+      optionDefaults: {
+        default: false,
+        description:
+          "Show the documented defaults of module options with choices that a task does not set",
+      },
+    },
+    executionEnvironment: {
+      enabled: {
+        default: false,
+        description:
+          "Resolve module and plugin documentation from the collections inside an execution environment image instead of the local Python environment",
+      },
+      image: {
+        default: "",
+        description:
+          "Name of the execution environment image, as listed by `ansible-navigator images`",
+      },
     },
   };
 
@@ -0,0 +1,108 @@
+import {
+  Connection,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { findYamlFiles, loadTextDocument } from "../utils/misc";
+import { collectTaggedTasks, TaggedTask } from "../utils/tags";
+import { getDocumentAnalysis } from "./documentAnalysis";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+/**
+ * Keeps the tagged tasks of every YAML file in a workspace folder, with the
+ * tags inherited within each file. The index is built on first use and then
+ * kept up to date from document edits and file system events.
+ */
+export class TagIndex {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private tasksByUri: Map<string, TaggedTask[]> = new Map();
+  private _initialization: Promise<void> | undefined;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this._initialization) {
+      this._initialization = this.indexWorkspace();
+    }
+    return this._initialization;
+  }
+
+  public async getTaggedTasks(tag?: string): Promise<TaggedTask[]> {
+    await this.initialize();
+    const tasks = Array.from(this.tasksByUri.values()).flat();
+    return tag ? tasks.filter((task) => task.tags.includes(tag)) : tasks;
+  }
+
+  public updateDocument(document: TextDocument): void {
+    if (this._initialization) {
+      this.indexDocument(document);
+    }
+  }
+
+  public async handleDocumentClosed(uri: string): Promise<void> {
+    if (this._initialization) {
+      await this.indexFile(uri);
+    }
+  }
+
+  public async handleWatchedDocumentChange(
+    params: DidChangeWatchedFilesParams,
+  ): Promise<void> {
+    if (!this._initialization) {
+      return;
+    }
+    for (const fileEvent of params.changes) {
+      if (
+        !fileEvent.uri.startsWith(this.context.workspaceFolder.uri) ||
+        !/\.ya?ml$/.test(fileEvent.uri)
+      ) {
+        continue;
+      }
+      if (fileEvent.type === FileChangeType.Deleted) {
+        this.tasksByUri.delete(fileEvent.uri);
+      } else {
+        await this.indexFile(fileEvent.uri);
+      }
+    }
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
+    try {
+      for (const file of await findYamlFiles(workspacePath)) {
+        await this.indexFile(URI.file(file).toString());
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in TagIndex service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    }
+  }
+
+  private async indexFile(uri: string): Promise<void> {
+    const document = await loadTextDocument(uri);
+    if (document) {
+      this.indexDocument(document);
+    } else {
+      this.tasksByUri.delete(uri);
+    }
+  }
+
+  private indexDocument(document: TextDocument): void {
+    const { tasks } = collectTaggedTasks(
+      document,
+      getDocumentAnalysis(document).yamlDocs,
+    );
+    if (tasks.length) {
+      this.tasksByUri.set(document.uri, tasks);
+    } else {
+      this.tasksByUri.delete(document.uri);
+    }
+  }
+}
@@ -10,7 +10,8 @@ import { TextDocument } from "vscode-languageserver-textdocument";
 
 /**
  * Caches diagnostics and tracks their origins so that reported items
- * can be cleared when all originating files are closed.
+ * can be cleared when all originating files are closed. Files with results
+ * from the workspace validation fall back to those instead.
  */
 export class ValidationManager {
   private connection: Connection;
@@ -19,6 +20,7 @@ export class ValidationManager {
   private validationCache: Map<string, IntervalTree<Diagnostic>> = new Map();
   private referencedFilesByOrigin: Map<string, Set<string>> = new Map();
   private referencedFileRefCounter: Map<string, number> = new Map();
+  private workspaceDiagnostics: Map<string, Diagnostic[]> = new Map();
 
   constructor(connection: Connection, documents: TextDocuments<TextDocument>) {
     this.connection = connection;
@@ -154,6 +156,28 @@ export class ValidationManager {
     }
   }
 
+  /**
+   * Records the diagnostics found for a file by the workspace validation and
+   * publishes them unless the validation of an open document already covers
+   * that file. Passing `undefined` forgets the file.
+   */
+  public processWorkspaceDiagnostics(
+    fileUri: string,
+    diagnostics: Diagnostic[] | undefined,
+  ): void {
+    if (diagnostics) {
+      this.workspaceDiagnostics.set(fileUri, diagnostics);
+    } else {
+      this.workspaceDiagnostics.delete(fileUri);
+    }
+    if (!this.documents.get(fileUri) && !this.getRefCounter(fileUri)) {
+      this.connection.sendDiagnostics({
+        uri: fileUri,
+        diagnostics: diagnostics ?? [],
+      });
+    }
+  }
+
   public handleDocumentClosed(fileUri: string): void {
     const referencedFiles = this.referencedFilesByOrigin.get(fileUri);
     if (referencedFiles) {
@@ -170,7 +194,10 @@ export class ValidationManager {
     const counter = this.getRefCounter(fileUri) - 1;
     if (counter <= 0) {
       this.validationCache.delete(fileUri);
-      this.connection.sendDiagnostics({ uri: fileUri, diagnostics: [] });
+      this.connection.sendDiagnostics({
+        uri: fileUri,
+        diagnostics: this.workspaceDiagnostics.get(fileUri) ?? [],
+      });
       this.referencedFileRefCounter.delete(fileUri);
     } else {
       this.referencedFileRefCounter.set(fileUri, counter);
@@ -0,0 +1,154 @@
+import {
+  Connection,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { findYamlFiles, loadTextDocument } from "../utils/misc";
+import { resolveFilePath } from "../utils/pathResolution";
+import { collectReferences } from "../utils/references";
+import {
+  collectVariableDefinitions,
+  getVariableFileSource,
+  VariableDefinition,
+  VariableSource,
+} from "../utils/variables";
+import { getDocumentAnalysis } from "./documentAnalysis";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+/**
+ * Keeps the variables defined across a workspace folder: `group_vars`,
+ * `host_vars`, role defaults and vars, files loaded with `vars_files` or
+ * `include_vars`, and the variables set by plays and tasks. Like the symbol
+ * index, it is built on first use and then kept up to date from document
+ * edits and file system events.
+ */
+export class VariableIndex {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private definitionsByUri: Map<string, VariableDefinition[]> = new Map();
+  /** Files loaded through `vars_files` or `include_vars`. */
+  private varsFileUris: Set<string> = new Set();
+  private _initialization: Promise<void> | undefined;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this._initialization) {
+      this._initialization = this.indexWorkspace();
+    }
+    return this._initialization;
+  }
+
+  public async getDefinitions(name?: string): Promise<VariableDefinition[]> {
+    await this.initialize();
+    const definitions = Array.from(this.definitionsByUri.values()).flat();
+    return name === undefined
+      ? definitions
+      : definitions.filter((definition) => definition.name === name);
+  }
+
+  /**
+   * Tells whether the file holds variables only, and which kind.
+   */
+  public getFileSource(uri: string): VariableSource | undefined {
+    return (
+      getVariableFileSource(URI.parse(uri).path) ??
+      (this.varsFileUris.has(uri) ? "vars_file" : undefined)
+    );
+  }
+
+  public async updateDocument(document: TextDocument): Promise<void> {
+    if (this._initialization) {
+      await this.indexDocument(document);
+    }
+  }
+
+  public async handleDocumentClosed(uri: string): Promise<void> {
+    if (this._initialization) {
+      await this.indexFile(uri);
+    }
+  }
+
+  public async handleWatchedDocumentChange(
+    params: DidChangeWatchedFilesParams,
+  ): Promise<void> {
+    if (!this._initialization) {
+      return;
+    }
+    for (const fileEvent of params.changes) {
+      if (
+        !fileEvent.uri.startsWith(this.context.workspaceFolder.uri) ||
+        !/\.ya?ml$/.test(fileEvent.uri)
+      ) {
+        continue;
+      }
+      if (fileEvent.type === FileChangeType.Deleted) {
+        this.definitionsByUri.delete(fileEvent.uri);
+      } else {
+        await this.indexFile(fileEvent.uri);
+      }
+    }
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
+    try {
+      for (const file of await findYamlFiles(workspacePath)) {
+        await this.indexFile(URI.file(file).toString());
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in VariableIndex service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    }
+  }
+
+  private async indexFile(uri: string): Promise<void> {
+    const document = await loadTextDocument(uri);
+    if (document) {
+      await this.indexDocument(document);
+    } else {
+      this.definitionsByUri.delete(uri);
+    }
+  }
+
+  private async indexDocument(document: TextDocument): Promise<void> {
+    const filePath = URI.parse(document.uri).path;
+    const analysis = getDocumentAnalysis(document);
+    const yamlDocs = analysis.yamlDocs;
+    const fileSource = this.getFileSource(document.uri);
+
+    const definitions = fileSource
+      ? collectVariableDefinitions(document, yamlDocs, fileSource)
+      : analysis.getVariableDefinitions();
+    if (definitions.length) {
+      this.definitionsByUri.set(document.uri, definitions);
+    } else {
+      this.definitionsByUri.delete(document.uri);
+    }
+
+    if (fileSource) {
+      return;
+    }
+    for (const reference of collectReferences(document.uri, yamlDocs)) {
+      if (
+        reference.kind !== "include" ||
+        (reference.keyword !== "vars_files" &&
+          reference.keyword !== "include_vars")
+      ) {
+        continue;
+      }
+      const target = await resolveFilePath(reference.name, filePath, "vars");
+      const targetUri = target && URI.file(target).toString();
+      if (targetUri && !this.varsFileUris.has(targetUri)) {
+        this.varsFileUris.add(targetUri);
+        await this.indexFile(targetUri);
+      }
+    }
+  }
+}
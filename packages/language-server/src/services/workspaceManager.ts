@@ -7,17 +7,30 @@ import {
   WorkspaceFolder,
   WorkspaceFoldersChangeEvent,
 } from "vscode-languageserver";
-import { AnsibleConfig } from "./ansibleConfig";
+import { AnsibleConfig, isAnsibleConfigFile } from "./ansibleConfig";
 import { AnsibleLint } from "./ansibleLint";
+import { AnsibleLintRules } from "./ansibleLintRules";
 import { AnsiblePlaybook } from "./ansiblePlaybook";
-import { AnsibleInventory } from "./ansibleInventory";
+import { AnsibleInventory, isInventoryFile } from "./ansibleInventory";
 import { SettingsManager } from "./settingsManager";
+import { NotificationIndex } from "./notificationIndex";
+import { TagIndex } from "./tagIndex";
+import { VariableIndex } from "./variableIndex";
+import { WorkspaceSymbolIndex } from "./workspaceSymbolIndex";
+import { WorkspaceValidation } from "./workspaceValidation";
 import { IDocumentMetadata } from "../interfaces/documentMeta";
+import { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import { ExecutionEnvService } from "@ansible/core/out/services/ExecutionEnvService";
+
+/** Delay before retrying an execution environment that failed to load. */
+const EXECUTION_ENVIRONMENT_RETRY_MS = 30000;
 
 export class WorkspaceManager {
   public connection: Connection;
   private sortedWorkspaceFolders: WorkspaceFolder[] = [];
   private folderContexts: Map<string, WorkspaceFolderContext> = new Map();
+  private collectionsServiceChangeHandler:
+    ((context: WorkspaceFolderContext) => void) | undefined;
   public clientCapabilities: ClientCapabilities = {};
 
   constructor(connection: Connection) {
@@ -48,6 +61,31 @@ export class WorkspaceManager {
     }
   }
 
+  /**
+   * Sets the handler called when a folder starts using the collections of
+   * its execution environment, which were loaded in the background.
+   */
+  public onCollectionsServiceChanged(
+    handler: (context: WorkspaceFolderContext) => void,
+  ): void {
+    this.collectionsServiceChangeHandler = handler;
+  }
+
+  public handleCollectionsServiceChanged(
+    context: WorkspaceFolderContext,
+  ): void {
+    this.collectionsServiceChangeHandler?.(context);
+  }
+
+  /**
+   * Returns the contexts of all workspace folders, creating the missing ones.
+   */
+  public getFolderContexts(): WorkspaceFolderContext[] {
+    return this.sortedWorkspaceFolders.flatMap(
+      (folder) => this.getContext(folder.uri) ?? [],
+    );
+  }
+
   public async forEachContext(
     callbackfn: (value: WorkspaceFolderContext) => Promise<void> | void,
   ): Promise<void> {
@@ -84,6 +122,7 @@ export class WorkspaceManager {
     const removedUris = new Set(event.removed.map((folder) => folder.uri));
 
     for (const removedUri of removedUris) {
+      this.folderContexts.get(removedUri)?.dispose();
       this.folderContexts.delete(removedUri);
     }
 
@@ -104,6 +143,7 @@ export class WorkspaceManager {
 
 export class WorkspaceFolderContext {
   private connection: Connection;
+  private workspaceManager: WorkspaceManager;
   public clientCapabilities: ClientCapabilities;
   public workspaceFolder: WorkspaceFolder;
   public documentMetadata: Map<string, IDocumentMetadata> = new Map();
@@ -112,7 +152,17 @@ export class WorkspaceFolderContext {
   private _ansibleConfig: Thenable<AnsibleConfig> | undefined;
   private _ansibleInventory: Thenable<AnsibleInventory> | undefined;
   private _ansibleLint: AnsibleLint | undefined;
+  private _ansibleLintRules: AnsibleLintRules | undefined;
   private _ansiblePlaybook: AnsiblePlaybook | undefined;
+  private _workspaceSymbolIndex: WorkspaceSymbolIndex | undefined;
+  private _variableIndex: VariableIndex | undefined;
+  private _notificationIndex: NotificationIndex | undefined;
+  private _tagIndex: TagIndex | undefined;
+  private _workspaceValidation: WorkspaceValidation | undefined;
+  private _collectionsService: CollectionsService | undefined;
+  private _executionEnvironmentLoad: Promise<void> | undefined;
+  private _executionEnvironmentRetryAt = 0;
+  private _executionEnvironmentGeneration = 0;
 
   constructor(
     connection: Connection,
@@ -120,6 +170,7 @@ export class WorkspaceFolderContext {
     workspaceManager: WorkspaceManager,
   ) {
     this.connection = connection;
+    this.workspaceManager = workspaceManager;
     this.clientCapabilities = workspaceManager.clientCapabilities;
     this.workspaceFolder = workspaceFolder;
     this.documentSettings = new SettingsManager(
@@ -131,18 +182,44 @@ export class WorkspaceFolderContext {
       () => {
         this._ansibleConfig = undefined;
         this._ansibleInventory = undefined;
+        this._ansibleLintRules = undefined;
+        this._collectionsService = undefined;
+        this._executionEnvironmentLoad = undefined;
+        this._executionEnvironmentRetryAt = 0;
+        this._executionEnvironmentGeneration++;
+        this._workspaceValidation?.handleConfigurationChanged();
       },
     );
   }
 
+  public dispose(): void {
+    this._workspaceValidation?.stop();
+  }
+
   public handleWatchedDocumentChange(
     params: DidChangeWatchedFilesParams,
   ): void {
+    let inventoryChanged = false;
     for (const fileEvent of params.changes) {
       if (fileEvent.uri.startsWith(this.workspaceFolder.uri)) {
-        this._ansibleConfig = undefined;
+        const filePath = URI.parse(fileEvent.uri).path;
+        if (isAnsibleConfigFile(filePath)) {
+          this._ansibleConfig = undefined;
+        }
+        inventoryChanged ||= isInventoryFile(filePath);
       }
     }
+    if (inventoryChanged && this._ansibleInventory) {
+      // re-index right away so that the next hover or validation does not
+      // wait for ansible-inventory
+      this._ansibleInventory = undefined;
+      void this.ansibleInventory;
+    }
+    void this._workspaceSymbolIndex?.handleWatchedDocumentChange(params);
+    void this._variableIndex?.handleWatchedDocumentChange(params);
+    void this._notificationIndex?.handleWatchedDocumentChange(params);
+    void this._tagIndex?.handleWatchedDocumentChange(params);
+    this._workspaceValidation?.handleWatchedDocumentChange(params);
   }
 
   public get ansibleConfig(): Thenable<AnsibleConfig> {
@@ -177,10 +254,120 @@ export class WorkspaceFolderContext {
     return this._ansibleLint;
   }
 
+  public get ansibleLintRules(): AnsibleLintRules {
+    if (!this._ansibleLintRules) {
+      this._ansibleLintRules = new AnsibleLintRules(this.connection, this);
+    }
+    return this._ansibleLintRules;
+  }
+
   public get ansiblePlaybook(): AnsiblePlaybook {
     if (!this._ansiblePlaybook) {
       this._ansiblePlaybook = new AnsiblePlaybook(this.connection, this);
     }
     return this._ansiblePlaybook;
   }
+
+  public get workspaceSymbolIndex(): WorkspaceSymbolIndex {
+    if (!this._workspaceSymbolIndex) {
+      this._workspaceSymbolIndex = new WorkspaceSymbolIndex(
+        this.connection,
+        this,
+      );
+    }
+    return this._workspaceSymbolIndex;
+  }
+
+  public get variableIndex(): VariableIndex {
+    if (!this._variableIndex) {
+      this._variableIndex = new VariableIndex(this.connection, this);
+    }
+    return this._variableIndex;
+  }
+
+  public get notificationIndex(): NotificationIndex {
+    if (!this._notificationIndex) {
+      this._notificationIndex = new NotificationIndex(this.connection, this);
+    }
+    return this._notificationIndex;
+  }
+
+  public get tagIndex(): TagIndex {
+    if (!this._tagIndex) {
+      this._tagIndex = new TagIndex(this.connection, this);
+    }
+    return this._tagIndex;
+  }
+
+  /**
+   * Returns the collections that tasks are completed, documented and
+   * validated against: those inside the execution environment image selected
+   * in the settings, or else those of the local Python environment. The
+   * collections of the image are loaded in the background, the local ones
+   * being used meanwhile and, should the image fail to load, until the next
+   * attempt.
+   */
+  public async getCollectionsService(): Promise<CollectionsService> {
+    if (
+      !this._collectionsService &&
+      !this._executionEnvironmentLoad &&
+      Date.now() >= this._executionEnvironmentRetryAt
+    ) {
+      this._executionEnvironmentLoad = this.loadExecutionEnvironment();
+    }
+    return this._collectionsService ?? CollectionsService.getInstance();
+  }
+
+  private async loadExecutionEnvironment(): Promise<void> {
+    const generation = this._executionEnvironmentGeneration;
+    const settings = await this.documentSettings.get(this.workspaceFolder.uri);
+    const { enabled, image } = settings.executionEnvironment;
+    if (!enabled || !image) {
+      return;
+    }
+    try {
+      const executionEnvService = ExecutionEnvService.getInstance();
+      await executionEnvService.loadExecutionEnvironments();
+      const executionEnvironment =
+        executionEnvService.getExecutionEnvironment(image);
+      if (executionEnvironment) {
+        const collectionsService =
+          CollectionsService.forExecutionEnvironment(executionEnvironment);
+        await collectionsService.loadExecutionEnvironment();
+        if (collectionsService.isLoaded()) {
+          if (generation === this._executionEnvironmentGeneration) {
+            this._collectionsService = collectionsService;
+            this.workspaceManager.handleCollectionsServiceChanged(this);
+          }
+          return;
+        }
+        this.connection.console.warn(
+          `Could not read the collections of execution environment ${image}, using the local environment.`,
+        );
+      } else {
+        this.connection.console.warn(
+          `Execution environment ${image} not found, using the local environment.`,
+        );
+      }
+    } catch (error) {
+      this.connection.console.warn(
+        `Could not list execution environments: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    }
+    if (generation === this._executionEnvironmentGeneration) {
+      this._executionEnvironmentLoad = undefined;
+      this._executionEnvironmentRetryAt =
+        Date.now() + EXECUTION_ENVIRONMENT_RETRY_MS;
+    }
+  }
+
+  public get workspaceValidation(): WorkspaceValidation {
+    if (!this._workspaceValidation) {
+      this._workspaceValidation = new WorkspaceValidation(
+        this.connection,
+        this,
+      );
+    }
+    return this._workspaceValidation;
+  }
 }
@@ -0,0 +1,108 @@
+import {
+  Connection,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+  SymbolInformation,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { findYamlFiles, loadTextDocument } from "../utils/misc";
+import { collectSymbols } from "../utils/symbols";
+import { getDocumentAnalysis } from "./documentAnalysis";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+/**
+ * Keeps the named tasks, handlers and roles of every YAML file in a
+ * workspace folder. The index is built on first use and then kept up to date
+ * from document edits and file system events.
+ */
+export class WorkspaceSymbolIndex {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private symbolsByUri: Map<string, SymbolInformation[]> = new Map();
+  private _initialization: Promise<void> | undefined;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+  }
+
+  public initialize(): Promise<void> {
+    if (!this._initialization) {
+      this._initialization = this.indexWorkspace();
+    }
+    return this._initialization;
+  }
+
+  public async getSymbols(): Promise<SymbolInformation[]> {
+    await this.initialize();
+    return Array.from(this.symbolsByUri.values()).flat();
+  }
+
+  public updateDocument(document: TextDocument): void {
+    if (this._initialization) {
+      this.indexDocument(document);
+    }
+  }
+
+  public async handleDocumentClosed(uri: string): Promise<void> {
+    if (this._initialization) {
+      await this.indexFile(uri);
+    }
+  }
+
+  public async handleWatchedDocumentChange(
+    params: DidChangeWatchedFilesParams,
+  ): Promise<void> {
+    if (!this._initialization) {
+      return;
+    }
+    for (const fileEvent of params.changes) {
+      if (
+        !fileEvent.uri.startsWith(this.context.workspaceFolder.uri) ||
+        !/\.ya?ml$/.test(fileEvent.uri)
+      ) {
+        continue;
+      }
+      if (fileEvent.type === FileChangeType.Deleted) {
+        this.symbolsByUri.delete(fileEvent.uri);
+      } else {
+        await this.indexFile(fileEvent.uri);
+      }
+    }
+  }
+
+  private async indexWorkspace(): Promise<void> {
+    const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
+    try {
+      for (const file of await findYamlFiles(workspacePath)) {
+        await this.indexFile(URI.file(file).toString());
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in WorkspaceSymbolIndex service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    }
+  }
+
+  private async indexFile(uri: string): Promise<void> {
+    const document = await loadTextDocument(uri);
+    if (document) {
+      this.indexDocument(document);
+    } else {
+      this.symbolsByUri.delete(uri);
+    }
+  }
+
+  private indexDocument(document: TextDocument): void {
+    const { workspaceSymbols } = collectSymbols(
+      document,
+      getDocumentAnalysis(document).yamlDocs,
+    );
+    if (workspaceSymbols.length) {
+      this.symbolsByUri.set(document.uri, workspaceSymbols);
+    } else {
+      this.symbolsByUri.delete(document.uri);
+    }
+  }
+}
@@ -0,0 +1,317 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+import {
+  CancellationToken,
+  Connection,
+  Diagnostic,
+  DidChangeWatchedFilesParams,
+  FileChangeType,
+} from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import { findYamlFiles } from "../utils/misc";
+import type { ValidationManager } from "./validationManager";
+import type { WorkspaceFolderContext } from "./workspaceManager";
+
+export const lintSummaryRequest = "summary/ansible-lint";
+
+/** Number of files passed to one ansible-lint run. */
+const BATCH_SIZE = 10;
+/** Pause between two ansible-lint runs, leaving the CPU to the editor. */
+const BATCH_DELAY_MS = 500;
+/** Delay before re-linting after files change on disk. */
+const RESCAN_DELAY_MS = 1000;
+
+export interface LintViolation {
+  uri: string;
+  line: number;
+  message: string;
+}
+
+export interface LintRuleSummary {
+  rule: string;
+  url?: string;
+  violations: LintViolation[];
+}
+
+export interface LintFileSummary {
+  uri: string;
+  count: number;
+  rules: string[];
+}
+
+export interface LintSummary {
+  enabled: boolean;
+  running: boolean;
+  fileCount: number;
+  rules: LintRuleSummary[];
+  files: LintFileSummary[];
+}
+
+interface FileResult {
+  stamp: string | undefined;
+  diagnostics: Diagnostic[];
+}
+
+/**
+ * Lints every YAML file of a workspace folder in the background when
+ * `ansible.validation.workspace.enabled` is set. Files are linted in small
+ * batches, and the result of each file is kept with its modification time so
+ * that only files changed since are linted again.
+ */
+export class WorkspaceValidation {
+  private connection: Connection;
+  private context: WorkspaceFolderContext;
+  private validationManager: ValidationManager | undefined;
+  private results: Map<string, FileResult> = new Map();
+  private run: AbortController | undefined;
+  private rescanTimer: ReturnType<typeof setTimeout> | undefined;
+  private useProgressTracker = false;
+  private lintArguments: string | undefined;
+  private _enabled = false;
+
+  constructor(connection: Connection, context: WorkspaceFolderContext) {
+    this.connection = connection;
+    this.context = context;
+    this.useProgressTracker =
+      !!context.clientCapabilities.window?.workDoneProgress;
+  }
+
+  get enabled(): boolean {
+    return this._enabled;
+  }
+
+  get running(): boolean {
+    return !!this.run;
+  }
+
+  /**
+   * Validates the workspace folder if the setting is on, otherwise stops any
+   * run and withdraws the diagnostics published for closed files.
+   */
+  public async start(validationManager: ValidationManager): Promise<void> {
+    this.validationManager = validationManager;
+    const settings = await this.context.documentSettings.get(
+      this.context.workspaceFolder.uri,
+    );
+    this._enabled =
+      settings.validation.enabled &&
+      settings.validation.lint.enabled &&
+      settings.validation.workspace.enabled;
+    if (!this._enabled) {
+      this.stop();
+      return;
+    }
+    if (settings.validation.lint.arguments !== this.lintArguments) {
+      this.lintArguments = settings.validation.lint.arguments;
+      this.invalidate();
+    }
+    await this.validate();
+  }
+
+  public stop(): void {
+    this.cancel();
+    for (const uri of [...this.results.keys()]) {
+      this.forget(uri);
+    }
+  }
+
+  public handleConfigurationChanged(): void {
+    if (this.validationManager) {
+      void this.start(this.validationManager);
+    }
+  }
+
+  public handleWatchedDocumentChange(
+    params: DidChangeWatchedFilesParams,
+  ): void {
+    if (!this._enabled) {
+      return;
+    }
+    let changed = false;
+    for (const fileEvent of params.changes) {
+      if (!fileEvent.uri.startsWith(this.context.workspaceFolder.uri)) {
+        continue;
+      }
+      if (path.basename(URI.parse(fileEvent.uri).path) === ".ansible-lint") {
+        this.invalidate();
+        changed = true;
+      } else if (/\.ya?ml$/.test(fileEvent.uri)) {
+        if (fileEvent.type === FileChangeType.Deleted) {
+          this.forget(fileEvent.uri);
+        } else {
+          changed = true;
+        }
+      }
+    }
+    if (changed) {
+      clearTimeout(this.rescanTimer);
+      this.rescanTimer = setTimeout(
+        () => void this.validate(),
+        RESCAN_DELAY_MS,
+      );
+    }
+  }
+
+  /**
+   * Returns the diagnostics of every linted file, keyed by URI.
+   */
+  public getResults(): Map<string, Diagnostic[]> {
+    return new Map(
+      [...this.results].map(([uri, result]) => [uri, result.diagnostics]),
+    );
+  }
+
+  private async validate(): Promise<void> {
+    this.cancel();
+    const run = new AbortController();
+    this.run = run;
+
+    const progressTracker = this.useProgressTracker
+      ? await this.connection.window.createWorkDoneProgress()
+      : {
+          token: CancellationToken.None,
+          begin: () => {},
+          report: () => {},
+          done: () => {},
+        };
+    progressTracker.begin("ansible-lint", 0, "Scanning workspace...", true);
+    const cancellation = progressTracker.token.onCancellationRequested(() =>
+      run.abort(),
+    );
+
+    try {
+      const workspacePath = URI.parse(this.context.workspaceFolder.uri).path;
+      const files = await findYamlFiles(workspacePath);
+      const uris = new Set(files.map((file) => URI.file(file).toString()));
+      for (const uri of [...this.results.keys()]) {
+        if (!uris.has(uri)) {
+          this.forget(uri);
+        }
+      }
+
+      const stamps = new Map<string, string>();
+      for (const uri of uris) {
+        const stamp = await getFileStamp(uri);
+        if (stamp && this.results.get(uri)?.stamp !== stamp) {
+          stamps.set(uri, stamp);
+        }
+      }
+
+      const changed = [...stamps.keys()];
+      for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+        if (i) {
+          await new Promise((resolve) => setTimeout(resolve, BATCH_DELAY_MS));
+        }
+        if (run.signal.aborted) {
+          return;
+        }
+        progressTracker.report(
+          Math.round((i * 100) / changed.length),
+          `Linting workspace (${i}/${changed.length} files)...`,
+        );
+
+        const batch = changed.slice(i, i + BATCH_SIZE);
+        const diagnosticsByFile = await this.context.ansibleLint.lintFiles(
+          batch,
+          run.signal,
+        );
+        if (!diagnosticsByFile || run.signal.aborted) {
+          return;
+        }
+        for (const uri of batch) {
+          const diagnostics = diagnosticsByFile.get(uri) ?? [];
+          this.results.set(uri, { stamp: stamps.get(uri), diagnostics });
+          this.validationManager?.processWorkspaceDiagnostics(uri, diagnostics);
+        }
+      }
+    } catch (error) {
+      this.connection.console.error(
+        `Exception in WorkspaceValidation service: ${error instanceof Error ? error.message : JSON.stringify(error)}`,
+      );
+    } finally {
+      cancellation.dispose();
+      progressTracker.done();
+      if (this.run === run) {
+        this.run = undefined;
+      }
+    }
+  }
+
+  /** Stops the current run, killing the ansible-lint process it waits for. */
+  private cancel(): void {
+    clearTimeout(this.rescanTimer);
+    this.rescanTimer = undefined;
+    this.run?.abort();
+    this.run = undefined;
+  }
+
+  /** Makes the next run lint every file again. */
+  private invalidate(): void {
+    for (const result of this.results.values()) {
+      result.stamp = undefined;
+    }
+  }
+
+  private forget(uri: string): void {
+    if (this.results.delete(uri)) {
+      this.validationManager?.processWorkspaceDiagnostics(uri, undefined);
+    }
+  }
+}
+
+async function getFileStamp(uri: string): Promise<string | undefined> {
+  try {
+    const stats = await fs.stat(URI.parse(uri).fsPath);
+    return `${stats.mtimeMs}:${stats.size}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Groups lint results by rule, most violated first, and lists the files with
+ * problems, the ones with most problems first.
+ */
+export function summarizeLintResults(
+  results: Map<string, Diagnostic[]>,
+): Pick<LintSummary, "rules" | "files"> {
+  const rules = new Map<string, LintRuleSummary>();
+  const files: LintFileSummary[] = [];
+
+  for (const [uri, diagnostics] of results) {
+    if (!diagnostics.length) {
+      continue;
+    }
+    const fileRules = new Set<string>();
+    for (const diagnostic of diagnostics) {
+      const rule = String(diagnostic.code ?? "unknown");
+      fileRules.add(rule);
+      let ruleSummary = rules.get(rule);
+      if (!ruleSummary) {
+        ruleSummary = {
+          rule,
+          url: diagnostic.codeDescription?.href,
+          violations: [],
+        };
+        rules.set(rule, ruleSummary);
+      }
+      ruleSummary.violations.push({
+        uri,
+        line: diagnostic.range.start.line,
+        message: diagnostic.message,
+      });
+    }
+    files.push({ uri, count: diagnostics.length, rules: [...fileRules] });
+  }
+
+  return {
+    rules: [...rules.values()].sort(
+      (a, b) =>
+        b.violations.length - a.violations.length ||
+        a.rule.localeCompare(b.rule),
+    ),
+    files: files.sort(
+      (a, b) => b.count - a.count || a.uri.localeCompare(b.uri),
+    ),
+  };
+}
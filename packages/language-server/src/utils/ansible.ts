@@ -720,3 +720,29 @@ export const playWithoutTaskKeywords = new Map(
 export function isTaskKeyword(value: string): boolean {
   return taskKeywords.has(value) || value.startsWith("with_");
 }
+
+/** Keys that take the place of the module in a task. */
+const actionKeywords = new Set(["action", "local_action"]);
+
+const blockSections = ["block", "rescue", "always"];
+
+/**
+ * Ranks a key of a task or block in the order ansible-lint's `key-order`
+ * rule expects: `name`, the module and its `args`, the other keywords, and
+ * then `block`, `rescue` and `always`.
+ */
+export function getTaskKeyRank(key: string | undefined): number {
+  if (key === "name") {
+    return 0;
+  }
+  if (key === undefined) {
+    return 3;
+  }
+  if (blockSections.includes(key)) {
+    return 4 + blockSections.indexOf(key);
+  }
+  if (key === "args") {
+    return 2;
+  }
+  return actionKeywords.has(key) || !isTaskKeyword(key) ? 1 : 3;
+}
@@ -0,0 +1,163 @@
+import * as path from "path";
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+
+export type ReportFormat = "text" | "json" | "sarif";
+
+export const reportFormats: ReportFormat[] = ["text", "json", "sarif"];
+
+/** Diagnostics reported for one file. */
+export interface FileDiagnostics {
+  uri: string;
+  diagnostics: Diagnostic[];
+}
+
+const severityNames: Record<DiagnosticSeverity, string> = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "info",
+  [DiagnosticSeverity.Hint]: "hint",
+};
+
+const sarifLevels: Record<DiagnosticSeverity, string> = {
+  [DiagnosticSeverity.Error]: "error",
+  [DiagnosticSeverity.Warning]: "warning",
+  [DiagnosticSeverity.Information]: "note",
+  [DiagnosticSeverity.Hint]: "note",
+};
+
+/**
+ * Renders the diagnostics in the given format. Paths are shown relative to
+ * the root directory, and line and column numbers are 1-based.
+ */
+export function formatDiagnosticsReport(
+  files: FileDiagnostics[],
+  format: ReportFormat,
+  rootPath: string,
+): string {
+  switch (format) {
+    case "json":
+      return formatJson(files, rootPath);
+    case "sarif":
+      return formatSarif(files, rootPath);
+    default:
+      return formatText(files, rootPath);
+  }
+}
+
+/** Counts the diagnostics at or above the given severity. */
+export function countDiagnostics(
+  files: FileDiagnostics[],
+  minimumSeverity: DiagnosticSeverity,
+): number {
+  return files.reduce(
+    (count, file) =>
+      count +
+      file.diagnostics.filter((d) => getSeverity(d) <= minimumSeverity).length,
+    0,
+  );
+}
+
+function formatText(files: FileDiagnostics[], rootPath: string): string {
+  const lines: string[] = [];
+  for (const file of files) {
+    const filePath = getRelativePath(file.uri, rootPath);
+    for (const diagnostic of file.diagnostics) {
+      const { line, character } = diagnostic.range.start;
+      const source = diagnostic.source ? ` [${diagnostic.source}]` : "";
+      lines.push(
+        `${filePath}:${line + 1}:${character + 1}: ${severityNames[getSeverity(diagnostic)]}: ${diagnostic.message}${source}`,
+      );
+    }
+  }
+  const errors = countDiagnostics(files, DiagnosticSeverity.Error);
+  const warnings = countDiagnostics(files, DiagnosticSeverity.Warning) - errors;
+  const reported = files.filter((file) => file.diagnostics.length).length;
+  lines.push(
+    errors || warnings
+      ? `${errors} error(s), ${warnings} warning(s) in ${reported} file(s)`
+      : "No problems found",
+  );
+  return lines.join("\n");
+}
+
+function formatJson(files: FileDiagnostics[], rootPath: string): string {
+  const results = files.flatMap((file) =>
+    file.diagnostics.map((diagnostic) => ({
+      file: getRelativePath(file.uri, rootPath),
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      endLine: diagnostic.range.end.line + 1,
+      endColumn: diagnostic.range.end.character + 1,
+      severity: severityNames[getSeverity(diagnostic)],
+      message: diagnostic.message,
+      source: diagnostic.source,
+      code: diagnostic.code,
+    })),
+  );
+  return JSON.stringify(results, null, 2);
+}
+
+function formatSarif(files: FileDiagnostics[], rootPath: string): string {
+  const ruleIds = new Set<string>();
+  const results = files.flatMap((file) =>
+    file.diagnostics.map((diagnostic) => {
+      const ruleId = getRuleId(diagnostic);
+      ruleIds.add(ruleId);
+      return {
+        ruleId,
+        level: sarifLevels[getSeverity(diagnostic)],
+        message: { text: diagnostic.message },
+        locations: [
+          {
+            physicalLocation: {
+              artifactLocation: {
+                uri: getRelativePath(file.uri, rootPath).replace(/\\/g, "/"),
+              },
+              region: {
+                startLine: diagnostic.range.start.line + 1,
+                startColumn: diagnostic.range.start.character + 1,
+                endLine: diagnostic.range.end.line + 1,
+                endColumn: diagnostic.range.end.character + 1,
+              },
+            },
+          },
+        ],
+      };
+    }),
+  );
+  const log = {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: "ansible-language-server",
+            informationUri: "https://github.com/cidrblock/ansible-environments",
+            rules: [...ruleIds].sort().map((id) => ({ id })),
+          },
+        },
+        results,
+      },
+    ],
+  };
+  return JSON.stringify(log, null, 2);
+}
+
+function getSeverity(diagnostic: Diagnostic): DiagnosticSeverity {
+  return diagnostic.severity ?? DiagnosticSeverity.Error;
+}
+
+function getRuleId(diagnostic: Diagnostic): string {
+  if (diagnostic.code !== undefined) {
+    return String(diagnostic.code);
+  }
+  return diagnostic.source ?? "ansible";
+}
+
+function getRelativePath(uri: string, rootPath: string): string {
+  const filePath = URI.parse(uri).fsPath;
+  const relativePath = path.relative(rootPath, filePath);
+  return relativePath.startsWith("..") ? filePath : relativePath;
+}
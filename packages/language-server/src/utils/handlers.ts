@@ -0,0 +1,267 @@
+import * as path from "path";
+import { TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { Document, isMap, isScalar, isSeq, Node, Scalar, YAMLMap } from "yaml";
+import type { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import { loadTextDocument } from "./misc";
+import {
+  getRoleHandlersFile,
+  getRoleRoot,
+  resolveFilePath,
+  resolveRolePath,
+} from "./pathResolution";
+import {
+  AnsibleReference,
+  collectReferences,
+  fileReferenceSubdirectories,
+} from "./references";
+import { isPlayMap, parseAllDocuments } from "./yaml";
+
+/**
+ * A handler that tasks can notify by its name or by one of the topics it
+ * listens to.
+ */
+export interface HandlerDefinition {
+  name?: Scalar<string>;
+  topics: Scalar<string>[];
+  /** Role providing the handler, which allows `role : name` notifications. */
+  role?: string;
+}
+
+/**
+ * Collects the handlers of the `handlers` sections of plays, or of every
+ * task when the file is a handlers file.
+ */
+export function collectHandlers(
+  fileUri: string,
+  yamlDocs: Document[],
+  role?: string,
+): HandlerDefinition[] {
+  const handlers: HandlerDefinition[] = [];
+  const inHandlersFile = /\/handlers\/[^/]+$/.test(fileUri);
+  const visitHandlers = (node: unknown) => {
+    if (!isSeq(node)) {
+      return;
+    }
+    for (const item of node.items) {
+      if (isMap(item)) {
+        visitHandler(item, role, handlers, visitHandlers);
+      }
+    }
+  };
+
+  for (const yamlDoc of yamlDocs) {
+    if (!isSeq(yamlDoc.contents)) {
+      continue;
+    }
+    if (inHandlersFile) {
+      visitHandlers(yamlDoc.contents);
+      continue;
+    }
+    for (const item of yamlDoc.contents.items) {
+      if (isMap(item) && isPlayMap(item)) {
+        visitHandlers(item.get("handlers", true));
+      }
+    }
+  }
+  return handlers;
+}
+
+function visitHandler(
+  handlerNode: YAMLMap,
+  role: string | undefined,
+  handlers: HandlerDefinition[],
+  visitHandlers: (node: unknown) => void,
+): void {
+  if (handlerNode.has("block")) {
+    for (const key of ["block", "rescue", "always"]) {
+      visitHandlers(handlerNode.get(key, true));
+    }
+    return;
+  }
+  const name = handlerNode.get("name", true);
+  const listen = handlerNode.get("listen", true) as Node | undefined;
+  const topics = (isSeq(listen) ? listen.items : [listen]).filter(
+    (topic): topic is Scalar<string> =>
+      isScalar(topic) && typeof topic.value === "string",
+  );
+  const handler: HandlerDefinition = { topics, role };
+  if (isScalar(name) && typeof name.value === "string") {
+    handler.name = name as Scalar<string>;
+  }
+  if (handler.name || topics.length) {
+    handlers.push(handler);
+  }
+}
+
+/**
+ * Returns the names a handler can be notified with.
+ */
+export function getNotificationNames(handler: HandlerDefinition): string[] {
+  const names = handler.topics.map((topic) => topic.value);
+  if (handler.name) {
+    names.push(handler.name.value);
+    if (handler.role) {
+      names.push(`${handler.role} : ${handler.name.value}`);
+    }
+  }
+  return names;
+}
+
+/**
+ * Returns the handler files whose handlers a document can notify, mapped to
+ * the role providing them: the handlers of the role containing the
+ * document, of the roles it uses, of the roles these depend on in their
+ * `meta/main.yml` and the handler files it imports.
+ */
+export async function getHandlerFiles(
+  filePath: string,
+  references: AnsibleReference[],
+  workspacePath: string,
+  collectionsService: CollectionsService,
+): Promise<Map<string, string | undefined>> {
+  const handlerFiles = new Map<string, string | undefined>();
+  const visitedRoles = new Set<string>();
+  const addRole = async (roleDir: string, role: string) => {
+    if (visitedRoles.has(roleDir)) {
+      return;
+    }
+    visitedRoles.add(roleDir);
+    const roleHandlers = await getRoleHandlersFile(roleDir);
+    if (roleHandlers) {
+      handlerFiles.set(roleHandlers, role);
+    }
+    for (const [dependency, metaFile] of await getRoleDependencies(roleDir)) {
+      const dependencyDir = await resolveRolePath(
+        dependency,
+        metaFile,
+        workspacePath,
+        collectionsService,
+      );
+      if (dependencyDir) {
+        await addRole(dependencyDir, dependency);
+      }
+    }
+  };
+
+  const roleRoot = getRoleRoot(filePath);
+  if (roleRoot) {
+    await addRole(roleRoot, path.basename(roleRoot));
+  }
+
+  for (const reference of references) {
+    if (reference.kind === "role") {
+      const roleDir = await resolveRolePath(
+        reference.name,
+        filePath,
+        workspacePath,
+        collectionsService,
+      );
+      if (roleDir) {
+        await addRole(roleDir, reference.name);
+      }
+    } else if (reference.kind === "include" && reference.inHandlers) {
+      const target = await resolveFilePath(
+        reference.name,
+        filePath,
+        fileReferenceSubdirectories[reference.keyword],
+      );
+      if (target && !handlerFiles.has(target)) {
+        handlerFiles.set(target, undefined);
+      }
+    }
+  }
+  handlerFiles.delete(filePath);
+  return handlerFiles;
+}
+
+/**
+ * Reads the names of the roles listed under `dependencies` in the
+ * `meta/main.yml` of a role, along with the path of that file.
+ */
+async function getRoleDependencies(
+  roleDir: string,
+): Promise<[string, string][]> {
+  for (const ext of [".yml", ".yaml"]) {
+    const metaFile = path.join(roleDir, "meta", `main${ext}`);
+    const metaDocument = await loadTextDocument(URI.file(metaFile).toString());
+    if (!metaDocument) {
+      continue;
+    }
+    const meta = parseAllDocuments(metaDocument.getText())[0]?.contents;
+    const dependencies = isMap(meta) ? meta.get("dependencies", true) : null;
+    if (!isSeq(dependencies)) {
+      return [];
+    }
+    return dependencies.items.flatMap((item) => {
+      const roleNode = isMap(item)
+        ? (item.get("role", true) ?? item.get("name", true))
+        : item;
+      return isScalar(roleNode) && typeof roleNode.value === "string"
+        ? [[roleNode.value, metaFile] as [string, string]]
+        : [];
+    });
+  }
+  return [];
+}
+
+/**
+ * Collects the handlers a document can notify: its own, those of the handler
+ * files returned by `getHandlerFiles` and of the files these import in turn.
+ */
+export async function getHandlersInScope(
+  document: TextDocument,
+  yamlDocs: Document[],
+  workspacePath: string,
+  collectionsService: CollectionsService,
+  documents?: TextDocuments<TextDocument>,
+): Promise<HandlerDefinition[]> {
+  const filePath = URI.parse(document.uri).path;
+  const roleRoot = getRoleRoot(filePath);
+  const handlers = collectHandlers(
+    document.uri,
+    yamlDocs,
+    roleRoot && path.basename(roleRoot),
+  );
+
+  const pending = [
+    ...(await getHandlerFiles(
+      filePath,
+      collectReferences(document.uri, yamlDocs),
+      workspacePath,
+      collectionsService,
+    )),
+  ];
+  const visited = new Set([filePath, ...pending.map(([file]) => file)]);
+  for (let entry = pending.shift(); entry; entry = pending.shift()) {
+    const [handlerFile, role] = entry;
+    const handlerDocument = await loadTextDocument(
+      URI.file(handlerFile).toString(),
+      documents,
+    );
+    if (!handlerDocument) {
+      continue;
+    }
+    const handlerDocs = parseAllDocuments(handlerDocument.getText());
+    handlers.push(...collectHandlers(handlerDocument.uri, handlerDocs, role));
+    for (const reference of collectReferences(
+      handlerDocument.uri,
+      handlerDocs,
+    )) {
+      if (reference.kind !== "include") {
+        continue;
+      }
+      const target = await resolveFilePath(
+        reference.name,
+        handlerFile,
+        fileReferenceSubdirectories[reference.keyword],
+      );
+      if (target && !visited.has(target)) {
+        visited.add(target);
+        pending.push([target, role]);
+      }
+    }
+  }
+  return handlers;
+}
@@ -0,0 +1,181 @@
+import type { AnsibleInventory } from "../services/ansibleInventory";
+
+export type HostPatternOperator = "" | "&" | "!";
+
+/**
+ * One term of a host pattern such as `webservers:&staging:!web3`, with its
+ * offsets in the pattern text (excluding the operator).
+ */
+export interface HostPatternTerm {
+  operator: HostPatternOperator;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export type InventoryTree = Pick<
+  AnsibleInventory,
+  "groups" | "hosts" | "getGroupHosts"
+>;
+
+/** Hosts that Ansible provides even when the inventory does not list them. */
+const implicitHosts = new Set(["localhost", "127.0.0.1", "::1"]);
+
+/**
+ * Splits a host pattern into its terms. Like Ansible, terms are separated by
+ * commas, or by colons when there is no comma, except inside `[...]`
+ * subscripts.
+ */
+export function splitHostPattern(pattern: string): HostPatternTerm[] {
+  const separator = pattern.includes(",") ? "," : ":";
+  const terms: HostPatternTerm[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i <= pattern.length; i++) {
+    const char = pattern[i];
+    if (char === "[") {
+      depth++;
+    } else if (char === "]") {
+      depth = Math.max(0, depth - 1);
+    } else if (i === pattern.length || (char === separator && !depth)) {
+      const term = parseTerm(pattern, start, i);
+      if (term) {
+        terms.push(term);
+      }
+      start = i + 1;
+    }
+  }
+  return terms;
+}
+
+function parseTerm(
+  pattern: string,
+  start: number,
+  end: number,
+): HostPatternTerm | undefined {
+  while (start < end && /\s/.test(pattern[start])) {
+    start++;
+  }
+  while (end > start && /\s/.test(pattern[end - 1])) {
+    end--;
+  }
+  let operator: HostPatternOperator = "";
+  if (pattern[start] === "&" || pattern[start] === "!") {
+    operator = pattern[start] as HostPatternOperator;
+    start++;
+  }
+  return start < end
+    ? { operator, text: pattern.slice(start, end), start, end }
+    : undefined;
+}
+
+/**
+ * Returns the hosts matched by a single term, or undefined when the term
+ * names no group or host of the inventory.
+ */
+export function matchHostPatternTerm(
+  text: string,
+  inventory: InventoryTree,
+): string[] | undefined {
+  const subscript = /^(.+?)\[(-?\d+)(?::(-?\d*))?\]$/.exec(text);
+  const name = subscript ? subscript[1] : text;
+
+  let hosts: string[] | undefined;
+  if (name === "all" || name === "*") {
+    hosts = [...inventory.hosts.keys()];
+  } else if (name.startsWith("~") || /[*?[]/.test(name)) {
+    hosts = matchNames(name, inventory);
+  } else if (inventory.groups.has(name)) {
+    hosts = inventory.getGroupHosts(name);
+  } else if (inventory.hosts.has(name) || implicitHosts.has(name)) {
+    hosts = [name];
+  }
+
+  if (hosts && subscript) {
+    const first = Number(subscript[2]);
+    if (subscript[3] === undefined) {
+      const host = hosts.at(first);
+      return host === undefined ? [] : [host];
+    }
+    const last = subscript[3] === "" ? hosts.length : Number(subscript[3]) + 1;
+    return hosts.slice(first, last);
+  }
+  return hosts;
+}
+
+function matchNames(
+  pattern: string,
+  inventory: InventoryTree,
+): string[] | undefined {
+  let regex: RegExp;
+  try {
+    regex = pattern.startsWith("~")
+      ? new RegExp(`^(?:${pattern.slice(1)})`)
+      : globToRegExp(pattern);
+  } catch {
+    return undefined;
+  }
+  const hosts = new Set<string>();
+  let matched = false;
+  for (const group of inventory.groups.keys()) {
+    if (regex.test(group)) {
+      matched = true;
+      inventory.getGroupHosts(group).forEach((host) => hosts.add(host));
+    }
+  }
+  for (const host of inventory.hosts.keys()) {
+    if (regex.test(host)) {
+      matched = true;
+      hosts.add(host);
+    }
+  }
+  return matched ? [...hosts] : undefined;
+}
+
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split("")
+    .map((char) => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|\\]/g, "\\$&");
+    })
+    .join("");
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Resolves a host pattern to the matching hosts: terms without an operator
+ * are combined, then `&` terms intersect and `!` terms exclude, regardless of
+ * their order.
+ */
+export function matchHostPattern(
+  pattern: string,
+  inventory: InventoryTree,
+): string[] {
+  const terms = splitHostPattern(pattern);
+  const hosts = new Set<string>();
+  for (const term of terms.filter((t) => t.operator === "")) {
+    matchHostPatternTerm(term.text, inventory)?.forEach((host) =>
+      hosts.add(host),
+    );
+  }
+  for (const term of terms.filter((t) => t.operator === "&")) {
+    const matched = new Set(matchHostPatternTerm(term.text, inventory));
+    [...hosts]
+      .filter((host) => !matched.has(host))
+      .forEach((host) => {
+        hosts.delete(host);
+      });
+  }
+  for (const term of terms.filter((t) => t.operator === "!")) {
+    matchHostPatternTerm(term.text, inventory)?.forEach((host) =>
+      hosts.delete(host),
+    );
+  }
+  return [...hosts];
+}
@@ -0,0 +1,480 @@
+import { Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, isMap, isScalar, isSeq, Pair } from "yaml";
+import { toLspRange } from "./misc";
+import { getInventoryFormat, getOrigRange, parseAllDocuments } from "./yaml";
+
+/** A group, host or variable name of an inventory file. */
+export interface InventoryName {
+  name: string;
+  range: Range;
+}
+
+export interface InventoryHostEntry extends InventoryName {
+  /** Hosts named by the entry, with ranges such as `web[01:10]` expanded. */
+  hosts: string[];
+  /** Why the host range of the entry cannot be expanded. */
+  rangeError?: string;
+  vars: InventoryName[];
+}
+
+/**
+ * A group of an inventory file. In INI inventories each `[group]`,
+ * `[group:children]` and `[group:vars]` section is a separate entry, while
+ * YAML inventories have one entry per mapping describing the group.
+ */
+export interface InventoryFileGroup extends InventoryName {
+  /** Range of the whole section or mapping. */
+  fullRange: Range;
+  /** Kind of INI section, unset for host sections and YAML groups. */
+  section?: "children" | "vars";
+  /** Set on the hosts an INI inventory lists before its first section. */
+  implicit?: boolean;
+  hosts: InventoryHostEntry[];
+  children: InventoryName[];
+  vars: InventoryName[];
+}
+
+export interface InventoryProblem {
+  message: string;
+  range: Range;
+}
+
+export interface InventoryFile {
+  groups: InventoryFileGroup[];
+  problems: InventoryProblem[];
+}
+
+export interface HostRangeExpansion {
+  hosts: string[];
+  error?: string;
+}
+
+/** Limit on the hosts a single range expands to. */
+const maxExpandedHosts = 10000;
+
+const asciiLetters = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * Parses an inventory file in whichever format it is written. Returns
+ * undefined when the document is not an inventory.
+ */
+export function parseInventoryFile(
+  document: TextDocument,
+): InventoryFile | undefined {
+  switch (getInventoryFormat(document)) {
+    case "ini":
+      return parseIniInventory(document);
+    case "yaml":
+      return parseYamlInventory(
+        document,
+        parseAllDocuments(document.getText()),
+      );
+  }
+  return undefined;
+}
+
+/**
+ * Expands the `[begin:end]` and `[begin:end:step]` ranges of a host pattern
+ * the way Ansible does, e.g. `web[01:03]` into `web01`, `web02` and `web03`.
+ */
+export function expandHostRange(pattern: string): HostRangeExpansion {
+  const open = pattern.indexOf("[");
+  if (open === -1) {
+    return { hosts: [pattern] };
+  }
+  const close = pattern.indexOf("]", open);
+  if (close === -1) {
+    return {
+      hosts: [],
+      error: `Host range in '${pattern}' is missing its closing ']'.`,
+    };
+  }
+  const spec = pattern.slice(open + 1, close);
+  if (!spec.includes(":")) {
+    return { hosts: [pattern] };
+  }
+
+  const values = expandRangeSpec(spec);
+  if (typeof values === "string") {
+    return { hosts: [], error: values };
+  }
+  const rest = expandHostRange(pattern.slice(close + 1));
+  if (rest.error) {
+    return rest;
+  }
+  const prefix = pattern.slice(0, open);
+  const hosts: string[] = [];
+  for (const value of values) {
+    for (const suffix of rest.hosts) {
+      if (hosts.length === maxExpandedHosts) {
+        return { hosts };
+      }
+      hosts.push(`${prefix}${value}${suffix}`);
+    }
+  }
+  return { hosts };
+}
+
+/**
+ * Expands the inside of a host range, or returns why it cannot be expanded.
+ */
+function expandRangeSpec(spec: string): string[] | string {
+  const parts = spec.split(":");
+  const [begin, end, step = "1"] = parts.map((part) => part.trim());
+  if (parts.length > 3) {
+    return `Host range '[${spec}]' must be '[begin:end]' or '[begin:end:step]'.`;
+  }
+  if (!end) {
+    return `Host range '[${spec}]' has no end.`;
+  }
+  if (!/^\d+$/.test(step) || Number(step) === 0) {
+    return `Host range '[${spec}]' has an invalid step '${step}'.`;
+  }
+
+  const values: string[] = [];
+  const first = begin || "0";
+  if (/^\d+$/.test(first) && /^\d+$/.test(end)) {
+    const width = first.length > 1 && first.startsWith("0") ? first.length : 0;
+    if (width && width !== end.length) {
+      return `Host range '[${spec}]' must give its begin and end with the same number of digits.`;
+    }
+    if (Number(first) > Number(end)) {
+      return `Host range '[${spec}]' begins after its end.`;
+    }
+    for (
+      let i = Number(first);
+      i <= Number(end) && values.length < maxExpandedHosts;
+      i += Number(step)
+    ) {
+      values.push(String(i).padStart(width, "0"));
+    }
+    return values;
+  }
+
+  const firstIndex = asciiLetters.indexOf(first);
+  const endIndex = asciiLetters.indexOf(end);
+  if (
+    first.length !== 1 ||
+    end.length !== 1 ||
+    firstIndex < 0 ||
+    endIndex < 0
+  ) {
+    return `Host range '[${spec}]' must be numeric or single letters.`;
+  }
+  if (firstIndex > endIndex) {
+    return `Host range '[${spec}]' begins after its end.`;
+  }
+  for (let i = firstIndex; i <= endIndex; i += Number(step)) {
+    values.push(asciiLetters[i]);
+  }
+  return values;
+}
+
+/**
+ * Parses an INI inventory. Lines are host entries with optional
+ * `name=value` variables, child group names or group variables, depending
+ * on the section they belong to.
+ */
+export function parseIniInventory(document: TextDocument): InventoryFile {
+  const groups: InventoryFileGroup[] = [];
+  const problems: InventoryProblem[] = [];
+  let group: InventoryFileGroup | undefined;
+
+  document
+    .getText()
+    .split(/\r?\n/)
+    .forEach((line, lineNumber) => {
+      if (/^\s*[#;]/.test(line)) {
+        return;
+      }
+      const content = line.replace(/\s+#.*$/, "").trimEnd();
+      const words = splitIniLine(content);
+      if (!words.length) {
+        return;
+      }
+      const wordRange = (start: number, end: number) =>
+        Range.create(lineNumber, start, lineNumber, end);
+
+      const header = /^\s*\[([^\]]*)\]$/.exec(content);
+      if (header) {
+        const inside = header[1];
+        const insideStart = content.indexOf("[") + 1;
+        const parts = inside.split(":").map((part) => part.trim());
+        const [name, section] = parts;
+        const nameStart = insideStart + inside.indexOf(name);
+        group = {
+          name,
+          range: wordRange(nameStart, nameStart + name.length),
+          fullRange: wordRange(0, content.length),
+          hosts: [],
+          children: [],
+          vars: [],
+        };
+        groups.push(group);
+        if (!name) {
+          problems.push({
+            message: "Section has no group name.",
+            range: wordRange(0, content.length),
+          });
+        }
+        if (
+          parts.length === 2 &&
+          (section === "children" || section === "vars")
+        ) {
+          group.section = section;
+        } else if (parts.length > 1) {
+          problems.push({
+            message: `Unknown section type '${inside.slice(inside.indexOf(":"))}', expected ':children' or ':vars'.`,
+            range: wordRange(insideStart, insideStart + inside.length),
+          });
+        }
+        return;
+      }
+
+      if (!group) {
+        group = {
+          name: "ungrouped",
+          range: wordRange(words[0].start, words[0].end),
+          fullRange: wordRange(0, content.length),
+          implicit: true,
+          hosts: [],
+          children: [],
+          vars: [],
+        };
+        groups.push(group);
+      }
+      group.fullRange.end = { line: lineNumber, character: content.length };
+
+      const [first, ...rest] = words;
+      if (group.section === "children") {
+        group.children.push({
+          name: first.text,
+          range: wordRange(first.start, first.end),
+        });
+      } else if (group.section === "vars") {
+        const variable = /^(\s*)([^=\s]+)\s*=/.exec(content);
+        if (variable) {
+          const start = variable[1].length;
+          group.vars.push({
+            name: variable[2],
+            range: wordRange(start, start + variable[2].length),
+          });
+        } else {
+          problems.push({
+            message: "Expected a 'name=value' variable.",
+            range: wordRange(first.start, content.length),
+          });
+        }
+      } else {
+        const { hosts, error } = expandHostRange(stripPort(first.text));
+        const entry: InventoryHostEntry = {
+          name: first.text,
+          range: wordRange(first.start, first.end),
+          hosts,
+          rangeError: error,
+          vars: [],
+        };
+        group.hosts.push(entry);
+        for (const word of rest) {
+          const equals = word.text.indexOf("=");
+          if (equals > 0) {
+            entry.vars.push({
+              name: word.text.slice(0, equals),
+              range: wordRange(word.start, word.start + equals),
+            });
+          } else {
+            problems.push({
+              message: `Expected a 'name=value' variable after host '${first.text}'.`,
+              range: wordRange(word.start, word.end),
+            });
+          }
+        }
+      }
+    });
+  return { groups, problems };
+}
+
+/**
+ * Splits an INI inventory line into words, keeping quoted values whole.
+ */
+function splitIniLine(
+  line: string,
+): { text: string; start: number; end: number }[] {
+  const words: { text: string; start: number; end: number }[] = [];
+  for (const match of line.matchAll(/(?:[^\s"']+|"[^"]*"?|'[^']*'?)+/g)) {
+    const start = match.index ?? 0;
+    words.push({ text: match[0], start, end: start + match[0].length });
+  }
+  return words;
+}
+
+/**
+ * Removes the port from a host entry such as `web1:2222` or
+ * `web[01:10]:2222`.
+ */
+function stripPort(host: string): string {
+  const match = /^([^:]+|.*\])(:\d+)$/.exec(host);
+  return match ? match[1] : host;
+}
+
+/**
+ * Parses a YAML inventory, where each top-level key is a group that may
+ * hold `hosts`, `children` and `vars` mappings.
+ */
+export function parseYamlInventory(
+  document: TextDocument,
+  yamlDocs: Document[],
+): InventoryFile {
+  const parser = new YamlInventoryParser(document);
+  for (const yamlDoc of yamlDocs) {
+    if (isMap(yamlDoc.contents)) {
+      for (const pair of yamlDoc.contents.items) {
+        parser.group(pair);
+      }
+    }
+  }
+  return { groups: parser.groups, problems: parser.problems };
+}
+
+class YamlInventoryParser {
+  public groups: InventoryFileGroup[] = [];
+  public problems: InventoryProblem[] = [];
+
+  constructor(private document: TextDocument) {}
+
+  public group(pair: Pair<unknown, unknown>): void {
+    const name = this.name(pair.key);
+    if (!name) {
+      return;
+    }
+    const valueRange =
+      isScalar(pair.value) || isMap(pair.value) || isSeq(pair.value)
+        ? getOrigRange(pair.value)
+        : undefined;
+    const group: InventoryFileGroup = {
+      ...name,
+      fullRange: Range.create(
+        name.range.start,
+        valueRange ? this.document.positionAt(valueRange[1]) : name.range.end,
+      ),
+      hosts: [],
+      children: [],
+      vars: [],
+    };
+    this.groups.push(group);
+    if (isNull(pair.value)) {
+      return;
+    }
+    if (!isMap(pair.value)) {
+      this.problem(
+        `Group '${group.name}' must be a mapping of 'hosts', 'children' and 'vars'.`,
+        pair.value,
+        name.range,
+      );
+      return;
+    }
+
+    for (const item of pair.value.items) {
+      const key = isScalar(item.key) ? String(item.key.value) : undefined;
+      if (key === "hosts") {
+        this.hosts(group, item);
+      } else if (key === "children") {
+        if (isMap(item.value)) {
+          for (const child of item.value.items) {
+            const childName = this.name(child.key);
+            if (childName) {
+              group.children.push(childName);
+            }
+            if (!isNull(child.value)) {
+              this.group(child);
+            }
+          }
+        } else if (!isNull(item.value)) {
+          this.problem("'children' must be a mapping of groups.", item.value);
+        }
+      } else if (key === "vars") {
+        group.vars.push(
+          ...this.mapKeys(item.value, "'vars' must be a mapping."),
+        );
+      } else if (key !== undefined) {
+        this.problem(
+          `Unknown key '${key}' in group '${group.name}', expected 'hosts', 'children' or 'vars'.`,
+          item.key,
+        );
+      }
+    }
+  }
+
+  private hosts(group: InventoryFileGroup, pair: Pair<unknown, unknown>): void {
+    if (!isMap(pair.value)) {
+      if (!isNull(pair.value)) {
+        this.problem(
+          isSeq(pair.value)
+            ? "'hosts' must be a mapping of host names, not a list."
+            : "'hosts' must be a mapping of host names.",
+          pair.value,
+        );
+      }
+      return;
+    }
+    for (const hostPair of pair.value.items) {
+      const name = this.name(hostPair.key);
+      if (!name) {
+        continue;
+      }
+      const { hosts, error } = expandHostRange(name.name);
+      group.hosts.push({
+        ...name,
+        hosts,
+        rangeError: error,
+        vars: this.mapKeys(
+          hostPair.value,
+          `Variables of host '${name.name}' must be a mapping.`,
+        ),
+      });
+    }
+  }
+
+  private mapKeys(node: unknown, message: string): InventoryName[] {
+    if (isMap(node)) {
+      return node.items
+        .map((pair) => this.name(pair.key))
+        .filter((name): name is InventoryName => !!name);
+    }
+    if (!isNull(node)) {
+      this.problem(message, node);
+    }
+    return [];
+  }
+
+  private name(node: unknown): InventoryName | undefined {
+    const range = isScalar(node) && getOrigRange(node);
+    if (!isScalar(node) || !range || node.value === null) {
+      return undefined;
+    }
+    return {
+      name: String(node.value),
+      range: toLspRange(range, this.document),
+    };
+  }
+
+  private problem(message: string, node: unknown, fallback?: Range): void {
+    const range =
+      isScalar(node) || isMap(node) || isSeq(node)
+        ? getOrigRange(node)
+        : undefined;
+    const lspRange = range ? toLspRange(range, this.document) : fallback;
+    if (lspRange) {
+      this.problems.push({ message, range: lspRange });
+    }
+  }
+}
+
+function isNull(node: unknown): boolean {
+  return (
+    node === null ||
+    node === undefined ||
+    (isScalar(node) && node.value === null)
+  );
+}
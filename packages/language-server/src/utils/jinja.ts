@@ -0,0 +1,887 @@
+/**
+ * Keywords whose values are bare Jinja expressions rather than templates.
+ */
+export const bareExpressionKeywords = new Set([
+  "when",
+  "changed_when",
+  "failed_when",
+  "until",
+  "that",
+]);
+
+export const jinjaFilters = new Map<string, string>([
+  ["abs", "Return the absolute value of the argument."],
+  ["attr", "Get an attribute of an object."],
+  ["batch", "Batch items into lists of the given size."],
+  ["capitalize", "Capitalize a value."],
+  ["center", "Center the value in a field of a given width."],
+  ["count", "Return the number of items in a container."],
+  ["d", "Alias of `default`."],
+  ["default", "Return the default value if the value is undefined."],
+  ["dictsort", "Sort a dict and yield (key, value) pairs."],
+  ["e", "Alias of `escape`."],
+  [
+    "escape",
+    "Replace the characters &, <, >, ' and \" with HTML-safe sequences.",
+  ],
+  ["filesizeformat", "Format the value like a human-readable file size."],
+  ["first", "Return the first item of a sequence."],
+  ["float", "Convert the value into a floating point number."],
+  ["forceescape", "Enforce HTML escaping."],
+  ["format", "Apply the given values to a printf-style format string."],
+  ["groupby", "Group a sequence of objects by an attribute."],
+  ["indent", "Indent each line of the value."],
+  ["int", "Convert the value into an integer."],
+  ["items", "Return an iterator over the (key, value) items of a mapping."],
+  ["join", "Concatenate the items of a sequence."],
+  ["last", "Return the last item of a sequence."],
+  ["length", "Return the number of items in a container."],
+  ["list", "Convert the value into a list."],
+  ["lower", "Convert a value to lowercase."],
+  ["map", "Apply a filter or look up an attribute on each item."],
+  ["max", "Return the largest item from the sequence."],
+  ["min", "Return the smallest item from the sequence."],
+  ["pprint", "Pretty print a variable."],
+  ["random", "Return a random item from the sequence."],
+  ["reject", "Reject items for which a test succeeds."],
+  ["rejectattr", "Reject items whose attribute passes a test."],
+  ["replace", "Replace occurrences of a substring."],
+  ["reverse", "Reverse the value."],
+  ["round", "Round the number to a given precision."],
+  ["safe", "Mark the value as safe."],
+  ["select", "Select items for which a test succeeds."],
+  ["selectattr", "Select items whose attribute passes a test."],
+  ["slice", "Slice an iterator into a number of lists."],
+  ["sort", "Sort an iterable."],
+  ["string", "Convert the value into a string."],
+  ["striptags", "Strip SGML/XML tags."],
+  ["sum", "Return the sum of a sequence of numbers."],
+  ["title", "Return a titlecased version of the value."],
+  ["tojson", "Serialize the value to JSON."],
+  ["trim", "Strip leading and trailing characters."],
+  ["truncate", "Return a truncated copy of the string."],
+  ["unique", "Return a list of unique items."],
+  ["upper", "Convert a value to uppercase."],
+  ["urlencode", "Quote data for use in a URL path or query."],
+  ["urlize", "Convert URLs in text into clickable links."],
+  ["wordcount", "Count the words in the string."],
+  ["wordwrap", "Wrap a string to the given width."],
+  ["xmlattr", "Create an SGML/XML attribute string from a dict."],
+]);
+
+export const jinjaTests = new Map<string, string>([
+  ["boolean", "Return true if the object is a boolean value."],
+  ["callable", "Return whether the object is callable."],
+  ["defined", "Return true if the variable is defined."],
+  ["divisibleby", "Check if a variable is divisible by a number."],
+  ["eq", "Same as `a == b`."],
+  ["equalto", "Same as `a == b`."],
+  ["escaped", "Check if the value is escaped."],
+  ["even", "Return true if the variable is even."],
+  ["false", "Return true if the object is False."],
+  ["filter", "Check if a filter exists by name."],
+  ["float", "Return true if the object is a float."],
+  ["ge", "Same as `a >= b`."],
+  ["gt", "Same as `a > b`."],
+  ["in", "Check if value is in seq."],
+  ["integer", "Return true if the object is an integer."],
+  ["iterable", "Check if it's possible to iterate over an object."],
+  ["le", "Same as `a <= b`."],
+  ["lower", "Return true if the variable is lowercased."],
+  ["lt", "Same as `a < b`."],
+  ["mapping", "Return true if the object is a mapping (dict etc.)."],
+  ["ne", "Same as `a != b`."],
+  ["none", "Return true if the variable is none."],
+  ["number", "Return true if the variable is a number."],
+  ["odd", "Return true if the variable is odd."],
+  ["sameas", "Check if an object points to the same memory address."],
+  ["sequence", "Return true if the variable is a sequence."],
+  ["string", "Return true if the object is a string."],
+  ["test", "Check if a test exists by name."],
+  ["true", "Return true if the object is True."],
+  ["undefined", "Like `defined` but the other way round."],
+  ["upper", "Return true if the variable is uppercased."],
+]);
+
+export const lookupFunctions = new Set(["lookup", "query", "q"]);
+
+export type JinjaTokenType =
+  "name" | "string" | "number" | "operator" | "punctuation";
+
+export interface JinjaToken {
+  type: JinjaTokenType;
+  value: string;
+  start: number;
+  end: number;
+  /** Set on strings whose closing quote is missing. */
+  unterminated?: boolean;
+}
+
+export type JinjaRegionKind = "expression" | "statement" | "comment";
+
+/**
+ * A `{{ }}`, `{% %}` or `{# #}` region of a template, or the whole text for
+ * bare expressions. Offsets are relative to the analyzed text.
+ */
+export interface JinjaRegion {
+  kind: JinjaRegionKind;
+  start: number;
+  end: number;
+  contentStart: number;
+  contentEnd: number;
+  closed: boolean;
+}
+
+export interface JinjaProblem {
+  message: string;
+  start: number;
+  end: number;
+}
+
+export type JinjaPluginKind = "filter" | "test" | "lookup";
+
+export interface JinjaCursorContext {
+  /** What the word under the cursor names. */
+  kind: JinjaPluginKind | "variable";
+  word: string;
+  wordStart: number;
+}
+
+export interface JinjaCallContext {
+  kind: JinjaPluginKind;
+  name: string;
+  activeParameter: number;
+}
+
+export interface JinjaVariableReference {
+  name: string;
+  start: number;
+  end: number;
+  /** Whether the template tolerates the variable being undefined. */
+  guarded: boolean;
+}
+
+export type JinjaSymbolKind =
+  | "variable"
+  | "attribute"
+  | "filter"
+  | "test"
+  | "function"
+  | "parameter"
+  | "keyword"
+  | "operator"
+  | "string"
+  | "number"
+  | "comment";
+
+/**
+ * A classified piece of a template, used for semantic highlighting.
+ * Offsets are relative to the analyzed text.
+ */
+export interface JinjaSymbol {
+  kind: JinjaSymbolKind;
+  start: number;
+  end: number;
+  /** Set on names bound by the template itself with `set`, `for` or `macro`. */
+  declaration?: boolean;
+  /** Set on variables provided by Jinja, such as `loop`. */
+  builtin?: boolean;
+}
+
+/** Keywords that name variables provided by Jinja itself. */
+const jinjaVariables = new Set(["loop", "caller", "varargs", "kwargs"]);
+
+const jinjaKeywords = new Set([
+  "and",
+  "or",
+  "not",
+  "in",
+  "is",
+  "if",
+  "else",
+  "elif",
+  "endif",
+  "for",
+  "endfor",
+  "set",
+  "endset",
+  "macro",
+  "endmacro",
+  "call",
+  "endcall",
+  "filter",
+  "endfilter",
+  "with",
+  "endwith",
+  "block",
+  "endblock",
+  "raw",
+  "endraw",
+  "recursive",
+  "as",
+  "import",
+  "include",
+  "from",
+  "extends",
+  "true",
+  "false",
+  "none",
+  "True",
+  "False",
+  "None",
+  "loop",
+  "caller",
+  "varargs",
+  "kwargs",
+]);
+
+const delimiters: Record<string, [string, JinjaRegionKind]> = {
+  "{{": ["}}", "expression"],
+  "{%": ["%}", "statement"],
+  "{#": ["#}", "comment"],
+};
+
+const closingBrackets: Record<string, string> = {
+  ")": "(",
+  "]": "[",
+  "}": "{",
+};
+
+const operators = [
+  "**",
+  "//",
+  "==",
+  "!=",
+  ">=",
+  "<=",
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "~",
+  "<",
+  ">",
+  "=",
+  "|",
+  ".",
+];
+
+/**
+ * Splits Jinja expression source into tokens, skipping whitespace.
+ */
+export function tokenizeJinja(
+  text: string,
+  start = 0,
+  end = text.length,
+): JinjaToken[] {
+  const tokens: JinjaToken[] = [];
+  let i = start;
+  while (i < end) {
+    const ch = text[i];
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '"' || ch === "'") {
+      let j = i + 1;
+      while (j < end && text[j] !== ch) {
+        j += text[j] === "\\" ? 2 : 1;
+      }
+      const unterminated = j >= end;
+      j = Math.min(j + 1, end);
+      tokens.push({
+        type: "string",
+        value: text.slice(i, j),
+        start: i,
+        end: j,
+        unterminated: unterminated || undefined,
+      });
+      i = j;
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(text.slice(i, end));
+      const value = match ? match[0] : ch;
+      tokens.push({ type: "name", value, start: i, end: i + value.length });
+      i += value.length;
+    } else if (/[0-9]/.test(ch)) {
+      const match = /^[0-9][0-9_]*(\.[0-9_]+)?([eE][-+]?[0-9]+)?/.exec(
+        text.slice(i, end),
+      );
+      const value = match ? match[0] : ch;
+      tokens.push({ type: "number", value, start: i, end: i + value.length });
+      i += value.length;
+    } else if ("()[]{},:".includes(ch)) {
+      tokens.push({ type: "punctuation", value: ch, start: i, end: i + 1 });
+      i++;
+    } else {
+      const operator =
+        operators.find(
+          (op) => text.startsWith(op, i) && i + op.length <= end,
+        ) ?? ch;
+      tokens.push({
+        type: "operator",
+        value: operator,
+        start: i,
+        end: i + operator.length,
+      });
+      i += operator.length;
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Finds the Jinja regions of a template. When `bare` is set and the text
+ * contains no delimiters, the whole text is treated as one expression, as
+ * Ansible does for `when:` and similar keywords.
+ */
+export function findJinjaRegions(text: string, bare = false): JinjaRegion[] {
+  if (bare && !/{{|{%/.test(text)) {
+    return [
+      {
+        kind: "expression",
+        start: 0,
+        end: text.length,
+        contentStart: 0,
+        contentEnd: text.length,
+        closed: true,
+      },
+    ];
+  }
+
+  const regions: JinjaRegion[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const open = /{{|{%|{#/.exec(text.slice(i));
+    if (!open) {
+      break;
+    }
+    const start = i + open.index;
+    const [closer, kind] = delimiters[open[0]];
+    const contentStart = start + 2;
+    const contentEnd = findCloser(text, contentStart, closer, kind);
+    if (contentEnd === -1) {
+      regions.push({
+        kind,
+        start,
+        end: text.length,
+        contentStart,
+        contentEnd: text.length,
+        closed: false,
+      });
+      break;
+    }
+    regions.push({
+      kind,
+      start,
+      end: contentEnd + 2,
+      contentStart,
+      contentEnd,
+      closed: true,
+    });
+    i = contentEnd + 2;
+
+    if (isRawTag(text, regions[regions.length - 1])) {
+      // the content of a raw block is literal text, up to its endraw tag
+      const endRaw = /{%[-+]?\s*endraw\s*[-+]?%}/.exec(text.slice(i));
+      if (!endRaw) {
+        break;
+      }
+      const endStart = i + endRaw.index;
+      regions.push({
+        kind,
+        start: endStart,
+        end: endStart + endRaw[0].length,
+        contentStart: endStart + 2,
+        contentEnd: endStart + endRaw[0].length - 2,
+        closed: true,
+      });
+      i = endStart + endRaw[0].length;
+    }
+  }
+  return regions;
+}
+
+function findCloser(
+  text: string,
+  from: number,
+  closer: string,
+  kind: JinjaRegionKind,
+): number {
+  if (kind === "comment") {
+    return text.indexOf(closer, from);
+  }
+  let quote: string | undefined;
+  for (let i = from; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === "\\") {
+        i++;
+      } else if (ch === quote) {
+        quote = undefined;
+      }
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (text.startsWith(closer, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Reports unclosed delimiters, stray closing delimiters, unbalanced
+ * brackets and unterminated strings.
+ */
+export function findJinjaSyntaxProblems(
+  text: string,
+  bare = false,
+): JinjaProblem[] {
+  const problems: JinjaProblem[] = [];
+  const regions = findJinjaRegions(text, bare);
+
+  let previousEnd = 0;
+  let previous: JinjaRegion | undefined;
+  for (const region of [...regions, undefined]) {
+    const gapEnd = region ? region.start : text.length;
+    const stray = /}}|%}/g;
+    // the text of a raw block may hold any delimiter
+    const gap =
+      previous && isRawTag(text, previous)
+        ? ""
+        : text.slice(previousEnd, gapEnd);
+    let match: RegExpExecArray | null;
+    while ((match = stray.exec(gap))) {
+      const start = previousEnd + match.index;
+      problems.push({
+        message: `Unexpected '${match[0]}' without matching opening delimiter.`,
+        start,
+        end: start + 2,
+      });
+    }
+    if (!region) {
+      break;
+    }
+    previousEnd = region.end;
+    previous = region;
+
+    if (!region.closed) {
+      problems.push({
+        message: `Unclosed '${text.slice(region.start, region.start + 2)}'.`,
+        start: region.start,
+        end: region.start + 2,
+      });
+    }
+    if (region.kind !== "comment") {
+      problems.push(...findBracketProblems(text, region));
+    }
+  }
+  return problems;
+}
+
+function isRawTag(text: string, region: JinjaRegion): boolean {
+  return (
+    region.kind === "statement" &&
+    /^[-+]?\s*raw\s*[-+]?$/.test(
+      text.slice(region.contentStart, region.contentEnd),
+    )
+  );
+}
+
+function findBracketProblems(
+  text: string,
+  region: JinjaRegion,
+): JinjaProblem[] {
+  const problems: JinjaProblem[] = [];
+  const stack: JinjaToken[] = [];
+  for (const token of tokenizeJinja(
+    text,
+    region.contentStart,
+    region.contentEnd,
+  )) {
+    if (token.unterminated) {
+      problems.push({
+        message: "Unterminated string.",
+        start: token.start,
+        end: token.end,
+      });
+    } else if (token.type !== "punctuation") {
+      continue;
+    } else if ("([{".includes(token.value)) {
+      stack.push(token);
+    } else if (closingBrackets[token.value]) {
+      const opener = stack.pop();
+      if (!opener || opener.value !== closingBrackets[token.value]) {
+        problems.push({
+          message: `Unexpected '${token.value}'.`,
+          start: token.start,
+          end: token.end,
+        });
+        if (opener) {
+          stack.push(opener);
+        }
+      }
+    }
+  }
+  for (const opener of stack) {
+    problems.push({
+      message: `Unclosed '${opener.value}'.`,
+      start: opener.start,
+      end: opener.end,
+    });
+  }
+  return problems;
+}
+
+/**
+ * Returns the names used as filters (`value | name`) in the given tokens,
+ * joining dotted collection names.
+ */
+export function findFilterNames(
+  tokens: JinjaToken[],
+): { name: string; start: number; end: number }[] {
+  const filters: { name: string; start: number; end: number }[] = [];
+  for (let i = 0; i < tokens.length - 1; i++) {
+    if (tokens[i].value === "|" && tokens[i + 1].type === "name") {
+      const [name, lastIndex] = readDottedName(tokens, i + 1);
+      filters.push({
+        name,
+        start: tokens[i + 1].start,
+        end: tokens[lastIndex].end,
+      });
+    }
+  }
+  return filters;
+}
+
+/**
+ * Returns the variables read by the given regions of a template. Names used
+ * as filters, tests, attributes, functions or keyword arguments are left
+ * out, as are names bound by the template itself with `set`, `for` or
+ * `macro`.
+ */
+export function findVariableReferences(
+  text: string,
+  regions: JinjaRegion[],
+): JinjaVariableReference[] {
+  const locals = new Set<string>();
+  const references: JinjaVariableReference[] = [];
+  for (const region of regions) {
+    if (region.kind === "comment") {
+      continue;
+    }
+    const tokens = tokenizeJinja(text, region.contentStart, region.contentEnd);
+    if (region.kind === "statement") {
+      collectLocalNames(tokens, locals);
+    }
+
+    const regionReferences: JinjaVariableReference[] = [];
+    const guardedNames = new Set<string>();
+    tokens.forEach((token, i) => {
+      if (token.type !== "name" || jinjaKeywords.has(token.value)) {
+        return;
+      }
+      const previous = tokens[i - 1]?.value;
+      const next = tokens[i + 1]?.value;
+      if (
+        previous === "|" ||
+        previous === "." ||
+        previous === "is" ||
+        (previous === "not" && tokens[i - 2]?.value === "is") ||
+        next === "(" ||
+        next === "="
+      ) {
+        return;
+      }
+      if (isGuarded(tokens, i)) {
+        guardedNames.add(token.value);
+      }
+      regionReferences.push({
+        name: token.value,
+        start: token.start,
+        end: token.end,
+        guarded: false,
+      });
+    });
+    for (const reference of regionReferences) {
+      reference.guarded = guardedNames.has(reference.name);
+      references.push(reference);
+    }
+  }
+  return references.filter((reference) => !locals.has(reference.name));
+}
+
+/**
+ * Classifies the tokens of the given regions of a template as variables,
+ * filters, tests, keywords, operators and literals. Comments are returned
+ * whole, while dots and brackets are left out.
+ */
+export function classifyJinjaSymbols(
+  text: string,
+  regions: JinjaRegion[],
+): JinjaSymbol[] {
+  const symbols: JinjaSymbol[] = [];
+  for (const region of regions) {
+    if (region.kind === "comment") {
+      symbols.push({ kind: "comment", start: region.start, end: region.end });
+      continue;
+    }
+    const tokens = tokenizeJinja(text, region.contentStart, region.contentEnd);
+    const bindings = new Set(
+      region.kind === "statement" ? getBindingTokens(tokens) : [],
+    );
+    tokens.forEach((token, i) => {
+      const { start, end } = token;
+      if (token.type === "string" || token.type === "number") {
+        symbols.push({ kind: token.type, start, end });
+      } else if (token.type === "operator" && token.value !== ".") {
+        symbols.push({ kind: "operator", start, end });
+      } else if (token.type === "name") {
+        const kind = classifyName(tokens, i);
+        symbols.push({
+          kind,
+          start,
+          end,
+          declaration: bindings.has(token) || undefined,
+          builtin:
+            (kind === "variable" && jinjaVariables.has(token.value)) ||
+            undefined,
+        });
+      }
+    });
+  }
+  return symbols;
+}
+
+function classifyName(tokens: JinjaToken[], index: number): JinjaSymbolKind {
+  const { value } = tokens[index];
+  const previous = tokens[index - 1]?.value;
+  const next = tokens[index + 1]?.value;
+  if (previous === "|") {
+    return "filter";
+  }
+  if (
+    (previous === "is" && value !== "not") ||
+    (previous === "not" && tokens[index - 2]?.value === "is")
+  ) {
+    return "test";
+  }
+  if (previous === ".") {
+    return "attribute";
+  }
+  if (next === "(") {
+    return "function";
+  }
+  if (jinjaVariables.has(value)) {
+    return "variable";
+  }
+  if (jinjaKeywords.has(value)) {
+    return "keyword";
+  }
+  return next === "=" && isInCall(tokens, index) ? "parameter" : "variable";
+}
+
+/**
+ * Tells whether the token at `index` is inside the parentheses of a call.
+ */
+function isInCall(tokens: JinjaToken[], index: number): boolean {
+  let depth = 0;
+  for (let i = index - 1; i >= 0; i--) {
+    const { value } = tokens[i];
+    if (value === ")" || value === "]" || value === "}") {
+      depth++;
+    } else if (value === "(" || value === "[" || value === "{") {
+      if (depth === 0) {
+        return value === "(" && tokens[i - 1]?.type === "name";
+      }
+      depth--;
+    }
+  }
+  return false;
+}
+
+/**
+ * Adds the names bound by a `for`, `set` or `macro` statement.
+ */
+function collectLocalNames(tokens: JinjaToken[], locals: Set<string>): void {
+  for (const token of getBindingTokens(tokens)) {
+    locals.add(token.value);
+  }
+}
+
+/**
+ * Returns the name tokens bound by a `for`, `set` or `macro` statement.
+ */
+function getBindingTokens(tokens: JinjaToken[]): JinjaToken[] {
+  const [keyword] = tokens;
+  let stop: string;
+  let from = 1;
+  if (keyword?.value === "for") {
+    stop = "in";
+  } else if (keyword?.value === "set") {
+    stop = "=";
+  } else if (keyword?.value === "macro") {
+    from = tokens.findIndex((token) => token.value === "(") + 1;
+    stop = ")";
+  } else {
+    return [];
+  }
+  const bindings: JinjaToken[] = [];
+  for (let i = from; i > 0 && i < tokens.length; i++) {
+    if (tokens[i].value === stop) {
+      break;
+    }
+    if (tokens[i].type === "name" && tokens[i - 1].value !== "=") {
+      bindings.push(tokens[i]);
+    }
+  }
+  return bindings;
+}
+
+/**
+ * Tells whether the variable at `index` is followed by `| default` or tested
+ * with `is defined`/`is undefined`.
+ */
+function isGuarded(tokens: JinjaToken[], index: number): boolean {
+  let i = index + 1;
+  while (tokens[i]?.value === "." && tokens[i + 1]?.type === "name") {
+    i += 2;
+  }
+  if (tokens[i]?.value === "|") {
+    return ["default", "d"].includes(tokens[i + 1]?.value);
+  }
+  if (tokens[i]?.value === "is") {
+    const test = tokens[i + 1]?.value === "not" ? tokens[i + 2] : tokens[i + 1];
+    return ["defined", "undefined"].includes(test?.value);
+  }
+  return false;
+}
+
+function readDottedName(tokens: JinjaToken[], index: number): [string, number] {
+  let name = tokens[index].value;
+  let last = index;
+  while (
+    tokens[last + 1]?.value === "." &&
+    tokens[last + 2]?.type === "name" &&
+    tokens[last + 1].start === tokens[last].end
+  ) {
+    name += `.${tokens[last + 2].value}`;
+    last += 2;
+  }
+  return [name, last];
+}
+
+/**
+ * Determines what is being typed at the end of a Jinja expression prefix:
+ * a filter after `|`, a test after `is`, a lookup plugin name inside
+ * `lookup('...` or otherwise a variable.
+ */
+export function getJinjaCursorContext(prefix: string): JinjaCursorContext {
+  const lookupMatch = /\b(?:lookup|query|q)\(\s*(['"])([\w.]*)$/.exec(prefix);
+  if (lookupMatch) {
+    return {
+      kind: "lookup",
+      word: lookupMatch[2],
+      wordStart: prefix.length - lookupMatch[2].length,
+    };
+  }
+
+  const wordMatch = /[A-Za-z_][\w.]*$/.exec(prefix);
+  const word = wordMatch ? wordMatch[0] : "";
+  const wordStart = prefix.length - word.length;
+  const before = prefix.slice(0, wordStart);
+
+  if (/\|\s*$/.test(before)) {
+    return { kind: "filter", word, wordStart };
+  }
+  if (/\bis(\s+not)?\s+$/.test(before)) {
+    return { kind: "test", word, wordStart };
+  }
+  return { kind: "variable", word, wordStart };
+}
+
+/**
+ * Finds the filter, test or lookup call whose argument list contains the
+ * end of the given expression prefix.
+ */
+export function getJinjaCallContext(
+  prefix: string,
+): JinjaCallContext | undefined {
+  const tokens = tokenizeJinja(prefix);
+  const stack: { open: number; commas: number }[] = [];
+  for (const [index, token] of tokens.entries()) {
+    if (token.type !== "punctuation") {
+      continue;
+    }
+    if ("([{".includes(token.value)) {
+      stack.push({ open: index, commas: 0 });
+    } else if (")]}".includes(token.value)) {
+      stack.pop();
+    } else if (token.value === "," && stack.length) {
+      stack[stack.length - 1].commas++;
+    }
+  }
+
+  for (let level = stack.length - 1; level >= 0; level--) {
+    const { open, commas } = stack[level];
+    if (tokens[open].value !== "(") {
+      continue;
+    }
+    const call = describeCall(tokens, open, commas);
+    if (call) {
+      return call;
+    }
+  }
+  return undefined;
+}
+
+function describeCall(
+  tokens: JinjaToken[],
+  open: number,
+  commas: number,
+): JinjaCallContext | undefined {
+  let nameStart = open - 1;
+  if (tokens[nameStart]?.type !== "name") {
+    return undefined;
+  }
+  while (
+    tokens[nameStart - 1]?.value === "." &&
+    tokens[nameStart - 2]?.type === "name"
+  ) {
+    nameStart -= 2;
+  }
+  const [name] = readDottedName(tokens, nameStart);
+  const previous = tokens[nameStart - 1];
+
+  if (lookupFunctions.has(name)) {
+    const pluginToken = tokens[open + 1];
+    if (pluginToken?.type !== "string" || commas === 0) {
+      return undefined;
+    }
+    return {
+      kind: "lookup",
+      name: pluginToken.value.replace(/^['"]|['"]$/g, ""),
+      activeParameter: commas - 1,
+    };
+  }
+  if (previous?.value === "|") {
+    return { kind: "filter", name, activeParameter: commas };
+  }
+  if (
+    previous?.value === "is" ||
+    (previous?.value === "not" && tokens[nameStart - 2]?.value === "is")
+  ) {
+    return { kind: "test", name, activeParameter: commas };
+  }
+  return undefined;
+}
+
+/**
+ * Returns the context of the whole word spanning the given offset.
+ */
+export function getJinjaWordAt(
+  text: string,
+  offset: number,
+): JinjaCursorContext | undefined {
+  const wordEnd = /^[\w.]*/.exec(text.slice(offset))?.[0].length ?? 0;
+  const context = getJinjaCursorContext(text.slice(0, offset + wordEnd));
+  return context.word ? context : undefined;
+}
@@ -0,0 +1,234 @@
+import { Document, isMap, isScalar, isSeq, parse, parseDocument } from "yaml";
+
+/** A rule of ansible-lint as documented by the installed version. */
+export interface LintRule {
+  id: string;
+  shortdesc: string;
+  description: string;
+  url?: string;
+  /** Full documentation of the rule, with examples, when available. */
+  help?: string;
+  /** Least strict profile that enables the rule. */
+  profile?: string;
+}
+
+export interface LintProfile {
+  name: string;
+  description: string;
+  extends?: string;
+  rules: string[];
+}
+
+/** Lists of `.ansible-lint` whose items are rule ids or tags. */
+export type RuleList = "skip_list" | "warn_list" | "enable_list";
+
+/**
+ * Profiles shipped with ansible-lint, from the least to the most strict.
+ */
+export const lintProfileNames = [
+  "min",
+  "basic",
+  "moderate",
+  "safety",
+  "shared",
+  "production",
+];
+
+/**
+ * Tags of the rules shipped with ansible-lint, which `skip_list` and
+ * `warn_list` accept in place of rule ids.
+ */
+export const lintRuleTags = [
+  "command-shell",
+  "core",
+  "deprecations",
+  "experimental",
+  "formatting",
+  "idempotency",
+  "idiom",
+  "metadata",
+  "opt-in",
+  "risk",
+  "security",
+  "syntax",
+  "unpredictability",
+  "unskippable",
+  "yaml",
+];
+
+/**
+ * Parses the output of `ansible-lint --list-rules --format md`: a `##`
+ * heading per rule, followed by its short description in bold and a
+ * description ending with a link to the rule documentation.
+ */
+export function parseRuleListMarkdown(markdown: string): Map<string, LintRule> {
+  const rules = new Map<string, LintRule>();
+  let rule: LintRule | undefined;
+  const lines: string[] = [];
+
+  const flush = () => {
+    if (!rule) {
+      return;
+    }
+    let description = lines.join("\n").trim();
+    const link = description.match(/\s*\[more\]\((?<url>[^)]+)\)\s*$/);
+    if (link) {
+      rule.url = link.groups?.url;
+      description = description.slice(0, link.index).trim();
+    }
+    rule.description = description;
+    rules.set(rule.id, rule);
+    lines.length = 0;
+  };
+
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = line.match(/^##\s+(\S+)\s*$/);
+    if (heading) {
+      flush();
+      rule = { id: heading[1], shortdesc: "", description: "" };
+    } else if (rule && !rule.shortdesc && /^\*\*.+\*\*\s*$/.test(line)) {
+      rule.shortdesc = line.trim().slice(2, -2);
+    } else if (rule) {
+      lines.push(line);
+    }
+  }
+  flush();
+  return rules;
+}
+
+/**
+ * Parses the `profiles.yml` data file of ansible-lint, keeping the order of
+ * the profiles.
+ */
+export function parseLintProfiles(text: string): LintProfile[] {
+  const data = parse(text) as unknown;
+  if (!data || typeof data !== "object") {
+    return [];
+  }
+  return Object.entries(data as Record<string, unknown>).map(
+    ([name, value]) => {
+      const profile = (value ?? {}) as {
+        description?: unknown;
+        extends?: unknown;
+        rules?: unknown;
+      };
+      return {
+        name,
+        description:
+          typeof profile.description === "string"
+            ? profile.description.trim()
+            : "",
+        extends:
+          typeof profile.extends === "string" ? profile.extends : undefined,
+        rules:
+          profile.rules && typeof profile.rules === "object"
+            ? Object.keys(profile.rules)
+            : [],
+      };
+    },
+  );
+}
+
+/**
+ * Returns the id of the rule a sub-rule belongs to, e.g. `name` for
+ * `name[casing]`.
+ */
+export function getBaseRuleId(id: string): string {
+  const bracket = id.indexOf("[");
+  return bracket > 0 ? id.slice(0, bracket) : id;
+}
+
+/**
+ * Finds the documentation of a rule or of the rule a sub-rule belongs to.
+ */
+export function findLintRule(
+  rules: Map<string, LintRule>,
+  id: string,
+): LintRule | undefined {
+  return rules.get(id) ?? rules.get(getBaseRuleId(id));
+}
+
+/**
+ * Returns the first profile listing the rule, which is the least strict one
+ * enabling it since each profile extends the previous one.
+ */
+export function findRuleProfile(
+  profiles: LintProfile[],
+  id: string,
+): string | undefined {
+  const baseId = getBaseRuleId(id);
+  return profiles.find((profile) =>
+    profile.rules.some((rule) => rule === id || rule === baseId),
+  )?.name;
+}
+
+/**
+ * Formats the documentation of a rule for a hover. The id is that of the
+ * diagnostic, which may name a sub-rule.
+ */
+export function formatLintRule(rule: LintRule, id = rule.id): string {
+  const lines = [`**${id}**${rule.shortdesc ? ` — ${rule.shortdesc}` : ""}`];
+  const body = rule.help
+    ? rule.help.replace(/^#\s+.*\r?\n/, "").trim()
+    : rule.description;
+  if (body) {
+    lines.push("", body);
+  }
+  const footer = [
+    rule.profile ? `Profile: \`${rule.profile}\`` : "",
+    rule.url ? `[Documentation](${rule.url})` : "",
+  ].filter(Boolean);
+  if (footer.length) {
+    lines.push("", footer.join(" · "));
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Adds the rule to one list of an `.ansible-lint` file, removing it from the
+ * others, or removes it if already listed. Returns the new content of the
+ * file.
+ */
+export function toggleRuleInList(
+  text: string,
+  rule: string,
+  list: RuleList,
+): string {
+  const yamlDoc: Document = parseDocument(text);
+  if (!isMap(yamlDoc.contents)) {
+    yamlDoc.contents = yamlDoc.createNode({});
+  }
+  const listed = isRuleListed(yamlDoc.get(list), rule);
+
+  const lists: RuleList[] = ["skip_list", "warn_list", "enable_list"];
+  for (const name of listed ? [list] : lists) {
+    const seq = yamlDoc.get(name);
+    if (isSeq(seq) && isRuleListed(seq, rule)) {
+      seq.items = seq.items.filter(
+        (item) => !(isScalar(item) && item.value === rule),
+      );
+      if (!seq.items.length) {
+        yamlDoc.delete(name);
+      }
+    }
+  }
+  if (!listed) {
+    const seq = yamlDoc.get(list);
+    if (isSeq(seq)) {
+      seq.add(yamlDoc.createNode(rule));
+    } else {
+      yamlDoc.set(list, yamlDoc.createNode([rule]));
+    }
+  }
+  return yamlDoc.toString();
+}
+
+/**
+ * Tells whether a list node of an `.ansible-lint` file contains the rule.
+ */
+export function isRuleListed(node: unknown, rule: string): boolean {
+  return (
+    isSeq(node) &&
+    node.items.some((item) => isScalar(item) && item.value === rule)
+  );
+}
@@ -1,12 +1,60 @@
 import * as path from "path";
 import { promises as fs } from "fs";
+import { glob } from "glob";
+import { TextDocuments } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
 import { Range } from "vscode-languageserver-types";
+import { URI } from "vscode-uri";
 
 export async function fileExists(filePath: string): Promise<boolean> {
   return !!(await fs.stat(filePath).catch(() => false));
 }
 
+/**
+ * Lists the YAML files under a directory, skipping hidden directories and
+ * `node_modules`.
+ */
+export async function findYamlFiles(rootPath: string): Promise<string[]> {
+  return glob("**/*.{yml,yaml}", {
+    cwd: rootPath,
+    absolute: true,
+    nodir: true,
+    ignore: ["**/node_modules/**"],
+  });
+}
+
+/**
+ * Lists the Jinja template files under a directory, skipping hidden
+ * directories and `node_modules`.
+ */
+export async function findTemplateFiles(rootPath: string): Promise<string[]> {
+  return glob("**/*.j2", {
+    cwd: rootPath,
+    absolute: true,
+    nodir: true,
+    ignore: ["**/node_modules/**"],
+  });
+}
+
+/**
+ * Returns the open document for the URI, or reads it from disk.
+ */
+export async function loadTextDocument(
+  uri: string,
+  documents?: TextDocuments<TextDocument>,
+): Promise<TextDocument | undefined> {
+  const openDocument = documents?.get(uri);
+  if (openDocument) {
+    return openDocument;
+  }
+  try {
+    const content = await fs.readFile(URI.parse(uri).fsPath, "utf8");
+    return TextDocument.create(uri, "ansible", 0, content);
+  } catch {
+    return undefined;
+  }
+}
+
 export function toLspRange(
   range: [number, number],
   textDocument: TextDocument,
@@ -0,0 +1,288 @@
+import { Diagnostic, DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { isMap, isScalar, isSeq, Node, Pair, Scalar, YAMLMap } from "yaml";
+import type { PluginOption } from "@ansible/core/out/services/CollectionsService";
+import { toLspRange } from "./misc";
+import { getOrigRange } from "./yaml";
+
+/**
+ * The part of a plugin or role argument spec needed to validate options.
+ */
+export interface OptionsSpec {
+  options?: { [key: string]: PluginOption };
+  mutually_exclusive?: string[][];
+  required_together?: string[][];
+  required_one_of?: string[][];
+}
+
+const booleanStrings = new Set([
+  "yes",
+  "no",
+  "true",
+  "false",
+  "on",
+  "off",
+  "y",
+  "n",
+  "t",
+  "f",
+  "1",
+  "0",
+]);
+
+/**
+ * Builtin modules that take arbitrary keys, such as variables or host
+ * facts, in addition to their documented options.
+ */
+const modulesWithArbitraryOptions = new Set([
+  "add_host",
+  "group_by",
+  "include_vars",
+  "set_fact",
+]);
+
+/**
+ * Options documented for free-form arguments. They stand for the whole
+ * argument string or the variables given, never for an actual key.
+ */
+const freeFormOptions = new Set(["free_form", "key_value"]);
+
+/**
+ * Tells whether a module accepts keys that are not documented options, so
+ * that its options cannot be checked against its documentation.
+ */
+export function acceptsArbitraryOptions(fqcn: string): boolean {
+  const [namespace, collection, name] = fqcn.split(".");
+  return (
+    namespace === "ansible" &&
+    (collection === "builtin" || collection === "legacy") &&
+    modulesWithArbitraryOptions.has(name)
+  );
+}
+
+/**
+ * Validates the options given to a module or role against its spec.
+ *
+ * @param optionsNode - map of provided options, `null` when none were given
+ * @param anchorNode - node that diagnostics about missing options point at
+ */
+export function validateOptions(
+  optionsNode: YAMLMap | null,
+  spec: OptionsSpec,
+  anchorNode: Node,
+  document: TextDocument,
+  source: string,
+): Diagnostic[] {
+  const validator = new OptionValidator(document, source);
+  validator.validate(optionsNode, spec, anchorNode);
+  return validator.diagnostics;
+}
+
+class OptionValidator {
+  public diagnostics: Diagnostic[] = [];
+
+  constructor(
+    private document: TextDocument,
+    private source: string,
+  ) {}
+
+  public validate(
+    optionsNode: YAMLMap | null,
+    spec: OptionsSpec,
+    anchorNode: Node,
+  ): void {
+    const options = spec.options ?? {};
+    const aliases = new Map<string, string>();
+    for (const [name, option] of Object.entries(options)) {
+      aliases.set(name, name);
+      for (const alias of option.aliases ?? []) {
+        aliases.set(alias, name);
+      }
+    }
+
+    const provided = new Map<string, Pair<Scalar, unknown>>();
+    for (const pair of optionsNode?.items ?? []) {
+      if (!isScalar(pair.key) || typeof pair.key.value !== "string") {
+        continue;
+      }
+      const key = pair.key.value;
+      const name = aliases.get(key);
+      if (!name) {
+        // the documentation may be incomplete, e.g. for action plugins
+        this.report(
+          pair.key,
+          `Unsupported option '${key}'.`,
+          DiagnosticSeverity.Warning,
+        );
+        continue;
+      }
+      provided.set(name, pair as Pair<Scalar, unknown>);
+      this.validateValue(key, options[name], pair.value as Node | null);
+    }
+
+    for (const [name, option] of Object.entries(options)) {
+      if (
+        option.required &&
+        !provided.has(name) &&
+        !freeFormOptions.has(name)
+      ) {
+        this.report(
+          anchorNode,
+          `Missing required option '${name}'.`,
+          DiagnosticSeverity.Error,
+        );
+      }
+    }
+
+    for (const group of spec.mutually_exclusive ?? []) {
+      const present = group.filter((name) => provided.has(name));
+      if (present.length > 1) {
+        for (const name of present) {
+          this.report(
+            provided.get(name)?.key as Node,
+            `Options are mutually exclusive: ${present.join(", ")}.`,
+            DiagnosticSeverity.Error,
+          );
+        }
+      }
+    }
+
+    for (const group of spec.required_together ?? []) {
+      const present = group.filter((name) => provided.has(name));
+      if (present.length && present.length < group.length) {
+        const missing = group.filter((name) => !provided.has(name));
+        for (const name of present) {
+          this.report(
+            provided.get(name)?.key as Node,
+            `Option '${name}' must be used together with: ${missing.join(", ")}.`,
+            DiagnosticSeverity.Error,
+          );
+        }
+      }
+    }
+
+    for (const group of spec.required_one_of ?? []) {
+      if (!group.some((name) => provided.has(name))) {
+        this.report(
+          anchorNode,
+          `One of the following options is required: ${group.join(", ")}.`,
+          DiagnosticSeverity.Error,
+        );
+      }
+    }
+  }
+
+  private validateValue(
+    key: string,
+    option: PluginOption,
+    valueNode: Node | null,
+  ): void {
+    if (!valueNode || isTemplated(valueNode)) {
+      return;
+    }
+
+    const type = option.type ?? "str";
+    if (!matchesType(valueNode, type)) {
+      this.report(
+        valueNode,
+        `Option '${key}' expects a value of type '${type}'.`,
+        DiagnosticSeverity.Warning,
+      );
+      return;
+    }
+
+    if (option.choices?.length) {
+      const values = isSeq(valueNode) ? valueNode.items : [valueNode];
+      const choices = option.choices.map(String);
+      for (const item of values) {
+        if (
+          isScalar(item) &&
+          !isTemplated(item) &&
+          !choices.includes(String(item.value))
+        ) {
+          this.report(
+            item,
+            `Value of option '${key}' must be one of: ${choices.join(", ")}.`,
+            DiagnosticSeverity.Error,
+          );
+        }
+      }
+    }
+
+    if (option.suboptions) {
+      if (type === "dict" && isMap(valueNode)) {
+        this.validate(valueNode, { options: option.suboptions }, valueNode);
+      } else if (type === "list" && isSeq(valueNode)) {
+        for (const item of valueNode.items) {
+          if (isMap(item)) {
+            this.validate(item, { options: option.suboptions }, item);
+          }
+        }
+      }
+    }
+  }
+
+  private report(
+    node: Node | undefined,
+    message: string,
+    severity: DiagnosticSeverity,
+  ): void {
+    const range = node ? getOrigRange(node) : undefined;
+    if (range) {
+      this.diagnostics.push({
+        message,
+        range: toLspRange(range, this.document),
+        severity,
+        source: this.source,
+      });
+    }
+  }
+}
+
+function isTemplated(node: Node): boolean {
+  return (
+    isScalar(node) &&
+    typeof node.value === "string" &&
+    (node.value.includes("{{") || node.value.includes("{%"))
+  );
+}
+
+function matchesType(node: Node, type: string): boolean {
+  switch (type) {
+    case "dict":
+      return !isSeq(node);
+    case "list":
+      return !isMap(node);
+    case "raw":
+    case "any":
+    case "json":
+    case "jsonarg":
+      return true;
+  }
+
+  if (!isScalar(node)) {
+    return false;
+  }
+  const value = node.value;
+  switch (type) {
+    case "bool":
+    case "boolean":
+      return (
+        typeof value === "boolean" ||
+        booleanStrings.has(String(value).toLowerCase())
+      );
+    case "int":
+    case "integer":
+      return (
+        (typeof value === "number" && Number.isInteger(value)) ||
+        (typeof value === "string" && /^[-+]?\d+$/.test(value))
+      );
+    case "float":
+      return (
+        typeof value === "number" ||
+        (typeof value === "string" && value.trim() !== "" && !isNaN(+value))
+      );
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,139 @@
+import * as path from "path";
+import type { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import { fileExists } from "./misc";
+
+const roleSubdirectories =
+  "tasks|handlers|defaults|vars|meta|templates|files|library";
+
+const roleRootPattern = new RegExp(
+  `^(.*/roles/[^/]+)/(?:${roleSubdirectories})/`,
+);
+
+/**
+ * Returns the root directory of the role containing the given file, if any.
+ */
+export function getRoleRoot(filePath: string): string | undefined {
+  return roleRootPattern.exec(filePath)?.[1];
+}
+
+/**
+ * Resolves a role name to its directory, following the lookup order used by
+ * Ansible: collection roles for FQCNs, then sibling roles, the `roles`
+ * directory next to the playbook and finally the workspace `roles` directory.
+ */
+export async function resolveRolePath(
+  roleName: string,
+  filePath: string,
+  workspacePath: string,
+  collectionsService: CollectionsService,
+): Promise<string | undefined> {
+  if (roleName.includes("{{")) {
+    return undefined;
+  }
+
+  const candidates: string[] = [];
+  if (path.isAbsolute(roleName)) {
+    candidates.push(roleName);
+  }
+
+  const parts = roleName.split(".");
+  if (parts.length === 3) {
+    const collection = collectionsService.getCollection(
+      `${parts[0]}.${parts[1]}`,
+    );
+    if (collection?.info.path) {
+      candidates.push(path.join(collection.info.path, "roles", parts[2]));
+    }
+  }
+
+  const fileDir = path.dirname(filePath);
+  const roleRoot = getRoleRoot(filePath);
+  if (roleRoot) {
+    candidates.push(path.join(path.dirname(roleRoot), roleName));
+  }
+  candidates.push(
+    path.join(fileDir, "roles", roleName),
+    path.join(fileDir, roleName),
+    path.join(workspacePath, "roles", roleName),
+  );
+
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return path.resolve(candidate);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves a relative file reference (e.g. from `include_tasks` or
+ * `template: src=`) using the role and playbook search paths.
+ *
+ * @param subdirectory - role subdirectory searched first, e.g. `tasks`
+ */
+export async function resolveFilePath(
+  target: string,
+  filePath: string,
+  subdirectory?: string,
+): Promise<string | undefined> {
+  if (!target || target.includes("{{")) {
+    return undefined;
+  }
+  if (path.isAbsolute(target)) {
+    return (await fileExists(target)) ? target : undefined;
+  }
+
+  const candidates: string[] = [];
+  const fileDir = path.dirname(filePath);
+  const roleRoot = getRoleRoot(filePath);
+  if (roleRoot) {
+    if (subdirectory) {
+      candidates.push(path.join(roleRoot, subdirectory, target));
+    }
+    candidates.push(path.join(roleRoot, target));
+  }
+  if (subdirectory) {
+    candidates.push(path.join(fileDir, subdirectory, target));
+  }
+  candidates.push(path.join(fileDir, target));
+
+  for (const candidate of candidates) {
+    if (await fileExists(candidate)) {
+      return path.resolve(candidate);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the first existing entry point of a role directory:
+ * `tasks/main`, falling back to `meta/main`.
+ */
+export async function getRoleEntryPoint(
+  roleDir: string,
+): Promise<string | undefined> {
+  for (const candidate of ["tasks/main", "meta/main"]) {
+    for (const ext of [".yml", ".yaml"]) {
+      const file = path.join(roleDir, `${candidate}${ext}`);
+      if (await fileExists(file)) {
+        return file;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the existing `handlers/main` file of a role directory.
+ */
+export async function getRoleHandlersFile(
+  roleDir: string,
+): Promise<string | undefined> {
+  for (const ext of [".yml", ".yaml"]) {
+    const file = path.join(roleDir, "handlers", `main${ext}`);
+    if (await fileExists(file)) {
+      return file;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,144 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import { parse } from "yaml";
+import type { CollectionsService } from "@ansible/core/out/services/CollectionsService";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+
+/**
+ * A deprecation or tombstone notice of `plugin_routing`.
+ */
+export interface RoutingNotice {
+  removal_version?: string;
+  removal_date?: string;
+  warning_text?: string;
+}
+
+/**
+ * The routing of one plugin, as declared in the `plugin_routing` section of
+ * a collection's `meta/runtime.yml`.
+ */
+export interface PluginRoute {
+  redirect?: string;
+  deprecation?: RoutingNotice;
+  tombstone?: RoutingNotice;
+}
+
+type PluginRouting = Record<string, Record<string, PluginRoute> | undefined>;
+
+const routingCache = new Map<
+  string,
+  { mtimeMs: number; routing: PluginRouting }
+>();
+
+/**
+ * Reads the `plugin_routing` section of a runtime file. The result is cached
+ * until the file changes, and is empty when the file is missing or invalid.
+ */
+export async function loadPluginRouting(
+  runtimeFile: string,
+): Promise<PluginRouting> {
+  const stats = await fs.stat(runtimeFile).catch(() => undefined);
+  if (!stats) {
+    return {};
+  }
+  const cached = routingCache.get(runtimeFile);
+  if (cached?.mtimeMs === stats.mtimeMs) {
+    return cached.routing;
+  }
+
+  let routing: PluginRouting = {};
+  try {
+    const runtime = parse(await fs.readFile(runtimeFile, "utf8")) as {
+      plugin_routing?: PluginRouting;
+    } | null;
+    routing = runtime?.plugin_routing ?? {};
+  } catch {
+    // an invalid runtime file routes nothing
+  }
+  routingCache.set(runtimeFile, { mtimeMs: stats.mtimeMs, routing });
+  return routing;
+}
+
+/**
+ * Finds the routing entry of a module. Short names are looked up in the
+ * collections declared with the `collections` keyword, then in
+ * `ansible.builtin`, stopping at the first collection that has the module.
+ *
+ * @returns the FQCN the entry belongs to along with the entry
+ */
+export async function findModuleRoute(
+  name: string,
+  declaredCollections: string[],
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<{ fqcn: string; route: PluginRoute } | undefined> {
+  const parts = name.split(".");
+  const candidates =
+    parts.length >= 3
+      ? [[parts.slice(0, 2).join("."), parts.slice(2).join(".")]]
+      : [...declaredCollections, "ansible.builtin"].map((c) => [c, name]);
+
+  for (const [collection, pluginName] of candidates) {
+    const runtimeFile = await getRuntimeFile(
+      collection,
+      context,
+      collectionsService,
+    );
+    const routing = runtimeFile ? await loadPluginRouting(runtimeFile) : {};
+    const route = routing.modules?.[pluginName];
+    if (route) {
+      return { fqcn: `${collection}.${pluginName}`, route };
+    }
+    if (
+      collectionsService
+        .getPlugins(collection, "module")
+        .some((plugin) => plugin.name === pluginName)
+    ) {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Lists the plugins of a type that `ansible.builtin` routes elsewhere, such as
+ * the `json_query` filter, by their short name and FQCN.
+ */
+export async function getRoutedBuiltinPlugins(
+  pluginType: string,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<string[]> {
+  const runtimeFile = await getRuntimeFile(
+    "ansible.builtin",
+    context,
+    collectionsService,
+  );
+  const routing = runtimeFile ? await loadPluginRouting(runtimeFile) : {};
+  return Object.keys(routing[pluginType] ?? {}).flatMap((name) => [
+    name,
+    `ansible.builtin.${name}`,
+  ]);
+}
+
+/**
+ * Returns the file holding the plugin routing of a collection. The routing of
+ * `ansible.builtin` ships with ansible-core instead of a collection.
+ */
+async function getRuntimeFile(
+  collection: string,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<string | undefined> {
+  if (collection === "ansible.builtin") {
+    const ansibleLocation = (await context.ansibleConfig).ansibleLocation;
+    return ansibleLocation
+      ? path.join(ansibleLocation, "config", "ansible_builtin_runtime.yml")
+      : undefined;
+  }
+  const collectionPath =
+    collectionsService.getCollection(collection)?.info.path;
+  return collectionPath
+    ? path.join(collectionPath, "meta", "runtime.yml")
+    : undefined;
+}
@@ -0,0 +1,300 @@
+import {
+  Document,
+  isMap,
+  isScalar,
+  isSeq,
+  Node,
+  Scalar,
+  YAMLMap,
+} from "yaml";
+import { isTaskKeyword } from "./ansible";
+import {
+  getScalarTextRange,
+  getTaskMaps,
+  getYamlMapKeys,
+  isPlayMap,
+} from "./yaml";
+
+export type AnsibleReferenceKind =
+  | "module"
+  | "role"
+  | "include"
+  | "handler"
+  | "notify";
+
+/**
+ * A named entity mentioned in an Ansible file, such as a module used by a
+ * task, a role pulled in by a play or a handler notified by a task.
+ */
+export interface AnsibleReference {
+  kind: AnsibleReferenceKind;
+  name: string;
+  node: Scalar;
+  /** Keyword that introduced the reference, e.g. `import_tasks` or `roles`. */
+  keyword: string;
+  /** Whether the reference sits in a handlers section or handlers file. */
+  inHandlers: boolean;
+}
+
+/**
+ * A path to a file used by a playbook or tasks file, such as an included
+ * tasks file or the source of a `template` task.
+ */
+export interface FileReference {
+  path: string;
+  /** Offsets of the path in the document text. */
+  range: [number, number];
+  /** Keyword or action that uses the file, e.g. `vars_files` or `template`. */
+  keyword: string;
+}
+
+/**
+ * Role subdirectory searched first for the files used by each keyword.
+ */
+export const fileReferenceSubdirectories: Record<string, string | undefined> = {
+  include: "tasks",
+  include_tasks: "tasks",
+  import_tasks: "tasks",
+  include_vars: "vars",
+  vars_files: "vars",
+  import_playbook: undefined,
+  template: "templates",
+  copy: "files",
+};
+
+const fileSourceActions = new Set(["template", "copy"]);
+
+const includeKeywords = new Set([
+  "include",
+  "include_tasks",
+  "import_tasks",
+  "import_playbook",
+  "include_vars",
+]);
+
+const roleIncludeKeywords = new Set(["include_role", "import_role"]);
+
+const taskListKeys = new Set(["tasks", "pre_tasks", "post_tasks"]);
+
+/**
+ * Strips the `ansible.builtin.`/`ansible.legacy.` prefix from an action name.
+ */
+export function getShortActionName(name: string): string {
+  return name.replace(/^ansible\.(builtin|legacy)\./, "");
+}
+
+/**
+ * Collects every module, role, include, handler and notification reference
+ * in the given parsed documents.
+ */
+export function collectReferences(
+  fileUri: string,
+  yamlDocs: Document[],
+): AnsibleReference[] {
+  const references: AnsibleReference[] = [];
+  const inHandlersFile = /\/handlers\/[^/]+$/.test(fileUri);
+
+  for (const yamlDoc of yamlDocs) {
+    if (!isSeq(yamlDoc.contents)) {
+      continue;
+    }
+    for (const item of yamlDoc.contents.items) {
+      if (!isMap(item)) {
+        continue;
+      }
+      if (isPlayMap(item)) {
+        visitPlay(item, references);
+      } else {
+        visitTask(item, inHandlersFile, references);
+      }
+    }
+  }
+  return references;
+}
+
+function visitPlay(playNode: YAMLMap, references: AnsibleReference[]): void {
+  for (const pair of playNode.items) {
+    if (!isScalar(pair.key)) {
+      continue;
+    }
+    const key = String(pair.key.value);
+
+    if (key === "roles" && isSeq(pair.value)) {
+      for (const roleEntry of pair.value.items) {
+        const roleNode = isMap(roleEntry)
+          ? (roleEntry.get("role", true) ?? roleEntry.get("name", true))
+          : roleEntry;
+        pushScalar(references, roleNode as Node, "role", key, false);
+      }
+    } else if (taskListKeys.has(key)) {
+      visitTaskList(pair.value as Node, false, references);
+    } else if (key === "handlers") {
+      visitTaskList(pair.value as Node, true, references);
+    } else if (key === "vars_files") {
+      pushScalars(references, pair.value as Node, "include", key, false);
+    }
+  }
+}
+
+function visitTaskList(
+  node: Node | null,
+  inHandlers: boolean,
+  references: AnsibleReference[],
+): void {
+  if (!isSeq(node)) {
+    return;
+  }
+  for (const item of node.items) {
+    if (isMap(item)) {
+      visitTask(item, inHandlers, references);
+    }
+  }
+}
+
+function visitTask(
+  taskNode: YAMLMap,
+  inHandlers: boolean,
+  references: AnsibleReference[],
+): void {
+  const isBlock = getYamlMapKeys(taskNode).includes("block");
+
+  for (const pair of taskNode.items) {
+    if (!isScalar(pair.key)) {
+      continue;
+    }
+    const key = String(pair.key.value);
+    const value = pair.value as Node | null;
+
+    if (key === "block" || key === "rescue" || key === "always") {
+      visitTaskList(value, inHandlers, references);
+    } else if (key === "name" && inHandlers && !isBlock) {
+      pushScalar(references, value, "handler", key, inHandlers);
+    } else if (key === "listen" && inHandlers) {
+      pushScalars(references, value, "handler", key, inHandlers);
+    } else if (key === "notify") {
+      pushScalars(references, value, "notify", key, inHandlers);
+    } else if (!isTaskKeyword(key) && !isBlock) {
+      pushScalar(references, pair.key, "module", key, inHandlers);
+
+      const action = getShortActionName(key);
+      if (includeKeywords.has(action)) {
+        const fileNode = isMap(value) ? value.get("file", true) : value;
+        pushScalar(references, fileNode as Node, "include", action, inHandlers);
+      } else if (roleIncludeKeywords.has(action) && isMap(value)) {
+        pushScalar(
+          references,
+          value.get("name", true) as Node,
+          "role",
+          action,
+          inHandlers,
+        );
+      }
+    }
+  }
+}
+
+function pushScalars(
+  references: AnsibleReference[],
+  node: Node | null,
+  kind: AnsibleReferenceKind,
+  keyword: string,
+  inHandlers: boolean,
+): void {
+  if (isSeq(node)) {
+    for (const item of node.items) {
+      pushScalar(references, item as Node, kind, keyword, inHandlers);
+    }
+  } else {
+    pushScalar(references, node, kind, keyword, inHandlers);
+  }
+}
+
+function pushScalar(
+  references: AnsibleReference[],
+  node: Node | null | undefined,
+  kind: AnsibleReferenceKind,
+  keyword: string,
+  inHandlers: boolean,
+): void {
+  if (isScalar(node) && typeof node.value === "string" && node.value) {
+    references.push({ kind, name: node.value, node, keyword, inHandlers });
+  }
+}
+
+/**
+ * Collects the paths of included files, `vars_files` and the `src` of
+ * `template` and `copy` tasks, given either as a map or in free-form
+ * `key=value` arguments. Copies from the managed node are left out.
+ */
+export function collectFileReferences(
+  fileUri: string,
+  yamlDocs: Document[],
+): FileReference[] {
+  const fileReferences: FileReference[] = [];
+  const push = (node: Scalar, keyword: string) => {
+    const range = getScalarTextRange(node);
+    if (range && typeof node.value === "string") {
+      fileReferences.push({ path: node.value, range, keyword });
+    }
+  };
+
+  for (const reference of collectReferences(fileUri, yamlDocs)) {
+    if (reference.kind === "include") {
+      push(reference.node, reference.keyword);
+    }
+  }
+
+  for (const task of getTaskMaps(yamlDocs)) {
+    for (const pair of task.items) {
+      const action = isScalar(pair.key)
+        ? getShortActionName(String(pair.key.value))
+        : "";
+      if (!fileSourceActions.has(action)) {
+        continue;
+      }
+      const args = isMap(pair.value) ? pair.value : task.get("args", true);
+      if (isMap(args)) {
+        const src = args.get("src", true);
+        if (isScalar(src) && !isTruthy(args.get("remote_src"))) {
+          push(src, action);
+        }
+      } else if (isScalar(pair.value) && typeof pair.value.value === "string") {
+        const reference = getFreeFormSource(pair.value, action);
+        if (reference) {
+          fileReferences.push(reference);
+        }
+      }
+    }
+  }
+  return fileReferences;
+}
+
+function getFreeFormSource(
+  node: Scalar,
+  keyword: string,
+): FileReference | undefined {
+  const text = String(node.value);
+  const range = getScalarTextRange(node);
+  const match = /(?:^|\s)src=(\S+)/.exec(text);
+  if (
+    !range ||
+    !match ||
+    /(?:^|\s)remote_src=(yes|true|True)\b/.test(text) ||
+    node.type !== "PLAIN"
+  ) {
+    return undefined;
+  }
+  const start = range[0] + match.index + match[0].indexOf("=") + 1;
+  return {
+    path: match[1],
+    range: [start, start + match[1].length],
+    keyword,
+  };
+}
+
+function isTruthy(value: unknown): boolean {
+  return (
+    value === true ||
+    (typeof value === "string" && /^(yes|true|on|y)$/i.test(value))
+  );
+}
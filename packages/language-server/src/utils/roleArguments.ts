@@ -0,0 +1,315 @@
+import * as path from "path";
+import { promises as fs } from "fs";
+import {
+  Document,
+  isMap,
+  isScalar,
+  isSeq,
+  Node,
+  Pair,
+  parseDocument,
+  Scalar,
+  YAMLMap,
+  YAMLSeq,
+} from "yaml";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import type {
+  CollectionsService,
+  PluginOption,
+} from "@ansible/core/out/services/CollectionsService";
+import type { WorkspaceFolderContext } from "../services/workspaceManager";
+import { roleKeywords } from "./ansible";
+import { OptionsSpec } from "./optionValidation";
+import { resolveRolePath } from "./pathResolution";
+import { getShortActionName } from "./references";
+import { AncestryBuilder, getTaskMaps, isPlayMap } from "./yaml";
+
+/**
+ * The spec of one entry point of a role, read from `meta/argument_specs.yml`
+ * (or the `argument_specs` key of `meta/main.yml`) and shaped like plugin
+ * documentation.
+ */
+export interface RoleArgumentSpec extends OptionsSpec {
+  short_description?: string;
+  description?: string | string[];
+  options: { [key: string]: PluginOption };
+}
+
+/**
+ * A place where a role is applied: an entry of `roles:` or an
+ * `include_role`/`import_role` task.
+ */
+export interface RoleInvocation {
+  roleName: string;
+  roleNode: Scalar;
+  entryPoint: string;
+  /** Arguments given as keys of a `roles:` entry. */
+  params: Pair[];
+  /** Arguments given in the `vars:` of the entry or task. */
+  vars: Pair[];
+  /** Variables set by the enclosing play. */
+  playVars: Set<string>;
+}
+
+const roleIncludeActions = new Set(["include_role", "import_role"]);
+
+/**
+ * Reads the argument spec of a role entry point, returning undefined when
+ * the role does not declare one.
+ */
+export async function loadRoleArgumentSpec(
+  roleDir: string,
+  entryPoint = "main",
+): Promise<RoleArgumentSpec | undefined> {
+  const candidates: [string, boolean][] = [
+    ["argument_specs.yml", false],
+    ["argument_specs.yaml", false],
+    ["main.yml", true],
+    ["main.yaml", true],
+  ];
+  for (const [fileName, nested] of candidates) {
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(roleDir, "meta", fileName), "utf8");
+    } catch {
+      continue;
+    }
+    const specs = (parseDocument(content).toJSON() ?? {}).argument_specs;
+    if (specs || !nested) {
+      const spec = specs?.[entryPoint];
+      return spec ? toRoleArgumentSpec(spec) : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves the invoked role and reads the spec of its entry point.
+ */
+export async function getRoleArgumentSpec(
+  invocation: RoleInvocation,
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<RoleArgumentSpec | undefined> {
+  const roleDir = await resolveRolePath(
+    invocation.roleName,
+    URI.parse(document.uri).path,
+    URI.parse(context.workspaceFolder.uri).path,
+    collectionsService,
+  );
+  return roleDir
+    ? loadRoleArgumentSpec(roleDir, invocation.entryPoint)
+    : undefined;
+}
+
+/**
+ * Returns the arguments of the role invoked by the map containing the key
+ * at the end of `path`, like `getPossibleOptionsForPath` does for modules.
+ */
+export async function getRoleArgumentsForPath(
+  path: Node[],
+  document: TextDocument,
+  context: WorkspaceFolderContext,
+  collectionsService: CollectionsService,
+): Promise<Record<string, PluginOption> | null> {
+  const invocation = getRoleInvocationAt(path);
+  const spec =
+    invocation &&
+    (await getRoleArgumentSpec(
+      invocation,
+      document,
+      context,
+      collectionsService,
+    ));
+  return spec?.options ?? null;
+}
+
+function toRoleArgumentSpec(spec: Record<string, unknown>): RoleArgumentSpec {
+  return {
+    ...(spec as OptionsSpec),
+    short_description: spec.short_description as string | undefined,
+    description: spec.description as string | string[] | undefined,
+    options: toPluginOptions(spec.options),
+  };
+}
+
+/**
+ * Converts argument spec options to plugin options, which name nested
+ * options `suboptions` rather than `options`.
+ */
+function toPluginOptions(options: unknown): { [key: string]: PluginOption } {
+  const result: { [key: string]: PluginOption } = {};
+  if (typeof options !== "object" || options === null) {
+    return result;
+  }
+  for (const [name, option] of Object.entries(options)) {
+    const { options: suboptions, ...rest } = (option ?? {}) as Record<
+      string,
+      unknown
+    >;
+    result[name] = {
+      ...(rest as PluginOption),
+      suboptions: suboptions ? toPluginOptions(suboptions) : undefined,
+    };
+  }
+  return result;
+}
+
+/**
+ * Collects the role invocations of a playbook or tasks file.
+ */
+export function collectRoleInvocations(yamlDocs: Document[]): RoleInvocation[] {
+  const invocations: RoleInvocation[] = [];
+  const add = (invocation: RoleInvocation | undefined) => {
+    if (invocation) {
+      invocations.push(invocation);
+    }
+  };
+  for (const yamlDoc of yamlDocs) {
+    const items = isSeq(yamlDoc.contents) ? yamlDoc.contents.items : [];
+    const plays = items.filter(
+      (item): item is YAMLMap => isMap(item) && isPlayMap(item),
+    );
+    if (!plays.length) {
+      getTaskMaps([yamlDoc]).forEach((task) =>
+        add(getTaskInvocation(task, new Set())),
+      );
+      continue;
+    }
+    for (const play of plays) {
+      const playVars = new Set(getMapKeys(play.get("vars", true)));
+      const roles = play.get("roles", true);
+      for (const entry of isSeq(roles) ? roles.items : []) {
+        add(getRolesEntryInvocation(entry as Node, playVars));
+      }
+      const taskLists = ["pre_tasks", "tasks", "post_tasks", "handlers"]
+        .map((key) => play.get(key, true))
+        .filter(isSeq)
+        .map((taskList) => new Document(taskList));
+      getTaskMaps(taskLists).forEach((task) =>
+        add(getTaskInvocation(task, playVars)),
+      );
+    }
+  }
+  return invocations;
+}
+
+/**
+ * Finds the role whose arguments are given by the map containing the key
+ * at the end of `path`: a `roles:` entry, its `vars:` or the `vars:` of an
+ * `include_role`/`import_role` task.
+ */
+export function getRoleInvocationAt(path: Node[]): RoleInvocation | undefined {
+  const builder = new AncestryBuilder(path).parentOfKey();
+  const argumentsMap = builder.get();
+  if (!argumentsMap) {
+    return undefined;
+  }
+  if (builder.parent(YAMLSeq).parent(YAMLMap).getStringKey() === "roles") {
+    return getRolesEntryInvocation(argumentsMap, new Set());
+  }
+
+  const owner = new AncestryBuilder(path).parentOfKey().parent(YAMLMap);
+  if (owner.getStringKey() !== "vars") {
+    return undefined;
+  }
+  const ownerMap = owner.get();
+  const ownerPath = owner.getPath();
+  if (!ownerMap || !ownerPath) {
+    return undefined;
+  }
+  const rolesKey = new AncestryBuilder(ownerPath)
+    .parent(YAMLSeq)
+    .parent(YAMLMap)
+    .getStringKey();
+  return rolesKey === "roles"
+    ? getRolesEntryInvocation(ownerMap, new Set())
+    : getTaskInvocation(ownerMap, new Set());
+}
+
+function getRolesEntryInvocation(
+  entry: Node,
+  playVars: Set<string>,
+): RoleInvocation | undefined {
+  if (isScalar(entry)) {
+    return createInvocation(entry, "main", [], [], playVars);
+  }
+  if (!isMap(entry)) {
+    return undefined;
+  }
+  const roleNode = entry.get("role", true) ?? entry.get("name", true);
+  const params = entry.items.filter((pair) => {
+    const key = isScalar(pair.key) ? String(pair.key.value) : "";
+    return key !== "role" && !roleKeywords.has(key);
+  });
+  return createInvocation(
+    roleNode,
+    "main",
+    params,
+    getPairs(entry.get("vars", true)),
+    playVars,
+  );
+}
+
+function getTaskInvocation(
+  task: YAMLMap,
+  playVars: Set<string>,
+): RoleInvocation | undefined {
+  for (const pair of task.items) {
+    const action = isScalar(pair.key)
+      ? getShortActionName(String(pair.key.value))
+      : "";
+    if (roleIncludeActions.has(action) && isMap(pair.value)) {
+      const tasksFrom = pair.value.get("tasks_from");
+      const entryPoint =
+        typeof tasksFrom === "string"
+          ? path.basename(tasksFrom, path.extname(tasksFrom))
+          : "main";
+      return createInvocation(
+        pair.value.get("name", true),
+        entryPoint,
+        [],
+        getPairs(task.get("vars", true)),
+        playVars,
+      );
+    }
+  }
+  return undefined;
+}
+
+function createInvocation(
+  roleNode: unknown,
+  entryPoint: string,
+  params: Pair[],
+  vars: Pair[],
+  playVars: Set<string>,
+): RoleInvocation | undefined {
+  if (
+    !isScalar(roleNode) ||
+    typeof roleNode.value !== "string" ||
+    !roleNode.value ||
+    roleNode.value.includes("{{")
+  ) {
+    return undefined;
+  }
+  return {
+    roleName: roleNode.value,
+    roleNode,
+    entryPoint,
+    params,
+    vars,
+    playVars,
+  };
+}
+
+function getPairs(node: unknown): Pair[] {
+  return isMap(node) ? node.items : [];
+}
+
+function getMapKeys(node: unknown): string[] {
+  return getPairs(node)
+    .map((pair) => (isScalar(pair.key) ? String(pair.key.value) : ""))
+    .filter((key) => key);
+}
@@ -0,0 +1,374 @@
+import {
+  DocumentSymbol,
+  Range,
+  SymbolInformation,
+  SymbolKind,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, isMap, isScalar, isSeq, Node, YAMLMap } from "yaml";
+import { isTaskKeyword } from "./ansible";
+import { InventoryFile, InventoryName } from "./inventoryFile";
+import { toLspRange } from "./misc";
+import { getOrigRange, getYamlMapKeys, isPlayMap } from "./yaml";
+
+const taskSections = ["pre_tasks", "tasks", "post_tasks", "handlers"];
+const blockSections = ["rescue", "always"];
+
+export interface AnsibleSymbols {
+  /** Hierarchical outline of the document. */
+  documentSymbols: DocumentSymbol[];
+  /** Named tasks, handlers and roles for the workspace symbol index. */
+  workspaceSymbols: SymbolInformation[];
+}
+
+/**
+ * Builds the outline of a playbook, tasks, handlers or vars file together
+ * with the flat list of named entities it contributes to the workspace.
+ */
+export function collectSymbols(
+  document: TextDocument,
+  yamlDocs: Document[],
+): AnsibleSymbols {
+  const builder = new SymbolBuilder(document);
+  const inHandlersFile = /\/handlers\/[^/]+$/.test(document.uri);
+
+  for (const yamlDoc of yamlDocs) {
+    const contents = yamlDoc.contents;
+    if (isSeq(contents)) {
+      for (const item of contents.items) {
+        if (!isMap(item)) {
+          continue;
+        }
+        const symbol = isPlayMap(item)
+          ? builder.play(item)
+          : builder.task(item, inHandlersFile, undefined);
+        if (symbol) {
+          builder.documentSymbols.push(symbol);
+        }
+      }
+    } else if (isMap(contents)) {
+      builder.documentSymbols.push(...builder.variables(contents));
+    }
+  }
+
+  const roleMatch = /\/roles\/([^/]+)\/tasks\/main\.ya?ml$/.exec(document.uri);
+  if (roleMatch) {
+    builder.workspaceSymbols.push(
+      SymbolInformation.create(
+        decodeURIComponent(roleMatch[1]),
+        SymbolKind.Module,
+        Range.create(0, 0, 0, 0),
+        document.uri,
+        "roles",
+      ),
+    );
+  }
+
+  return {
+    documentSymbols: builder.documentSymbols,
+    workspaceSymbols: builder.workspaceSymbols,
+  };
+}
+
+class SymbolBuilder {
+  public documentSymbols: DocumentSymbol[] = [];
+  public workspaceSymbols: SymbolInformation[] = [];
+
+  constructor(private document: TextDocument) {}
+
+  public play(playNode: YAMLMap): DocumentSymbol | undefined {
+    const name =
+      getScalarString(playNode, "name") ??
+      `hosts: ${getScalarString(playNode, "hosts") ?? ""}`.trim();
+    const children: DocumentSymbol[] = [];
+
+    for (const pair of playNode.items) {
+      if (!isScalar(pair.key)) {
+        continue;
+      }
+      const key = String(pair.key.value);
+      const value = pair.value as Node | null;
+
+      if (key === "vars" && isMap(value)) {
+        children.push(
+          ...this.section(pair.key, value, SymbolKind.Object, () =>
+            this.variables(value),
+          ),
+        );
+      } else if (key === "roles" && isSeq(value)) {
+        children.push(
+          ...this.section(pair.key, value, SymbolKind.Array, () =>
+            this.roles(value),
+          ),
+        );
+      } else if (taskSections.includes(key) && isSeq(value)) {
+        children.push(
+          ...this.section(pair.key, value, SymbolKind.Array, () =>
+            this.tasks(value, key === "handlers", name),
+          ),
+        );
+      }
+    }
+
+    return this.symbol(playNode, name, SymbolKind.Class, playNode, children);
+  }
+
+  public task(
+    taskNode: YAMLMap,
+    isHandler: boolean,
+    containerName: string | undefined,
+  ): DocumentSymbol | undefined {
+    const keys = getYamlMapKeys(taskNode);
+    const taskName = getScalarString(taskNode, "name");
+    const nameNode = taskNode.get("name", true) as Node | undefined;
+
+    if (keys.includes("block")) {
+      const name = taskName ?? "block";
+      const children: DocumentSymbol[] = [];
+      children.push(...this.blockVariables(taskNode));
+      const blockNode = taskNode.get("block");
+      if (isSeq(blockNode)) {
+        children.push(...this.tasks(blockNode, isHandler, containerName));
+      }
+      for (const section of blockSections) {
+        const sectionNode = taskNode.get(section);
+        const keyNode = findKeyNode(taskNode, section);
+        if (isSeq(sectionNode) && keyNode) {
+          children.push(
+            ...this.section(keyNode, sectionNode, SymbolKind.Array, () =>
+              this.tasks(sectionNode, isHandler, containerName),
+            ),
+          );
+        }
+      }
+      return this.symbol(
+        taskNode,
+        name,
+        SymbolKind.Namespace,
+        nameNode ?? taskNode,
+        children,
+      );
+    }
+
+    const moduleName = keys.find((key) => !isTaskKeyword(key));
+    const name = taskName ?? moduleName ?? "task";
+    const kind = isHandler ? SymbolKind.Event : SymbolKind.Function;
+    const symbol = this.symbol(
+      taskNode,
+      name,
+      kind,
+      nameNode ?? findKeyNode(taskNode, moduleName) ?? taskNode,
+      this.blockVariables(taskNode),
+    );
+    if (symbol && taskName) {
+      symbol.detail = moduleName;
+      this.workspaceSymbols.push(
+        SymbolInformation.create(
+          taskName,
+          kind,
+          symbol.selectionRange,
+          this.document.uri,
+          containerName,
+        ),
+      );
+    }
+    return symbol;
+  }
+
+  public variables(varsNode: YAMLMap): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    for (const pair of varsNode.items) {
+      if (!isScalar(pair.key)) {
+        continue;
+      }
+      const symbol = this.symbol(
+        pair.key,
+        String(pair.key.value),
+        SymbolKind.Variable,
+        pair.key,
+        [],
+        pair.value as Node | null,
+      );
+      if (symbol) {
+        symbols.push(symbol);
+      }
+    }
+    return symbols;
+  }
+
+  private tasks(
+    listNode: Node,
+    isHandler: boolean,
+    containerName: string | undefined,
+  ): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    if (isSeq(listNode)) {
+      for (const item of listNode.items) {
+        const symbol = isMap(item)
+          ? this.task(item, isHandler, containerName)
+          : undefined;
+        if (symbol) {
+          symbols.push(symbol);
+        }
+      }
+    }
+    return symbols;
+  }
+
+  private roles(listNode: Node): DocumentSymbol[] {
+    const symbols: DocumentSymbol[] = [];
+    if (isSeq(listNode)) {
+      for (const item of listNode.items) {
+        const roleNode = isMap(item)
+          ? ((item.get("role", true) ?? item.get("name", true)) as Node)
+          : (item as Node);
+        if (isScalar(roleNode)) {
+          const symbol = this.symbol(
+            item as Node,
+            String(roleNode.value),
+            SymbolKind.Module,
+            roleNode,
+            [],
+          );
+          if (symbol) {
+            symbols.push(symbol);
+          }
+        }
+      }
+    }
+    return symbols;
+  }
+
+  private blockVariables(mapNode: YAMLMap): DocumentSymbol[] {
+    const varsNode = mapNode.get("vars");
+    const keyNode = findKeyNode(mapNode, "vars");
+    if (isMap(varsNode) && keyNode) {
+      return this.section(keyNode, varsNode, SymbolKind.Object, () =>
+        this.variables(varsNode),
+      );
+    }
+    return [];
+  }
+
+  private section(
+    keyNode: Node,
+    valueNode: Node,
+    kind: SymbolKind,
+    getChildren: () => DocumentSymbol[],
+  ): DocumentSymbol[] {
+    const symbol = this.symbol(
+      keyNode,
+      String(isScalar(keyNode) ? keyNode.value : ""),
+      kind,
+      keyNode,
+      getChildren(),
+      valueNode,
+    );
+    return symbol ? [symbol] : [];
+  }
+
+  private symbol(
+    node: Node,
+    name: string,
+    kind: SymbolKind,
+    selectionNode: Node,
+    children: DocumentSymbol[],
+    endNode?: Node | null,
+  ): DocumentSymbol | undefined {
+    const range = getOrigRange(node);
+    const selectionRange = getOrigRange(selectionNode);
+    if (!range || !selectionRange) {
+      return undefined;
+    }
+    const end = Math.max(range[1], getOrigRange(endNode)?.[1] ?? range[1]);
+    return DocumentSymbol.create(
+      name || "-",
+      undefined,
+      kind,
+      toLspRange([range[0], end], this.document),
+      toLspRange(selectionRange, this.document),
+      children,
+    );
+  }
+}
+
+/**
+ * Builds the outline of an inventory file: its groups with their hosts,
+ * child groups and variables. Hosts listed before the first section of an
+ * INI inventory are placed at the top level.
+ */
+export function collectInventorySymbols(
+  inventory: InventoryFile,
+): DocumentSymbol[] {
+  const symbols: DocumentSymbol[] = [];
+  for (const group of inventory.groups) {
+    const children = [
+      ...group.hosts.map((host) =>
+        DocumentSymbol.create(
+          host.name,
+          undefined,
+          SymbolKind.Object,
+          Range.create(
+            host.range.start,
+            host.vars[host.vars.length - 1]?.range.end ?? host.range.end,
+          ),
+          host.range,
+          host.vars.map(variableSymbol),
+        ),
+      ),
+      ...group.children.map((child) =>
+        DocumentSymbol.create(
+          child.name,
+          "child group",
+          SymbolKind.Namespace,
+          child.range,
+          child.range,
+        ),
+      ),
+      ...group.vars.map(variableSymbol),
+    ];
+    if (group.implicit) {
+      symbols.push(...children);
+    } else {
+      symbols.push(
+        DocumentSymbol.create(
+          group.name || "-",
+          group.section,
+          SymbolKind.Namespace,
+          group.fullRange,
+          group.range,
+          children,
+        ),
+      );
+    }
+  }
+  return symbols;
+}
+
+function variableSymbol(variable: InventoryName): DocumentSymbol {
+  return DocumentSymbol.create(
+    variable.name,
+    undefined,
+    SymbolKind.Variable,
+    variable.range,
+    variable.range,
+  );
+}
+
+function getScalarString(mapNode: YAMLMap, key: string): string | undefined {
+  const node = mapNode.get(key, true);
+  if (isScalar(node) && node.value !== null && node.value !== undefined) {
+    return String(node.value);
+  }
+  return undefined;
+}
+
+function findKeyNode(
+  mapNode: YAMLMap,
+  key: string | undefined,
+): Node | undefined {
+  const pair = mapNode.items.find(
+    (p) => isScalar(p.key) && p.key.value === key,
+  );
+  return pair?.key as Node | undefined;
+}
@@ -0,0 +1,246 @@
+import { Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  Document,
+  isMap,
+  isPair,
+  isScalar,
+  isSeq,
+  Node,
+  Scalar,
+  visit,
+  YAMLMap,
+} from "yaml";
+import { isTaskKeyword } from "./ansible";
+import { toLspRange } from "./misc";
+import { getShortActionName } from "./references";
+import { getOrigRange, getYamlMapKeys, isPlayMap } from "./yaml";
+
+/** Tags with a special meaning to Ansible. */
+export const specialTags = new Set([
+  "all",
+  "always",
+  "never",
+  "tagged",
+  "untagged",
+]);
+
+/**
+ * A task, or a role applied by a play, with the tags that select it: its
+ * own and those inherited from its blocks, play or importing task.
+ */
+export interface TaggedTask {
+  name: string;
+  uri: string;
+  range: Range;
+  tags: string[];
+}
+
+/**
+ * A role or tasks file run by a document, with the tags its tasks inherit.
+ * Dynamic includes (`include_tasks`, `include_role`) pass no tags on.
+ */
+export interface TaskFileReference {
+  name: string;
+  /** Keyword that runs the file, e.g. `roles` or `import_tasks`. */
+  keyword: string;
+  tags: string[];
+}
+
+export interface DocumentTags {
+  tasks: TaggedTask[];
+  references: TaskFileReference[];
+}
+
+const taskFileKeywords = new Set([
+  "include",
+  "include_tasks",
+  "import_tasks",
+  "import_playbook",
+]);
+
+const roleIncludeKeywords = new Set(["include_role", "import_role"]);
+
+/**
+ * Tells whether the path leads to a value listed under `tags:`.
+ */
+export function isTagValue(path: Node[]): boolean {
+  const parent = path[path.length - 2];
+  const pair = isSeq(parent) ? path[path.length - 3] : parent;
+  return (
+    isPair(pair) &&
+    isScalar(pair.key) &&
+    pair.key.value === "tags" &&
+    pair.key !== path[path.length - 1]
+  );
+}
+
+/**
+ * Collects the scalars listed under `tags:` anywhere in the documents.
+ */
+export function collectTagNodes(yamlDocs: Document[]): Scalar<string>[] {
+  const tags: Scalar<string>[] = [];
+  const addTag = (node: unknown) => {
+    if (isScalar(node) && typeof node.value === "string") {
+      tags.push(node as Scalar<string>);
+    }
+  };
+  for (const yamlDoc of yamlDocs) {
+    visit(yamlDoc, {
+      Pair(_, pair) {
+        if (!isScalar(pair.key) || pair.key.value !== "tags") {
+          return;
+        }
+        if (isSeq(pair.value)) {
+          pair.value.items.forEach(addTag);
+        } else {
+          addTag(pair.value);
+        }
+      },
+    });
+  }
+  return tags;
+}
+
+/**
+ * Collects the tasks of a playbook or tasks file that tags select, along
+ * with the roles and tasks files it runs. Handlers are left out since tags
+ * do not select them.
+ *
+ * @param inheritedTags - tags applying to the whole document, such as those
+ * of the task importing it
+ */
+export function collectTaggedTasks(
+  document: TextDocument,
+  yamlDocs: Document[],
+  inheritedTags: string[] = [],
+): DocumentTags {
+  const collector = new TagCollector(document);
+  for (const yamlDoc of yamlDocs) {
+    if (!isSeq(yamlDoc.contents)) {
+      continue;
+    }
+    for (const item of yamlDoc.contents.items) {
+      if (!isMap(item)) {
+        continue;
+      }
+      if (isPlayMap(item)) {
+        collector.play(item, inheritedTags);
+      } else {
+        collector.task(item, inheritedTags);
+      }
+    }
+  }
+  return { tasks: collector.tasks, references: collector.references };
+}
+
+class TagCollector {
+  public tasks: TaggedTask[] = [];
+  public references: TaskFileReference[] = [];
+
+  constructor(private document: TextDocument) {}
+
+  public play(playNode: YAMLMap, inheritedTags: string[]): void {
+    const tags = mergeTags(inheritedTags, playNode);
+    const roles = playNode.get("roles", true);
+    if (isSeq(roles)) {
+      for (const entry of roles.items) {
+        const roleNode = isMap(entry)
+          ? (entry.get("role", true) ?? entry.get("name", true))
+          : entry;
+        if (!isScalar(roleNode) || typeof roleNode.value !== "string") {
+          continue;
+        }
+        const roleTags = isMap(entry) ? mergeTags(tags, entry) : tags;
+        this.push(`role ${roleNode.value}`, entry as Node, roleTags);
+        this.references.push({
+          name: roleNode.value,
+          keyword: "roles",
+          tags: roleTags,
+        });
+      }
+    }
+    for (const key of ["pre_tasks", "tasks", "post_tasks"]) {
+      this.taskList(playNode.get(key, true), tags);
+    }
+  }
+
+  public task(taskNode: YAMLMap, inheritedTags: string[]): void {
+    const tags = mergeTags(inheritedTags, taskNode);
+    if (taskNode.has("block")) {
+      for (const key of ["block", "rescue", "always"]) {
+        this.taskList(taskNode.get(key, true), tags);
+      }
+      return;
+    }
+
+    const moduleName = getYamlMapKeys(taskNode).find(
+      (key) => !isTaskKeyword(key),
+    );
+    const action = moduleName && getShortActionName(moduleName);
+    const name = taskNode.get("name");
+    this.push(
+      typeof name === "string" ? name : (action ?? "task"),
+      taskNode,
+      tags,
+    );
+
+    const value = moduleName ? taskNode.get(moduleName, true) : undefined;
+    let target: unknown;
+    if (action && taskFileKeywords.has(action)) {
+      target = isMap(value) ? value.get("file", true) : value;
+    } else if (action && roleIncludeKeywords.has(action) && isMap(value)) {
+      target = value.get("name", true);
+    }
+    if (action && isScalar(target) && typeof target.value === "string") {
+      this.references.push({
+        name: target.value,
+        keyword: action,
+        tags: action.startsWith("import") ? tags : [],
+      });
+    }
+  }
+
+  private taskList(node: unknown, inheritedTags: string[]): void {
+    if (!isSeq(node)) {
+      return;
+    }
+    for (const item of node.items) {
+      if (isMap(item)) {
+        this.task(item, inheritedTags);
+      }
+    }
+  }
+
+  private push(name: string, node: Node, tags: string[]): void {
+    const range = getOrigRange(node);
+    if (tags.length && range) {
+      this.tasks.push({
+        name,
+        uri: this.document.uri,
+        range: toLspRange(range, this.document),
+        tags,
+      });
+    }
+  }
+}
+
+/**
+ * Adds the tags of a play, role entry, block or task to the inherited ones.
+ * Tags may be given as a list or as a comma separated string.
+ */
+function mergeTags(inheritedTags: string[], node: YAMLMap): string[] {
+  const value = node.get("tags", true);
+  const items = isSeq(value) ? value.items : [value];
+  const tags = new Set(inheritedTags);
+  for (const item of items) {
+    if (isScalar(item) && item.value !== null && item.value !== undefined) {
+      String(item.value)
+        .split(",")
+        .map((tag) => tag.trim())
+        .filter((tag) => tag)
+        .forEach((tag) => tags.add(tag));
+    }
+  }
+  return [...tags];
+}
@@ -0,0 +1,281 @@
+import { Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Document, isMap, isScalar, isSeq, Node, Pair, YAMLMap } from "yaml";
+import { roleKeywords } from "./ansible";
+import { toLspRange } from "./misc";
+import { getShortActionName } from "./references";
+import {
+  getOrigRange,
+  getScalarTextRange,
+  getTaskMaps,
+  isPlayMap,
+} from "./yaml";
+
+export type VariableSource =
+  | "role_defaults"
+  | "group_vars"
+  | "host_vars"
+  | "vars_file"
+  | "vars_prompt"
+  | "vars"
+  | "role_vars"
+  | "role_param"
+  | "include_vars"
+  | "set_fact"
+  | "register"
+  | "loop_var";
+
+/**
+ * A place where a variable gets a value: a key of a vars file or `vars`
+ * section, a `set_fact` argument, a `register` name and the like.
+ */
+export interface VariableDefinition {
+  name: string;
+  source: VariableSource;
+  uri: string;
+  range: Range;
+  /** YAML source of the assigned value, when known. */
+  value?: string;
+}
+
+/**
+ * Variables provided by Ansible itself. Names starting with `ansible_` are
+ * treated the same way.
+ */
+export const specialVariables = new Set([
+  "environment",
+  "group_names",
+  "groups",
+  "hostvars",
+  "inventory_dir",
+  "inventory_file",
+  "inventory_hostname",
+  "inventory_hostname_short",
+  "item",
+  "omit",
+  "play_hosts",
+  "playbook_dir",
+  "role_name",
+  "role_names",
+  "role_path",
+  "vars",
+]);
+
+/** Variable sources from lowest to highest precedence. */
+const sourcePrecedence: VariableSource[] = [
+  "role_defaults",
+  "group_vars",
+  "host_vars",
+  "vars",
+  "vars_prompt",
+  "vars_file",
+  "role_vars",
+  "role_param",
+  "loop_var",
+  "include_vars",
+  "set_fact",
+  "register",
+];
+
+const maxValueLines = 15;
+
+export function isSpecialVariable(name: string): boolean {
+  return specialVariables.has(name) || name.startsWith("ansible_");
+}
+
+/**
+ * Tells which kind of variables file the path points at, judging from the
+ * `group_vars`, `host_vars` and role directory layout.
+ */
+export function getVariableFileSource(
+  filePath: string,
+): VariableSource | undefined {
+  if (/\/group_vars\//.test(filePath)) {
+    return "group_vars";
+  }
+  if (/\/host_vars\//.test(filePath)) {
+    return "host_vars";
+  }
+  if (/\/roles\/[^/]+\/defaults\//.test(filePath)) {
+    return "role_defaults";
+  }
+  if (/\/roles\/[^/]+\/vars\//.test(filePath)) {
+    return "role_vars";
+  }
+  return undefined;
+}
+
+/**
+ * Orders definitions from the highest to the lowest Ansible precedence.
+ */
+export function sortByPrecedence(
+  definitions: VariableDefinition[],
+): VariableDefinition[] {
+  return [...definitions].sort(
+    (a, b) =>
+      sourcePrecedence.indexOf(b.source) - sourcePrecedence.indexOf(a.source),
+  );
+}
+
+/**
+ * Collects the variables defined by a document. When `fileSource` is given,
+ * the document is a variables file and its top-level keys are returned;
+ * otherwise the plays and tasks of the document are searched for `vars`,
+ * `vars_prompt`, role parameters, `set_fact`, `include_vars`, `register` and
+ * `loop_var`.
+ */
+export function collectVariableDefinitions(
+  document: TextDocument,
+  yamlDocs: Document[],
+  fileSource?: VariableSource,
+): VariableDefinition[] {
+  const collector = new DefinitionCollector(document);
+  if (fileSource) {
+    for (const yamlDoc of yamlDocs) {
+      collector.addMapKeys(yamlDoc.contents as Node | null, fileSource);
+    }
+    return collector.definitions;
+  }
+
+  for (const yamlDoc of yamlDocs) {
+    if (!isSeq(yamlDoc.contents)) {
+      continue;
+    }
+    for (const item of yamlDoc.contents.items) {
+      if (isMap(item) && isPlayMap(item)) {
+        collector.addPlay(item);
+      }
+    }
+  }
+  for (const task of getTaskMaps(yamlDocs, true)) {
+    collector.addTask(task);
+  }
+  return collector.definitions;
+}
+
+class DefinitionCollector {
+  public definitions: VariableDefinition[] = [];
+  private document: TextDocument;
+
+  constructor(document: TextDocument) {
+    this.document = document;
+  }
+
+  public addPlay(playNode: YAMLMap): void {
+    this.addMapKeys(playNode.get("vars", true) as Node | undefined, "vars");
+
+    const varsPrompt = playNode.get("vars_prompt", true);
+    if (isSeq(varsPrompt)) {
+      for (const entry of varsPrompt.items) {
+        if (isMap(entry)) {
+          this.addScalar(entry.get("name", true), "vars_prompt");
+        }
+      }
+    }
+
+    const roles = playNode.get("roles", true);
+    if (isSeq(roles)) {
+      for (const roleEntry of roles.items) {
+        if (!isMap(roleEntry)) {
+          continue;
+        }
+        this.addMapKeys(
+          roleEntry.get("vars", true) as Node | undefined,
+          "vars",
+        );
+        for (const pair of roleEntry.items) {
+          const key = isScalar(pair.key) ? String(pair.key.value) : "";
+          if (key !== "role" && !roleKeywords.has(key)) {
+            this.addPair(pair, "role_param");
+          }
+        }
+      }
+    }
+  }
+
+  public addTask(taskNode: YAMLMap): void {
+    this.addMapKeys(taskNode.get("vars", true) as Node | undefined, "vars");
+    this.addScalar(taskNode.get("register", true), "register");
+
+    const loopControl = taskNode.get("loop_control", true);
+    if (isMap(loopControl)) {
+      this.addScalar(loopControl.get("loop_var", true), "loop_var");
+    }
+
+    for (const pair of taskNode.items) {
+      const action = isScalar(pair.key)
+        ? getShortActionName(String(pair.key.value))
+        : "";
+      if (action === "set_fact" && isMap(pair.value)) {
+        for (const argument of pair.value.items) {
+          if (isScalar(argument.key) && argument.key.value !== "cacheable") {
+            this.addPair(argument, "set_fact");
+          }
+        }
+      } else if (action === "include_vars" && isMap(pair.value)) {
+        this.addScalar(pair.value.get("name", true), "include_vars");
+      }
+    }
+  }
+
+  public addMapKeys(node: Node | null | undefined, source: VariableSource) {
+    if (isMap(node)) {
+      for (const pair of node.items) {
+        this.addPair(pair, source);
+      }
+    } else if (isSeq(node)) {
+      // `vars` may also be given as a list of mappings
+      for (const item of node.items) {
+        this.addMapKeys(item as Node, source);
+      }
+    }
+  }
+
+  private addPair(pair: Pair, source: VariableSource): void {
+    if (!isScalar(pair.key) || typeof pair.key.value !== "string") {
+      return;
+    }
+    const keyRange = getScalarTextRange(pair.key);
+    if (!keyRange) {
+      return;
+    }
+    this.definitions.push({
+      name: pair.key.value,
+      source,
+      uri: this.document.uri,
+      range: toLspRange(keyRange, this.document),
+      value: this.getValueSource(pair.value as Node | null),
+    });
+  }
+
+  private addScalar(node: unknown, source: VariableSource): void {
+    if (!isScalar(node) || typeof node.value !== "string" || !node.value) {
+      return;
+    }
+    const range = getScalarTextRange(node);
+    if (range && !node.value.includes("{{")) {
+      this.definitions.push({
+        name: node.value,
+        source,
+        uri: this.document.uri,
+        range: toLspRange(range, this.document),
+      });
+    }
+  }
+
+  private getValueSource(node: Node | null): string | undefined {
+    const range = node && getOrigRange(node);
+    if (!range) {
+      return undefined;
+    }
+    const lines = this.document
+      .getText()
+      .slice(range[0], range[1])
+      .trimEnd()
+      .split("\n");
+    if (lines.length > maxValueLines) {
+      return [...lines.slice(0, maxValueLines), "..."].join("\n");
+    }
+    return lines.join("\n");
+  }
+}
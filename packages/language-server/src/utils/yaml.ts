@@ -11,6 +11,7 @@ import {
   Pair,
   parseDocument,
   ParseOptions,
+  Scalar,
   Schema,
   SchemaOptions,
   YAMLMap,
@@ -300,6 +301,53 @@ export function isPlayParam(
   }
 }
 
+/**
+ * Returns whether the map contains a keyword only valid at play level.
+ */
+export function isPlayMap(mapNode: YAMLMap): boolean {
+  return getYamlMapKeys(mapNode).some((key) => playExclusiveKeywords.has(key));
+}
+
+/**
+ * Collects the task maps of a playbook or tasks file, descending into the
+ * task lists of plays and into blocks. Blocks themselves are only returned
+ * when `includeBlocks` is set.
+ */
+export function getTaskMaps(
+  yamlDocs: Document[],
+  includeBlocks = false,
+): YAMLMap[] {
+  const tasks: YAMLMap[] = [];
+  const visit = (node: unknown, isPlayLevel: boolean) => {
+    if (!isSeq(node)) {
+      return;
+    }
+    for (const item of node.items) {
+      if (!isMap(item)) {
+        continue;
+      }
+      if (isPlayLevel && isPlayMap(item)) {
+        for (const key of ["pre_tasks", "tasks", "post_tasks", "handlers"]) {
+          visit(item.get(key), false);
+        }
+      } else if (item.has("block")) {
+        if (includeBlocks) {
+          tasks.push(item);
+        }
+        for (const key of ["block", "rescue", "always"]) {
+          visit(item.get(key), false);
+        }
+      } else {
+        tasks.push(item);
+      }
+    }
+  };
+  for (const yamlDoc of yamlDocs) {
+    visit(yamlDoc.contents, true);
+  }
+  return tasks;
+}
+
 export function isBlockParam(path: Node[]): boolean {
   const builder = new AncestryBuilder(path).parentOfKey();
   const mapNode = builder.get();
@@ -469,6 +517,23 @@ export function getOrigRange(
   return undefined;
 }
 
+/**
+ * Returns the range of the text of a scalar, without the quotes of quoted
+ * scalars.
+ */
+export function getScalarTextRange(
+  node: Scalar,
+): [number, number] | undefined {
+  const range = getOrigRange(node);
+  if (
+    range &&
+    (node.type === Scalar.QUOTE_DOUBLE || node.type === Scalar.QUOTE_SINGLE)
+  ) {
+    return [range[0] + 1, range[1] - 1];
+  }
+  return range;
+}
+
 export function parseAllDocuments(str: string, options?: Options): Document[] {
   if (!str) {
     return [];
@@ -507,6 +572,61 @@ export function isPlaybook(textDocument: TextDocument): boolean {
   return [...playbookKeysSet].some((r) => filteredList.includes(r));
 }
 
+export type InventoryFormat = "ini" | "yaml";
+
+const inventoryGroupKeys = new Set(["hosts", "children", "vars"]);
+
+/**
+ * Tells whether the document is an inventory file and in which format. INI
+ * inventories are recognized by their language or `.ini` extension, or by
+ * living in an `inventory` directory without an extension. YAML inventories
+ * are recognized by their groups of `hosts`, `children` and `vars`.
+ */
+export function getInventoryFormat(
+  textDocument: TextDocument,
+): InventoryFormat | undefined {
+  if (isIniInventory(textDocument)) {
+    return "ini";
+  }
+  return isYamlInventory(textDocument) ? "yaml" : undefined;
+}
+
+/**
+ * Tells whether the document is an INI inventory, judging from its language
+ * and path only.
+ */
+export function isIniInventory(textDocument: TextDocument): boolean {
+  const uriPath = textDocument.uri.replace(/[?#].*$/, "");
+  return (
+    textDocument.languageId === "ini" ||
+    /\.ini$/i.test(uriPath) ||
+    (/\/inventor(y|ies)\/(.*\/)?[^./]+$/.test(uriPath) &&
+      !/\/(group|host)_vars\//.test(uriPath))
+  );
+}
+
+function isYamlInventory(textDocument: TextDocument): boolean {
+  const [yamlDoc] = parseAllDocuments(textDocument.getText());
+  if (!isMap(yamlDoc?.contents) || !yamlDoc.contents.items.length) {
+    return false;
+  }
+  let hasGroupKeys = false;
+  for (const { value } of yamlDoc.contents.items) {
+    if (value === null || (isScalar(value) && value.value === null)) {
+      continue;
+    }
+    if (!isMap(value)) {
+      return false;
+    }
+    const keys = getYamlMapKeys(value);
+    if (!keys.every((key) => inventoryGroupKeys.has(key))) {
+      return false;
+    }
+    hasGroupKeys ||= keys.length > 0;
+  }
+  return hasGroupKeys;
+}
+
 export function isCursorInsideJinjaBrackets(
   document: TextDocument,
   position: Position,
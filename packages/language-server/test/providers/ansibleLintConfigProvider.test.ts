@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  CreateFile,
+  Diagnostic,
+  DiagnosticSeverity,
+  MarkupContent,
+  TextDocumentEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import {
+  doLintConfigCompletion,
+  getLintConfigHover,
+  getLintConfigValidation,
+  getLintDiagnosticHover,
+  getLintRuleItems,
+  getRuleListActions,
+  getToggleRuleEdit,
+  isAnsibleLintConfig,
+} from "../../src/providers/ansibleLintConfigProvider";
+import { LintRule } from "../../src/utils/lintRules";
+
+const rules = new Map<string, LintRule>([
+  [
+    "name",
+    {
+      id: "name",
+      shortdesc: "Rule for checking task and play names.",
+      description: "All tasks should be named.",
+      url: "https://ansible.readthedocs.io/projects/lint/rules/name/",
+      profile: "basic",
+    },
+  ],
+  [
+    "no-changed-when",
+    {
+      id: "no-changed-when",
+      shortdesc: "Commands should not change things if nothing needs doing.",
+      description: "",
+    },
+  ],
+]);
+
+function configDocument(lines: string[]): TextDocument {
+  return TextDocument.create(
+    "file:///ws/.ansible-lint",
+    "yaml",
+    1,
+    lines.join("\n"),
+  );
+}
+
+function lintDiagnostic(code: string, line: number): Diagnostic {
+  return {
+    message: `${code} problem`,
+    range: {
+      start: { line, character: 4 },
+      end: { line, character: 2147483647 },
+    },
+    severity: DiagnosticSeverity.Error,
+    source: "ansible-lint",
+    code,
+  };
+}
+
+describe("isAnsibleLintConfig", () => {
+  it("recognizes the configuration files of ansible-lint", () => {
+    expect(isAnsibleLintConfig("file:///ws/.ansible-lint")).toBe(true);
+    expect(isAnsibleLintConfig("file:///ws/.config/ansible-lint.yml")).toBe(
+      true,
+    );
+    expect(isAnsibleLintConfig("file:///ws/ansible-lint.yml")).toBe(false);
+  });
+});
+
+describe("doLintConfigCompletion", () => {
+  it("completes the options not set yet", () => {
+    const document = configDocument(["profile: basic", "sk"]);
+    const items = doLintConfigCompletion(
+      document,
+      { line: 1, character: 2 },
+      rules,
+    );
+    const labels = items.map((item) => item.label);
+    expect(labels).toContain("skip_list");
+    expect(labels).not.toContain("profile");
+    expect(items.find((item) => item.label === "skip_list")?.textEdit).toEqual({
+      range: {
+        start: { line: 1, character: 0 },
+        end: { line: 1, character: 2 },
+      },
+      newText: "skip_list:\n  - ",
+    });
+  });
+
+  it("completes rules and tags in rule lists and profile names", () => {
+    const document = configDocument([
+      "skip_list:",
+      "  - yaml",
+      "  - no-ch",
+      "profile: ",
+    ]);
+    const items = doLintConfigCompletion(
+      document,
+      { line: 2, character: 9 },
+      rules,
+    );
+    expect(items.map((item) => item.label)).toEqual(
+      expect.arrayContaining(["name", "no-changed-when", "yaml", "idiom"]),
+    );
+    expect(items[1].textEdit).toEqual({
+      range: {
+        start: { line: 2, character: 4 },
+        end: { line: 2, character: 9 },
+      },
+      newText: "no-changed-when",
+    });
+
+    const profiles = doLintConfigCompletion(
+      document,
+      { line: 3, character: 9 },
+      rules,
+    );
+    expect(profiles.map((item) => item.label)).toEqual([
+      "min",
+      "basic",
+      "moderate",
+      "safety",
+      "shared",
+      "production",
+    ]);
+  });
+});
+
+describe("getLintConfigValidation", () => {
+  it("reports unknown options, wrong types, profiles and rules", () => {
+    const document = configDocument([
+      "profile: strictest",
+      "skip_list: yaml",
+      "warn_list:",
+      "  - name[casing]",
+      "  - experimental",
+      "  - no-such-rule",
+      "offline: true",
+      "exclude_pathz: []",
+      "",
+    ]);
+    const diagnostics = getLintConfigValidation(document, rules);
+    expect(
+      diagnostics.map((d) => [d.range.start.line, d.severity, d.message]),
+    ).toEqual([
+      [
+        0,
+        DiagnosticSeverity.Error,
+        "Unknown profile 'strictest', expected one of min, basic, moderate, safety, shared, production.",
+      ],
+      [1, DiagnosticSeverity.Error, "'skip_list' should be a list."],
+      [
+        5,
+        DiagnosticSeverity.Warning,
+        "Unknown ansible-lint rule or tag 'no-such-rule'.",
+      ],
+      [
+        7,
+        DiagnosticSeverity.Warning,
+        "Unknown ansible-lint option 'exclude_pathz'.",
+      ],
+    ]);
+  });
+
+  it("does not check rules before they are known", () => {
+    const document = configDocument(["skip_list:", "  - no-such-rule", ""]);
+    expect(getLintConfigValidation(document, new Map())).toEqual([]);
+  });
+});
+
+describe("lint rule hovers", () => {
+  const context = {
+    ansibleLintRules: { getRules: async () => rules },
+  } as never;
+
+  it("documents rules listed in the configuration", () => {
+    const document = configDocument(["warn_list:", "  - name[casing]", ""]);
+    const hover = getLintConfigHover(
+      document,
+      { line: 1, character: 6 },
+      rules,
+    );
+    expect((hover?.contents as MarkupContent).value).toContain(
+      "**name[casing]** — Rule for checking task and play names.",
+    );
+    expect(
+      getLintConfigHover(document, { line: 0, character: 2 }, rules)?.contents,
+    ).toEqual({
+      kind: "markdown",
+      value:
+        "**warn_list** (list)\n\nRules and tags reported as warnings, not failing the run.",
+    });
+  });
+
+  it("documents the rules of the ansible-lint diagnostics at the position", async () => {
+    const diagnostics = [
+      lintDiagnostic("name[missing]", 3),
+      lintDiagnostic("no-changed-when", 3),
+      lintDiagnostic("name[casing]", 5),
+      { ...lintDiagnostic("yaml", 3), source: "Ansible [YAML]" },
+    ];
+    const markdown = await getLintDiagnosticHover(
+      diagnostics,
+      { line: 3, character: 8 },
+      context,
+    );
+    expect(markdown?.split("\n\n---\n\n").map((s) => s.split("\n")[0])).toEqual(
+      [
+        "**name[missing]** — Rule for checking task and play names.",
+        "**no-changed-when** — Commands should not change things if nothing needs doing.",
+      ],
+    );
+    expect(
+      await getLintDiagnosticHover(
+        diagnostics,
+        { line: 3, character: 2 },
+        context,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("rule list edits", () => {
+  let root: string;
+
+  function mockContext() {
+    return {
+      workspaceFolder: { uri: URI.file(root).toString() },
+      ansibleLint: {
+        findAnsibleLintConfigFile: async () => {
+          const file = path.join(root, ".ansible-lint");
+          return fs.existsSync(file) ? file : undefined;
+        },
+      },
+      ansibleLintRules: { getRules: async () => rules },
+    } as never;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "lint-config-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("toggles rules in the lists of the configuration file", async () => {
+    fs.writeFileSync(
+      path.join(root, ".ansible-lint"),
+      "skip_list:\n  - name[missing]\n",
+    );
+    const document = TextDocument.create(
+      URI.file(path.join(root, "site.yml")).toString(),
+      "ansible",
+      1,
+      "",
+    );
+    const diagnostics = [
+      lintDiagnostic("name[missing]", 1),
+      lintDiagnostic("name[missing]", 4),
+    ];
+    const actions = await getRuleListActions(
+      document,
+      diagnostics,
+      mockContext(),
+    );
+    expect(actions.map((action) => action.title)).toEqual([
+      'Remove "name[missing]" from skip_list in .ansible-lint',
+      'Add "name[missing]" to warn_list in .ansible-lint',
+    ]);
+    const configUri = URI.file(path.join(root, ".ansible-lint")).toString();
+    expect(actions[1].edit?.changes?.[configUri][0].newText).toBe(
+      "warn_list:\n  - name[missing]\n",
+    );
+  });
+
+  it("creates the configuration file when there is none", async () => {
+    const document = TextDocument.create(
+      URI.file(path.join(root, "site.yml")).toString(),
+      "ansible",
+      1,
+      "",
+    );
+    const [skip] = await getRuleListActions(
+      document,
+      [lintDiagnostic("yaml[truthy]", 0)],
+      mockContext(),
+    );
+    const [create, edit] = skip.edit?.documentChanges ?? [];
+    expect(CreateFile.is(create)).toBe(true);
+    expect((edit as TextDocumentEdit).edits[0].newText).toBe(
+      "skip_list:\n  - yaml[truthy]\n",
+    );
+    expect(
+      await getRuleListActions(
+        document,
+        [{ ...lintDiagnostic("yaml", 0), source: "Ansible [YAML]" }],
+        mockContext(),
+      ),
+    ).toEqual([]);
+  });
+
+  it("lists the rules with the list they are in", async () => {
+    fs.writeFileSync(
+      path.join(root, ".ansible-lint"),
+      "warn_list:\n  - no-changed-when\n",
+    );
+    expect(
+      await getLintRuleItems(URI.file(root).toString(), mockContext()),
+    ).toEqual([
+      {
+        id: "name",
+        shortdesc: "Rule for checking task and play names.",
+        list: undefined,
+      },
+      {
+        id: "no-changed-when",
+        shortdesc: "Commands should not change things if nothing needs doing.",
+        list: "warn_list",
+      },
+    ]);
+  });
+
+  it("toggles a rule picked from the list", async () => {
+    fs.writeFileSync(
+      path.join(root, ".ansible-lint"),
+      "warn_list:\n  - no-changed-when\n",
+    );
+    const edit = await getToggleRuleEdit(
+      URI.file(root).toString(),
+      "no-changed-when",
+      "skip_list",
+      mockContext(),
+    );
+    const configUri = URI.file(path.join(root, ".ansible-lint")).toString();
+    expect(edit.changes?.[configUri][0].newText).toBe(
+      "skip_list:\n  - no-changed-when\n",
+    );
+  });
+});
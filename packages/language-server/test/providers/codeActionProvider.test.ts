@@ -0,0 +1,260 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  CodeAction,
+  CodeActionKind,
+  Diagnostic,
+  Range,
+  TextEdit,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  doCodeActionResolve,
+  doCodeActions,
+  lintFixAllTitle,
+} from "../../src/providers/codeActionProvider";
+
+function mockContext(lintEnabled = true, fixed?: string) {
+  return {
+    documentSettings: {
+      get: vi.fn().mockResolvedValue({
+        validation: { enabled: true, lint: { enabled: lintEnabled } },
+      }),
+    },
+    ansibleLint: {
+      fix: vi.fn().mockResolvedValue(fixed),
+      findAnsibleLintConfigFile: vi.fn().mockResolvedValue(undefined),
+    },
+    workspaceFolder: { uri: "file:///nonexistent-ws" },
+  };
+}
+
+function mockCollections(modules: Record<string, string[]> = {}) {
+  return {
+    getCollection: vi.fn((name: string) => modules[name] && { name }),
+    getPlugins: vi.fn((collection: string) =>
+      (modules[collection] ?? []).map((name) => ({ name })),
+    ),
+  };
+}
+
+async function actionsAt(
+  content: string,
+  line: number,
+  diagnostics: Diagnostic[] = [],
+  only?: string[],
+  modules: Record<string, string[]> = {
+    "ansible.builtin": ["copy", "debug"],
+    "community.general": ["ufw"],
+  },
+) {
+  const document = TextDocument.create("file:///t.yml", "ansible", 1, content);
+  const actions = await doCodeActions(
+    document,
+    {
+      textDocument: { uri: document.uri },
+      range: Range.create(line, 0, line, 0),
+      context: { diagnostics, only },
+    },
+    mockContext() as never,
+    mockCollections(modules) as never,
+  );
+  return { document, actions };
+}
+
+function applyEdits(document: TextDocument, action: CodeAction): string {
+  const edits = action.edit?.changes?.[document.uri] as TextEdit[];
+  return TextDocument.applyEdits(document, edits);
+}
+
+describe("doCodeActions", () => {
+  it("converts short builtin module names to FQCN", async () => {
+    const { document, actions } = await actionsAt(
+      "- name: Copy\n  copy:\n    src: a\n",
+      1,
+    );
+    const action = actions.find((a) => a.title.startsWith("Use FQCN"));
+    expect(action?.title).toBe('Use FQCN "ansible.builtin.copy"');
+    expect(applyEdits(document, action as CodeAction)).toBe(
+      "- name: Copy\n  ansible.builtin.copy:\n    src: a\n",
+    );
+  });
+
+  it("does not offer FQCN for modules outside ansible.builtin", async () => {
+    const { actions } = await actionsAt("- name: Open\n  ufw:\n", 1);
+    expect(actions.some((a) => a.title.startsWith("Use FQCN"))).toBe(false);
+  });
+
+  it("does not offer FQCN when the builtin modules are unknown", async () => {
+    const { actions } = await actionsAt(
+      "- name: Copy\n  copy:\n    src: a\n",
+      1,
+      [],
+      undefined,
+      {},
+    );
+    expect(actions.some((a) => a.title.startsWith("Use FQCN"))).toBe(false);
+  });
+
+  it("does not offer FQCN when a declared collection has the module", async () => {
+    const { actions } = await actionsAt(
+      [
+        "- hosts: all",
+        "  collections:",
+        "    - community.general",
+        "  tasks:",
+        "    - name: Copy",
+        "      copy:",
+        "",
+      ].join("\n"),
+      5,
+      [],
+      undefined,
+      {
+        "ansible.builtin": ["copy"],
+        "community.general": ["copy"],
+      },
+    );
+    expect(actions.some((a) => a.title.startsWith("Use FQCN"))).toBe(false);
+  });
+
+  it("offers FQCN when declared collections do not have the module", async () => {
+    const { actions } = await actionsAt(
+      [
+        "- hosts: all",
+        "  collections:",
+        "    - community.general",
+        "  tasks:",
+        "    - name: Copy",
+        "      copy:",
+        "",
+      ].join("\n"),
+      5,
+    );
+    expect(actions.some((a) => a.title.startsWith("Use FQCN"))).toBe(true);
+  });
+
+  it("adds a missing task name", async () => {
+    const { document, actions } = await actionsAt(
+      "- ansible.builtin.debug:\n    msg: hi\n",
+      0,
+    );
+    const action = actions.find((a) => a.title === "Add a name to this task");
+    expect(applyEdits(document, action as CodeAction)).toBe(
+      "- name: Run debug\n  ansible.builtin.debug:\n    msg: hi\n",
+    );
+  });
+
+  it("moves name first and block sections last", async () => {
+    const { document, actions } = await actionsAt(
+      [
+        "- block:",
+        "    - ansible.builtin.debug:",
+        "  when: true",
+        "  name: Group",
+        "",
+      ].join("\n"),
+      0,
+    );
+    const action = actions.find((a) => a.title === "Fix task key order");
+    expect(applyEdits(document, action as CodeAction)).toBe(
+      [
+        "- name: Group",
+        "  when: true",
+        "  block:",
+        "    - ansible.builtin.debug:",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("replaces truthy values and links lint diagnostics", async () => {
+    const diagnostic: Diagnostic = {
+      range: Range.create(2, 4, 2, 10),
+      message: "Truthy value",
+      source: "ansible-lint",
+      code: "yaml[truthy]",
+    };
+    const { document, actions } = await actionsAt(
+      "- name: Install\n  ansible.builtin.apt:\n    update_cache: yes\n",
+      2,
+      [diagnostic],
+    );
+    const action = actions.find((a) => a.title.startsWith("Replace"));
+    expect(action?.title).toBe('Replace "yes" with true');
+    expect(action?.diagnostics).toEqual([diagnostic]);
+    expect(action?.isPreferred).toBe(true);
+    expect(applyEdits(document, action as CodeAction)).toContain(
+      "update_cache: true",
+    );
+  });
+
+  it("suppresses lint findings with noqa comments", async () => {
+    const diagnostic: Diagnostic = {
+      range: Range.create(0, 0, 0, 10),
+      message: "Missing name",
+      source: "ansible-lint",
+      code: "name[missing]",
+    };
+    const { document, actions } = await actionsAt(
+      "- ansible.builtin.debug: # noqa: fqcn\n",
+      0,
+      [diagnostic],
+    );
+    const action = actions.find((a) => a.title.startsWith("Ignore"));
+    expect(applyEdits(document, action as CodeAction)).toBe(
+      "- ansible.builtin.debug: # noqa: fqcn name[missing]\n",
+    );
+    expect(
+      actions
+        .filter((a) => a.title.endsWith("in .ansible-lint"))
+        .map((a) => a.title),
+    ).toEqual([
+      'Add "name[missing]" to skip_list in .ansible-lint',
+      'Add "name[missing]" to warn_list in .ansible-lint',
+    ]);
+  });
+
+  it("rewrites deprecated names to their replacement", async () => {
+    const diagnostic: Diagnostic = {
+      range: Range.create(0, 2, 0, 18),
+      message: "Module 'ansible.builtin.docker_container' is redirected",
+      source: "Ansible [deprecations]",
+      data: { replacement: "community.docker.docker_container" },
+    };
+    const { document, actions } = await actionsAt("- docker_container:\n", 0, [
+      diagnostic,
+    ]);
+    const action = actions.find((a) => a.title.startsWith("Replace with"));
+    expect(action?.isPreferred).toBe(true);
+    expect(applyEdits(document, action as CodeAction)).toBe(
+      "- community.docker.docker_container:\n",
+    );
+  });
+
+  it("offers only the lint source action when asked for fix-all", async () => {
+    const { actions } = await actionsAt(
+      "- copy:\n",
+      0,
+      [],
+      [CodeActionKind.SourceFixAll],
+    );
+    expect(actions.map((a) => a.title)).toEqual([lintFixAllTitle]);
+  });
+});
+
+describe("doCodeActionResolve", () => {
+  it("replaces the document with the output of ansible-lint --fix", async () => {
+    const document = TextDocument.create(
+      "file:///t.yml",
+      "ansible",
+      1,
+      "- copy:\n",
+    );
+    const action = await doCodeActionResolve(
+      { title: lintFixAllTitle, data: { uri: document.uri } },
+      document,
+      mockContext(true, "- ansible.builtin.copy:\n") as never,
+    );
+    expect(applyEdits(document, action)).toBe("- ansible.builtin.copy:\n");
+  });
+});
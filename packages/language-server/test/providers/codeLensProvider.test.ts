@@ -0,0 +1,70 @@
+import { describe, it, expect } from "vitest";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doCodeLens } from "../../src/providers/codeLensProvider";
+
+describe("doCodeLens", () => {
+  it("adds run and check lenses with the play hosts and first task", () => {
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      [
+        "- hosts: all",
+        "  tasks:",
+        "    - name: Ping",
+        "      ping:",
+        "- name: Web",
+        "  hosts: web:!web3",
+        "  tasks:",
+        "    - block:",
+        "        - name: Install nginx",
+        "          package: name=nginx",
+        "- hosts: db",
+        "  roles: [postgres]",
+        "  tasks:",
+        "    - name: Ignored",
+        "      ping:",
+      ].join("\n"),
+    );
+    const lenses = doCodeLens(document);
+    expect(
+      lenses.map((lens) => [
+        lens.range.start.line,
+        lens.command?.title,
+        lens.command?.arguments,
+      ]),
+    ).toEqual([
+      [0, "Run from this play", [{ uri: document.uri }]],
+      [0, "Check from this play", [{ uri: document.uri, check: true }]],
+      [
+        4,
+        "Run from this play",
+        [
+          {
+            uri: document.uri,
+            limit: "web:!web3",
+            startAtTask: "Install nginx",
+          },
+        ],
+      ],
+      [
+        4,
+        "Check from this play",
+        [
+          {
+            uri: document.uri,
+            limit: "web:!web3",
+            startAtTask: "Install nginx",
+            check: true,
+          },
+        ],
+      ],
+      [10, "Run from this play", [{ uri: document.uri, limit: "db" }]],
+      [
+        10,
+        "Check from this play",
+        [{ uri: document.uri, limit: "db", check: true }],
+      ],
+    ]);
+  });
+});
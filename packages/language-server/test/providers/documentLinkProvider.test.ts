@@ -0,0 +1,76 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { doDocumentLinks } from "../../src/providers/documentLinkProvider";
+import { getUnresolvedPathValidation } from "../../src/providers/validationProvider";
+
+describe("documentLinkProvider", () => {
+  let root: string;
+
+  function write(relativePath: string, content = "---\n"): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function open(relativePath: string, content: string): TextDocument {
+    write(relativePath, content);
+    return TextDocument.create(
+      URI.file(path.join(root, relativePath)).toString(),
+      "ansible",
+      1,
+      content,
+    );
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ls-links-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("links role files and reports the ones that cannot be found", async () => {
+    write("roles/web/tasks/install.yml");
+    write("roles/web/templates/app.conf.j2");
+    const document = open(
+      "roles/web/tasks/main.yml",
+      [
+        "- import_tasks: install.yml",
+        "- template:",
+        "    src: app.conf.j2",
+        "    dest: /etc/app.conf",
+        "- include_vars: missing.yml",
+        '- include_tasks: "{{ os }}.yml"',
+      ].join("\n"),
+    );
+
+    const links = await doDocumentLinks(document);
+    expect(
+      links.map((link) => [
+        path.relative(root, URI.parse(link.target ?? "").fsPath),
+        link.range.start,
+      ]),
+    ).toEqual([
+      ["roles/web/tasks/install.yml", { line: 0, character: 16 }],
+      ["roles/web/templates/app.conf.j2", { line: 2, character: 9 }],
+    ]);
+
+    const diagnostics = await getUnresolvedPathValidation(document);
+    expect(diagnostics.map((d) => [d.message, d.range.start.line])).toEqual([
+      ["Unable to find 'missing.yml'.", 4],
+    ]);
+  });
+
+  it("ignores playbooks imported from collections", async () => {
+    const document = open(
+      "site.yml",
+      "- import_playbook: my.collection.deploy\n",
+    );
+    expect(await getUnresolvedPathValidation(document)).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from "vitest";
+import { FoldingRangeKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doFoldingRanges } from "../../src/providers/foldingRangeProvider";
+
+describe("doFoldingRanges", () => {
+  it("folds plays, tasks, blocks and comment runs", () => {
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      [
+        "# Site playbook",
+        "# for all hosts",
+        "- hosts: all",
+        "  vars:",
+        "    a: 1",
+        "    b: 2",
+        "  tasks:",
+        "    - block:",
+        "        - name: Ping",
+        "          ping:",
+        "      rescue:",
+        "        - debug:",
+        "            msg: failed",
+        "",
+        "# Database",
+        "- hosts: db",
+        "  tasks: []",
+      ].join("\n"),
+    );
+    expect(doFoldingRanges(document)).toEqual([
+      { startLine: 0, endLine: 1, kind: FoldingRangeKind.Comment },
+      { startLine: 2, endLine: 12, kind: undefined },
+      { startLine: 3, endLine: 5, kind: undefined },
+      { startLine: 6, endLine: 12, kind: undefined },
+      { startLine: 7, endLine: 12, kind: undefined },
+      { startLine: 8, endLine: 9, kind: undefined },
+      { startLine: 10, endLine: 12, kind: undefined },
+      { startLine: 11, endLine: 12, kind: undefined },
+      { startLine: 15, endLine: 16, kind: undefined },
+    ]);
+  });
+});
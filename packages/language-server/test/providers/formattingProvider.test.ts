@@ -0,0 +1,215 @@
+import { describe, it, expect } from "vitest";
+import { CodeActionKind, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doCodeActions } from "../../src/providers/codeActionProvider";
+import { doFormat, formatYaml } from "../../src/providers/formattingProvider";
+
+const settings = {
+  enabled: true,
+  indentSequences: true,
+  sortTaskKeys: true,
+  normalizeBooleans: true,
+};
+
+const playbook = [
+  "# Site",
+  "- hosts:   all",
+  "  become: True",
+  "  tasks:",
+  "  - debug:",
+  "      msg: \"{{ some_long_variable_name | default('a default value that is long enough to be folded by other formatters') }}\"",
+  "    when: ready",
+  "    # Shown in the output",
+  "    name: Say hi  # greeting",
+  "  - block:",
+  "    -   copy:",
+  "          content: |",
+  "            line1",
+  "              line2",
+  "          force: yes",
+  "        name: Copy",
+  "    name: Files",
+  "  - shell: >",
+  "      echo one",
+  "      echo two",
+  "    args:",
+  "       chdir: /tmp",
+  "    name: Folded",
+  "",
+].join("\n");
+
+describe("formatYaml", () => {
+  it("orders task keys, normalizes booleans and indents sequences", () => {
+    expect(formatYaml(playbook, 2, settings)).toBe(
+      [
+        "# Site",
+        "- hosts: all",
+        "  become: true",
+        "  tasks:",
+        "    # Shown in the output",
+        "    - name: Say hi  # greeting",
+        "      debug:",
+        "        msg: \"{{ some_long_variable_name | default('a default value that is long enough to be folded by other formatters') }}\"",
+        "      when: ready",
+        "    - name: Files",
+        "      block:",
+        "        - name: Copy",
+        "          copy:",
+        "            content: |",
+        "              line1",
+        "                line2",
+        "            force: true",
+        "    - name: Folded",
+        "      shell: >",
+        "        echo one",
+        "        echo two",
+        "      args:",
+        "        chdir: /tmp",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("is stable once formatted", () => {
+    const formatted = formatYaml(playbook, 2, settings) as string;
+    expect(formatYaml(formatted, 2, settings)).toBe(formatted);
+  });
+
+  it("follows the indentation settings", () => {
+    const text = ["vars_list:", "- a", "-   b: 1", "    c: yes", ""].join("\n");
+    expect(
+      formatYaml(text, 4, {
+        ...settings,
+        indentSequences: false,
+        normalizeBooleans: false,
+      }),
+    ).toBe(["vars_list:", "- a", "- b: 1", "  c: yes", ""].join("\n"));
+    expect(formatYaml(text, 4, settings)).toBe(
+      ["vars_list:", "    - a", "    - b: 1", "      c: true", ""].join("\n"),
+    );
+  });
+
+  it("normalizes booleans in block sequences", () => {
+    const text = ["flags:", "  - yes", "  - Off", "  - 'no'", ""].join("\n");
+    expect(formatYaml(text, 2, settings)).toBe(
+      ["flags:", "  - true", "  - false", "  - 'no'", ""].join("\n"),
+    );
+  });
+
+  it("normalizes booleans in flow sequences", () => {
+    const text = ["flags: [yes, No, maybe]", "keys: {on: on}", ""].join("\n");
+    expect(formatYaml(text, 2, settings)).toBe(
+      ["flags: [true, false, maybe]", "keys: {on: true}", ""].join("\n"),
+    );
+  });
+
+  it("puts block sections last, as the key order fix does", async () => {
+    const text = [
+      "- rescue:",
+      "    - ansible.builtin.debug:",
+      "  block:",
+      "    - ansible.builtin.fail:",
+      "  name: Group",
+      "  when: ready",
+      "",
+    ].join("\n");
+    const formatted = formatYaml(text, 2, settings) as string;
+    expect(formatted).toBe(
+      [
+        "- name: Group",
+        "  when: ready",
+        "  block:",
+        "    - ansible.builtin.fail:",
+        "  rescue:",
+        "    - ansible.builtin.debug:",
+        "",
+      ].join("\n"),
+    );
+
+    const document = TextDocument.create(
+      "file:///t.yml",
+      "ansible",
+      1,
+      formatted,
+    );
+    const actions = await doCodeActions(
+      document,
+      {
+        textDocument: { uri: document.uri },
+        range: Range.create(0, 0, 0, 0),
+        context: { diagnostics: [], only: [CodeActionKind.QuickFix] },
+      },
+      {} as never,
+      { getPlugins: () => [] } as never,
+    );
+    expect(actions.map((action) => action.title)).not.toContain(
+      "Fix task key order",
+    );
+  });
+
+  it("leaves invalid YAML alone", () => {
+    expect(formatYaml("a: [\n", 2, settings)).toBeUndefined();
+  });
+});
+
+describe("doFormat", () => {
+  const document = TextDocument.create(
+    "file:///ws/site.yml",
+    "ansible",
+    1,
+    [
+      "- hosts: web",
+      "  tasks:",
+      "  - ping:",
+      "- hosts: db",
+      "  tasks:",
+      "  - ping:",
+      "",
+    ].join("\n"),
+  );
+
+  it("replaces the whole document", () => {
+    const edits = doFormat(
+      document,
+      { tabSize: 2, insertSpaces: true },
+      settings,
+    );
+    expect(edits).toHaveLength(1);
+    expect(edits[0].newText).toBe(
+      [
+        "- hosts: web",
+        "  tasks:",
+        "    - ping:",
+        "- hosts: db",
+        "  tasks:",
+        "    - ping:",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("formats only the entries in the range", () => {
+    const edits = doFormat(
+      document,
+      { tabSize: 2, insertSpaces: true },
+      settings,
+      Range.create(4, 0, 4, 0),
+    );
+    expect(edits).toEqual([
+      {
+        range: Range.create(3, 0, 5, 9),
+        newText: ["- hosts: db", "  tasks:", "    - ping:"].join("\n"),
+      },
+    ]);
+  });
+
+  it("does nothing when formatting is disabled", () => {
+    expect(
+      doFormat(
+        document,
+        { tabSize: 2, insertSpaces: true },
+        { ...settings, enabled: false },
+      ),
+    ).toEqual([]);
+  });
+});
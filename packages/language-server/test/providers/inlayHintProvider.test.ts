@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { InlayHintKind, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doInlayHints } from "../../src/providers/inlayHintProvider";
+
+const modules: Record<string, string[]> = {
+  "ansible.builtin": ["copy", "file", "ping"],
+  "community.general": ["ufw"],
+};
+
+const collectionsService = {
+  getCollection: (name: string) => (modules[name] ? {} : undefined),
+  getPlugins: (collection: string) =>
+    (modules[collection] ?? []).map((name) => ({ name })),
+  getPluginDocumentation: (fqcn: string) =>
+    Promise.resolve(
+      fqcn === "ansible.builtin.file"
+        ? {
+            doc: {
+              options: {
+                path: { required: true, type: "path" },
+                state: {
+                  choices: ["absent", "directory", "file"],
+                  default: "file",
+                },
+                follow: { choices: [true, false], default: true },
+                recurse: { type: "bool", default: false },
+              },
+            },
+          }
+        : null,
+    ),
+} as never;
+
+const document = TextDocument.create(
+  "file:///ws/site.yml",
+  "ansible",
+  1,
+  [
+    "- hosts: all",
+    "  collections:",
+    "    - community.general",
+    "  tasks:",
+    "    - name: Allow ssh",
+    "      ufw:",
+    "        rule: allow",
+    "    - file:",
+    "        path: /tmp/x",
+    "        follow: false",
+    "    - ansible.builtin.ping:",
+    "    - unknown_module:",
+  ].join("\n"),
+);
+const fullRange = Range.create(0, 0, 12, 0);
+
+describe("doInlayHints", () => {
+  it("shows the collection of short module names", async () => {
+    const hints = await doInlayHints(
+      document,
+      fullRange,
+      { moduleFqcn: true, optionDefaults: false },
+      collectionsService,
+    );
+    expect(hints.map((hint) => [hint.position, hint.label])).toEqual([
+      [{ line: 5, character: 6 }, "community.general."],
+      [{ line: 7, character: 6 }, "ansible.builtin."],
+    ]);
+    expect(hints[1].kind).toBe(InlayHintKind.Type);
+  });
+
+  it("lists the defaults of omitted options with choices", async () => {
+    const hints = await doInlayHints(
+      document,
+      fullRange,
+      { moduleFqcn: false, optionDefaults: true },
+      collectionsService,
+    );
+    expect(hints).toEqual([
+      {
+        position: { line: 7, character: 11 },
+        label: "state: file",
+        kind: InlayHintKind.Parameter,
+        paddingLeft: true,
+        tooltip: "Defaults of the options that are not set",
+      },
+    ]);
+  });
+
+  it("only adds hints for tasks in the range", async () => {
+    const hints = await doInlayHints(
+      document,
+      Range.create(6, 0, 12, 0),
+      { moduleFqcn: true, optionDefaults: false },
+      collectionsService,
+    );
+    expect(hints.map((hint) => hint.position.line)).toEqual([7]);
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import { MarkupContent, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  getHostPatternHover,
+  getHostTermRange,
+  getInventoryVariableCompletion,
+} from "../../src/providers/inventoryProvider";
+import { getHostPatternValidation } from "../../src/providers/validationProvider";
+
+function mockContext() {
+  const groups = new Map([
+    [
+      "web",
+      {
+        name: "web",
+        hosts: ["web1", "web2"],
+        children: [],
+        parents: ["all"],
+        vars: { http_port: 80 },
+      },
+    ],
+    [
+      "db",
+      { name: "db", hosts: ["db1"], children: [], parents: ["all"], vars: {} },
+    ],
+  ]);
+  const hosts = new Map(
+    ["web1", "web2", "db1"].map((name) => [
+      name,
+      { name, groups: [name.startsWith("db") ? "db" : "web"], vars: {} },
+    ]),
+  );
+  return {
+    ansibleInventory: Promise.resolve({
+      groups,
+      hosts,
+      getGroupHosts: (name: string) => groups.get(name)?.hosts ?? [],
+    }),
+  } as never;
+}
+
+function doc(content: string) {
+  return TextDocument.create("file:///ws/site.yml", "ansible", 1, content);
+}
+
+describe("getHostPatternHover", () => {
+  it("describes the group under the cursor", async () => {
+    const hover = await getHostPatternHover(
+      doc("- hosts: db:&web\n  tasks: []\n"),
+      { line: 0, character: 14 },
+      mockContext(),
+    );
+    expect((hover?.contents as MarkupContent).value).toBe(
+      [
+        "**web** *(group)*",
+        "Parents: `all`",
+        "Hosts (2): `web1`, `web2`",
+        "```yaml\nhttp_port: 80\n```",
+      ].join("\n\n"),
+    );
+    expect(hover?.range).toEqual(Range.create(0, 13, 0, 16));
+  });
+
+  it("ignores hosts keys outside of plays", async () => {
+    expect(
+      await getHostPatternHover(
+        doc("- debug:\n    hosts: web\n"),
+        { line: 1, character: 12 },
+        mockContext(),
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getHostTermRange", () => {
+  it("covers the term being typed", () => {
+    expect(
+      getHostTermRange(doc("- hosts: web:!we1\n"), {
+        line: 0,
+        character: 16,
+      }),
+    ).toEqual(Range.create(0, 14, 0, 17));
+  });
+});
+
+describe("getHostPatternValidation", () => {
+  it("warns about unknown terms and empty intersections", async () => {
+    const diagnostics = await getHostPatternValidation(
+      doc(
+        [
+          "- hosts: web:!missing",
+          "  tasks: []",
+          "- hosts: [db, 'web1:&db', localhost]",
+          "  tasks: []",
+        ].join("\n"),
+      ),
+      mockContext(),
+    );
+    expect(diagnostics.map((d) => [d.message, d.range])).toEqual([
+      [
+        "Host pattern 'missing' does not match any group or host in the inventory.",
+        Range.create(0, 14, 0, 21),
+      ],
+      [
+        "Host pattern 'web1:&db' does not match any host.",
+        Range.create(2, 15, 2, 23),
+      ],
+    ]);
+  });
+});
+
+describe("getInventoryVariableCompletion", () => {
+  const requested: string[] = [];
+  const collectionsService = {
+    getPluginDocumentation: async (name: string, pluginType: string) => {
+      requested.push(`${pluginType}:${name}`);
+      return name === "ansible.builtin.ssh"
+        ? {
+            doc: {
+              options: {
+                remote_user: {
+                  description: "User name with which to login to the host",
+                  vars: [
+                    { name: "ansible_user" },
+                    { name: "ansible_ssh_user" },
+                  ],
+                },
+              },
+            },
+          }
+        : null;
+    },
+  } as never;
+
+  it("completes connection variables after an INI host", async () => {
+    requested.length = 0;
+    const items = await getInventoryVariableCompletion(
+      TextDocument.create(
+        "file:///ws/hosts.ini",
+        "ini",
+        1,
+        "[web]\nweb1 ansible_host=10.0.0.1 ansible_u\n",
+      ),
+      { line: 1, character: 36 },
+      collectionsService,
+    );
+    expect(requested).toEqual([
+      "connection:ansible.builtin.ssh",
+      "become:ansible.builtin.sudo",
+    ]);
+    const user = items.find((item) => item.label === "ansible_user");
+    expect(user).toMatchObject({
+      detail: "ansible.builtin.ssh connection option 'remote_user'",
+      documentation: {
+        value: "User name with which to login to the host",
+      },
+      textEdit: {
+        range: Range.create(1, 27, 1, 36),
+        newText: "ansible_user=",
+      },
+    });
+    expect(items.map((item) => item.label)).toContain("ansible_connection");
+  });
+
+  it("completes keys under YAML hosts and vars only", async () => {
+    const content = [
+      "all:",
+      "  hosts:",
+      "    web1:",
+      "      ans",
+      "  vars:",
+      "    ntp: pool",
+      "",
+    ].join("\n");
+    const document = TextDocument.create(
+      "file:///ws/hosts.yml",
+      "ansible",
+      1,
+      content,
+    );
+    const items = await getInventoryVariableCompletion(
+      document,
+      { line: 3, character: 9 },
+      collectionsService,
+    );
+    expect(items.find((item) => item.label === "ansible_user")).toMatchObject({
+      textEdit: { newText: "ansible_user: " },
+    });
+    expect(
+      await getInventoryVariableCompletion(
+        document,
+        { line: 5, character: 14 },
+        collectionsService,
+      ),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,210 @@
+import { describe, it, expect, vi } from "vitest";
+import { MarkupContent } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  doSignatureHelp,
+  getJinjaCompletion,
+  getJinjaHover,
+} from "../../src/providers/jinjaProvider";
+import { getJinjaValidation } from "../../src/providers/validationProvider";
+
+function mockCollections() {
+  const collections = new Map([
+    [
+      "ansible.builtin",
+      {
+        info: { name: "ansible.builtin" },
+        pluginTypes: new Map([
+          [
+            "filter",
+            [
+              {
+                name: "regex_replace",
+                fullName: "ansible.builtin.regex_replace",
+                shortDescription: "Replace a string via regex",
+              },
+            ],
+          ],
+          [
+            "lookup",
+            [
+              {
+                name: "env",
+                fullName: "ansible.builtin.env",
+                shortDescription: "Read environment variables",
+              },
+            ],
+          ],
+        ]),
+      },
+    ],
+    [
+      "community.general",
+      {
+        info: { name: "community.general" },
+        pluginTypes: new Map([
+          [
+            "filter",
+            [
+              {
+                name: "json_query",
+                fullName: "community.general.json_query",
+                shortDescription: "Select data with JMESPath",
+              },
+            ],
+          ],
+        ]),
+      },
+    ],
+  ]);
+  return {
+    getCollections: () => collections,
+    getCollection: (name: string) => collections.get(name),
+    getPluginDocumentation: vi.fn().mockResolvedValue({
+      doc: {
+        short_description: "Replace a string via regex",
+        options: {
+          _input: { type: "str" },
+          _regex_match: { description: "Pattern", type: "str" },
+          _regex_replace: { description: "Replacement", type: "str" },
+        },
+      },
+    }),
+  };
+}
+
+function doc(content: string) {
+  return TextDocument.create("file:///t.yml", "ansible", 1, content);
+}
+
+describe("getJinjaCompletion", () => {
+  it("completes filters after a pipe", () => {
+    const document = doc('- debug:\n    msg: "{{ x | re }}"\n');
+    const items = getJinjaCompletion(
+      document,
+      { line: 1, character: 19 },
+      mockCollections() as never,
+    );
+    const labels = items?.map((i) => i.label);
+    expect(labels).toContain("regex_replace");
+    expect(labels).toContain("community.general.json_query");
+    expect(labels).toContain("default");
+    expect(items?.[0].textEdit).toMatchObject({
+      range: { start: { line: 1, character: 17 } },
+    });
+  });
+
+  it("completes lookup plugin names", () => {
+    const document = doc("- debug:\n    msg: \"{{ lookup('e') }}\"\n");
+    const items = getJinjaCompletion(
+      document,
+      { line: 1, character: 22 },
+      mockCollections() as never,
+    );
+    expect(items?.map((i) => i.label)).toEqual(["env"]);
+  });
+
+  it("completes tests in bare when expressions", () => {
+    const document = doc("- debug:\n  when: x is def\n");
+    const items = getJinjaCompletion(
+      document,
+      { line: 1, character: 16 },
+      mockCollections() as never,
+    );
+    expect(items?.map((i) => i.label)).toContain("defined");
+  });
+
+  it("leaves variable completion to the caller", () => {
+    const document = doc('- debug:\n    msg: "{{ ans }}"\n');
+    expect(
+      getJinjaCompletion(
+        document,
+        { line: 1, character: 16 },
+        mockCollections() as never,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("getJinjaHover", () => {
+  it("shows plugin documentation for filters", async () => {
+    const document = doc(
+      "- debug:\n    msg: \"{{ x | regex_replace('a') }}\"\n",
+    );
+    const hover = await getJinjaHover(
+      document,
+      { line: 1, character: 20 },
+      mockCollections() as never,
+    );
+    expect((hover?.contents as MarkupContent).value).toContain(
+      "`_regex_match`",
+    );
+    expect(hover?.range?.start.character).toBe(17);
+  });
+
+  it("describes Jinja built-in tests", async () => {
+    const document = doc("- debug:\n  when: x is defined\n");
+    const hover = await getJinjaHover(
+      document,
+      { line: 1, character: 15 },
+      mockCollections() as never,
+    );
+    expect((hover?.contents as MarkupContent).value).toContain(
+      "Return true if the variable is defined.",
+    );
+  });
+});
+
+describe("doSignatureHelp", () => {
+  it("lists filter parameters without the piped input", async () => {
+    const document = doc(
+      "- debug:\n    msg: \"{{ x | regex_replace('a', ) }}\"\n",
+    );
+    const help = await doSignatureHelp(
+      document,
+      { line: 1, character: 36 },
+      mockCollections() as never,
+    );
+    expect(help?.signatures[0].label).toBe(
+      "regex_replace(_regex_match, _regex_replace)",
+    );
+    expect(help?.activeParameter).toBe(1);
+  });
+});
+
+describe("getJinjaValidation", () => {
+  it("reports syntax problems and unknown filters", () => {
+    const document = doc(
+      [
+        "- debug:",
+        '    msg: "{{ x | nosuchfilter }}"',
+        "  when: (x",
+        '  changed_when: "{{ y "',
+      ].join("\n"),
+    );
+    const diagnostics = getJinjaValidation(
+      document,
+      mockCollections() as never,
+    );
+    expect(diagnostics.map((d) => [d.message, d.range.start.line])).toEqual([
+      ["Unknown filter 'nosuchfilter'.", 1],
+      ["Unclosed '('.", 2],
+      ["Unclosed '{{'.", 3],
+    ]);
+  });
+
+  it("accepts filters routed by ansible.builtin", () => {
+    const document = doc(
+      [
+        "- debug:",
+        '    msg: "{{ x | json_query(q) | ansible.builtin.json_query(q) }}"',
+      ].join("\n"),
+    );
+    const diagnostics = getJinjaValidation(
+      document,
+      mockCollections() as never,
+      ["json_query", "ansible.builtin.json_query"],
+    );
+    expect(diagnostics).toEqual([]);
+  });
+});
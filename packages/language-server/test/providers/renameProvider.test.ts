@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Range, TextDocuments, TextEdit } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { doPrepareRename, doRename } from "../../src/providers/renameProvider";
+import { VariableIndex } from "../../src/services/variableIndex";
+
+describe("renameProvider", () => {
+  let root: string;
+  let context: {
+    workspaceFolder: { uri: string };
+    variableIndex: VariableIndex;
+    getCollectionsService: () => Promise<unknown>;
+  };
+  const documents = {
+    get: () => undefined,
+  } as unknown as TextDocuments<TextDocument>;
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function open(relativePath: string): TextDocument {
+    const file = path.join(root, relativePath);
+    return TextDocument.create(
+      URI.file(file).toString(),
+      "ansible",
+      1,
+      fs.readFileSync(file, "utf8"),
+    );
+  }
+
+  async function rename(
+    relativePath: string,
+    line: number,
+    character: number,
+    newName: string,
+  ): Promise<Record<string, string>> {
+    const edit = await doRename(
+      open(relativePath),
+      { line, character },
+      newName,
+      documents,
+      context as never,
+    );
+    const result: Record<string, string> = {};
+    for (const [uri, edits] of Object.entries(edit?.changes ?? {})) {
+      const file = URI.parse(uri).fsPath;
+      const document = TextDocument.create(
+        uri,
+        "ansible",
+        1,
+        fs.readFileSync(file, "utf8"),
+      );
+      result[path.relative(root, file)] = TextDocument.applyEdits(
+        document,
+        edits as TextEdit[],
+      );
+    }
+    return result;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ls-rename-"));
+    context = {
+      workspaceFolder: { uri: URI.file(root).toString() },
+      getCollectionsService: async () => ({ getCollection: () => undefined }),
+    } as typeof context;
+    context.variableIndex = new VariableIndex(
+      { console: { error: () => undefined } } as never,
+      context as never,
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("renames handlers together with their notifications", async () => {
+    write(
+      "site.yml",
+      [
+        "- hosts: all",
+        "  tasks:",
+        "    - ansible.builtin.copy:",
+        "        src: a",
+        "        dest: b",
+        "      notify: restart app",
+        "  handlers:",
+        '    - name: "restart app"',
+        "      ansible.builtin.service:",
+        "        name: app",
+        "",
+      ].join("\n"),
+    );
+    write("other.yml", "- debug:\n  notify:\n    - restart app\n");
+
+    const result = await rename("site.yml", 7, 15, "reload app");
+    expect(result["site.yml"]).toContain("notify: reload app");
+    expect(result["site.yml"]).toContain('- name: "reload app"');
+    expect(result["other.yml"]).toContain("- reload app");
+  });
+
+  it("renames role handlers within the role and outside of roles", async () => {
+    write(
+      "roles/web/handlers/main.yml",
+      "- name: restart app\n  ansible.builtin.service:\n    name: app\n",
+    );
+    write("roles/web/tasks/main.yml", "- debug:\n  notify: restart app\n");
+    write(
+      "roles/other/handlers/main.yml",
+      "- name: restart app\n  ansible.builtin.service:\n    name: other\n",
+    );
+    write("roles/other/tasks/main.yml", "- debug:\n  notify: restart app\n");
+    write(
+      "site.yml",
+      [
+        "- hosts: all",
+        "  roles: [web]",
+        "  tasks:",
+        "    - debug:",
+        "      notify: restart app",
+        "",
+      ].join("\n"),
+    );
+
+    const result = await rename(
+      "roles/web/handlers/main.yml",
+      0,
+      10,
+      "reload app",
+    );
+    expect(Object.keys(result).sort()).toEqual([
+      "roles/web/handlers/main.yml",
+      "roles/web/tasks/main.yml",
+      "site.yml",
+    ]);
+    expect(result["site.yml"]).toContain("notify: reload app");
+  });
+
+  it("renames roles with their directory and references", async () => {
+    write("roles/web/tasks/main.yml", "- debug:\n");
+    write(
+      "site.yml",
+      [
+        "- hosts: all",
+        "  roles:",
+        "    - role: web",
+        "  tasks:",
+        "    - ansible.builtin.include_role:",
+        "        name: web",
+        "",
+      ].join("\n"),
+    );
+    write("other.yml", "- hosts: all\n  roles: [external]\n");
+
+    expect(
+      await doPrepareRename(
+        open("other.yml"),
+        { line: 1, character: 12 },
+        context as never,
+      ),
+    ).toBeNull();
+
+    const siteUri = URI.file(path.join(root, "site.yml")).toString();
+    const edit = await doRename(
+      open("site.yml"),
+      { line: 2, character: 13 },
+      "frontend",
+      documents,
+      context as never,
+    );
+    expect(edit?.documentChanges).toEqual([
+      {
+        textDocument: { uri: siteUri, version: null },
+        edits: [
+          TextEdit.replace(Range.create(2, 12, 2, 15), "frontend"),
+          TextEdit.replace(Range.create(5, 14, 5, 17), "frontend"),
+        ],
+      },
+      {
+        kind: "rename",
+        oldUri: URI.file(path.join(root, "roles/web")).toString(),
+        newUri: URI.file(path.join(root, "roles/frontend")).toString(),
+      },
+    ]);
+  });
+
+  it("renames tags across plays and rejects special tags", async () => {
+    write(
+      "site.yml",
+      [
+        "- hosts: all",
+        "  tags: [web, always]",
+        "  tasks:",
+        "    - ansible.builtin.debug:",
+        "      tags: web",
+        "",
+      ].join("\n"),
+    );
+    expect(
+      await doPrepareRename(
+        open("site.yml"),
+        { line: 1, character: 15 },
+        context as never,
+      ),
+    ).toBeNull();
+
+    const result = await rename("site.yml", 1, 10, "frontend");
+    expect(result["site.yml"]).toBe(
+      [
+        "- hosts: all",
+        "  tags: [frontend, always]",
+        "  tasks:",
+        "    - ansible.builtin.debug:",
+        "      tags: frontend",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  it("renames role variables within the role, templates and playbooks", async () => {
+    write("roles/web/defaults/main.yml", "web_port: 80\n");
+    write(
+      "roles/web/tasks/main.yml",
+      '- ansible.builtin.debug:\n    msg: "{{ web_port }}"\n',
+    );
+    write(
+      "roles/web/templates/site.conf.j2",
+      "listen {{ web_port }};\n{% set web = 1 %}\n",
+    );
+    write(
+      "roles/other/tasks/main.yml",
+      '- debug:\n    msg: "{{ web_port }}"\n',
+    );
+    write("group_vars/all.yml", "web_port: 8080\n");
+
+    const document = open("roles/web/tasks/main.yml");
+    expect(
+      await doPrepareRename(
+        document,
+        { line: 1, character: 15 },
+        context as never,
+      ),
+    ).toEqual({
+      range: {
+        start: { line: 1, character: 13 },
+        end: { line: 1, character: 21 },
+      },
+      placeholder: "web_port",
+    });
+
+    const result = await rename(
+      "roles/web/defaults/main.yml",
+      0,
+      2,
+      "http_port",
+    );
+    expect(result).toEqual({
+      "roles/web/defaults/main.yml": "http_port: 80\n",
+      "roles/web/tasks/main.yml":
+        '- ansible.builtin.debug:\n    msg: "{{ http_port }}"\n',
+      "roles/web/templates/site.conf.j2":
+        "listen {{ http_port }};\n{% set web = 1 %}\n",
+      "group_vars/all.yml": "http_port: 8080\n",
+    });
+  });
+
+  it("refuses names that are not valid variable names", async () => {
+    write("site.yml", '- debug:\n    msg: "{{ port }}"\n');
+    expect(
+      await doRename(
+        open("site.yml"),
+        { line: 1, character: 15 },
+        "bad-name",
+        documents,
+        context as never,
+      ),
+    ).toBeNull();
+  });
+});
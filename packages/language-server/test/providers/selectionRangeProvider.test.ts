@@ -0,0 +1,59 @@
+import { describe, it, expect } from "vitest";
+import { Position, SelectionRange } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doSelectionRanges } from "../../src/providers/selectionRangeProvider";
+
+describe("doSelectionRanges", () => {
+  it("expands from a value to its option, task, block and play", () => {
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      [
+        "- hosts: all",
+        "  tasks:",
+        "    - block:",
+        "        - name: Copy",
+        "          copy:",
+        '            dest: "/tmp/x"',
+        "    # next task",
+        "",
+      ].join("\n"),
+    );
+    const [selection] = doSelectionRanges(document, [Position.create(5, 21)]);
+    const texts: string[] = [];
+    for (
+      let current: SelectionRange | undefined = selection;
+      current;
+      current = current.parent
+    ) {
+      texts.push(document.getText(current.range));
+    }
+    // Each expansion ends with the value, before the trailing comment.
+    const upToValue = (line: number, character: number) =>
+      document.getText({
+        start: Position.create(line, character),
+        end: Position.create(5, 26),
+      });
+    expect(texts).toEqual([
+      "/tmp/x",
+      '"/tmp/x"',
+      upToValue(5, 12),
+      upToValue(4, 10),
+      upToValue(3, 10),
+      upToValue(3, 8),
+      upToValue(2, 6),
+      upToValue(2, 4),
+      upToValue(1, 2),
+      upToValue(0, 2),
+      upToValue(0, 0),
+    ]);
+  });
+
+  it("returns an empty range outside of any node", () => {
+    const document = TextDocument.create("file:///ws/a.yml", "ansible", 1, "");
+    expect(doSelectionRanges(document, [Position.create(0, 0)])).toEqual([
+      { range: { start: Position.create(0, 0), end: Position.create(0, 0) } },
+    ]);
+  });
+});
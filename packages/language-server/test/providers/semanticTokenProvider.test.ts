@@ -0,0 +1,96 @@
+import { describe, it, expect } from "vitest";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  doSemanticTokens,
+  tokenModifiers,
+  tokenTypes,
+} from "../../src/providers/semanticTokenProvider";
+
+describe("doSemanticTokens", () => {
+  const collectionsService = {
+    getPluginDocumentation: async () => undefined,
+  } as never;
+
+  function mockContext(definedNames: string[]) {
+    return {
+      variableIndex: {
+        getDefinitions: async () => definedNames.map((name) => ({ name })),
+      },
+    } as never;
+  }
+
+  async function decode(lines: string[], context?: never) {
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      lines.join("\n"),
+    );
+    const { data } = await doSemanticTokens(
+      document,
+      collectionsService,
+      context,
+    );
+    const tokens: string[][] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < data.length; i += 5) {
+      line += data[i];
+      character = data[i] ? data[i + 1] : character + data[i + 1];
+      const text = lines[line].slice(character, character + data[i + 2]);
+      const modifiers = tokenModifiers.filter(
+        (_, index) => data[i + 4] & (1 << index),
+      );
+      tokens.push([text, tokenTypes[data[i + 3]], ...modifiers]);
+    }
+    return tokens;
+  }
+
+  it("highlights Jinja inside scalar values", async () => {
+    const tokens = await decode(
+      [
+        "- hosts: all",
+        "  tasks:",
+        "    - name: Greet {{ user | upper }}",
+        "      ansible.builtin.debug:",
+        "        msg: >-",
+        "          {{ greeting",
+        "          ~ missing }}",
+        "      when: user is defined and ansible_facts.os_family == 'Debian'",
+        "",
+      ],
+      mockContext(["user", "greeting"]),
+    );
+    expect(
+      tokens.filter(
+        ([, type, modifier]) => type !== "keyword" && modifier !== "definition",
+      ),
+    ).toEqual([
+      ["user", "variable"],
+      ["|", "operator"],
+      ["upper", "function", "defaultLibrary"],
+      ["greeting", "variable"],
+      ["~", "operator"],
+      ["missing", "variable", "undefined"],
+      ["user", "variable"],
+      ["defined", "function", "defaultLibrary"],
+      ["ansible_facts", "variable", "defaultLibrary"],
+      ["os_family", "property"],
+      ["==", "operator"],
+      ["'Debian'", "string"],
+    ]);
+    expect(tokens.filter(([, type]) => type === "keyword")).toEqual([
+      ["hosts", "keyword"],
+      ["tasks", "keyword"],
+      ["name", "keyword"],
+      ["when", "keyword"],
+      ["is", "keyword"],
+      ["and", "keyword"],
+    ]);
+  });
+
+  it("leaves variables unmarked without a workspace context", async () => {
+    const tokens = await decode(["- debug:", "    msg: '{{ missing }}'", ""]);
+    expect(tokens).toContainEqual(["missing", "variable"]);
+  });
+});
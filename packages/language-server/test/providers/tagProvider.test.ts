@@ -0,0 +1,162 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { MarkupContent, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import {
+  getPlaybookTags,
+  getTagCompletion,
+  getTagHover,
+} from "../../src/providers/tagProvider";
+import { TaggedTask } from "../../src/utils/tags";
+
+describe("tagProvider", () => {
+  let root: string;
+  const collectionsService = { getCollection: () => undefined } as never;
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function mockContext(tasks: TaggedTask[] = []) {
+    return {
+      workspaceFolder: { uri: URI.file(root).toString() },
+      tagIndex: {
+        getTaggedTasks: async (tag?: string) =>
+          tag ? tasks.filter((task) => task.tags.includes(tag)) : tasks,
+      },
+    } as never;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "tags-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("getPlaybookTags", () => {
+    it("follows roles and imports with the tags they inherit", async () => {
+      write(
+        "roles/web/tasks/main.yml",
+        [
+          "- name: Install nginx",
+          "  ansible.builtin.package:",
+          "    name: nginx",
+          "- name: Configure nginx",
+          "  ansible.builtin.template:",
+          "    src: nginx.conf.j2",
+          "    dest: /etc/nginx/nginx.conf",
+          "  tags: config",
+          "",
+        ].join("\n"),
+      );
+      write(
+        "tasks/checks.yml",
+        ["- name: Check ports", "  ansible.builtin.wait_for:", ""].join("\n"),
+      );
+      const content = [
+        "- hosts: all",
+        "  roles:",
+        "    - role: web",
+        "      tags: web",
+        "  tasks:",
+        "    - ansible.builtin.import_tasks: tasks/checks.yml",
+        "      tags: [checks, always]",
+        "",
+      ].join("\n");
+      write("site.yml", content);
+      const document = TextDocument.create(
+        URI.file(path.join(root, "site.yml")).toString(),
+        "ansible",
+        1,
+        content,
+      );
+
+      const tags = await getPlaybookTags(
+        document,
+        mockContext(),
+        collectionsService,
+      );
+      expect(
+        tags.map((tag) => [tag.name, tag.tasks.map((task) => task.name)]),
+      ).toEqual([
+        ["checks", ["import_tasks", "Check ports"]],
+        ["config", ["Configure nginx"]],
+        ["web", ["role web", "Install nginx", "Configure nginx"]],
+        ["always", ["import_tasks", "Check ports"]],
+      ]);
+      expect(tags[1].tasks[0]).toEqual({
+        name: "Configure nginx",
+        uri: URI.file(path.join(root, "roles/web/tasks/main.yml")).toString(),
+        line: 3,
+      });
+    });
+  });
+
+  describe("getTagHover and getTagCompletion", () => {
+    const tasks = (uri: string): TaggedTask[] => [
+      {
+        name: "Install nginx",
+        uri,
+        range: Range.create(4, 4, 6, 0),
+        tags: ["web", "packages"],
+      },
+      {
+        name: "Open port",
+        uri,
+        range: Range.create(8, 4, 9, 0),
+        tags: ["web"],
+      },
+    ];
+
+    it("lists the tasks a tag selects", async () => {
+      const uri = URI.file(path.join(root, "site.yml")).toString();
+      const document = TextDocument.create(
+        uri,
+        "ansible",
+        1,
+        ["- hosts: all", "  tags: [web]", ""].join("\n"),
+      );
+      const hover = await getTagHover(
+        document,
+        { line: 1, character: 10 },
+        mockContext(tasks(uri)),
+      );
+      expect((hover?.contents as MarkupContent).value).toBe(
+        [
+          "**Tag `web`** selects 2 task(s) in the workspace",
+          "",
+          `- Install nginx — [site.yml:5](${uri}#L5)`,
+          `- Open port — [site.yml:9](${uri}#L9)`,
+        ].join("\n"),
+      );
+      expect(hover?.range).toEqual(Range.create(1, 9, 1, 12));
+      expect(
+        await getTagHover(
+          document,
+          { line: 1, character: 3 },
+          mockContext(tasks(uri)),
+        ),
+      ).toBeUndefined();
+    });
+
+    it("completes the tags used in the workspace", async () => {
+      const items = await getTagCompletion(
+        mockContext(tasks("file:///ws/site.yml")),
+        undefined,
+      );
+      expect(items.map((item) => [item.label, item.detail])).toEqual([
+        ["web", "2 task(s)"],
+        ["packages", "1 task(s)"],
+        ["always", undefined],
+        ["never", undefined],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from "vitest";
+import { MarkupContent, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  getVariableCompletion,
+  getVariableDefinition,
+  getVariableHover,
+} from "../../src/providers/variableProvider";
+import {
+  doValidate,
+  getUndefinedVariableValidation,
+} from "../../src/providers/validationProvider";
+import { ValidationManager } from "../../src/services/validationManager";
+import { VariableDefinition } from "../../src/utils/variables";
+
+const workspaceDefinitions: VariableDefinition[] = [
+  {
+    name: "http_port",
+    source: "role_defaults",
+    uri: "file:///ws/roles/web/defaults/main.yml",
+    range: Range.create(0, 0, 0, 9),
+    value: "80",
+  },
+  {
+    name: "http_port",
+    source: "group_vars",
+    uri: "file:///ws/group_vars/web.yml",
+    range: Range.create(3, 0, 3, 9),
+    value: "8080",
+  },
+];
+
+function mockIndex() {
+  return {
+    getDefinitions: async (name?: string) =>
+      workspaceDefinitions.filter((d) => name === undefined || d.name === name),
+  };
+}
+
+function mockContext(inventoryVariables: string[] = []) {
+  return {
+    workspaceFolder: { uri: "file:///ws", name: "ws" },
+    variableIndex: mockIndex(),
+    ansibleInventory: Promise.resolve({
+      getVariableNames: () => new Set(inventoryVariables),
+    }),
+  };
+}
+
+function doc(content: string) {
+  return TextDocument.create("file:///ws/site.yml", "ansible", 1, content);
+}
+
+describe("getVariableCompletion", () => {
+  it("offers workspace and special variables in templates", async () => {
+    const document = doc('- debug:\n    msg: "{{ ht }}"\n');
+    const items = await getVariableCompletion(
+      document,
+      { line: 1, character: 15 },
+      mockContext() as never,
+      () => [{ label: "local_var" }],
+    );
+    expect(items?.map((i) => i.label).slice(0, 2)).toEqual([
+      "local_var",
+      "http_port",
+    ]);
+    expect(items?.find((i) => i.label === "http_port")?.detail).toBe(
+      "group_vars in group_vars/web.yml",
+    );
+    expect(items?.map((i) => i.label)).toContain("inventory_hostname");
+  });
+
+  it("leaves filters and plain values to other providers", async () => {
+    const context = mockContext() as never;
+    expect(
+      await getVariableCompletion(
+        doc('- debug:\n    msg: "{{ x | ht }}"\n'),
+        { line: 1, character: 19 },
+        context,
+      ),
+    ).toBeUndefined();
+    expect(
+      await getVariableCompletion(
+        doc("- debug:\n    msg: ht\n"),
+        { line: 1, character: 11 },
+        context,
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("getVariableHover", () => {
+  it("shows values by precedence with their source file", async () => {
+    const document = doc("- debug:\n  when: http_port.real > 0\n");
+    const hover = await getVariableHover(
+      document,
+      { line: 1, character: 10 },
+      mockContext() as never,
+    );
+    expect((hover?.contents as MarkupContent).value).toBe(
+      [
+        "**http_port**",
+        "*group_vars in group_vars/web.yml*\n```yaml\n8080\n```",
+        "*role_defaults in roles/web/defaults/main.yml*\n```yaml\n80\n```",
+      ].join("\n\n"),
+    );
+    expect(hover?.range).toEqual(Range.create(1, 8, 1, 17));
+  });
+
+  it("ignores string literals", async () => {
+    const document = doc("- debug:\n  when: \"'http_port' in x\"\n");
+    expect(
+      await getVariableHover(
+        document,
+        { line: 1, character: 12 },
+        mockContext() as never,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("getVariableDefinition", () => {
+  it("links to every definition", async () => {
+    const document = doc('- debug:\n    msg: "{{ http_port }}"\n');
+    const links = await getVariableDefinition(
+      document,
+      { line: 1, character: 16 },
+      mockContext() as never,
+    );
+    expect(links?.map((l) => l.targetUri)).toEqual([
+      "file:///ws/group_vars/web.yml",
+      "file:///ws/roles/web/defaults/main.yml",
+    ]);
+  });
+});
+
+describe("getUndefinedVariableValidation", () => {
+  it("warns about variables defined nowhere", async () => {
+    const document = doc(
+      [
+        "- hosts: all",
+        "  vars:",
+        "    local: 1",
+        "  tasks:",
+        "    - debug:",
+        '        msg: "{{ http_port + local + missing }}"',
+        "      when: other is defined or inventory_hostname == ansible_host",
+      ].join("\n"),
+    );
+    const diagnostics = await getUndefinedVariableValidation(
+      document,
+      mockContext() as never,
+    );
+    expect(diagnostics.map((d) => [d.message, d.range])).toEqual([
+      [
+        "Variable 'missing' is not defined in the workspace.",
+        Range.create(5, 37, 5, 44),
+      ],
+    ]);
+  });
+
+  it("knows the variables set in the inventory", async () => {
+    const document = doc('- debug:\n    msg: "{{ db_host }}:{{ db_port }}"\n');
+    const diagnostics = await getUndefinedVariableValidation(
+      document,
+      mockContext(["db_host"]) as never,
+    );
+    expect(diagnostics.map((d) => d.message)).toEqual([
+      "Variable 'db_port' is not defined in the workspace.",
+    ]);
+  });
+});
+
+describe("doValidate", () => {
+  it("checks variables on save and keeps the result while typing", async () => {
+    const document = doc('- debug:\n    msg: "{{ missing }}"\n');
+    const context = {
+      ...mockContext(),
+      ansibleConfig: Promise.resolve({ ansibleLocation: "" }),
+      ansiblePlaybook: { doValidate: async () => new Map() },
+      documentSettings: {
+        get: async () => ({
+          validation: { enabled: true, lint: { enabled: false } },
+        }),
+      },
+      getCollectionsService: async () => ({
+        getCollection: () => undefined,
+        getPlugins: () => [],
+        getPluginDocumentation: async () => null,
+      }),
+    };
+    const getDefinitions = vi.spyOn(context.variableIndex, "getDefinitions");
+    const connection = { sendDiagnostics: vi.fn() };
+    const validationManager = new ValidationManager(
+      connection as never,
+      { get: () => document } as never,
+    );
+    const messagesOf = (diagnosticsByFile: Map<string, unknown[]>) =>
+      (diagnosticsByFile.get(document.uri) as { message: string }[])
+        .map((d) => d.message)
+        .filter((message) => message.startsWith("Variable"));
+
+    const saved = await doValidate(
+      document,
+      validationManager,
+      false,
+      context as never,
+    );
+    expect(messagesOf(saved)).toEqual([
+      "Variable 'missing' is not defined in the workspace.",
+    ]);
+    expect(getDefinitions).toHaveBeenCalledTimes(1);
+
+    const typed = await doValidate(
+      document,
+      validationManager,
+      true,
+      context as never,
+    );
+    expect(messagesOf(typed)).toEqual([
+      "Variable 'missing' is not defined in the workspace.",
+    ]);
+    expect(getDefinitions).toHaveBeenCalledTimes(1);
+  });
+});
@@ -119,3 +119,14 @@ describe("AnsibleConfig", () => {
     expect(config.collectionPaths).toEqual([]);
   });
 });
+
+describe("isAnsibleConfigFile", () => {
+  it("only matches the files ansible reads its configuration from", async () => {
+    const { isAnsibleConfigFile } =
+      await import("../../src/services/ansibleConfig");
+    expect(isAnsibleConfigFile("/ws/ansible.cfg")).toBe(true);
+    expect(isAnsibleConfigFile("/home/user/.ansible.cfg")).toBe(true);
+    expect(isAnsibleConfigFile("/ws/site.yml")).toBe(false);
+    expect(isAnsibleConfigFile("/ws/roles/web/tasks/main.yml")).toBe(false);
+  });
+});
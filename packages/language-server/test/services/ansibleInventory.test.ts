@@ -57,6 +57,42 @@ describe("AnsibleInventory", () => {
     expect(hosts).toContain("all");
   });
 
+  it("keeps the group tree and host variables", async () => {
+    runToolMock.mockResolvedValueOnce({
+      stdout: JSON.stringify({
+        all: { children: ["dc1", "ungrouped"] },
+        dc1: { children: ["web"], vars: { region: "eu" } },
+        web: { hosts: ["web1", "web2"] },
+        ungrouped: { hosts: ["solo"] },
+        _meta: { hostvars: { web1: { http_port: 80 }, solo: {} } },
+      }),
+      stderr: "",
+      exitCode: 0,
+    });
+
+    const inv = new AnsibleInventory(
+      mockConnection() as never,
+      mockContext() as never,
+    );
+    await inv.initialize();
+
+    expect(inv.groups.get("dc1")).toEqual({
+      name: "dc1",
+      hosts: [],
+      children: ["web"],
+      parents: ["all"],
+      vars: { region: "eu" },
+    });
+    expect(inv.hosts.get("web1")).toEqual({
+      name: "web1",
+      groups: ["web"],
+      vars: { http_port: 80 },
+    });
+    expect(inv.getGroupHosts("dc1")).toEqual(["web1", "web2"]);
+    expect(inv.getGroupHosts("all")).toEqual(["web1", "web2", "solo"]);
+    expect([...inv.getVariableNames()]).toEqual(["region", "http_port"]);
+  });
+
   it("returns empty list when inventory has no 'all' key", async () => {
     runToolMock.mockResolvedValueOnce({
       stdout: JSON.stringify({ _meta: { hostvars: {} } }),
@@ -1,10 +1,16 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
+import { existsSync, promises as fs } from "fs";
+import * as os from "os";
 import { DiagnosticSeverity } from "vscode-languageserver";
 import { TextDocument } from "vscode-languageserver-textdocument";
 
 const runToolMock = vi.hoisted(() => vi.fn());
+const spawnToolMock = vi.hoisted(() => vi.fn());
 vi.mock("@ansible/core/out/services/CommandService", () => ({
-  getCommandService: () => ({ runTool: runToolMock }),
+  getCommandService: () => ({
+    runTool: runToolMock,
+    spawnTool: spawnToolMock,
+  }),
 }));
 
 vi.mock("../../src/utils/misc", async (importOriginal) => {
@@ -67,6 +73,7 @@ describe("AnsibleLint", () => {
   beforeEach(async () => {
     vi.resetModules();
     runToolMock.mockReset();
+    spawnToolMock.mockReset();
     const mod = await import("../../src/services/ansibleLint");
     AnsibleLint = mod.AnsibleLint;
   });
@@ -262,6 +269,114 @@ describe("AnsibleLint", () => {
     expect(result.size).toBe(2);
   });
 
+  it("lints several files at once and keeps only their diagnostics", async () => {
+    const report = [
+      {
+        check_name: "name[missing]",
+        description: "All tasks should be named.",
+        severity: "major",
+        location: {
+          path: "site.yml",
+          positions: { begin: { line: 4, column: 7 } },
+        },
+      },
+      {
+        check_name: "fqcn[action]",
+        description: "Use FQCN for module actions.",
+        severity: "major",
+        location: {
+          path: "roles/web/tasks/main.yml",
+          positions: { begin: { line: 1, column: 3 } },
+        },
+      },
+    ];
+
+    spawnToolMock.mockReturnValueOnce({
+      result: Promise.resolve({
+        stdout: JSON.stringify(report),
+        stderr: "",
+        exitCode: 2,
+        aborted: false,
+      }),
+    });
+
+    const svc = new AnsibleLint(
+      mockConnection() as never,
+      mockContext() as never,
+    );
+    const result = await svc.lintFiles([
+      "file:///workspace/site.yml",
+      "file:///workspace/clean.yml",
+    ]);
+
+    const args = spawnToolMock.mock.calls[0][1] as string[];
+    expect(args).not.toContain("--fix");
+    expect(args.slice(-2)).toEqual([
+      "/workspace/site.yml",
+      "/workspace/clean.yml",
+    ]);
+    expect([...result!.keys()]).toEqual([
+      "file:///workspace/site.yml",
+      "file:///workspace/clean.yml",
+    ]);
+    expect(result!.get("file:///workspace/site.yml")?.[0].code).toBe(
+      "name[missing]",
+    );
+    expect(result!.get("file:///workspace/clean.yml")).toEqual([]);
+  });
+
+  it("returns nothing when the lint of several files is aborted", async () => {
+    spawnToolMock.mockReturnValueOnce({
+      result: Promise.resolve({
+        stdout: "",
+        stderr: "",
+        exitCode: 1,
+        aborted: true,
+      }),
+    });
+
+    const controller = new AbortController();
+    const svc = new AnsibleLint(
+      mockConnection() as never,
+      mockContext() as never,
+    );
+    const result = await svc.lintFiles(
+      ["file:///workspace/site.yml"],
+      controller.signal,
+    );
+
+    expect(spawnToolMock.mock.calls[0][2]).toMatchObject({
+      signal: controller.signal,
+    });
+    expect(result).toBeUndefined();
+  });
+
+  it("fixes a copy of the document outside of the workspace", async () => {
+    let copyPath = "";
+    spawnToolMock.mockImplementationOnce((_tool: string, args: string[]) => {
+      copyPath = args[args.length - 1];
+      return {
+        result: fs
+          .writeFile(copyPath, "- fixed\n")
+          .then(() => ({ stdout: "", stderr: "", exitCode: 0 })),
+      };
+    });
+
+    const svc = new AnsibleLint(
+      mockConnection() as never,
+      mockContext() as never,
+    );
+    const fixed = await svc.fix(
+      makeDoc("- broken\n", "file:///workspace/roles/web/tasks/main.yml"),
+    );
+
+    expect(fixed).toBe("- fixed\n");
+    expect(copyPath.startsWith(os.tmpdir())).toBe(true);
+    expect(copyPath.endsWith("/roles/web/tasks/main.yml")).toBe(true);
+    expect(spawnToolMock.mock.calls[0][2]).toEqual({ cwd: "/workspace" });
+    expect(existsSync(copyPath)).toBe(false);
+  });
+
   it("logs exception from runTool", async () => {
     runToolMock.mockRejectedValueOnce(new Error("lint crash"));
 
@@ -0,0 +1,117 @@
+import { performance } from "perf_hooks";
+import { describe, it, expect } from "vitest";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { doHover } from "../../src/providers/hoverProvider";
+import { doSemanticTokens } from "../../src/providers/semanticTokenProvider";
+import { getModuleOptionValidation } from "../../src/providers/validationProvider";
+import {
+  documentAnalysisCache,
+  getDocumentAnalysis,
+} from "../../src/services/documentAnalysis";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+const modules = ["copy", "file", "template", "service", "debug"];
+
+/** Generates a playbook of `taskCount` tasks, five lines each. */
+function generatePlaybook(taskCount: number): string {
+  const lines = [
+    "- hosts: all",
+    "  vars:",
+    "    app_dir: /srv/app",
+    "  tasks:",
+  ];
+  for (let i = 0; i < taskCount; i++) {
+    const module = modules[i % modules.length];
+    lines.push(
+      `    - name: Task ${i}`,
+      `      ansible.builtin.${module}:`,
+      `        path: "{{ app_dir }}/file_${i}"`,
+      `      register: result_${i}`,
+      `      when: result_${i - 1} is defined`,
+    );
+  }
+  return lines.join("\n");
+}
+
+function mockCollectionsService() {
+  const lookups: string[] = [];
+  const service = {
+    lookups,
+    getPluginDocumentation: async (fqcn: string) => {
+      lookups.push(fqcn);
+      return {
+        doc: {
+          module: fqcn.split(".").pop(),
+          short_description: `The ${fqcn} module`,
+          options: { path: { type: "str", description: "Target path" } },
+        },
+      };
+    },
+    getCollection: () => undefined,
+  };
+  return service;
+}
+
+describe("DocumentAnalysisCache", () => {
+  it("keeps the analysis of a document until its version changes", () => {
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      generatePlaybook(3),
+    );
+    const analysis = getDocumentAnalysis(document);
+    expect(getDocumentAnalysis(document)).toBe(analysis);
+    expect(analysis.getVariableDefinitions()).toBe(
+      analysis.getVariableDefinitions(),
+    );
+
+    TextDocument.update(document, [{ text: generatePlaybook(4) }], 2);
+    const updated = getDocumentAnalysis(document);
+    expect(updated).not.toBe(analysis);
+    expect(updated.version).toBe(2);
+    expect(updated.getVariableDefinitions().map((d) => d.name)).toContain(
+      "result_3",
+    );
+
+    documentAnalysisCache.invalidate(document);
+    expect(getDocumentAnalysis(document)).not.toBe(updated);
+  });
+
+  it("serves requests on a large playbook from one analysis (benchmark)", async () => {
+    const text = generatePlaybook(2000);
+    const document = TextDocument.create(
+      "file:///ws/large.yml",
+      "ansible",
+      1,
+      text,
+    );
+    expect(document.lineCount).toBeGreaterThan(10000);
+    const collectionsService = mockCollectionsService();
+
+    const parseStart = performance.now();
+    parseAllDocuments(text);
+    const parseTime = performance.now() - parseStart;
+
+    await doSemanticTokens(document, collectionsService as never);
+    await getModuleOptionValidation(document, collectionsService as never);
+    for (let line = 5; line < document.lineCount; line += 500) {
+      await doHover(
+        document,
+        { line, character: 10 },
+        collectionsService as never,
+      );
+    }
+    // one lookup per distinct module, however many tasks and requests
+    expect([...collectionsService.lookups].sort()).toEqual(
+      modules.map((module) => `ansible.builtin.${module}`).sort(),
+    );
+
+    const cachedStart = performance.now();
+    for (let i = 0; i < 100; i++) {
+      getDocumentAnalysis(document);
+    }
+    const cachedTime = performance.now() - cachedStart;
+    expect(cachedTime).toBeLessThan(parseTime);
+  });
+});
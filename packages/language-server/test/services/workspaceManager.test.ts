@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+const executionEnvService = vi.hoisted(() => ({
+  loadExecutionEnvironments: vi.fn(),
+  getExecutionEnvironment: vi.fn(),
+}));
+const localCollections = vi.hoisted(() => ({ name: "local" }));
+const eeCollections = vi.hoisted(() => ({
+  name: "ee",
+  loadExecutionEnvironment: vi.fn(),
+  isLoaded: vi.fn(),
+}));
+const forExecutionEnvironment = vi.hoisted(() => vi.fn());
+
+vi.mock("@ansible/core/out/services/ExecutionEnvService", () => ({
+  ExecutionEnvService: { getInstance: () => executionEnvService },
+}));
+vi.mock("@ansible/core/out/services/CollectionsService", () => ({
+  CollectionsService: {
+    getInstance: () => localCollections,
+    forExecutionEnvironment,
+  },
+}));
+
+import { WorkspaceManager } from "../../src/services/workspaceManager";
+
+const image = {
+  created: "1 day ago",
+  execution_environment: true,
+  full_name: "quay.io/org/ee:1.0",
+  image_id: "abc123",
+};
+
+function createContext(executionEnvironment: {
+  enabled: boolean;
+  image: string;
+}) {
+  const connection = { console: { warn: vi.fn() } };
+  const workspaceManager = new WorkspaceManager(connection as never);
+  const changed = vi.fn();
+  workspaceManager.onCollectionsServiceChanged(changed);
+  workspaceManager.setWorkspaceFolders([{ uri: "file:///ws", name: "ws" }]);
+  const context = workspaceManager.getContext("file:///ws/site.yml")!;
+  context.documentSettings.globalSettings = {
+    ...context.documentSettings.globalSettings,
+    executionEnvironment,
+  };
+  return { context, connection, changed };
+}
+
+describe("WorkspaceFolderContext.getCollectionsService", () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+    executionEnvService.loadExecutionEnvironments.mockResolvedValue([image]);
+    executionEnvService.getExecutionEnvironment.mockImplementation(
+      (name: string) => (name === image.full_name ? image : undefined),
+    );
+    forExecutionEnvironment.mockReturnValue(eeCollections);
+    eeCollections.loadExecutionEnvironment.mockResolvedValue(undefined);
+    eeCollections.isLoaded.mockReturnValue(true);
+  });
+
+  it("uses the local collections unless an image is selected", async () => {
+    const { context } = createContext({
+      enabled: true,
+      image: "",
+    });
+    expect(await context.getCollectionsService()).toBe(localCollections);
+    expect(
+      executionEnvService.loadExecutionEnvironments,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("swaps in the collections of the selected image once loaded", async () => {
+    let loaded: () => void = () => undefined;
+    eeCollections.loadExecutionEnvironment.mockReturnValue(
+      new Promise<void>((resolve) => (loaded = resolve)),
+    );
+    const { context, changed } = createContext({
+      enabled: true,
+      image: image.full_name,
+    });
+    const [first, second] = await Promise.all([
+      context.getCollectionsService(),
+      context.getCollectionsService(),
+    ]);
+    expect(first).toBe(localCollections);
+    expect(second).toBe(localCollections);
+
+    await vi.waitFor(() => expect(forExecutionEnvironment).toHaveBeenCalled());
+    loaded();
+    await vi.waitFor(() => expect(changed).toHaveBeenCalledWith(context));
+    expect(await context.getCollectionsService()).toBe(eeCollections);
+    expect(forExecutionEnvironment).toHaveBeenCalledWith(image);
+    expect(eeCollections.loadExecutionEnvironment).toHaveBeenCalledTimes(1);
+  });
+
+  it("falls back to the local collections when the image cannot be used", async () => {
+    const missing = createContext({ enabled: true, image: "unknown:latest" });
+    expect(await missing.context.getCollectionsService()).toBe(
+      localCollections,
+    );
+    await vi.waitFor(() =>
+      expect(missing.connection.console.warn).toHaveBeenCalledWith(
+        "Execution environment unknown:latest not found, using the local environment.",
+      ),
+    );
+    expect(missing.changed).not.toHaveBeenCalled();
+  });
+
+  it("tries a failed image again later", async () => {
+    const now = vi.spyOn(Date, "now").mockReturnValue(0);
+    eeCollections.isLoaded.mockReturnValue(false);
+    const { context, connection, changed } = createContext({
+      enabled: true,
+      image: image.full_name,
+    });
+    expect(await context.getCollectionsService()).toBe(localCollections);
+    await vi.waitFor(() => expect(connection.console.warn).toHaveBeenCalled());
+
+    expect(await context.getCollectionsService()).toBe(localCollections);
+    expect(eeCollections.loadExecutionEnvironment).toHaveBeenCalledTimes(1);
+
+    eeCollections.isLoaded.mockReturnValue(true);
+    now.mockReturnValue(60000);
+    expect(await context.getCollectionsService()).toBe(localCollections);
+    await vi.waitFor(() => expect(changed).toHaveBeenCalledWith(context));
+    expect(await context.getCollectionsService()).toBe(eeCollections);
+    expect(eeCollections.loadExecutionEnvironment).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,238 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { Diagnostic, FileChangeType } from "vscode-languageserver";
+import { URI } from "vscode-uri";
+import {
+  summarizeLintResults,
+  WorkspaceValidation,
+} from "../../src/services/workspaceValidation";
+
+function diagnostic(code: string, line: number): Diagnostic {
+  return {
+    message: `${code} problem`,
+    range: {
+      start: { line, character: 0 },
+      end: { line, character: 10 },
+    },
+    source: "ansible-lint",
+    code,
+    codeDescription: { href: `https://example.com/${code}` },
+  };
+}
+
+describe("summarizeLintResults", () => {
+  it("groups problems by rule and by file, most frequent first", () => {
+    const summary = summarizeLintResults(
+      new Map([
+        ["file:///ws/a.yml", [diagnostic("name[missing]", 1)]],
+        [
+          "file:///ws/b.yml",
+          [
+            diagnostic("fqcn[action]", 2),
+            diagnostic("name[missing]", 4),
+            diagnostic("fqcn[action]", 6),
+          ],
+        ],
+        ["file:///ws/clean.yml", []],
+      ]),
+    );
+
+    expect(
+      summary.rules.map((rule) => [
+        rule.rule,
+        rule.url,
+        rule.violations.map((v) => `${path.basename(v.uri)}:${v.line}`),
+      ]),
+    ).toEqual([
+      [
+        "fqcn[action]",
+        "https://example.com/fqcn[action]",
+        ["b.yml:2", "b.yml:6"],
+      ],
+      [
+        "name[missing]",
+        "https://example.com/name[missing]",
+        ["a.yml:1", "b.yml:4"],
+      ],
+    ]);
+    expect(summary.files).toEqual([
+      {
+        uri: "file:///ws/b.yml",
+        count: 3,
+        rules: ["fqcn[action]", "name[missing]"],
+      },
+      { uri: "file:///ws/a.yml", count: 1, rules: ["name[missing]"] },
+    ]);
+  });
+});
+
+describe("WorkspaceValidation", () => {
+  let root: string;
+
+  function write(relativePath: string, content: string): string {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+    return URI.file(file).toString();
+  }
+
+  function setup(enabled = true, window?: object) {
+    const lintFiles = vi.fn(async (uris: string[], _signal?: AbortSignal) => {
+      return new Map(
+        uris.map((uri) => [
+          uri,
+          uri.endsWith("site.yml") ? [diagnostic("name[missing]", 0)] : [],
+        ]),
+      );
+    });
+    const settings = {
+      validation: {
+        enabled: true,
+        lint: { enabled: true, arguments: "" },
+        workspace: { enabled },
+      },
+    };
+    const context = {
+      workspaceFolder: { uri: URI.file(root).toString(), name: "ws" },
+      clientCapabilities: window ? { window: { workDoneProgress: true } } : {},
+      documentSettings: { get: vi.fn().mockResolvedValue(settings) },
+      ansibleLint: { lintFiles },
+    };
+    const validationManager = { processWorkspaceDiagnostics: vi.fn() };
+    const validation = new WorkspaceValidation(
+      { console: { error: vi.fn() }, window } as never,
+      context as never,
+    );
+    return { validation, lintFiles, settings, validationManager };
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "workspace-lint-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("lints only the files changed since the last run", async () => {
+    const site = write("site.yml", "- hosts: all\n");
+    const tasks = write("roles/web/tasks/main.yml", "- debug:\n");
+    const { validation, lintFiles, validationManager } = setup();
+
+    await validation.start(validationManager as never);
+    expect(lintFiles).toHaveBeenCalledTimes(1);
+    expect([...lintFiles.mock.calls[0][0]].sort()).toEqual(
+      [site, tasks].sort(),
+    );
+    expect(validationManager.processWorkspaceDiagnostics).toHaveBeenCalledWith(
+      site,
+      [diagnostic("name[missing]", 0)],
+    );
+
+    await validation.start(validationManager as never);
+    expect(lintFiles).toHaveBeenCalledTimes(1);
+
+    write("roles/web/tasks/main.yml", "- ansible.builtin.debug:\n");
+    await validation.start(validationManager as never);
+    expect(lintFiles).toHaveBeenCalledTimes(2);
+    expect(lintFiles.mock.calls[1][0]).toEqual([tasks]);
+    expect([...validation.getResults().keys()].sort()).toEqual(
+      [site, tasks].sort(),
+    );
+
+    validation.handleWatchedDocumentChange({
+      changes: [{ uri: tasks, type: FileChangeType.Deleted }],
+    });
+    expect(validationManager.processWorkspaceDiagnostics).toHaveBeenCalledWith(
+      tasks,
+      undefined,
+    );
+    expect([...validation.getResults().keys()]).toEqual([site]);
+  });
+
+  it("withdraws its diagnostics when the setting is turned off", async () => {
+    const site = write("site.yml", "- hosts: all\n");
+    const { validation, lintFiles, settings, validationManager } = setup();
+    await validation.start(validationManager as never);
+    expect(validation.enabled).toBe(true);
+
+    settings.validation.workspace.enabled = false;
+    await validation.start(validationManager as never);
+
+    expect(validation.enabled).toBe(false);
+    expect(validation.getResults().size).toBe(0);
+    expect(
+      validationManager.processWorkspaceDiagnostics,
+    ).toHaveBeenLastCalledWith(site, undefined);
+    expect(lintFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it("kills the running lint when stopped", async () => {
+    write("site.yml", "- hosts: all\n");
+    const { validation, lintFiles, validationManager } = setup();
+    let signal: AbortSignal | undefined;
+    lintFiles.mockImplementationOnce((_uris, lintSignal) => {
+      signal = lintSignal;
+      return new Promise((resolve) =>
+        lintSignal?.addEventListener("abort", () =>
+          resolve(undefined as never),
+        ),
+      );
+    });
+
+    const run = validation.start(validationManager as never);
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    expect(validation.running).toBe(true);
+    validation.stop();
+    await run;
+
+    expect(signal?.aborted).toBe(true);
+    expect(validation.running).toBe(false);
+    expect(validation.getResults().size).toBe(0);
+  });
+
+  it("kills the running lint when the progress is cancelled", async () => {
+    write("site.yml", "- hosts: all\n");
+    let cancel: (() => void) | undefined;
+    const progress = {
+      token: {
+        onCancellationRequested: (listener: () => void) => {
+          cancel = listener;
+          return { dispose: vi.fn() };
+        },
+      },
+      begin: vi.fn(),
+      report: vi.fn(),
+      done: vi.fn(),
+    };
+    const { validation, lintFiles, validationManager } = setup(true, {
+      createWorkDoneProgress: vi.fn(async () => progress),
+    });
+    let signal: AbortSignal | undefined;
+    lintFiles.mockImplementationOnce((_uris, lintSignal) => {
+      signal = lintSignal;
+      return new Promise((resolve) =>
+        lintSignal?.addEventListener("abort", () =>
+          resolve(undefined as never),
+        ),
+      );
+    });
+
+    const run = validation.start(validationManager as never);
+    await vi.waitFor(() => expect(signal).toBeDefined());
+    expect(progress.begin).toHaveBeenCalledWith(
+      "ansible-lint",
+      0,
+      "Scanning workspace...",
+      true,
+    );
+    cancel?.();
+    await run;
+
+    expect(signal?.aborted).toBe(true);
+    expect(validation.running).toBe(false);
+    expect(progress.done).toHaveBeenCalled();
+  });
+});
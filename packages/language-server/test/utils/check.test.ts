@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { checkUsage, parseCheckArgs, runCheck } from "../../src/check";
+
+describe("parseCheckArgs", () => {
+  it("applies the defaults", () => {
+    expect(parseCheckArgs([])).toEqual({
+      paths: ["."],
+      format: "text",
+      failOn: DiagnosticSeverity.Error,
+      lint: true,
+      verbose: false,
+      help: false,
+    });
+  });
+
+  it("reads the options and paths", () => {
+    expect(
+      parseCheckArgs([
+        "--format",
+        "sarif",
+        "--fail-on",
+        "hint",
+        "--no-lint",
+        "site.yml",
+      ]),
+    ).toMatchObject({
+      paths: ["site.yml"],
+      format: "sarif",
+      failOn: DiagnosticSeverity.Hint,
+      lint: false,
+    });
+  });
+
+  it("rejects unknown values", () => {
+    expect(() => parseCheckArgs(["--format", "xml"])).toThrow(
+      "Unknown format 'xml'.",
+    );
+    expect(() => parseCheckArgs(["--fail-on", "fatal"])).toThrow(
+      "Unknown severity 'fatal'.",
+    );
+  });
+});
+
+describe("runCheck", () => {
+  let root: string;
+  let log: ReturnType<typeof vi.spyOn>;
+  let error: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ls-check-"));
+    vi.spyOn(process, "cwd").mockReturnValue(root);
+    log = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    error = vi.spyOn(console, "error").mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("exits with 2 and the usage on invalid arguments", async () => {
+    expect(await runCheck(["--bogus"])).toBe(2);
+    expect(error).toHaveBeenCalledWith(expect.stringContaining(checkUsage));
+    expect(log).not.toHaveBeenCalled();
+  });
+
+  it("exits with 1 when a file has errors", async () => {
+    fs.writeFileSync(
+      path.join(root, "site.yml"),
+      '- debug:\n    msg: "{{ missing"\n',
+    );
+    expect(await runCheck(["--no-lint", "--format", "json", "site.yml"])).toBe(
+      1,
+    );
+    expect(log.mock.calls[0][0]).toContain("Unclosed '{{'.");
+  });
+
+  it("exits with 0 when no file has errors", async () => {
+    fs.writeFileSync(
+      path.join(root, "site.yml"),
+      '- debug:\n    msg: "{{ greeting }}"\n',
+    );
+    expect(await runCheck(["--no-lint", "."])).toBe(0);
+  });
+});
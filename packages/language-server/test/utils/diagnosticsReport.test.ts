@@ -0,0 +1,88 @@
+import { describe, it, expect } from "vitest";
+import { DiagnosticSeverity, Range } from "vscode-languageserver";
+import {
+  countDiagnostics,
+  FileDiagnostics,
+  formatDiagnosticsReport,
+} from "../../src/utils/diagnosticsReport";
+
+const files: FileDiagnostics[] = [
+  {
+    uri: "file:///ws/site.yml",
+    diagnostics: [
+      {
+        range: Range.create(2, 4, 2, 10),
+        message: "Unknown filter 'uper'.",
+        severity: DiagnosticSeverity.Error,
+        source: "Ansible [Jinja]",
+      },
+      {
+        range: Range.create(5, 0, 5, 8),
+        message: "Unable to find 'missing.yml'.",
+        severity: DiagnosticSeverity.Warning,
+        source: "Ansible [paths]",
+      },
+    ],
+  },
+  { uri: "file:///ws/roles/web/tasks/main.yml", diagnostics: [] },
+];
+
+describe("formatDiagnosticsReport", () => {
+  it("prints one line per diagnostic and a summary as text", () => {
+    expect(formatDiagnosticsReport(files, "text", "/ws")).toBe(
+      [
+        "site.yml:3:5: error: Unknown filter 'uper'. [Ansible [Jinja]]",
+        "site.yml:6:1: warning: Unable to find 'missing.yml'. [Ansible [paths]]",
+        "1 error(s), 1 warning(s) in 1 file(s)",
+      ].join("\n"),
+    );
+    expect(formatDiagnosticsReport([], "text", "/ws")).toBe(
+      "No problems found",
+    );
+  });
+
+  it("lists the diagnostics with 1-based positions as JSON", () => {
+    const results = JSON.parse(
+      formatDiagnosticsReport(files, "json", "/ws"),
+    ) as Record<string, unknown>[];
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+      file: "site.yml",
+      line: 3,
+      column: 5,
+      endLine: 3,
+      endColumn: 11,
+      severity: "error",
+      source: "Ansible [Jinja]",
+    });
+  });
+
+  it("writes a SARIF log with a rule per source", () => {
+    const log = JSON.parse(formatDiagnosticsReport(files, "sarif", "/ws"));
+    expect(log.version).toBe("2.1.0");
+    expect(log.runs[0].tool.driver.rules).toEqual([
+      { id: "Ansible [Jinja]" },
+      { id: "Ansible [paths]" },
+    ]);
+    expect(log.runs[0].results[1]).toEqual({
+      ruleId: "Ansible [paths]",
+      level: "warning",
+      message: { text: "Unable to find 'missing.yml'." },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: "site.yml" },
+            region: { startLine: 6, startColumn: 1, endLine: 6, endColumn: 9 },
+          },
+        },
+      ],
+    });
+  });
+});
+
+describe("countDiagnostics", () => {
+  it("counts the diagnostics at or above a severity", () => {
+    expect(countDiagnostics(files, DiagnosticSeverity.Error)).toBe(1);
+    expect(countDiagnostics(files, DiagnosticSeverity.Warning)).toBe(2);
+  });
+});
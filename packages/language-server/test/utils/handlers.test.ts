@@ -0,0 +1,234 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { getHandlerValidation } from "../../src/providers/validationProvider";
+import {
+  collectHandlers,
+  getHandlersInScope,
+  getNotificationNames,
+} from "../../src/utils/handlers";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+describe("handlers", () => {
+  let root: string;
+  const collectionsService = { getCollection: () => undefined } as never;
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function doc(relativePath: string, content: string): TextDocument {
+    return TextDocument.create(
+      URI.file(path.join(root, relativePath)).toString(),
+      "ansible",
+      1,
+      content,
+    );
+  }
+
+  function mockContext(notifications: string[] = []) {
+    return {
+      workspaceFolder: { uri: URI.file(root).toString() },
+      notificationIndex: {
+        getNotifications: async () => new Set(notifications),
+      },
+    } as never;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "handlers-"));
+    write(
+      "roles/web/handlers/main.yml",
+      [
+        "- name: Restart nginx",
+        "  ansible.builtin.service:",
+        "    name: nginx",
+        "    state: restarted",
+        "- ansible.builtin.import_tasks: extra.yml",
+        "",
+      ].join("\n"),
+    );
+    write(
+      "roles/web/handlers/extra.yml",
+      [
+        "- name: Reload firewall",
+        "  listen: network changed",
+        "  ansible.builtin.command: firewall-cmd --reload",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("collectHandlers", () => {
+    it("collects the handlers of plays with their topics", () => {
+      const handlers = collectHandlers(
+        "file:///ws/site.yml",
+        parseAllDocuments(
+          [
+            "- hosts: all",
+            "  handlers:",
+            "    - block:",
+            "        - name: Flush",
+            "          listen: [done, finished]",
+            "          ansible.builtin.meta: noop",
+            "  tasks:",
+            "    - name: Not a handler",
+            "      ansible.builtin.debug:",
+            "",
+          ].join("\n"),
+        ),
+      );
+      expect(handlers.map(getNotificationNames)).toEqual([
+        ["done", "finished", "Flush"],
+      ]);
+    });
+  });
+
+  describe("getHandlersInScope", () => {
+    it("includes the handlers of roles and of the files they import", async () => {
+      const document = doc(
+        "site.yml",
+        ["- hosts: all", "  roles:", "    - web", ""].join("\n"),
+      );
+      const handlers = await getHandlersInScope(
+        document,
+        parseAllDocuments(document.getText()),
+        root,
+        collectionsService,
+      );
+      expect(handlers.flatMap(getNotificationNames)).toEqual([
+        "Restart nginx",
+        "web : Restart nginx",
+        "network changed",
+        "Reload firewall",
+        "web : Reload firewall",
+      ]);
+    });
+  });
+
+  describe("getHandlerValidation", () => {
+    it("reports notifications that no handler answers to", async () => {
+      const document = doc(
+        "roles/web/tasks/main.yml",
+        [
+          "- name: Configure",
+          "  ansible.builtin.template:",
+          "    src: nginx.conf.j2",
+          "    dest: /etc/nginx/nginx.conf",
+          "  notify:",
+          "    - Restart nginx",
+          "    - network changed",
+          "    - Restart apache",
+          "    - '{{ handler_name }}'",
+          "",
+        ].join("\n"),
+      );
+      const diagnostics = await getHandlerValidation(
+        document,
+        mockContext(),
+        collectionsService,
+      );
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0]).toMatchObject({
+        message:
+          "No handler named or listening to 'Restart apache' can be notified from here.",
+        severity: DiagnosticSeverity.Information,
+        range: { start: { line: 7, character: 6 } },
+      });
+    });
+
+    it("reports notifications of playbooks as errors", async () => {
+      const document = doc(
+        "site.yml",
+        [
+          "- hosts: all",
+          "  tasks:",
+          "    - ansible.builtin.debug:",
+          "      notify: Restart nginx",
+          "",
+        ].join("\n"),
+      );
+      const diagnostics = await getHandlerValidation(
+        document,
+        mockContext(),
+        collectionsService,
+      );
+      expect(diagnostics.map((d) => d.severity)).toEqual([
+        DiagnosticSeverity.Error,
+      ]);
+    });
+
+    it("accepts the handlers of the roles a role depends on", async () => {
+      write(
+        "roles/app/meta/main.yml",
+        ["dependencies:", "  - role: web", "  - common", ""].join("\n"),
+      );
+      write(
+        "roles/common/handlers/main.yml",
+        "- name: Restart cron\n  ansible.builtin.service:\n    name: cron\n",
+      );
+      const document = doc(
+        "roles/app/tasks/main.yml",
+        [
+          "- ansible.builtin.debug:",
+          "  notify:",
+          "    - Restart nginx",
+          "    - network changed",
+          "    - common : Restart cron",
+          "",
+        ].join("\n"),
+      );
+      expect(
+        await getHandlerValidation(document, mockContext(), collectionsService),
+      ).toEqual([]);
+    });
+
+    it("leaves the notifications of loose tasks files alone", async () => {
+      const document = doc(
+        "tasks/setup.yml",
+        ["- ansible.builtin.debug:", "  notify: Anything", ""].join("\n"),
+      );
+      expect(
+        await getHandlerValidation(document, mockContext(), collectionsService),
+      ).toEqual([]);
+    });
+
+    it("hints at handlers that are never notified", async () => {
+      const document = doc(
+        "roles/web/handlers/extra.yml",
+        fs.readFileSync(
+          path.join(root, "roles/web/handlers/extra.yml"),
+          "utf8",
+        ),
+      );
+      const unused = await getHandlerValidation(
+        document,
+        mockContext(["Restart nginx"]),
+        collectionsService,
+      );
+      expect(unused.map((d) => [d.message, d.severity])).toEqual([
+        [
+          "Handler 'Reload firewall' is never notified.",
+          DiagnosticSeverity.Hint,
+        ],
+      ]);
+      expect(
+        await getHandlerValidation(
+          document,
+          mockContext(["network changed"]),
+          collectionsService,
+        ),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import {
+  matchHostPattern,
+  matchHostPatternTerm,
+  splitHostPattern,
+} from "../../src/utils/hostPatterns";
+
+const groups: Record<string, string[]> = {
+  web: ["web1", "web2", "web3"],
+  db: ["db1"],
+  staging: ["web1", "db1"],
+};
+
+const inventory = {
+  groups: new Map(Object.keys(groups).map((name) => [name, {}])),
+  hosts: new Map(["web1", "web2", "web3", "db1"].map((name) => [name, {}])),
+  getGroupHosts: (name: string) => groups[name] ?? [],
+} as never;
+
+describe("splitHostPattern", () => {
+  it("splits on colons with operators and offsets", () => {
+    expect(splitHostPattern("web:&staging:!web3")).toEqual([
+      { operator: "", text: "web", start: 0, end: 3 },
+      { operator: "&", text: "staging", start: 5, end: 12 },
+      { operator: "!", text: "web3", start: 14, end: 18 },
+    ]);
+  });
+
+  it("prefers commas and keeps subscripts together", () => {
+    expect(splitHostPattern("web[0:1], db").map((t) => t.text)).toEqual([
+      "web[0:1]",
+      "db",
+    ]);
+  });
+});
+
+describe("matchHostPatternTerm", () => {
+  it("matches groups, hosts, wildcards, regexes and subscripts", () => {
+    expect(matchHostPatternTerm("db", inventory)).toEqual(["db1"]);
+    expect(matchHostPatternTerm("web2", inventory)).toEqual(["web2"]);
+    expect(matchHostPatternTerm("localhost", inventory)).toEqual(["localhost"]);
+    expect(matchHostPatternTerm("web?", inventory)).toEqual([
+      "web1",
+      "web2",
+      "web3",
+    ]);
+    expect(matchHostPatternTerm("~db\\d", inventory)).toEqual(["db1"]);
+    expect(matchHostPatternTerm("web[1:]", inventory)).toEqual([
+      "web2",
+      "web3",
+    ]);
+    expect(matchHostPatternTerm("web[-1]", inventory)).toEqual(["web3"]);
+    expect(matchHostPatternTerm("missing", inventory)).toBeUndefined();
+  });
+});
+
+describe("matchHostPattern", () => {
+  it("applies intersections and exclusions after unions", () => {
+    expect(matchHostPattern("!web3:web:db", inventory)).toEqual([
+      "web1",
+      "web2",
+      "db1",
+    ]);
+    expect(matchHostPattern("web:&staging", inventory)).toEqual(["web1"]);
+    expect(matchHostPattern("web:&db", inventory)).toEqual([]);
+  });
+});
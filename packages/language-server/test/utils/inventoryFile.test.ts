@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { getInventoryValidation } from "../../src/providers/validationProvider";
+import {
+  expandHostRange,
+  parseInventoryFile,
+} from "../../src/utils/inventoryFile";
+import { getInventoryFormat } from "../../src/utils/yaml";
+
+function doc(uri: string, lines: string[], languageId = "ansible") {
+  return TextDocument.create(uri, languageId, 1, lines.join("\n"));
+}
+
+describe("getInventoryFormat", () => {
+  it("recognizes INI and YAML inventories", () => {
+    expect(getInventoryFormat(doc("file:///ws/hosts.ini", ["[web]"]))).toBe(
+      "ini",
+    );
+    expect(
+      getInventoryFormat(doc("file:///ws/inventory/hosts", ["web1"], "ini")),
+    ).toBe("ini");
+    expect(
+      getInventoryFormat(
+        doc("file:///ws/hosts.yml", ["all:", "  children:", "    web:"]),
+      ),
+    ).toBe("yaml");
+    expect(
+      getInventoryFormat(doc("file:///ws/site.yml", ["- hosts: all"])),
+    ).toBeUndefined();
+    expect(
+      getInventoryFormat(
+        doc("file:///ws/inventory/group_vars/all.yml", ["ntp: pool.ntp.org"]),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("expandHostRange", () => {
+  it("expands numeric and alphabetic ranges", () => {
+    expect(expandHostRange("web[08:10].example.com").hosts).toEqual([
+      "web08.example.com",
+      "web09.example.com",
+      "web10.example.com",
+    ]);
+    expect(expandHostRange("db-[a:c]-[1:5:2]").hosts).toEqual([
+      "db-a-1",
+      "db-a-3",
+      "db-a-5",
+      "db-b-1",
+      "db-b-3",
+      "db-b-5",
+      "db-c-1",
+      "db-c-3",
+      "db-c-5",
+    ]);
+  });
+
+  it("tells why a range cannot be expanded", () => {
+    expect(expandHostRange("web[01:").error).toBe(
+      "Host range in 'web[01:' is missing its closing ']'.",
+    );
+    expect(expandHostRange("web[1:]").error).toBe(
+      "Host range '[1:]' has no end.",
+    );
+    expect(expandHostRange("web[01:100]").error).toBe(
+      "Host range '[01:100]' must give its begin and end with the same number of digits.",
+    );
+    expect(expandHostRange("web[9:1]").error).toBe(
+      "Host range '[9:1]' begins after its end.",
+    );
+    expect(expandHostRange("web[a:10]").error).toBe(
+      "Host range '[a:10]' must be numeric or single letters.",
+    );
+  });
+});
+
+describe("parseInventoryFile", () => {
+  it("parses the sections of INI inventories", () => {
+    const inventory = parseInventoryFile(
+      doc("file:///ws/hosts.ini", [
+        "bastion ansible_host=10.0.0.1",
+        "# comment",
+        "[web]",
+        "web[1:2]:2222 ansible_user=deploy http_port=8080",
+        "[prod:children]",
+        "web",
+        "[prod:vars]",
+        "ntp_server = ntp.example.com",
+        "[db:hosts]",
+      ]),
+    );
+    expect(
+      inventory?.groups.map((group) => [
+        group.name,
+        group.section,
+        group.hosts.map((host) => [host.name, host.hosts, host.vars.length]),
+        group.children.map((child) => child.name),
+        group.vars.map((variable) => variable.name),
+      ]),
+    ).toEqual([
+      ["ungrouped", undefined, [["bastion", ["bastion"], 1]], [], []],
+      ["web", undefined, [["web[1:2]:2222", ["web1", "web2"], 2]], [], []],
+      ["prod", "children", [], ["web"], []],
+      ["prod", "vars", [], [], ["ntp_server"]],
+      ["db", undefined, [], [], []],
+    ]);
+    expect(inventory?.problems.map((problem) => problem.message)).toEqual([
+      "Unknown section type ':hosts', expected ':children' or ':vars'.",
+    ]);
+  });
+
+  it("parses nested groups of YAML inventories", () => {
+    const inventory = parseInventoryFile(
+      doc("file:///ws/hosts.yml", [
+        "all:",
+        "  vars:",
+        "    ansible_user: deploy",
+        "  children:",
+        "    web:",
+        "      hosts:",
+        "        web1:",
+        "          ansible_host: 10.0.0.2",
+        "    db:",
+        "      hosts:",
+        "        - db1",
+      ]),
+    );
+    expect(
+      inventory?.groups.map((group) => [
+        group.name,
+        group.hosts.map((host) => [host.name, host.vars.length]),
+        group.children.map((child) => child.name),
+        group.vars.map((variable) => variable.name),
+      ]),
+    ).toEqual([
+      ["all", [], ["web", "db"], ["ansible_user"]],
+      ["web", [["web1", 1]], [], []],
+      ["db", [], [], []],
+    ]);
+    expect(inventory?.problems).toEqual([
+      {
+        message: "'hosts' must be a mapping of host names, not a list.",
+        range: {
+          start: { line: 10, character: 8 },
+          end: { line: 10, character: 13 },
+        },
+      },
+    ]);
+  });
+});
+
+describe("getInventoryValidation", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "inventory-"));
+    fs.writeFileSync(path.join(root, "db.ini"), "[db]\ndb1\n");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("reports duplicate hosts, undefined children and bad ranges", async () => {
+    const document = doc(URI.file(path.join(root, "hosts.ini")).toString(), [
+      "[web]",
+      "web01",
+      "web[01:03]",
+      "web[1:]",
+      "[prod:children]",
+      "web",
+      "db",
+      "cache",
+    ]);
+    const diagnostics = await getInventoryValidation(document);
+    expect(
+      diagnostics.map((d) => [d.message, d.severity, d.range.start.line]),
+    ).toEqual([
+      [
+        "Host 'web01' is already listed in group 'web'.",
+        DiagnosticSeverity.Warning,
+        2,
+      ],
+      ["Host range '[1:]' has no end.", DiagnosticSeverity.Error, 3],
+      [
+        "Child group 'cache' of 'prod' is not defined in the inventory.",
+        DiagnosticSeverity.Warning,
+        7,
+      ],
+    ]);
+  });
+});
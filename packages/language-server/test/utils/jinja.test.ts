@@ -0,0 +1,256 @@
+import { describe, it, expect } from "vitest";
+import {
+  classifyJinjaSymbols,
+  findFilterNames,
+  findJinjaRegions,
+  findJinjaSyntaxProblems,
+  findVariableReferences,
+  getJinjaCallContext,
+  getJinjaCursorContext,
+  getJinjaWordAt,
+  tokenizeJinja,
+} from "../../src/utils/jinja";
+
+describe("tokenizeJinja", () => {
+  it("splits names, strings, numbers, operators and punctuation", () => {
+    expect(
+      tokenizeJinja("x | default('a b', 1.5) == y").map((t) => [
+        t.type,
+        t.value,
+      ]),
+    ).toEqual([
+      ["name", "x"],
+      ["operator", "|"],
+      ["name", "default"],
+      ["punctuation", "("],
+      ["string", "'a b'"],
+      ["punctuation", ","],
+      ["number", "1.5"],
+      ["punctuation", ")"],
+      ["operator", "=="],
+      ["name", "y"],
+    ]);
+  });
+
+  it("marks unterminated strings", () => {
+    const [token] = tokenizeJinja("'abc");
+    expect(token.unterminated).toBe(true);
+  });
+});
+
+describe("findJinjaRegions", () => {
+  it("finds expression, statement and comment regions", () => {
+    expect(
+      findJinjaRegions("a {{ b }} {% if c %}{# d #}").map((r) => [
+        r.kind,
+        r.closed,
+      ]),
+    ).toEqual([
+      ["expression", true],
+      ["statement", true],
+      ["comment", true],
+    ]);
+  });
+
+  it("ignores closing delimiters inside strings", () => {
+    const [region] = findJinjaRegions("{{ '}}' }}");
+    expect(region.end).toBe(10);
+  });
+
+  it("treats bare expressions as a single region", () => {
+    expect(findJinjaRegions("x is defined", true)).toHaveLength(1);
+    expect(findJinjaRegions("x is defined")).toHaveLength(0);
+  });
+});
+
+describe("findJinjaSyntaxProblems", () => {
+  it("accepts well-formed templates", () => {
+    expect(findJinjaSyntaxProblems("{{ (a + b) | join(',') }}")).toEqual([]);
+  });
+
+  it("reports unclosed and stray delimiters", () => {
+    expect(
+      findJinjaSyntaxProblems("a }} {{ b").map((p) => [p.message, p.start]),
+    ).toEqual([
+      ["Unexpected '}}' without matching opening delimiter.", 2],
+      ["Unclosed '{{'.", 5],
+    ]);
+  });
+
+  it("reports unbalanced brackets", () => {
+    expect(
+      findJinjaSyntaxProblems("x in (a, [b)", true).map((p) => p.message),
+    ).toEqual(["Unexpected ')'.", "Unclosed '('.", "Unclosed '['."]);
+  });
+
+  it("ignores the content of raw blocks", () => {
+    expect(findJinjaSyntaxProblems("{% raw %}{{ {% endraw %}")).toEqual([]);
+    expect(
+      findJinjaSyntaxProblems("{%- raw -%} }} {%- endraw -%} {{ a").map(
+        (p) => p.message,
+      ),
+    ).toEqual(["Unclosed '{{'."]);
+  });
+});
+
+describe("findFilterNames", () => {
+  it("returns plain and fully qualified filter names", () => {
+    expect(
+      findFilterNames(
+        tokenizeJinja("x | community.general.json_query('a') | first"),
+      ).map((f) => f.name),
+    ).toEqual(["community.general.json_query", "first"]);
+  });
+});
+
+describe("getJinjaCursorContext", () => {
+  it.each([
+    [" x | def", "filter", "def"],
+    [" x is not ", "test", ""],
+    [" lookup('fi", "lookup", "fi"],
+    [" inventory_hos", "variable", "inventory_hos"],
+  ])("classifies %j", (prefix, kind, word) => {
+    expect(getJinjaCursorContext(prefix)).toMatchObject({ kind, word });
+  });
+});
+
+describe("getJinjaWordAt", () => {
+  it("returns the whole word around the offset", () => {
+    expect(getJinjaWordAt("x | default(1)", 6)).toEqual({
+      kind: "filter",
+      word: "default",
+      wordStart: 4,
+    });
+  });
+});
+
+describe("getJinjaCallContext", () => {
+  it("finds filter calls and the active parameter", () => {
+    expect(getJinjaCallContext(" x | regex_replace('a', ")).toEqual({
+      kind: "filter",
+      name: "regex_replace",
+      activeParameter: 1,
+    });
+  });
+
+  it("finds lookup calls by plugin name", () => {
+    expect(getJinjaCallContext(" lookup('env', ")).toEqual({
+      kind: "lookup",
+      name: "env",
+      activeParameter: 0,
+    });
+  });
+
+  it("finds test calls", () => {
+    expect(getJinjaCallContext("x is divisibleby(")).toMatchObject({
+      kind: "test",
+      name: "divisibleby",
+    });
+  });
+
+  it("ignores calls that are already closed", () => {
+    expect(getJinjaCallContext(" x | join(',') ")).toBeUndefined();
+  });
+});
+
+describe("findVariableReferences", () => {
+  function references(text: string, bare = false) {
+    return findVariableReferences(text, findJinjaRegions(text, bare)).map(
+      (r) => [r.name, r.guarded],
+    );
+  }
+
+  it("skips filters, tests, attributes, functions and keyword arguments", () => {
+    expect(
+      references(
+        "{{ user.name | default(fallback, true) ~ lookup('env', 'HOME') }}",
+      ),
+    ).toEqual([
+      ["user", true],
+      ["fallback", false],
+    ]);
+    expect(
+      references("x is version(min, strict=true) and not y", true),
+    ).toEqual([
+      ["x", false],
+      ["min", false],
+      ["y", false],
+    ]);
+  });
+
+  it("marks variables guarded by default or is defined", () => {
+    expect(
+      references("port is defined and port > 0 or (x | d(1)) > limit", true),
+    ).toEqual([
+      ["port", true],
+      ["port", true],
+      ["x", true],
+      ["limit", false],
+    ]);
+  });
+
+  it("ignores names bound by the template", () => {
+    expect(
+      references(
+        "{% for key, value in data.items() %}{{ key }}={{ value }}{% endfor %}" +
+          "{% set total = count + 1 %}{{ total }}",
+      ),
+    ).toEqual([
+      ["data", false],
+      ["count", false],
+    ]);
+  });
+});
+
+describe("classifyJinjaSymbols", () => {
+  function classify(text: string, bare = false) {
+    return classifyJinjaSymbols(text, findJinjaRegions(text, bare)).map(
+      (symbol) => [
+        symbol.kind,
+        text.slice(symbol.start, symbol.end),
+        ...(symbol.declaration ? ["declaration"] : []),
+        ...(symbol.builtin ? ["builtin"] : []),
+      ],
+    );
+  }
+
+  it("tells variables, filters, tests and literals apart", () => {
+    expect(
+      classify("result.rc is not failed and items | join(sep=', ') ~ 1", true),
+    ).toEqual([
+      ["variable", "result"],
+      ["attribute", "rc"],
+      ["keyword", "is"],
+      ["keyword", "not"],
+      ["test", "failed"],
+      ["keyword", "and"],
+      ["variable", "items"],
+      ["operator", "|"],
+      ["filter", "join"],
+      ["parameter", "sep"],
+      ["operator", "="],
+      ["string", "', '"],
+      ["operator", "~"],
+      ["number", "1"],
+    ]);
+  });
+
+  it("marks the names bound by statements and keeps comments whole", () => {
+    expect(
+      classify(
+        "{# users #}{% for user in lookup('file', path) %}{{ loop.index }}{% endfor %}",
+      ),
+    ).toEqual([
+      ["comment", "{# users #}"],
+      ["keyword", "for"],
+      ["variable", "user", "declaration"],
+      ["keyword", "in"],
+      ["function", "lookup"],
+      ["string", "'file'"],
+      ["variable", "path"],
+      ["variable", "loop", "builtin"],
+      ["attribute", "index"],
+      ["keyword", "endfor"],
+    ]);
+  });
+});
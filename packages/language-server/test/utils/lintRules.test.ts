@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import {
+  findLintRule,
+  findRuleProfile,
+  formatLintRule,
+  parseLintProfiles,
+  parseRuleListMarkdown,
+  toggleRuleInList,
+} from "../../src/utils/lintRules";
+
+const ruleList = [
+  "# Rules",
+  "",
+  "## name",
+  "",
+  "**Rule for checking task and play names.**",
+  "",
+  "This rule builds on top of default rules. [more](https://ansible.readthedocs.io/projects/lint/rules/name/)",
+  "",
+  "## no-changed-when",
+  "",
+  "**Commands should not change things if nothing needs doing.**",
+  "",
+  "All tasks should change state only when needed.",
+  "",
+].join("\n");
+
+const profiles = [
+  "min:",
+  "  description: >",
+  "    The min profile ensures that Ansible can load content.",
+  "  rules:",
+  "    internal-error:",
+  "    syntax-check:",
+  "basic:",
+  "  description: It prevents common coding issues.",
+  "  extends: min",
+  "  rules:",
+  "    name[template]:",
+  "    no-changed-when:",
+  "production:",
+  "  extends: basic",
+  "  rules:",
+  "    name:",
+  "",
+].join("\n");
+
+describe("parseRuleListMarkdown", () => {
+  it("reads the rules listed by ansible-lint", () => {
+    const rules = parseRuleListMarkdown(ruleList);
+    expect([...rules.keys()]).toEqual(["name", "no-changed-when"]);
+    expect(rules.get("name")).toEqual({
+      id: "name",
+      shortdesc: "Rule for checking task and play names.",
+      description: "This rule builds on top of default rules.",
+      url: "https://ansible.readthedocs.io/projects/lint/rules/name/",
+    });
+    expect(rules.get("no-changed-when")?.url).toBeUndefined();
+    expect(findLintRule(rules, "name[casing]")?.id).toBe("name");
+  });
+});
+
+describe("parseLintProfiles", () => {
+  it("finds the least strict profile enabling a rule", () => {
+    const parsed = parseLintProfiles(profiles);
+    expect(parsed.map((profile) => [profile.name, profile.extends])).toEqual([
+      ["min", undefined],
+      ["basic", "min"],
+      ["production", "basic"],
+    ]);
+    expect(parsed[0].description).toBe(
+      "The min profile ensures that Ansible can load content.",
+    );
+    expect(findRuleProfile(parsed, "no-changed-when")).toBe("basic");
+    expect(findRuleProfile(parsed, "name[template]")).toBe("basic");
+    expect(findRuleProfile(parsed, "name[casing]")).toBe("production");
+    expect(findRuleProfile(parsed, "unknown")).toBeUndefined();
+  });
+});
+
+describe("formatLintRule", () => {
+  it("prefers the full rule documentation to the description", () => {
+    const rule = parseRuleListMarkdown(ruleList).get("name")!;
+    rule.profile = "production";
+    expect(formatLintRule(rule, "name[casing]")).toBe(
+      [
+        "**name[casing]** — Rule for checking task and play names.",
+        "",
+        "This rule builds on top of default rules.",
+        "",
+        "Profile: `production` · [Documentation](https://ansible.readthedocs.io/projects/lint/rules/name/)",
+      ].join("\n"),
+    );
+
+    rule.help = "# name\n\nAll tasks should be named.\n\n## Problematic code\n";
+    expect(formatLintRule(rule).split("\n").slice(2, 5)).toEqual([
+      "All tasks should be named.",
+      "",
+      "## Problematic code",
+    ]);
+  });
+});
+
+describe("toggleRuleInList", () => {
+  it("adds a rule, moving it from the other lists", () => {
+    const text = [
+      "# project settings",
+      "profile: production",
+      "warn_list:",
+      "  - name[casing]",
+      "",
+    ].join("\n");
+    expect(toggleRuleInList(text, "name[casing]", "skip_list")).toBe(
+      [
+        "# project settings",
+        "profile: production",
+        "skip_list:",
+        "  - name[casing]",
+        "",
+      ].join("\n"),
+    );
+    expect(toggleRuleInList("", "yaml", "skip_list")).toBe(
+      "skip_list:\n  - yaml\n",
+    );
+  });
+
+  it("removes a listed rule", () => {
+    const text = ["skip_list:", "  - yaml", "  - name[casing]", ""].join("\n");
+    expect(toggleRuleInList(text, "yaml", "skip_list")).toBe(
+      ["skip_list:", "  - name[casing]", ""].join("\n"),
+    );
+  });
+});
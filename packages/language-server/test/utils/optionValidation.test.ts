@@ -0,0 +1,171 @@
+import { describe, it, expect } from "vitest";
+import { DiagnosticSeverity } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { Node, parseDocument, YAMLMap } from "yaml";
+import { getModuleOptionValidation } from "../../src/providers/validationProvider";
+import { OptionsSpec, validateOptions } from "../../src/utils/optionValidation";
+
+const spec: OptionsSpec = {
+  options: {
+    name: { type: "str", required: true, aliases: ["pkg"] },
+    state: { type: "str", choices: ["present", "absent"] },
+    update_cache: { type: "bool" },
+    retries: { type: "int" },
+    cert: { type: "path" },
+    key: { type: "path" },
+    listen: {
+      type: "list",
+      elements: "dict",
+      suboptions: { port: { type: "int", required: true } },
+    },
+  },
+  mutually_exclusive: [["state", "update_cache"]],
+  required_together: [["cert", "key"]],
+};
+
+function validate(content: string, optionsSpec = spec): string[] {
+  const document = TextDocument.create("file:///t.yml", "ansible", 1, content);
+  const yamlDoc = parseDocument(content, { keepSourceTokens: true });
+  const optionsNode = yamlDoc.contents as YAMLMap | null;
+  return validateOptions(
+    optionsNode,
+    optionsSpec,
+    (optionsNode ?? yamlDoc.contents) as Node,
+    document,
+    "test",
+  ).map((d) => d.message);
+}
+
+describe("validateOptions", () => {
+  it("accepts valid options and aliases", () => {
+    expect(validate("pkg: nginx\nstate: present\nretries: '3'\n")).toEqual([]);
+  });
+
+  it("reports unknown and missing required options", () => {
+    expect(validate("nam: nginx\n")).toEqual([
+      "Unsupported option 'nam'.",
+      "Missing required option 'name'.",
+    ]);
+  });
+
+  it("reports values outside of choices", () => {
+    expect(validate("name: nginx\nstate: latest\n")).toEqual([
+      "Value of option 'state' must be one of: present, absent.",
+    ]);
+  });
+
+  it("reports wrong scalar types but skips templated values", () => {
+    expect(
+      validate("name: nginx\nupdate_cache: maybe\nretries: '{{ n }}'\n"),
+    ).toEqual(["Option 'update_cache' expects a value of type 'bool'."]);
+  });
+
+  it("reports mutually exclusive and incomplete option groups", () => {
+    expect(
+      validate("name: nginx\nstate: present\nupdate_cache: true\ncert: a\n"),
+    ).toEqual([
+      "Options are mutually exclusive: state, update_cache.",
+      "Options are mutually exclusive: state, update_cache.",
+      "Option 'cert' must be used together with: key.",
+    ]);
+  });
+
+  it("validates suboptions of list elements", () => {
+    expect(validate("name: x\nlisten:\n  - port: 80\n  - host: a\n")).toEqual([
+      "Unsupported option 'host'.",
+      "Missing required option 'port'.",
+    ]);
+  });
+
+  it("reports required options when no options are given", () => {
+    const document = TextDocument.create("file:///t.yml", "ansible", 1, "x:");
+    const anchor = parseDocument("x:").contents as Node;
+    expect(
+      validateOptions(null, spec, anchor, document, "test").map(
+        (d) => d.message,
+      ),
+    ).toEqual(["Missing required option 'name'."]);
+  });
+});
+
+describe("getModuleOptionValidation", () => {
+  // documentation as dumped by ansible-doc for these modules
+  const docs: Record<string, OptionsSpec> = {
+    "ansible.builtin.set_fact": {
+      options: {
+        key_value: { type: "str", required: true },
+        cacheable: { type: "bool" },
+      },
+    },
+    "ansible.builtin.add_host": {
+      options: {
+        name: { type: "str", required: true },
+        groups: { type: "list" },
+      },
+    },
+    "ansible.builtin.command": {
+      options: {
+        free_form: { type: "str", required: true },
+        cmd: { type: "str" },
+        chdir: { type: "path" },
+      },
+    },
+    "ansible.builtin.file": {
+      options: { path: { type: "path", required: true } },
+    },
+  };
+  const collectionsService = {
+    getPluginDocumentation: async (fqcn: string) =>
+      docs[fqcn] ? { doc: docs[fqcn] } : null,
+    getCollection: () => undefined,
+  };
+
+  async function validateTasks(tasks: string[]) {
+    const content = ["- hosts: all", "  tasks:", ...tasks, ""].join("\n");
+    const document = TextDocument.create(
+      "file:///ws/site.yml",
+      "ansible",
+      1,
+      content,
+    );
+    return getModuleOptionValidation(document, collectionsService as never);
+  }
+
+  it("accepts the arbitrary keys of set_fact, add_host and similar modules", async () => {
+    expect(
+      await validateTasks([
+        "    - ansible.builtin.set_fact:",
+        "        my_var: 1",
+        "    - add_host:",
+        "        name: web1",
+        "        ansible_host: 10.0.0.1",
+        "    - group_by:",
+        "        key: os_{{ ansible_os_family }}",
+        "    - include_vars:",
+        "        file: vars.yml",
+      ]),
+    ).toEqual([]);
+  });
+
+  it("does not require free-form options", async () => {
+    expect(
+      await validateTasks([
+        "    - ansible.builtin.command:",
+        "        cmd: ls",
+        "        chdir: /tmp",
+        "    - ansible.builtin.command: ls -l",
+      ]),
+    ).toEqual([]);
+  });
+
+  it("reports unknown options as warnings", async () => {
+    const diagnostics = await validateTasks([
+      "    - ansible.builtin.file:",
+      "        path: /tmp/x",
+      "        mode_typo: '0644'",
+    ]);
+    expect(diagnostics.map((d) => [d.message, d.severity])).toEqual([
+      ["Unsupported option 'mode_typo'.", DiagnosticSeverity.Warning],
+    ]);
+  });
+});
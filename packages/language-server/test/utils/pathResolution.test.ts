@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import {
+  getRoleEntryPoint,
+  getRoleHandlersFile,
+  getRoleRoot,
+  resolveFilePath,
+  resolveRolePath,
+} from "../../src/utils/pathResolution";
+
+function touch(root: string, relativePath: string): string {
+  const file = path.join(root, relativePath);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, "---\n");
+  return file;
+}
+
+function mockCollections(collections: Record<string, string> = {}) {
+  return {
+    getCollection: vi.fn((name: string) =>
+      collections[name] ? { info: { path: collections[name] } } : undefined,
+    ),
+  };
+}
+
+describe("pathResolution", () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ls-paths-"));
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("getRoleRoot", () => {
+    it("returns the role directory for files inside a role", () => {
+      expect(getRoleRoot("/ws/roles/web/tasks/main.yml")).toBe("/ws/roles/web");
+    });
+
+    it("returns undefined for playbooks", () => {
+      expect(getRoleRoot("/ws/site.yml")).toBeUndefined();
+    });
+  });
+
+  describe("resolveRolePath", () => {
+    it("finds roles next to the playbook", async () => {
+      touch(root, "roles/web/tasks/main.yml");
+      const result = await resolveRolePath(
+        "web",
+        path.join(root, "site.yml"),
+        root,
+        mockCollections() as never,
+      );
+      expect(result).toBe(path.join(root, "roles", "web"));
+    });
+
+    it("finds sibling roles from inside a role", async () => {
+      touch(root, "roles/db/tasks/main.yml");
+      const result = await resolveRolePath(
+        "db",
+        path.join(root, "roles", "web", "tasks", "main.yml"),
+        root,
+        mockCollections() as never,
+      );
+      expect(result).toBe(path.join(root, "roles", "db"));
+    });
+
+    it("finds collection roles by FQCN", async () => {
+      const collectionPath = path.join(root, "ansible_collections", "ns", "coll");
+      touch(collectionPath, "roles/app/tasks/main.yml");
+      const result = await resolveRolePath(
+        "ns.coll.app",
+        path.join(root, "site.yml"),
+        root,
+        mockCollections({ "ns.coll": collectionPath }) as never,
+      );
+      expect(result).toBe(path.join(collectionPath, "roles", "app"));
+    });
+
+    it("skips templated role names", async () => {
+      const result = await resolveRolePath(
+        "{{ role_name }}",
+        path.join(root, "site.yml"),
+        root,
+        mockCollections() as never,
+      );
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("resolveFilePath", () => {
+    it("prefers the role subdirectory", async () => {
+      const expected = touch(root, "roles/web/tasks/setup.yml");
+      touch(root, "roles/web/setup.yml");
+      const result = await resolveFilePath(
+        "setup.yml",
+        path.join(root, "roles", "web", "tasks", "main.yml"),
+        "tasks",
+      );
+      expect(result).toBe(expected);
+    });
+
+    it("resolves relative to the current file", async () => {
+      const expected = touch(root, "playbooks/other.yml");
+      const result = await resolveFilePath(
+        "other.yml",
+        path.join(root, "playbooks", "site.yml"),
+      );
+      expect(result).toBe(expected);
+    });
+
+    it("returns undefined for missing files", async () => {
+      const result = await resolveFilePath(
+        "missing.yml",
+        path.join(root, "site.yml"),
+      );
+      expect(result).toBeUndefined();
+    });
+  });
+
+  describe("role entry points", () => {
+    it("prefers tasks/main over meta/main", async () => {
+      touch(root, "roles/web/meta/main.yml");
+      const expected = touch(root, "roles/web/tasks/main.yaml");
+      expect(await getRoleEntryPoint(path.join(root, "roles", "web"))).toBe(
+        expected,
+      );
+    });
+
+    it("finds the handlers file", async () => {
+      const expected = touch(root, "roles/web/handlers/main.yml");
+      expect(
+        await getRoleHandlersFile(path.join(root, "roles", "web")),
+      ).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { DiagnosticSeverity, DiagnosticTag } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { getDeprecationValidation } from "../../src/providers/validationProvider";
+import { findModuleRoute } from "../../src/utils/pluginRouting";
+
+const builtinRuntime = [
+  "plugin_routing:",
+  "  modules:",
+  "    docker_container:",
+  "      redirect: community.docker.docker_container",
+  "    include:",
+  "      tombstone:",
+  "        removal_version: '2.16'",
+  "        warning_text: Use include_tasks or import_tasks instead.",
+  "",
+].join("\n");
+
+const collectionRuntime = [
+  "plugin_routing:",
+  "  modules:",
+  "    old_service:",
+  "      redirect: acme.tools.service",
+  "      deprecation:",
+  "        removal_version: 3.0.0",
+  "        warning_text: Use acme.tools.service instead.",
+  "",
+].join("\n");
+
+describe("pluginRouting", () => {
+  let root: string;
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function mockContext() {
+    return {
+      ansibleConfig: Promise.resolve({
+        ansibleLocation: path.join(root, "ansible"),
+      }),
+    } as never;
+  }
+
+  function mockCollections(docs: Record<string, unknown> = {}) {
+    return {
+      getCollection: (name: string) =>
+        name === "acme.tools"
+          ? { info: { path: path.join(root, "acme", "tools") } }
+          : undefined,
+      getPlugins: (collection: string) =>
+        collection === "acme.tools" ? [{ name: "service" }] : [],
+      getPluginDocumentation: async (fqcn: string) => docs[fqcn],
+    } as never;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "routing-"));
+    write("ansible/config/ansible_builtin_runtime.yml", builtinRuntime);
+    write("acme/tools/meta/runtime.yml", collectionRuntime);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("findModuleRoute", () => {
+    it("looks short names up in the declared collections first", async () => {
+      expect(
+        await findModuleRoute(
+          "old_service",
+          ["acme.tools"],
+          mockContext(),
+          mockCollections(),
+        ),
+      ).toMatchObject({
+        fqcn: "acme.tools.old_service",
+        route: { redirect: "acme.tools.service" },
+      });
+      expect(
+        await findModuleRoute(
+          "docker_container",
+          [],
+          mockContext(),
+          mockCollections(),
+        ),
+      ).toEqual({
+        fqcn: "ansible.builtin.docker_container",
+        route: { redirect: "community.docker.docker_container" },
+      });
+    });
+
+    it("stops at the collection that has the module", async () => {
+      expect(
+        await findModuleRoute(
+          "service",
+          ["acme.tools"],
+          mockContext(),
+          mockCollections(),
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("getDeprecationValidation", () => {
+    it("reports routed, deprecated and removed modules and options", async () => {
+      const document = TextDocument.create(
+        "file:///ws/site.yml",
+        "ansible",
+        1,
+        [
+          "- hosts: all",
+          "  tasks:",
+          "    - docker_container:",
+          "        name: web",
+          "    - acme.tools.old_service:",
+          "    - include: other.yml",
+          "    - ansible.builtin.file:",
+          "        path: /tmp/x",
+          "        mode_old: '0644'",
+          "",
+        ].join("\n"),
+      );
+      const diagnostics = await getDeprecationValidation(
+        document,
+        mockContext(),
+        mockCollections({
+          "community.docker.docker_container": {
+            doc: {
+              deprecated: {
+                removed_in: "4.0.0",
+                why: "Superseded.",
+                alternative: "Use community.docker.docker_compose_v2.",
+              },
+            },
+          },
+          "ansible.builtin.file": {
+            doc: {
+              options: {
+                path: {},
+                mode: {},
+                mode_old: {
+                  deprecated: { version: "2.20", alternatives: "mode" },
+                },
+              },
+            },
+          },
+        }),
+      );
+      expect(
+        diagnostics.map((d) => ({
+          line: d.range.start.line,
+          severity: d.severity,
+          replacement: (d.data as { replacement?: string })?.replacement,
+        })),
+      ).toEqual([
+        {
+          line: 2,
+          severity: DiagnosticSeverity.Information,
+          replacement: "community.docker.docker_container",
+        },
+        {
+          line: 2,
+          severity: DiagnosticSeverity.Warning,
+          replacement: "community.docker.docker_compose_v2",
+        },
+        {
+          line: 4,
+          severity: DiagnosticSeverity.Warning,
+          replacement: "acme.tools.service",
+        },
+        { line: 5, severity: DiagnosticSeverity.Error, replacement: undefined },
+        { line: 8, severity: DiagnosticSeverity.Warning, replacement: "mode" },
+      ]);
+      expect(diagnostics[3].message).toBe(
+        "Module 'ansible.builtin.include' has been removed in version 2.16. Use include_tasks or import_tasks instead.",
+      );
+      expect(diagnostics[4].message).toBe(
+        "Option 'mode_old' is deprecated and will be removed in version 2.20. Alternative: mode",
+      );
+      expect(
+        diagnostics.every((d) => d.tags?.includes(DiagnosticTag.Deprecated)),
+      ).toBe(true);
+    });
+  });
+});
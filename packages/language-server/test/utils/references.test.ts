@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import { parseDocument } from "yaml";
+import {
+  collectFileReferences,
+  collectReferences,
+  getShortActionName,
+} from "../../src/utils/references";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+function refs(content: string, uri = "file:///ws/site.yml") {
+  return collectReferences(uri, parseAllDocuments(content)).map(
+    ({ kind, name, keyword, inHandlers }) => ({
+      kind,
+      name,
+      keyword,
+      inHandlers,
+    }),
+  );
+}
+
+describe("getShortActionName", () => {
+  it("strips the builtin prefix", () => {
+    expect(getShortActionName("ansible.builtin.include_tasks")).toBe(
+      "include_tasks",
+    );
+  });
+
+  it("keeps other collections untouched", () => {
+    expect(getShortActionName("community.general.ufw")).toBe(
+      "community.general.ufw",
+    );
+  });
+});
+
+describe("collectReferences", () => {
+  it("returns nothing for a non-sequence document", () => {
+    expect(refs("key: value")).toEqual([]);
+  });
+
+  it("collects roles from play role entries", () => {
+    const result = refs(
+      "- hosts: all\n  roles:\n    - common\n    - role: web\n    - name: db\n",
+    );
+    expect(result.map((r) => [r.kind, r.name])).toEqual([
+      ["role", "common"],
+      ["role", "web"],
+      ["role", "db"],
+    ]);
+  });
+
+  it("collects modules, notifications and handlers", () => {
+    const result = refs(
+      [
+        "- hosts: all",
+        "  tasks:",
+        "    - name: Install",
+        "      ansible.builtin.package:",
+        "        name: nginx",
+        "      notify:",
+        "        - restart nginx",
+        "  handlers:",
+        "    - name: restart nginx",
+        "      ansible.builtin.service:",
+        "        name: nginx",
+        "      listen: web restart",
+      ].join("\n"),
+    );
+    expect(result).toEqual([
+      {
+        kind: "module",
+        name: "ansible.builtin.package",
+        keyword: "ansible.builtin.package",
+        inHandlers: false,
+      },
+      { kind: "notify", name: "restart nginx", keyword: "notify", inHandlers: false },
+      { kind: "handler", name: "restart nginx", keyword: "name", inHandlers: true },
+      {
+        kind: "module",
+        name: "ansible.builtin.service",
+        keyword: "ansible.builtin.service",
+        inHandlers: true,
+      },
+      { kind: "handler", name: "web restart", keyword: "listen", inHandlers: true },
+    ]);
+  });
+
+  it("collects includes and role includes inside blocks", () => {
+    const result = refs(
+      [
+        "- block:",
+        "    - include_tasks: setup.yml",
+        "    - ansible.builtin.import_tasks:",
+        "        file: other.yml",
+        "  rescue:",
+        "    - include_role:",
+        "        name: recovery",
+      ].join("\n"),
+      "file:///ws/roles/app/tasks/main.yml",
+    );
+    expect(
+      result
+        .filter((r) => r.kind !== "module")
+        .map((r) => [r.kind, r.name, r.keyword]),
+    ).toEqual([
+      ["include", "setup.yml", "include_tasks"],
+      ["include", "other.yml", "import_tasks"],
+      ["role", "recovery", "include_role"],
+    ]);
+  });
+
+  it("treats top-level tasks of a handlers file as handlers", () => {
+    const result = refs(
+      "- name: reload app\n  service:\n    name: app\n",
+      "file:///ws/roles/app/handlers/main.yml",
+    );
+    expect(result[0]).toEqual({
+      kind: "handler",
+      name: "reload app",
+      keyword: "name",
+      inHandlers: true,
+    });
+  });
+
+  it("collects vars_files and import_playbook entries", () => {
+    const result = refs(
+      "- import_playbook: other.yml\n- hosts: all\n  vars_files:\n    - vars/main.yml\n",
+    );
+    expect(
+      result
+        .filter((r) => r.kind === "include")
+        .map((r) => [r.name, r.keyword]),
+    ).toEqual([
+      ["other.yml", "import_playbook"],
+      ["vars/main.yml", "vars_files"],
+    ]);
+  });
+
+  it("references the scalar nodes of the parsed document", () => {
+    const docs = [parseDocument("- hosts: all\n  roles: [common]\n")];
+    const [reference] = collectReferences("file:///ws/site.yml", docs);
+    expect(reference.node.range?.[0]).toBe(23);
+  });
+});
+
+describe("collectFileReferences", () => {
+  it("collects includes, vars files and template or copy sources", () => {
+    const content = [
+      "- hosts: all",
+      "  vars_files: [vars/common.yml]",
+      "  tasks:",
+      '    - ansible.builtin.include_tasks: "setup.yml"',
+      "    - template:",
+      "        src: app.conf.j2",
+      "        dest: /etc/app.conf",
+      "    - copy: src=motd dest=/etc/motd",
+      "    - copy:",
+      "        src: /tmp/remote",
+      "        dest: /tmp/copy",
+      "        remote_src: true",
+    ].join("\n");
+    const result = collectFileReferences(
+      "file:///ws/site.yml",
+      parseAllDocuments(content),
+    ).map(({ path, range, keyword }) => ({
+      keyword,
+      path,
+      text: content.slice(range[0], range[1]),
+    }));
+    expect(result).toEqual([
+      {
+        keyword: "vars_files",
+        path: "vars/common.yml",
+        text: "vars/common.yml",
+      },
+      { keyword: "include_tasks", path: "setup.yml", text: "setup.yml" },
+      { keyword: "template", path: "app.conf.j2", text: "app.conf.j2" },
+      { keyword: "copy", path: "motd", text: "motd" },
+    ]);
+  });
+});
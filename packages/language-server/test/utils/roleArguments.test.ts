@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { getRoleArgumentValidation } from "../../src/providers/validationProvider";
+import {
+  collectRoleInvocations,
+  getRoleArgumentsForPath,
+  loadRoleArgumentSpec,
+} from "../../src/utils/roleArguments";
+import { getPathAt, parseAllDocuments } from "../../src/utils/yaml";
+
+const argumentSpecs = [
+  "argument_specs:",
+  "  main:",
+  "    short_description: Web server",
+  "    options:",
+  "      web_port:",
+  "        type: int",
+  "        required: true",
+  "      web_mode:",
+  "        choices: [http, https]",
+  "      web_tls:",
+  "        type: dict",
+  "        options:",
+  "          cert:",
+  "            type: path",
+  "  install:",
+  "    options:",
+  "      web_version:",
+  "        required: true",
+  "",
+].join("\n");
+
+describe("roleArguments", () => {
+  let root: string;
+  const collectionsService = { getCollection: () => undefined } as never;
+
+  function write(relativePath: string, content: string): void {
+    const file = path.join(root, relativePath);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  }
+
+  function doc(content: string): TextDocument {
+    return TextDocument.create(
+      URI.file(path.join(root, "site.yml")).toString(),
+      "ansible",
+      1,
+      content,
+    );
+  }
+
+  function mockContext(inventoryVariables: string[] = []) {
+    return {
+      workspaceFolder: { uri: URI.file(root).toString() },
+      variableIndex: {
+        getDefinitions: async () =>
+          inventoryVariables.map((name) => ({ name, source: "group_vars" })),
+      },
+    } as never;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "ls-role-args-"));
+    write("roles/web/meta/argument_specs.yml", argumentSpecs);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  describe("loadRoleArgumentSpec", () => {
+    it("reads entry points and maps nested options to suboptions", async () => {
+      const spec = await loadRoleArgumentSpec(path.join(root, "roles/web"));
+      expect(spec?.short_description).toBe("Web server");
+      expect(Object.keys(spec?.options ?? {})).toEqual([
+        "web_port",
+        "web_mode",
+        "web_tls",
+      ]);
+      expect(spec?.options.web_tls.suboptions?.cert.type).toBe("path");
+
+      const install = await loadRoleArgumentSpec(
+        path.join(root, "roles/web"),
+        "install",
+      );
+      expect(install?.options.web_version.required).toBe(true);
+    });
+
+    it("falls back to the argument_specs key of meta/main.yml", async () => {
+      write("roles/db/meta/main.yml", `galaxy_info: {}\n${argumentSpecs}`);
+      const spec = await loadRoleArgumentSpec(path.join(root, "roles/db"));
+      expect(spec?.options.web_port.type).toBe("int");
+      expect(
+        await loadRoleArgumentSpec(path.join(root, "roles/missing")),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("collectRoleInvocations", () => {
+    it("finds roles entries and role includes with their entry points", () => {
+      const yamlDocs = parseAllDocuments(
+        [
+          "- hosts: all",
+          "  vars:",
+          "    shared: 1",
+          "  roles:",
+          "    - common",
+          "    - role: web",
+          "      web_port: 80",
+          "      when: true",
+          "  tasks:",
+          "    - ansible.builtin.include_role:",
+          "        name: web",
+          "        tasks_from: install.yml",
+          "      vars:",
+          "        web_version: 2",
+        ].join("\n"),
+      );
+      const invocations = collectRoleInvocations(yamlDocs).map((i) => ({
+        role: i.roleName,
+        entryPoint: i.entryPoint,
+        args: [...i.params, ...i.vars].map((pair) => String(pair.key)),
+        playVars: [...i.playVars],
+      }));
+      expect(invocations).toEqual([
+        { role: "common", entryPoint: "main", args: [], playVars: ["shared"] },
+        {
+          role: "web",
+          entryPoint: "main",
+          args: ["web_port"],
+          playVars: ["shared"],
+        },
+        {
+          role: "web",
+          entryPoint: "install",
+          args: ["web_version"],
+          playVars: ["shared"],
+        },
+      ]);
+    });
+  });
+
+  describe("getRoleArgumentsForPath", () => {
+    it("returns the arguments of the role applied by the map", async () => {
+      const document = doc(
+        [
+          "- hosts: all",
+          "  roles:",
+          "    - role: web",
+          "      vars:",
+          "        web_mode: http",
+        ].join("\n"),
+      );
+      const yamlDocs = parseAllDocuments(document.getText());
+      const path = getPathAt(document, { line: 4, character: 10 }, yamlDocs);
+      const options = await getRoleArgumentsForPath(
+        path ?? [],
+        document,
+        mockContext(),
+        collectionsService,
+      );
+      expect(Object.keys(options ?? {})).toContain("web_mode");
+    });
+  });
+
+  describe("getRoleArgumentValidation", () => {
+    it("reports missing and invalid arguments", async () => {
+      const document = doc(
+        [
+          "- hosts: all",
+          "  roles:",
+          "    - role: web",
+          "      web_mode: ftp",
+          "      custom: 1",
+          "  tasks:",
+          "    - import_role:",
+          "        name: web",
+          "        tasks_from: install",
+          "      vars:",
+          "        web_version: 2",
+        ].join("\n"),
+      );
+      const diagnostics = await getRoleArgumentValidation(
+        document,
+        mockContext(),
+        collectionsService,
+      );
+      expect(diagnostics.map((d) => [d.message, d.range.start.line])).toEqual([
+        ["Value of option 'web_mode' must be one of: http, https.", 3],
+        ["Missing required option 'web_port'.", 2],
+      ]);
+    });
+
+    it("accepts required arguments set by the play or the inventory", async () => {
+      const document = doc(
+        [
+          "- hosts: all",
+          "  vars:",
+          "    web_port: 80",
+          "  roles:",
+          "    - web",
+          "- hosts: db",
+          "  roles:",
+          "    - web",
+        ].join("\n"),
+      );
+      const diagnostics = await getRoleArgumentValidation(
+        document,
+        mockContext(["web_port"]),
+        collectionsService,
+      );
+      expect(diagnostics).toEqual([]);
+    });
+  });
+});
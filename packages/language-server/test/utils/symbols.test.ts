@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import { DocumentSymbol, SymbolKind } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectSymbols } from "../../src/utils/symbols";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+function symbols(content: string, uri = "file:///ws/site.yml") {
+  const document = TextDocument.create(uri, "ansible", 1, content);
+  return collectSymbols(document, parseAllDocuments(content));
+}
+
+function outline(symbol: DocumentSymbol): unknown {
+  return symbol.children?.length
+    ? [symbol.name, symbol.kind, symbol.children.map(outline)]
+    : [symbol.name, symbol.kind];
+}
+
+describe("collectSymbols", () => {
+  it("builds a hierarchical outline of a playbook", () => {
+    const result = symbols(
+      [
+        "- name: Web servers",
+        "  hosts: web",
+        "  vars:",
+        "    port: 80",
+        "  roles:",
+        "    - common",
+        "  tasks:",
+        "    - name: Install",
+        "      ansible.builtin.package:",
+        "        name: nginx",
+        "    - block:",
+        "        - ansible.builtin.debug:",
+        "            msg: hi",
+        "      rescue:",
+        "        - name: Recover",
+        "          ansible.builtin.fail:",
+        "  handlers:",
+        "    - name: restart nginx",
+        "      ansible.builtin.service:",
+        "        name: nginx",
+      ].join("\n"),
+    );
+    expect(result.documentSymbols.map(outline)).toEqual([
+      [
+        "Web servers",
+        SymbolKind.Class,
+        [
+          ["vars", SymbolKind.Object, [["port", SymbolKind.Variable]]],
+          ["roles", SymbolKind.Array, [["common", SymbolKind.Module]]],
+          [
+            "tasks",
+            SymbolKind.Array,
+            [
+              ["Install", SymbolKind.Function],
+              [
+                "block",
+                SymbolKind.Namespace,
+                [
+                  ["ansible.builtin.debug", SymbolKind.Function],
+                  [
+                    "rescue",
+                    SymbolKind.Array,
+                    [["Recover", SymbolKind.Function]],
+                  ],
+                ],
+              ],
+            ],
+          ],
+          [
+            "handlers",
+            SymbolKind.Array,
+            [["restart nginx", SymbolKind.Event]],
+          ],
+        ],
+      ],
+    ]);
+  });
+
+  it("names unnamed plays after their hosts", () => {
+    const result = symbols("- hosts: all\n  tasks: []\n");
+    expect(result.documentSymbols[0].name).toBe("hosts: all");
+  });
+
+  it("indexes only named tasks and handlers for the workspace", () => {
+    const result = symbols(
+      [
+        "- name: Play",
+        "  hosts: all",
+        "  tasks:",
+        "    - name: Install",
+        "      ansible.builtin.package:",
+        "    - ansible.builtin.debug:",
+        "  handlers:",
+        "    - name: restart",
+        "      ansible.builtin.service:",
+      ].join("\n"),
+    );
+    expect(
+      result.workspaceSymbols.map((s) => [s.name, s.kind, s.containerName]),
+    ).toEqual([
+      ["Install", SymbolKind.Function, "Play"],
+      ["restart", SymbolKind.Event, "Play"],
+    ]);
+  });
+
+  it("treats top-level tasks of a handlers file as handlers", () => {
+    const result = symbols(
+      "- name: reload app\n  service:\n    name: app\n",
+      "file:///ws/roles/app/handlers/main.yml",
+    );
+    expect(result.documentSymbols[0].kind).toBe(SymbolKind.Event);
+    expect(result.documentSymbols[0].detail).toBe("service");
+  });
+
+  it("contributes a role symbol for a role entry point", () => {
+    const result = symbols(
+      "- name: Setup\n  debug:\n",
+      "file:///ws/roles/app/tasks/main.yml",
+    );
+    expect(result.workspaceSymbols.map((s) => [s.name, s.kind])).toEqual([
+      ["Setup", SymbolKind.Function],
+      ["app", SymbolKind.Module],
+    ]);
+  });
+
+  it("lists variables of a vars file", () => {
+    const result = symbols("a: 1\nb:\n  c: 2\n", "file:///ws/vars/main.yml");
+    expect(result.documentSymbols.map(outline)).toEqual([
+      ["a", SymbolKind.Variable],
+      ["b", SymbolKind.Variable],
+    ]);
+  });
+});
@@ -0,0 +1,67 @@
+import { describe, it, expect } from "vitest";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { collectTaggedTasks } from "../../src/utils/tags";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+function collect(lines: string[], inheritedTags?: string[]) {
+  const document = TextDocument.create(
+    "file:///ws/site.yml",
+    "ansible",
+    1,
+    lines.join("\n"),
+  );
+  return collectTaggedTasks(
+    document,
+    parseAllDocuments(document.getText()),
+    inheritedTags,
+  );
+}
+
+describe("collectTaggedTasks", () => {
+  it("inherits the tags of plays, roles and blocks", () => {
+    const { tasks, references } = collect([
+      "- hosts: web",
+      "  tags: web",
+      "  roles:",
+      "    - role: nginx",
+      "      tags: [nginx]",
+      "  tasks:",
+      "    - block:",
+      "        - name: Install",
+      "          ansible.builtin.package:",
+      "            name: nginx",
+      "          tags: packages, install",
+      "      tags: [setup]",
+      "    - ansible.builtin.import_tasks: extra.yml",
+      "      tags: extra",
+      "    - ansible.builtin.include_tasks: dynamic.yml",
+      "  handlers:",
+      "    - name: Restart",
+      "      ansible.builtin.service:",
+      "      tags: ignored",
+      "",
+    ]);
+    expect(tasks.map((t) => [t.name, t.range.start.line, t.tags])).toEqual([
+      ["role nginx", 3, ["web", "nginx"]],
+      ["Install", 7, ["web", "setup", "packages", "install"]],
+      ["import_tasks", 12, ["web", "extra"]],
+      ["include_tasks", 14, ["web"]],
+    ]);
+    expect(references).toEqual([
+      { name: "nginx", keyword: "roles", tags: ["web", "nginx"] },
+      { name: "extra.yml", keyword: "import_tasks", tags: ["web", "extra"] },
+      { name: "dynamic.yml", keyword: "include_tasks", tags: [] },
+    ]);
+  });
+
+  it("applies the inherited tags to a tasks file", () => {
+    const { tasks } = collect(
+      ["- name: Untagged", "  ansible.builtin.debug:", ""],
+      ["extra"],
+    );
+    expect(tasks.map((t) => t.tags)).toEqual([["extra"]]);
+    expect(
+      collect(["- name: Untagged", "  ansible.builtin.debug:", ""]).tasks,
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import {
+  collectVariableDefinitions,
+  getVariableFileSource,
+  sortByPrecedence,
+  VariableSource,
+} from "../../src/utils/variables";
+import { parseAllDocuments } from "../../src/utils/yaml";
+
+function definitions(content: string, fileSource?: VariableSource) {
+  const document = TextDocument.create(
+    "file:///ws/site.yml",
+    "ansible",
+    1,
+    content,
+  );
+  return collectVariableDefinitions(
+    document,
+    parseAllDocuments(content),
+    fileSource,
+  );
+}
+
+describe("collectVariableDefinitions", () => {
+  it("collects the variables set by plays and tasks", () => {
+    const result = definitions(
+      [
+        "- hosts: all",
+        "  vars:",
+        "    port: 80",
+        "  vars_prompt:",
+        "    - name: password",
+        "  roles:",
+        "    - role: web",
+        "      tags: web",
+        "      web_root: /srv",
+        "  tasks:",
+        "    - ansible.builtin.command: uptime",
+        "      register: uptime_result",
+        "    - ansible.builtin.set_fact:",
+        "        computed: 1",
+        "        cacheable: true",
+        "    - include_vars:",
+        "        file: extra.yml",
+        "        name: extra",
+        "    - block:",
+        "        - ansible.builtin.debug:",
+        "          loop: [1]",
+        "          loop_control:",
+        "            loop_var: entry",
+        "      vars:",
+        "        block_var: true",
+      ].join("\n"),
+    );
+    expect(result.map((d) => [d.name, d.source])).toEqual([
+      ["port", "vars"],
+      ["password", "vars_prompt"],
+      ["web_root", "role_param"],
+      ["uptime_result", "register"],
+      ["computed", "set_fact"],
+      ["extra", "include_vars"],
+      ["block_var", "vars"],
+      ["entry", "loop_var"],
+    ]);
+    expect(result[0]).toMatchObject({
+      value: "80",
+      range: { start: { line: 2, character: 4 } },
+    });
+  });
+
+  it("reads the top-level keys of variables files", () => {
+    const result = definitions(
+      "http_port: 80\nusers:\n  - alice\n  - bob\n",
+      "group_vars",
+    );
+    expect(result.map((d) => [d.name, d.source, d.value])).toEqual([
+      ["http_port", "group_vars", "80"],
+      ["users", "group_vars", "- alice\n  - bob"],
+    ]);
+  });
+});
+
+describe("getVariableFileSource", () => {
+  it.each([
+    ["/ws/group_vars/all.yml", "group_vars"],
+    ["/ws/inventory/host_vars/web1/main.yml", "host_vars"],
+    ["/ws/roles/web/defaults/main.yml", "role_defaults"],
+    ["/ws/roles/web/vars/main.yml", "role_vars"],
+    ["/ws/roles/web/tasks/main.yml", undefined],
+  ])("classifies %s", (filePath, source) => {
+    expect(getVariableFileSource(filePath)).toBe(source);
+  });
+});
+
+describe("sortByPrecedence", () => {
+  it("puts the definitions that win first", () => {
+    const range = {
+      start: { line: 0, character: 0 },
+      end: { line: 0, character: 1 },
+    };
+    const sources: VariableSource[] = [
+      "role_defaults",
+      "set_fact",
+      "group_vars",
+    ];
+    expect(
+      sortByPrecedence(
+        sources.map((source) => ({ name: "x", source, uri: "", range })),
+      ).map((d) => d.source),
+    ).toEqual(["set_fact", "group_vars", "role_defaults"]);
+  });
+});
@@ -16,7 +16,7 @@ import { CreatorFormPanel } from './panels/CreatorFormPanel';
 import { PlaybooksProvider } from './views/PlaybooksProvider';
 import { PlaybookConfigPanel } from './panels/PlaybookConfigPanel';
 import { PlaybookProgressPanel } from './panels/PlaybookProgressPanel';
-import { PlaybooksService, PlaybookInfo, PlaybookPlay } from './services/PlaybooksService';
+import { PlaybooksService, PlaybookInfo, PlaybookPlay, PlaybookRunRequest } from './services/PlaybooksService';
 import { TerminalService } from './services/TerminalService';
 import { McpToolsProvider, injectToolPromptIntoChat } from './views/McpToolsProvider';
 import { CollectionSourcesProvider, setCollectionSourcesLogFunction } from './views/CollectionSourcesProvider';
@@ -32,6 +32,9 @@ import { registerMcpServerProvider, isMcpAvailable, configureCursorMcp, showCurs
 import { getLlmService } from './services/LlmService';
 import { registerFileAssociation } from './features/fileAssociation';
 import { registerVaultCommand } from './features/vault';
+import { registerRequirementsSupport } from './features/requirements';
+import { registerLintSummaryCommand } from './features/lintSummary';
+import { registerToggleLintRuleCommand } from './features/lintRules';
 
 // Create output channel for extension logs
 export const outputChannel = vscode.window.createOutputChannel('Ansible Environments');
@@ -101,6 +104,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     registerFileAssociation(context);
     registerVaultCommand(context);
+    registerRequirementsSupport(context);
 
     // Inject log function into services
     setCollectionsLogFunction(log);
@@ -159,7 +163,14 @@ export function activate(context: vscode.ExtensionContext) {
         },
     };
     const clientOptions: LanguageClientOptions = {
-        documentSelector: [{ scheme: 'file', language: 'ansible' }],
+        documentSelector: [
+            { scheme: 'file', language: 'ansible' },
+            // INI inventories, YAML ones are part of the ansible language
+            { scheme: 'file', language: 'ini', pattern: '**/{inventory,inventories}/**' },
+            { scheme: 'file', language: 'ini', pattern: '**/{hosts,inventory}*.ini' },
+            // ansible-lint configuration
+            { scheme: 'file', pattern: '**/{.ansible-lint,.config/ansible-lint.{yml,yaml}}' },
+        ],
         synchronize: {
             fileEvents: [
                 vscode.workspace.createFileSystemWatcher('**/ansible.cfg'),
@@ -175,6 +186,8 @@ export function activate(context: vscode.ExtensionContext) {
     );
     languageClient.start();
     context.subscriptions.push(languageClient);
+    registerLintSummaryCommand(context, languageClient);
+    registerToggleLintRuleCommand(context, languageClient);
     log('Ansible Language Server started');
 
     // Register the Environment Managers view
@@ -639,7 +652,7 @@ Please:
         'ansiblePlaybooks.editConfig',
         (node: { playbook: PlaybookInfo }) => {
             if (node && node.playbook) {
-                PlaybookConfigPanel.show(context.extensionUri, node.playbook);
+                PlaybookConfigPanel.show(context.extensionUri, node.playbook, languageClient);
             }
         }
     );
@@ -653,10 +666,21 @@ Please:
 
     const playbooksRunCommand = vscode.commands.registerCommand(
         'ansiblePlaybooks.run',
-        async (node: { playbook: PlaybookInfo }) => {
+        async (arg: { playbook: PlaybookInfo } | PlaybookRunRequest) => {
+            const playbooksService = PlaybooksService.getInstance();
+            // Code lenses of the language server send the document URI and
+            // the options of the play instead of a tree node
+            const request = arg && 'uri' in arg ? arg : undefined;
+            const node = request
+                ? { playbook: playbooksService.resolvePlaybook(vscode.Uri.parse(request.uri)) }
+                : arg as { playbook: PlaybookInfo };
             if (node && node.playbook) {
-                const playbooksService = PlaybooksService.getInstance();
-                const config = playbooksService.getPlaybookConfig(node.playbook.relativePath);
+                const config = {
+                    ...playbooksService.getPlaybookConfig(node.playbook.relativePath),
+                    ...(request?.limit && { limit: request.limit }),
+                    ...(request?.startAtTask && { startAtTask: request.startAtTask }),
+                    ...(request?.check && { check: true }),
+                };
                 
                 // Calculate path relative to the playbook's workspace folder
                 const workspaceFolderPath = node.playbook.workspaceFolder.fsPath;
@@ -953,20 +977,33 @@ Please:
                         {
                             location: vscode.ProgressLocation.Notification,
                             title: `Installing ${collectionName}`,
-                            cancellable: false
+                            cancellable: true
                         },
-                        async (progress) => {
+                        async (progress, token) => {
                             progress.report({ message: 'Running ade install...' });
+                            const controller = new AbortController();
+                            token.onCancellationRequested(() => controller.abort());
                             
                             try {
-                                const output = await collectionsService.installCollection(collectionName);
+                                const output = await collectionsService.installCollection(collectionName, undefined, false, {
+                                    signal: controller.signal,
+                                    onOutput: (line) => {
+                                        if (line.trim()) {
+                                            progress.report({ message: line.trim() });
+                                        }
+                                    }
+                                });
                                 vscode.window.showInformationMessage(`Successfully installed ${collectionName}`);
                                 log(`Collection install output: ${output}`);
                                 
                                 // Refresh the collections view
                                 collectionsProvider.refresh();
                             } catch (error) {
-                                vscode.window.showErrorMessage(`Failed to install collection: ${error}`);
+                                if (controller.signal.aborted) {
+                                    vscode.window.showInformationMessage(`Installation of ${collectionName} cancelled`);
+                                } else {
+                                    vscode.window.showErrorMessage(`Failed to install collection: ${error}`);
+                                }
                             }
                         }
                     );
@@ -0,0 +1,116 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+const TOGGLE_RULE_COMMAND = "ansibleEnvironments.toggleLintRule";
+
+type RuleList = "skip_list" | "warn_list" | "enable_list";
+
+/**
+ * A rule of ansible-lint, as returned by the language server for the
+ * `list/ansible-lint-rules` request.
+ */
+interface LintRuleItem {
+  id: string;
+  shortdesc: string;
+  list?: RuleList;
+}
+
+interface ListItem extends vscode.QuickPickItem {
+  list: RuleList;
+}
+
+/**
+ * Returns the URI the configuration file is looked up from: the active file,
+ * or the first workspace folder.
+ */
+function getLookupUri(): string | undefined {
+  const document = vscode.window.activeTextEditor?.document;
+  if (document?.uri.scheme === "file") {
+    return document.uri.toString();
+  }
+  return vscode.workspace.workspaceFolders?.[0]?.uri.toString();
+}
+
+async function toggleLintRule(languageClient: LanguageClient): Promise<void> {
+  const uri = getLookupUri();
+  if (!uri) {
+    vscode.window.showInformationMessage(
+      "Open a workspace folder to configure ansible-lint.",
+    );
+    return;
+  }
+
+  let rules: LintRuleItem[];
+  try {
+    rules = await languageClient.sendRequest<LintRuleItem[]>(
+      "list/ansible-lint-rules",
+      { uri },
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Could not get the ansible-lint rules from the language server: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+  if (!rules.length) {
+    vscode.window.showInformationMessage(
+      "No ansible-lint rules found. Is ansible-lint installed?",
+    );
+    return;
+  }
+
+  const rule = await vscode.window.showQuickPick(
+    rules.map((item) => ({
+      label: item.id,
+      description: item.list,
+      detail: item.shortdesc,
+      item,
+    })),
+    {
+      title: "Toggle an ansible-lint rule",
+      placeHolder: "Select a rule",
+      matchOnDetail: true,
+    },
+  );
+  if (!rule) {
+    return;
+  }
+
+  const lists: ListItem[] = (["skip_list", "warn_list"] as RuleList[]).map(
+    (list) => ({
+      label: rule.item.list === list ? `Remove from ${list}` : `Add to ${list}`,
+      list,
+    }),
+  );
+  const picked = await vscode.window.showQuickPick(lists, {
+    title: `Toggle ${rule.item.id} in .ansible-lint`,
+  });
+  if (!picked) {
+    return;
+  }
+
+  const applied = await languageClient.sendRequest<boolean>(
+    "toggle/ansible-lint-rule",
+    { uri, rule: rule.item.id, list: picked.list },
+  );
+  if (!applied) {
+    vscode.window.showErrorMessage(
+      `Could not update the ansible-lint configuration for ${rule.item.id}.`,
+    );
+  }
+}
+
+/**
+ * Registers the command adding an ansible-lint rule to the `skip_list` or
+ * `warn_list` of the configuration file of the project, or removing it.
+ */
+export function registerToggleLintRuleCommand(
+  context: vscode.ExtensionContext,
+  languageClient: LanguageClient,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(TOGGLE_RULE_COMMAND, () =>
+      toggleLintRule(languageClient),
+    ),
+  );
+}
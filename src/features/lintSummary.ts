@@ -0,0 +1,140 @@
+import * as vscode from "vscode";
+import type { LanguageClient } from "vscode-languageclient/node";
+
+const SHOW_SUMMARY_COMMAND = "ansibleEnvironments.showLintSummary";
+
+/**
+ * The result of the workspace validation, as returned by the language server
+ * for the `summary/ansible-lint` request.
+ */
+interface LintSummary {
+  enabled: boolean;
+  running: boolean;
+  fileCount: number;
+  rules: {
+    rule: string;
+    url?: string;
+    violations: { uri: string; line: number; message: string }[];
+  }[];
+  files: { uri: string; count: number; rules: string[] }[];
+}
+
+interface LocationItem extends vscode.QuickPickItem {
+  uri?: string;
+  line?: number;
+  rule?: LintSummary["rules"][number];
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+async function openLocation(uri: string, line = 0): Promise<void> {
+  const position = new vscode.Position(line, 0);
+  await vscode.window.showTextDocument(vscode.Uri.parse(uri), {
+    selection: new vscode.Range(position, position),
+  });
+}
+
+async function showRule(rule: LintSummary["rules"][number]): Promise<void> {
+  const items: LocationItem[] = rule.violations.map((violation) => ({
+    label: `${vscode.workspace.asRelativePath(vscode.Uri.parse(violation.uri))}:${violation.line + 1}`,
+    detail: violation.message,
+    uri: violation.uri,
+    line: violation.line,
+  }));
+  if (rule.url) {
+    items.unshift({ label: "$(link-external) Open rule documentation" });
+  }
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `${rule.rule}: ${plural(rule.violations.length, "violation")}`,
+    matchOnDetail: true,
+  });
+  if (picked?.uri) {
+    await openLocation(picked.uri, picked.line);
+  } else if (picked && rule.url) {
+    await vscode.env.openExternal(vscode.Uri.parse(rule.url));
+  }
+}
+
+async function showLintSummary(languageClient: LanguageClient): Promise<void> {
+  let summary: LintSummary;
+  try {
+    summary = await languageClient.sendRequest<LintSummary>(
+      "summary/ansible-lint",
+    );
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Could not get the lint summary from the language server: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return;
+  }
+
+  if (!summary.enabled) {
+    const choice = await vscode.window.showInformationMessage(
+      "Workspace validation is disabled. Enable it to lint every Ansible file in the background?",
+      "Enable",
+    );
+    if (choice === "Enable") {
+      await vscode.workspace
+        .getConfiguration("ansible")
+        .update(
+          "validation.workspace.enabled",
+          true,
+          vscode.ConfigurationTarget.Workspace,
+        );
+    }
+    return;
+  }
+  if (!summary.rules.length) {
+    vscode.window.showInformationMessage(
+      summary.running
+        ? `Workspace validation is running: no problems in the ${plural(summary.fileCount, "file")} linted so far.`
+        : `No ansible-lint problems in ${plural(summary.fileCount, "file")}.`,
+    );
+    return;
+  }
+
+  const items: LocationItem[] = [
+    { label: "By rule", kind: vscode.QuickPickItemKind.Separator },
+    ...summary.rules.map((rule) => ({
+      label: rule.rule,
+      description: plural(rule.violations.length, "violation"),
+      detail: plural(new Set(rule.violations.map((v) => v.uri)).size, "file"),
+      rule,
+    })),
+    { label: "By file", kind: vscode.QuickPickItemKind.Separator },
+    ...summary.files.map((file) => ({
+      label: vscode.workspace.asRelativePath(vscode.Uri.parse(file.uri)),
+      description: plural(file.count, "problem"),
+      detail: file.rules.join(", "),
+      uri: file.uri,
+    })),
+  ];
+  const total = summary.files.reduce((sum, file) => sum + file.count, 0);
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `ansible-lint: ${plural(total, "problem")} in ${plural(summary.files.length, "file")}${summary.running ? " (validation running)" : ""}`,
+    matchOnDescription: true,
+    matchOnDetail: true,
+  });
+  if (picked?.rule) {
+    await showRule(picked.rule);
+  } else if (picked?.uri) {
+    await openLocation(picked.uri);
+  }
+}
+
+/**
+ * Registers the command summarizing the problems found by the workspace
+ * validation of the language server, per rule and per file.
+ */
+export function registerLintSummaryCommand(
+  context: vscode.ExtensionContext,
+  languageClient: LanguageClient,
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand(SHOW_SUMMARY_COMMAND, () =>
+      showLintSummary(languageClient),
+    ),
+  );
+}
@@ -0,0 +1,456 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import {
+  CollectionsService,
+  GalaxyCollectionCache,
+  GitHubCollectionCache,
+} from "@ansible/core";
+import type { GalaxyCollection, GitHubCollection } from "@ansible/core";
+import {
+  CollectionRequirement,
+  findRequirementProblems,
+  getRequirementsFileKind,
+  getRequirementsValueAt,
+  KnownCollection,
+  OffsetRange,
+  parseRequirementsFile,
+  RequirementsFile,
+} from "./requirementsFile";
+
+const INSTALL_ALL_COMMAND = "ansibleEnvironments.installRequirements";
+const DIAGNOSTIC_SOURCE = "Ansible Galaxy";
+
+const REQUIREMENTS_SELECTOR: vscode.DocumentSelector = {
+  scheme: "file",
+  pattern: "**/{requirements,galaxy}.{yml,yaml}",
+};
+
+// ---------------------------------------------------------------------------
+// Collection catalogs
+// ---------------------------------------------------------------------------
+
+let galaxyIndex:
+  | { source: GalaxyCollection[]; byName: Map<string, GalaxyCollection> }
+  | undefined;
+
+function findGalaxyCollection(name: string): GalaxyCollection | undefined {
+  const collections = GalaxyCollectionCache.getInstance().getCollections();
+  if (galaxyIndex?.source !== collections) {
+    galaxyIndex = {
+      source: collections,
+      byName: new Map(
+        collections.map((collection) => [
+          `${collection.namespace}.${collection.name}`,
+          collection,
+        ]),
+      ),
+    };
+  }
+  return galaxyIndex.byName.get(name);
+}
+
+/** Find a GitHub collection by its FQCN or by the URL it installs from. */
+function findGitHubCollection(name: string): GitHubCollection | undefined {
+  const url = name.split(",")[0];
+  return GitHubCollectionCache.getInstance()
+    .getAllCollections()
+    .find(
+      (collection) =>
+        `${collection.namespace}.${collection.name}` === name ||
+        collection.installUrl === url ||
+        collection.repository === url,
+    );
+}
+
+/** FQCN a requirement installs, when it can be told from its name. */
+function getCollectionName(
+  requirement: CollectionRequirement,
+): string | undefined {
+  if (requirement.fromGalaxy) {
+    return requirement.name;
+  }
+  const github = findGitHubCollection(requirement.name);
+  return github && `${github.namespace}.${github.name}`;
+}
+
+function lookupCollection(name: string): KnownCollection | undefined {
+  const known = findGalaxyCollection(name) ?? findGitHubCollection(name);
+  if (known) {
+    return { latestVersion: known.version };
+  }
+  return CollectionsService.getInstance().getCollection(name) ? {} : undefined;
+}
+
+function getMissingRequirements(
+  file: RequirementsFile,
+): CollectionRequirement[] {
+  const collectionsService = CollectionsService.getInstance();
+  return file.requirements.filter((requirement) => {
+    const name = getCollectionName(requirement);
+    return name && !collectionsService.getCollection(name);
+  });
+}
+
+function parseDocument(
+  document: vscode.TextDocument,
+): RequirementsFile | undefined {
+  const kind = getRequirementsFileKind(document.fileName);
+  return kind ? parseRequirementsFile(document.getText(), kind) : undefined;
+}
+
+function toRange(
+  document: vscode.TextDocument,
+  range: OffsetRange,
+): vscode.Range {
+  return new vscode.Range(
+    document.positionAt(range[0]),
+    document.positionAt(range[1]),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Completion and hover
+// ---------------------------------------------------------------------------
+
+function getNameCompletions(range: vscode.Range): vscode.CompletionList {
+  const galaxyCache = GalaxyCollectionCache.getInstance();
+  const collections = [...galaxyCache.getCollections()].sort(
+    (a, b) => b.downloadCount - a.downloadCount,
+  );
+  const width = String(collections.length).length;
+  const items = collections.map((collection, index) => {
+    const item = new vscode.CompletionItem(
+      {
+        label: `${collection.namespace}.${collection.name}`,
+        description: `v${collection.version}`,
+      },
+      vscode.CompletionItemKind.Module,
+    );
+    item.detail = `${collection.downloadCount.toLocaleString()} downloads on Galaxy`;
+    item.sortText = String(index).padStart(width, "0");
+    item.range = range;
+    if (collection.deprecated) {
+      item.tags = [vscode.CompletionItemTag.Deprecated];
+    }
+    return item;
+  });
+
+  for (const collection of GitHubCollectionCache.getInstance().getAllCollections()) {
+    const item = new vscode.CompletionItem(
+      {
+        label: `${collection.namespace}.${collection.name}`,
+        description: `GitHub: ${collection.org}`,
+      },
+      vscode.CompletionItemKind.Module,
+    );
+    item.detail = collection.description;
+    item.insertText = collection.installUrl;
+    item.filterText = `${collection.namespace}.${collection.name} ${collection.installUrl}`;
+    item.range = range;
+    items.push(item);
+  }
+
+  // Ask again once the Galaxy catalog has loaded
+  return new vscode.CompletionList(items, !galaxyCache.isLoaded());
+}
+
+function getVersionCompletions(
+  collection: string,
+  range: vscode.Range,
+): vscode.CompletionItem[] {
+  const latest = (
+    findGalaxyCollection(collection) ?? findGitHubCollection(collection)
+  )?.version;
+  const installed =
+    CollectionsService.getInstance().getCollection(collection)?.info.version;
+  const specs: [string, string][] = [];
+  if (latest) {
+    const major = Number(latest.split(".")[0]);
+    specs.push(
+      [latest, "Latest release"],
+      [`>=${latest}`, "Latest release or newer"],
+    );
+    if (!Number.isNaN(major)) {
+      specs.push([`>=${latest},<${major + 1}.0.0`, "Latest major release"]);
+    }
+  }
+  if (installed && installed !== latest) {
+    specs.push([installed, "Installed version"]);
+  }
+  specs.push(["*", "Any version"]);
+
+  return specs.map(([spec, detail], index) => {
+    const item = new vscode.CompletionItem(
+      spec,
+      vscode.CompletionItemKind.Value,
+    );
+    item.detail = detail;
+    item.sortText = String(index);
+    item.range = range;
+    return item;
+  });
+}
+
+function getCollectionHover(
+  requirement: CollectionRequirement,
+): vscode.MarkdownString | undefined {
+  const name = getCollectionName(requirement);
+  if (!name) {
+    return undefined;
+  }
+  const galaxy = findGalaxyCollection(name);
+  const github = findGitHubCollection(requirement.name);
+  const installed = CollectionsService.getInstance().getCollection(name);
+
+  const lines = [`**${name}**`, ""];
+  if (galaxy) {
+    lines.push(
+      `- Latest version: ${galaxy.version}`,
+      `- Downloads: ${galaxy.downloadCount.toLocaleString()}`,
+    );
+    if (galaxy.deprecated) {
+      lines.push("- **Deprecated** on Galaxy");
+    }
+  }
+  if (github) {
+    if (!galaxy) {
+      lines.push(`- Latest version: ${github.version}`);
+    }
+    lines.push(`- Source: [${github.org}/${github.name}](${github.htmlUrl})`);
+  }
+  lines.push(
+    installed ? `- Installed: ${installed.info.version}` : "- Not installed",
+  );
+  if (!galaxy && !github && !installed) {
+    return undefined;
+  }
+  return new vscode.MarkdownString(lines.join("\n"));
+}
+
+// ---------------------------------------------------------------------------
+// Diagnostics
+// ---------------------------------------------------------------------------
+
+function updateDiagnostics(
+  diagnostics: vscode.DiagnosticCollection,
+  document: vscode.TextDocument,
+): void {
+  const file = parseDocument(document);
+  if (!file) {
+    return;
+  }
+  const problems = findRequirementProblems(
+    file,
+    lookupCollection,
+    GalaxyCollectionCache.getInstance().isLoaded(),
+  );
+  diagnostics.set(
+    document.uri,
+    problems.map((problem) => {
+      const diagnostic = new vscode.Diagnostic(
+        toRange(document, problem.range),
+        problem.message,
+        problem.severity === "error"
+          ? vscode.DiagnosticSeverity.Error
+          : vscode.DiagnosticSeverity.Warning,
+      );
+      diagnostic.source = DIAGNOSTIC_SOURCE;
+      return diagnostic;
+    }),
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Install all
+// ---------------------------------------------------------------------------
+
+async function installRequirements(uri?: vscode.Uri): Promise<void> {
+  const document = uri
+    ? await vscode.workspace.openTextDocument(uri)
+    : vscode.window.activeTextEditor?.document;
+  const file = document && parseDocument(document);
+  if (!document || !file) {
+    vscode.window.showWarningMessage(
+      "Open a requirements.yml or galaxy.yml file to install its collections.",
+    );
+    return;
+  }
+
+  const missing = getMissingRequirements(file);
+  const fileName = path.basename(document.fileName);
+  if (missing.length === 0) {
+    vscode.window.showInformationMessage(
+      `All collections of ${fileName} are installed.`,
+    );
+    return;
+  }
+
+  const collectionsService = CollectionsService.getInstance();
+  const failures: string[] = [];
+  const controller = new AbortController();
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Installing collections of ${fileName}`,
+      cancellable: true,
+    },
+    async (progress, token) => {
+      token.onCancellationRequested(() => controller.abort());
+      for (const requirement of missing) {
+        if (controller.signal.aborted) {
+          break;
+        }
+        progress.report({
+          message: requirement.name,
+          increment: 100 / missing.length,
+        });
+        const options = {
+          signal: controller.signal,
+          onOutput: (line: string) => {
+            if (line.trim()) {
+              progress.report({
+                message: `${requirement.name}: ${line.trim()}`,
+              });
+            }
+          },
+        };
+        try {
+          if (requirement.fromGalaxy) {
+            await collectionsService.installCollection(
+              requirement.name,
+              requirement.version,
+              false,
+              options,
+            );
+          } else {
+            // Git sources take their version after a comma
+            await collectionsService.installCollection(
+              requirement.version
+                ? `${requirement.name},${requirement.version}`
+                : requirement.name,
+              undefined,
+              false,
+              options,
+            );
+          }
+        } catch (error) {
+          if (!controller.signal.aborted) {
+            failures.push(`${requirement.name}: ${error}`);
+          }
+        }
+      }
+    },
+  );
+
+  if (failures.length) {
+    vscode.window.showErrorMessage(
+      `Failed to install ${failures.length} collection(s): ${failures.join("; ")}`,
+    );
+  } else if (controller.signal.aborted) {
+    vscode.window.showInformationMessage(
+      `Installation of the collections of ${fileName} cancelled.`,
+    );
+  } else {
+    vscode.window.showInformationMessage(
+      `Installed ${missing.length} collection(s) from ${fileName}.`,
+    );
+  }
+  vscode.commands.executeCommand("ansibleInstalledCollections.refresh");
+}
+
+// ---------------------------------------------------------------------------
+// Registration
+// ---------------------------------------------------------------------------
+
+/**
+ * Add completion, hover, diagnostics and an "Install all" code lens to
+ * `requirements.yml` and `galaxy.yml`, backed by the Galaxy and GitHub
+ * collection caches.
+ */
+export function registerRequirementsSupport(
+  context: vscode.ExtensionContext,
+): void {
+  const diagnostics = vscode.languages.createDiagnosticCollection(
+    "ansible-requirements",
+  );
+  const onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+
+  const refresh = () => {
+    for (const document of vscode.workspace.textDocuments) {
+      updateDiagnostics(diagnostics, document);
+    }
+    onDidChangeCodeLenses.fire();
+  };
+  refresh();
+
+  context.subscriptions.push(
+    diagnostics,
+    onDidChangeCodeLenses,
+    vscode.commands.registerCommand(INSTALL_ALL_COMMAND, installRequirements),
+    vscode.languages.registerCompletionItemProvider(REQUIREMENTS_SELECTOR, {
+      provideCompletionItems(document, position) {
+        const file = parseDocument(document);
+        const value =
+          file && getRequirementsValueAt(file, document.offsetAt(position));
+        if (!value) {
+          return undefined;
+        }
+        const range = toRange(document, value.range);
+        return value.kind === "name"
+          ? getNameCompletions(range)
+          : getVersionCompletions(value.collection ?? "", range);
+      },
+    }),
+    vscode.languages.registerHoverProvider(REQUIREMENTS_SELECTOR, {
+      provideHover(document, position) {
+        const file = parseDocument(document);
+        const value =
+          file && getRequirementsValueAt(file, document.offsetAt(position));
+        const requirement =
+          value?.kind === "name"
+            ? file?.requirements.find(
+                (item) => item.nameRange[0] === value.range[0],
+              )
+            : undefined;
+        const contents = requirement && getCollectionHover(requirement);
+        return contents && value
+          ? new vscode.Hover(contents, toRange(document, value.range))
+          : undefined;
+      },
+    }),
+    vscode.languages.registerCodeLensProvider(REQUIREMENTS_SELECTOR, {
+      onDidChangeCodeLenses: onDidChangeCodeLenses.event,
+      provideCodeLenses(document) {
+        const file = parseDocument(document);
+        if (file?.sectionOffset === undefined) {
+          return [];
+        }
+        const missing = getMissingRequirements(file).length;
+        if (missing === 0) {
+          return [];
+        }
+        const position = document.positionAt(file.sectionOffset);
+        return [
+          new vscode.CodeLens(new vscode.Range(position, position), {
+            title: `$(cloud-download) Install all (${missing} missing)`,
+            command: INSTALL_ALL_COMMAND,
+            arguments: [document.uri],
+          }),
+        ];
+      },
+    }),
+    vscode.workspace.onDidOpenTextDocument((document) =>
+      updateDiagnostics(diagnostics, document),
+    ),
+    vscode.workspace.onDidChangeTextDocument((event) =>
+      updateDiagnostics(diagnostics, event.document),
+    ),
+    vscode.workspace.onDidCloseTextDocument((document) =>
+      diagnostics.delete(document.uri),
+    ),
+    GalaxyCollectionCache.getInstance().onDidLoad(refresh),
+    (CollectionsService.getInstance().onDidChange as vscode.Event<void>)(
+      refresh,
+    ),
+  );
+}
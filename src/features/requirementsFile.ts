@@ -0,0 +1,428 @@
+import * as yaml from "yaml";
+
+const COLLECTION_NAME_REGEX = /^[a-z0-9_]+\.[a-z0-9_]+$/i;
+const VERSION_REGEX = /^\d+(\.\d+)*([-+][0-9A-Za-z.-]+)?$/;
+const CONSTRAINT_REGEX = /^(==|!=|>=|<=|>|<)?\s*(.*)$/;
+const GALAXY_SERVER_REGEX = /^https?:\/\/galaxy\.ansible\.com\b/;
+
+/**
+ * `requirements.yml` lists collections to install, `galaxy.yml` the
+ * dependencies of a collection.
+ */
+export type RequirementsFileKind = "requirements" | "galaxy";
+
+/** A `[start, end)` range of offsets into the file text. */
+export type OffsetRange = [number, number];
+
+/**
+ * A collection listed under `collections:` of a requirements file or under
+ * `dependencies:` of a `galaxy.yml`.
+ */
+export interface CollectionRequirement {
+  /** FQCN of the collection, or its URL or path for other sources. */
+  name: string;
+  nameRange: OffsetRange;
+  /** Version specifier, e.g. `>=2.0.0,<3.0.0`. */
+  version?: string;
+  versionRange?: OffsetRange;
+  /** Whether the collection is installed from Galaxy by its FQCN. */
+  fromGalaxy: boolean;
+}
+
+export interface RequirementsFile {
+  requirements: CollectionRequirement[];
+  /** Offset of the `collections:` or `dependencies:` key. */
+  sectionOffset?: number;
+}
+
+/** The collection name or version specifier being edited at an offset. */
+export interface RequirementsValue {
+  kind: "name" | "version";
+  range: OffsetRange;
+  /** Name of the collection whose version is edited. */
+  collection?: string;
+}
+
+export interface VersionConstraint {
+  operator: "==" | "!=" | ">=" | ">" | "<=" | "<";
+  version: string;
+}
+
+export interface RequirementProblem {
+  message: string;
+  range: OffsetRange;
+  severity: "error" | "warning";
+}
+
+/** What is known about a collection from Galaxy, GitHub and the environment. */
+export interface KnownCollection {
+  latestVersion?: string;
+}
+
+/**
+ * Tell which kind of collection requirements file a path points to, if any.
+ * `requirements.yml` is matched anywhere, including `collections/`.
+ */
+export function getRequirementsFileKind(
+  fileName: string,
+): RequirementsFileKind | undefined {
+  const baseName = fileName.split(/[\\/]/).pop() ?? "";
+  if (/^requirements\.ya?ml$/.test(baseName)) {
+    return "requirements";
+  }
+  if (/^galaxy\.ya?ml$/.test(baseName)) {
+    return "galaxy";
+  }
+  return undefined;
+}
+
+/**
+ * Parse the collections required by a requirements file or `galaxy.yml`,
+ * keeping the offsets of their names and versions. Entries still being
+ * typed, such as `- name:` without a value, are kept with an empty name.
+ */
+export function parseRequirementsFile(
+  text: string,
+  kind: RequirementsFileKind,
+): RequirementsFile {
+  const file: RequirementsFile = { requirements: [] };
+  const doc = yaml.parseDocument(text);
+  if (!yaml.isMap(doc.contents)) {
+    return file;
+  }
+
+  const section = kind === "galaxy" ? "dependencies" : "collections";
+  const pair = doc.contents.items.find(
+    (item) => yaml.isScalar(item.key) && item.key.value === section,
+  );
+  if (!pair || !yaml.isScalar(pair.key)) {
+    return file;
+  }
+  file.sectionOffset = pair.key.range?.[0];
+
+  if (kind === "galaxy") {
+    if (yaml.isMap(pair.value)) {
+      for (const dependency of pair.value.items) {
+        const nameRange = scalarRange(dependency.key, text);
+        if (!nameRange) {
+          continue;
+        }
+        const name = scalarText(dependency.key);
+        file.requirements.push({
+          name,
+          nameRange,
+          version: scalarText(dependency.value) || undefined,
+          versionRange: scalarRange(dependency.value, text),
+          fromGalaxy: !name || COLLECTION_NAME_REGEX.test(name),
+        });
+      }
+    } else if (yaml.isScalar(pair.value)) {
+      // A first dependency typed without its colon yet
+      const nameRange = scalarRange(pair.value, text);
+      if (nameRange) {
+        file.requirements.push({
+          name: scalarText(pair.value),
+          nameRange,
+          fromGalaxy: true,
+        });
+      }
+    }
+    return file;
+  }
+
+  if (!yaml.isSeq(pair.value)) {
+    return file;
+  }
+  for (const item of pair.value.items) {
+    const requirement = yaml.isMap(item)
+      ? parseRequirementMap(item, text)
+      : parseRequirementString(item, text);
+    if (requirement) {
+      file.requirements.push(requirement);
+    }
+  }
+  return file;
+}
+
+function parseRequirementString(
+  node: unknown,
+  text: string,
+): CollectionRequirement | undefined {
+  const nameRange = scalarRange(node, text);
+  if (!nameRange) {
+    return undefined;
+  }
+  const name = scalarText(node);
+  return {
+    name,
+    nameRange,
+    fromGalaxy: !name || COLLECTION_NAME_REGEX.test(name),
+  };
+}
+
+function parseRequirementMap(
+  node: yaml.YAMLMap,
+  text: string,
+): CollectionRequirement | undefined {
+  const nameNode = node.get("name", true);
+  const nameRange = scalarRange(nameNode, text);
+  if (!nameRange) {
+    return undefined;
+  }
+  const name = scalarText(nameNode);
+  const versionNode = node.get("version", true);
+  const type = node.get("type");
+  const source = node.get("source");
+  return {
+    name,
+    nameRange,
+    version: scalarText(versionNode) || undefined,
+    versionRange: scalarRange(versionNode, text),
+    fromGalaxy:
+      (type === undefined || type === null || type === "galaxy") &&
+      (typeof source !== "string" || GALAXY_SERVER_REGEX.test(source)) &&
+      (!name || COLLECTION_NAME_REGEX.test(name)),
+  };
+}
+
+function scalarText(node: unknown): string {
+  return yaml.isScalar(node) && node.value !== null
+    ? String(node.value).trim()
+    : "";
+}
+
+/** Range of a scalar without its quotes. */
+function scalarRange(node: unknown, text: string): OffsetRange | undefined {
+  if (!yaml.isScalar(node) || !node.range) {
+    return undefined;
+  }
+  const [start, end] = node.range;
+  if (end - start >= 2 && `"'`.includes(text[start])) {
+    return [start + 1, end - 1];
+  }
+  return [start, end];
+}
+
+/**
+ * Find the collection name or version specifier at an offset, including an
+ * empty value right after its key.
+ */
+export function getRequirementsValueAt(
+  file: RequirementsFile,
+  offset: number,
+): RequirementsValue | undefined {
+  for (const requirement of file.requirements) {
+    if (contains(requirement.nameRange, offset)) {
+      return { kind: "name", range: requirement.nameRange };
+    }
+    if (
+      requirement.versionRange &&
+      contains(requirement.versionRange, offset)
+    ) {
+      return {
+        kind: "version",
+        range: requirement.versionRange,
+        collection: requirement.name,
+      };
+    }
+  }
+  return undefined;
+}
+
+function contains(range: OffsetRange, offset: number): boolean {
+  return range[0] <= offset && offset <= range[1];
+}
+
+/**
+ * Compare two versions part by part, numerically. A pre-release sorts
+ * before its release.
+ */
+export function compareVersions(a: string, b: string): number {
+  const [aRelease, aPre] = splitPreRelease(a);
+  const [bRelease, bPre] = splitPreRelease(b);
+  const aParts = aRelease.split(".").map(Number);
+  const bParts = bRelease.split(".").map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const diff = (aParts[i] ?? 0) - (bParts[i] ?? 0);
+    if (diff) {
+      return Math.sign(diff);
+    }
+  }
+  if (aPre === bPre) {
+    return 0;
+  }
+  if (!aPre || !bPre) {
+    return aPre ? -1 : 1;
+  }
+  return aPre < bPre ? -1 : 1;
+}
+
+function splitPreRelease(version: string): [string, string] {
+  const withoutBuild = version.split("+")[0];
+  const dash = withoutBuild.indexOf("-");
+  return dash < 0
+    ? [withoutBuild, ""]
+    : [withoutBuild.slice(0, dash), withoutBuild.slice(dash + 1)];
+}
+
+/**
+ * Parse a version specifier such as `*`, `1.2.3` or `>=1.0.0,!=1.1.0,<2.0.0`
+ * into its constraints. Returns a message for an invalid specifier.
+ */
+export function parseVersionSpec(spec: string): VersionConstraint[] | string {
+  const constraints: VersionConstraint[] = [];
+  for (const part of spec.split(",").map((item) => item.trim())) {
+    if (part === "*") {
+      continue;
+    }
+    const [, operator = "==", version] = CONSTRAINT_REGEX.exec(part) ?? [];
+    if (!VERSION_REGEX.test(version)) {
+      return `Invalid version specifier '${part}'.`;
+    }
+    constraints.push({
+      operator: operator as VersionConstraint["operator"],
+      version,
+    });
+  }
+  return constraints;
+}
+
+export function satisfiesVersion(
+  version: string,
+  constraints: VersionConstraint[],
+): boolean {
+  return constraints.every(({ operator, version: bound }) => {
+    const order = compareVersions(version, bound);
+    switch (operator) {
+      case "==":
+        return order === 0;
+      case "!=":
+        return order !== 0;
+      case ">=":
+        return order >= 0;
+      case ">":
+        return order > 0;
+      case "<=":
+        return order <= 0;
+      case "<":
+        return order < 0;
+    }
+  });
+}
+
+/**
+ * The lowest version a set of constraints allows, and whether that bound is
+ * itself excluded.
+ */
+function getLowerBound(
+  constraints: VersionConstraint[],
+): { version: string; exclusive: boolean } | undefined {
+  let bound: { version: string; exclusive: boolean } | undefined;
+  for (const { operator, version } of constraints) {
+    if (operator !== ">=" && operator !== ">" && operator !== "==") {
+      continue;
+    }
+    const order = bound ? compareVersions(version, bound.version) : 1;
+    if (order > 0 || (order === 0 && operator === ">")) {
+      bound = { version, exclusive: operator === ">" };
+    }
+  }
+  return bound;
+}
+
+/**
+ * Tell why no version can satisfy the constraints, if so. Only the bounds
+ * are checked, as the releases between them are not known.
+ */
+export function findUnsatisfiableReason(
+  constraints: VersionConstraint[],
+): string | undefined {
+  const pins = constraints.filter(({ operator }) => operator === "==");
+  if (pins.length) {
+    const pin = pins[0].version;
+    return satisfiesVersion(pin, constraints)
+      ? undefined
+      : `No version can satisfy this range: it pins ${pin}, which the other constraints exclude.`;
+  }
+
+  const lower = getLowerBound(constraints);
+  for (const { operator, version } of constraints) {
+    if (!lower || (operator !== "<=" && operator !== "<")) {
+      continue;
+    }
+    const order = compareVersions(lower.version, version);
+    if (
+      order > 0 ||
+      (order === 0 && (lower.exclusive || operator === "<")) ||
+      (order === 0 &&
+        constraints.some(
+          (constraint) =>
+            constraint.operator === "!=" &&
+            compareVersions(constraint.version, version) === 0,
+        ))
+    ) {
+      return `No version can satisfy this range: ${lower.exclusive ? ">" : ">="}${lower.version} conflicts with ${operator}${version}.`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Check the names and version specifiers of the required collections.
+ *
+ * @param lookup - finds a collection on Galaxy or GitHub by name
+ * @param catalogLoaded - whether the Galaxy catalog is loaded, so that a
+ * collection missing from it can be reported as unknown
+ */
+export function findRequirementProblems(
+  file: RequirementsFile,
+  lookup: (name: string) => KnownCollection | undefined,
+  catalogLoaded: boolean,
+): RequirementProblem[] {
+  const problems: RequirementProblem[] = [];
+  for (const requirement of file.requirements) {
+    if (!requirement.name || !requirement.fromGalaxy) {
+      continue;
+    }
+    const known = lookup(requirement.name);
+    if (!known && catalogLoaded) {
+      problems.push({
+        message: `Collection '${requirement.name}' was not found on Galaxy.`,
+        range: requirement.nameRange,
+        severity: "warning",
+      });
+    }
+
+    if (!requirement.version || !requirement.versionRange) {
+      continue;
+    }
+    const constraints = parseVersionSpec(requirement.version);
+    const reason =
+      typeof constraints === "string"
+        ? constraints
+        : findUnsatisfiableReason(constraints);
+    if (reason) {
+      problems.push({
+        message: reason,
+        range: requirement.versionRange,
+        severity: "error",
+      });
+      continue;
+    }
+
+    const latest = known?.latestVersion;
+    const lower = getLowerBound(constraints as VersionConstraint[]);
+    if (
+      latest &&
+      lower &&
+      compareVersions(lower.version, latest) >= (lower.exclusive ? 0 : 1)
+    ) {
+      problems.push({
+        message: `No release of '${requirement.name}' satisfies '${requirement.version}': the latest is ${latest}.`,
+        range: requirement.versionRange,
+        severity: "warning",
+      });
+    }
+  }
+  return problems;
+}
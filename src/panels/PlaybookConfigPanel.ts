@@ -1,19 +1,31 @@
 import * as vscode from 'vscode';
+import type { LanguageClient } from 'vscode-languageclient/node';
 import { PlaybooksService, PlaybookInfo, PlaybookConfig } from '../services/PlaybooksService';
 import { TerminalService } from '../services/TerminalService';
 import { log } from '../extension';
 
+/**
+ * A tag of the playbook with the tasks it selects, as listed by the language
+ * server for the `list/ansible-tags` request.
+ */
+interface PlaybookTag {
+    name: string;
+    tasks: { name: string; uri: string; line: number }[];
+}
+
 export class PlaybookConfigPanel {
     public static currentPanel: PlaybookConfigPanel | undefined;
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
     private readonly _playbook: PlaybookInfo;
     private readonly _isGlobal: boolean;
+    private readonly _languageClient: LanguageClient | undefined;
     private _disposables: vscode.Disposable[] = [];
 
     public static show(
         extensionUri: vscode.Uri,
         playbook?: PlaybookInfo,
+        languageClient?: LanguageClient,
     ): void {
         const isGlobal = !playbook;
         const title = isGlobal ? 'Playbook Defaults' : `Config: ${playbook!.name}`;
@@ -39,6 +51,7 @@ export class PlaybookConfigPanel {
             extensionUri,
             playbook,
             isGlobal,
+            languageClient,
         );
     }
 
@@ -47,6 +60,7 @@ export class PlaybookConfigPanel {
         extensionUri: vscode.Uri,
         playbook: PlaybookInfo | undefined,
         isGlobal: boolean,
+        languageClient: LanguageClient | undefined,
     ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
@@ -58,6 +72,7 @@ export class PlaybookConfigPanel {
             plays: [] 
         };
         this._isGlobal = isGlobal;
+        this._languageClient = languageClient;
 
         this._panel.webview.html = this._getHtml();
 
@@ -80,6 +95,17 @@ export class PlaybookConfigPanel {
                             await this._runPlaybook(message.config);
                         }
                         break;
+                    case 'loadTags':
+                        await this._sendTags();
+                        break;
+                    case 'openTask': {
+                        const document = await vscode.workspace.openTextDocument(vscode.Uri.parse(message.uri));
+                        const position = new vscode.Position(message.line, 0);
+                        await vscode.window.showTextDocument(document, {
+                            selection: new vscode.Range(position, position),
+                        });
+                        break;
+                    }
                     case 'resetToDefaults':
                         // Reload with global defaults
                         this._panel.webview.html = this._getHtml();
@@ -124,6 +150,24 @@ export class PlaybookConfigPanel {
         }
     }
 
+    /**
+     * Sends the tags of the playbook to the webview, or an empty list when the
+     * language server cannot provide them.
+     */
+    private async _sendTags(): Promise<void> {
+        let tags: PlaybookTag[] = [];
+        if (!this._isGlobal && this._languageClient) {
+            try {
+                tags = await this._languageClient.sendRequest<PlaybookTag[]>('list/ansible-tags', {
+                    uri: vscode.Uri.file(this._playbook.path).toString(),
+                });
+            } catch (error) {
+                log(`PlaybookConfigPanel: Failed to list tags: ${error}`);
+            }
+        }
+        this._panel.webview.postMessage({ command: 'tags', tags });
+    }
+
     private _getHtml(): string {
         const service = PlaybooksService.getInstance();
         const config = this._isGlobal 
@@ -391,6 +435,65 @@ export class PlaybookConfigPanel {
         .button-row-left {
             margin-right: auto;
         }
+        
+        .tag-list {
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            max-height: 260px;
+            overflow-y: auto;
+        }
+        
+        .tag-list .empty {
+            padding: 8px 12px;
+            font-size: 12px;
+            color: var(--desc-fg, var(--vscode-descriptionForeground));
+        }
+        
+        .tag-item summary {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            padding: 6px 12px;
+            cursor: pointer;
+            border-bottom: 1px solid var(--border);
+        }
+        
+        .tag-item .tag-name {
+            font-family: monospace;
+            font-weight: 600;
+        }
+        
+        .tag-item .tag-count {
+            flex: 1;
+            font-size: 11px;
+            color: var(--desc-fg, var(--vscode-descriptionForeground));
+        }
+        
+        .tag-item button {
+            background: transparent;
+            color: var(--fg);
+            border: 1px solid var(--border);
+            border-radius: 4px;
+            padding: 2px 8px;
+            font-size: 11px;
+            cursor: pointer;
+        }
+        
+        .tag-item button.active {
+            background: var(--button-bg);
+            color: var(--button-fg);
+        }
+        
+        .tag-item ul {
+            margin: 0;
+            padding: 6px 12px 6px 32px;
+            font-size: 12px;
+        }
+        
+        .tag-item li a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
     </style>
 </head>
 <body>
@@ -439,6 +542,11 @@ export class PlaybookConfigPanel {
                     <div class="help-text">Skip tasks with these tags</div>
                 </div>
             </div>
+            ${!this._isGlobal ? `<div class="form-group">
+                <label>Tags in this Playbook</label>
+                <div id="tagList" class="tag-list"><div class="empty">Loading tags…</div></div>
+                <div class="help-text">Expand a tag to see the tasks it selects</div>
+            </div>` : ''}
             <div class="form-group">
                 <label>Extra Variables (-e)</label>
                 <vscode-textfield id="extraVars" placeholder="key=value or @file.yml"></vscode-textfield>
@@ -688,6 +796,88 @@ export class PlaybookConfigPanel {
             document.getElementById('preview').textContent = args.join(' ');
         }
         
+        // Tag pick-list
+        function getFieldTags(field) {
+            return field.value ? field.value.split(',').map(s => s.trim()).filter(s => s) : [];
+        }
+        
+        function toggleTag(field, tag) {
+            const tags = getFieldTags(field);
+            const index = tags.indexOf(tag);
+            if (index >= 0) {
+                tags.splice(index, 1);
+            } else {
+                tags.push(tag);
+            }
+            field.value = tags.join(',');
+            updatePreview();
+            updateTagButtons();
+        }
+        
+        function updateTagButtons() {
+            document.querySelectorAll('.tag-item button').forEach(button => {
+                const field = fields[button.dataset.field];
+                button.classList.toggle('active', getFieldTags(field).includes(button.dataset.tag));
+            });
+        }
+        
+        function renderTags(tags) {
+            const tagList = document.getElementById('tagList');
+            if (!tagList) return;
+            tagList.textContent = '';
+            if (tags.length === 0) {
+                const empty = document.createElement('div');
+                empty.className = 'empty';
+                empty.textContent = 'No tags found';
+                tagList.appendChild(empty);
+                return;
+            }
+            for (const tag of tags) {
+                const item = document.createElement('details');
+                item.className = 'tag-item';
+                const summary = document.createElement('summary');
+                const name = document.createElement('span');
+                name.className = 'tag-name';
+                name.textContent = tag.name;
+                const count = document.createElement('span');
+                count.className = 'tag-count';
+                count.textContent = tag.tasks.length + (tag.tasks.length === 1 ? ' task' : ' tasks');
+                summary.append(name, count);
+                for (const [field, label] of [['tags', 'Run'], ['skipTags', 'Skip']]) {
+                    const button = document.createElement('button');
+                    button.textContent = label;
+                    button.dataset.field = field;
+                    button.dataset.tag = tag.name;
+                    button.addEventListener('click', event => {
+                        event.preventDefault();
+                        toggleTag(fields[field], tag.name);
+                    });
+                    summary.appendChild(button);
+                }
+                const list = document.createElement('ul');
+                for (const task of tag.tasks) {
+                    const entry = document.createElement('li');
+                    const link = document.createElement('a');
+                    link.textContent = task.name;
+                    link.title = decodeURIComponent(new URL(task.uri).pathname) + ':' + (task.line + 1);
+                    link.addEventListener('click', () => {
+                        vscode.postMessage({ command: 'openTask', uri: task.uri, line: task.line });
+                    });
+                    entry.appendChild(link);
+                    list.appendChild(entry);
+                }
+                item.append(summary, list);
+                tagList.appendChild(item);
+            }
+            updateTagButtons();
+        }
+        
+        window.addEventListener('message', event => {
+            if (event.data.command === 'tags') {
+                renderTags(event.data.tags);
+            }
+        });
+        
         // Add change listeners to all fields
         Object.values(fields).forEach(field => {
             if (field) {
@@ -761,6 +951,11 @@ export class PlaybookConfigPanel {
         // Initialize
         loadConfig(initialConfig);
         updatePreview();
+        if (!isGlobal) {
+            fields.tags.addEventListener('input', updateTagButtons);
+            fields.skipTags.addEventListener('input', updateTagButtons);
+            vscode.postMessage({ command: 'loadTags' });
+        }
     </script>
 </body>
 </html>`;
@@ -17,6 +17,17 @@ export interface PlaybookInfo {
     plays: PlaybookPlay[];
 }
 
+/**
+ * Run request sent by the language server's play code lenses, which cannot
+ * pass a PlaybookInfo.
+ */
+export interface PlaybookRunRequest {
+    uri: string;
+    limit?: string;
+    startAtTask?: string;
+    check?: boolean;
+}
+
 export interface PlaybookConfig {
     inventory?: string[];
     limit?: string;
@@ -107,6 +118,31 @@ export class PlaybooksService {
         return this._playbooks.get(relativePath);
     }
 
+    /**
+     * Finds the discovered playbook for a file, or describes it on the fly
+     * when discovery has not run yet or the file is not a known playbook.
+     */
+    public resolvePlaybook(fileUri: vscode.Uri): PlaybookInfo | undefined {
+        const known = this.getPlaybooks().find((p) => p.path === fileUri.fsPath);
+        if (known) {
+            return known;
+        }
+        const folder = vscode.workspace.getWorkspaceFolder(fileUri);
+        if (!folder) {
+            return undefined;
+        }
+        const relativePath = path.relative(folder.uri.fsPath, fileUri.fsPath);
+        return {
+            name: path.basename(fileUri.fsPath, path.extname(fileUri.fsPath)),
+            path: fileUri.fsPath,
+            relativePath: (vscode.workspace.workspaceFolders?.length ?? 0) > 1
+                ? `${folder.name}/${relativePath}`
+                : relativePath,
+            workspaceFolder: folder.uri,
+            plays: [],
+        };
+    }
+
     public async refresh(): Promise<void> {
         if (this._loading) {
             return;
@@ -372,7 +408,7 @@ export class PlaybooksService {
 
         // Limit
         if (config.limit) {
-            args.push('-l', config.limit);
+            args.push('-l', quoteArgument(config.limit));
         }
 
         // Tags
@@ -460,7 +496,7 @@ export class PlaybooksService {
 
         // Start at task
         if (config.startAtTask) {
-            args.push('--start-at-task', config.startAtTask);
+            args.push('--start-at-task', quoteArgument(config.startAtTask));
         }
 
         // Step
@@ -534,3 +570,14 @@ Note any additional external dependencies (Galaxy roles, required variables, inv
 This prompt should be the final thing in your response so the user can easily respond with their choice.`;
     }
 }
+
+/**
+ * Quotes a value for the shell unless it is already quoted or only contains
+ * characters that need no quoting.
+ */
+function quoteArgument(value: string): string {
+    if (/^[\w@%+=,./:-]+$/.test(value) || /^(['"]).*\1$/.test(value)) {
+        return value;
+    }
+    return `'${value.replace(/'/g, `'\\''`)}'`;
+}
@@ -458,14 +458,24 @@ export class CollectionSourcesProvider implements vscode.TreeDataProvider<Collec
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: `Installing ${installUrl}...`,
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (progress, token) => {
             const { getCommandService } = await import('@ansible/core');
             const commandService = getCommandService();
+            const controller = new AbortController();
+            token.onCancellationRequested(() => controller.abort());
 
-            const result = await commandService.runTool('ade', ['install', installUrl]);
+            const install = commandService.spawnTool('ade', ['install', installUrl], { signal: controller.signal });
+            install.onStdoutLine((line) => {
+                if (line.trim()) {
+                    progress.report({ message: line.trim() });
+                }
+            });
+            const result = await install.result;
             
-            if (result.exitCode === 0) {
+            if (result.aborted) {
+                vscode.window.showInformationMessage(`Installation of ${installUrl} cancelled`);
+            } else if (result.exitCode === 0) {
                 vscode.window.showInformationMessage(`Successfully installed ${installUrl}`);
                 // Refresh installed collections view
                 vscode.commands.executeCommand('ansibleInstalledCollections.refresh');
@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareVersions,
+  findRequirementProblems,
+  findUnsatisfiableReason,
+  getRequirementsFileKind,
+  getRequirementsValueAt,
+  parseRequirementsFile,
+  parseVersionSpec,
+  VersionConstraint,
+} from "../../../src/features/requirementsFile";
+
+function constraints(spec: string): VersionConstraint[] {
+  return parseVersionSpec(spec) as VersionConstraint[];
+}
+
+describe("getRequirementsFileKind", () => {
+  it("recognizes requirements and galaxy files by name", () => {
+    expect(getRequirementsFileKind("/ws/requirements.yml")).toBe(
+      "requirements",
+    );
+    expect(getRequirementsFileKind("/ws/collections/requirements.yaml")).toBe(
+      "requirements",
+    );
+    expect(getRequirementsFileKind("C:\\ws\\galaxy.yml")).toBe("galaxy");
+    expect(getRequirementsFileKind("/ws/site.yml")).toBeUndefined();
+  });
+});
+
+describe("parseRequirementsFile", () => {
+  it("reads string and map entries of requirements.yml", () => {
+    const text = [
+      "collections:",
+      "  - community.general",
+      '  - name: "ansible.posix"',
+      "    version: '>=1.5.0'",
+      "  - name: https://github.com/org/repo.git",
+      "    type: git",
+      "roles:",
+      "  - name: geerlingguy.nginx",
+      "",
+    ].join("\n");
+    const file = parseRequirementsFile(text, "requirements");
+
+    expect(file.sectionOffset).toBe(0);
+    expect(
+      file.requirements.map((r) => [r.name, r.version, r.fromGalaxy]),
+    ).toEqual([
+      ["community.general", undefined, true],
+      ["ansible.posix", ">=1.5.0", true],
+      ["https://github.com/org/repo.git", undefined, false],
+    ]);
+    const [start, end] = file.requirements[1].nameRange;
+    expect(text.slice(start, end)).toBe("ansible.posix");
+    const [vStart, vEnd] = file.requirements[1].versionRange!;
+    expect(text.slice(vStart, vEnd)).toBe(">=1.5.0");
+  });
+
+  it("reads the dependencies of galaxy.yml", () => {
+    const text = [
+      "namespace: my",
+      "name: collection",
+      "dependencies:",
+      '  community.general: ">=7.0.0"',
+      "  ansible.utils: '*'",
+      "",
+    ].join("\n");
+    const file = parseRequirementsFile(text, "galaxy");
+
+    expect(file.sectionOffset).toBe(text.indexOf("dependencies"));
+    expect(file.requirements.map((r) => [r.name, r.version])).toEqual([
+      ["community.general", ">=7.0.0"],
+      ["ansible.utils", "*"],
+    ]);
+  });
+
+  it("finds the value being typed", () => {
+    const text = ["collections:", "  - name: comm", "    version: ", ""].join(
+      "\n",
+    );
+    const file = parseRequirementsFile(text, "requirements");
+
+    expect(getRequirementsValueAt(file, text.indexOf("comm") + 4)).toEqual({
+      kind: "name",
+      range: [23, 27],
+    });
+    expect(getRequirementsValueAt(file, text.length - 1)).toEqual({
+      kind: "version",
+      range: [41, 41],
+      collection: "comm",
+    });
+    expect(getRequirementsValueAt(file, 3)).toBeUndefined();
+  });
+});
+
+describe("version specifiers", () => {
+  it("compares versions numerically with pre-releases first", () => {
+    expect(compareVersions("1.10.0", "1.9.0")).toBe(1);
+    expect(compareVersions("2.0", "2.0.0")).toBe(0);
+    expect(compareVersions("2.0.0-beta1", "2.0.0")).toBe(-1);
+    expect(compareVersions("1.0.0+build", "1.0.0")).toBe(0);
+  });
+
+  it("parses constraints and reports invalid ones", () => {
+    expect(parseVersionSpec(">=1.0.0, !=1.2.0,<2")).toEqual([
+      { operator: ">=", version: "1.0.0" },
+      { operator: "!=", version: "1.2.0" },
+      { operator: "<", version: "2" },
+    ]);
+    expect(parseVersionSpec("*")).toEqual([]);
+    expect(parseVersionSpec("1.0.0")).toEqual([
+      { operator: "==", version: "1.0.0" },
+    ]);
+    expect(parseVersionSpec("~=1.0")).toBe(
+      "Invalid version specifier '~=1.0'.",
+    );
+  });
+
+  it("detects ranges no version satisfies", () => {
+    expect(findUnsatisfiableReason(constraints(">=1.0.0,<2.0.0"))).toBe(
+      undefined,
+    );
+    expect(findUnsatisfiableReason(constraints(">=2.0.0,<2.0.0"))).toBe(
+      "No version can satisfy this range: >=2.0.0 conflicts with <2.0.0.",
+    );
+    expect(
+      findUnsatisfiableReason(constraints(">=2.0.0,<=2.0.0,!=2.0.0")),
+    ).toBe(
+      "No version can satisfy this range: >=2.0.0 conflicts with <=2.0.0.",
+    );
+    expect(findUnsatisfiableReason(constraints("1.0.0,>=1.5.0"))).toBe(
+      "No version can satisfy this range: it pins 1.0.0, which the other constraints exclude.",
+    );
+  });
+});
+
+describe("findRequirementProblems", () => {
+  const text = [
+    "collections:",
+    "  - name: community.general",
+    "    version: '>=99.0.0'",
+    "  - name: nobody.nothing",
+    "  - name: ansible.posix",
+    "    version: '>2.0,<1.0'",
+    "  - name: git+https://example.com/repo.git",
+    "",
+  ].join("\n");
+  const file = parseRequirementsFile(text, "requirements");
+  const lookup = (name: string) =>
+    ({
+      "community.general": { latestVersion: "9.1.0" },
+      "ansible.posix": { latestVersion: "1.6.0" },
+    })[name];
+
+  it("reports unknown collections and unsatisfiable versions", () => {
+    const problems = findRequirementProblems(file, lookup, true);
+    expect(
+      problems.map((p) => [
+        text.slice(p.range[0], p.range[1]),
+        p.severity,
+        p.message,
+      ]),
+    ).toEqual([
+      [
+        ">=99.0.0",
+        "warning",
+        "No release of 'community.general' satisfies '>=99.0.0': the latest is 9.1.0.",
+      ],
+      [
+        "nobody.nothing",
+        "warning",
+        "Collection 'nobody.nothing' was not found on Galaxy.",
+      ],
+      [
+        ">2.0,<1.0",
+        "error",
+        "No version can satisfy this range: >2.0 conflicts with <1.0.",
+      ],
+    ]);
+  });
+
+  it("does not report unknown collections before Galaxy is loaded", () => {
+    expect(
+      findRequirementProblems(file, lookup, false).map((p) => p.severity),
+    ).toEqual(["warning", "error"]);
+  });
+});